@@ -0,0 +1,127 @@
+/**
+ * Audit log — append-only JSONL record of every mutating tool call.
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  project: string;
+  arguments: Record<string, unknown>;
+  dry_run: boolean;
+  action_ids: number[];
+  resources: Array<{ id: number; type: string }>;
+  success: boolean;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  resource_id?: number | string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export class AuditQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditQueryError';
+  }
+}
+
+const SECRET_KEY_PATTERN = /password|passwd|secret|token|private_key|user_data|authorization/i;
+
+/**
+ * Replace values of secret-looking keys (recursively) with "[REDACTED]".
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      result[key] = SECRET_KEY_PATTERN.test(key) && v !== undefined && v !== null ? '[REDACTED]' : redactSecrets(v);
+    }
+    return result;
+  }
+  return value;
+}
+
+export class AuditLog {
+  // Appends are chained so entries never interleave
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(public readonly path: string) {}
+
+  /**
+   * Append an entry. Write failures are reported on stderr but never fail
+   * the tool call being audited.
+   */
+  record(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify({ ...entry, arguments: redactSecrets(entry.arguments) }) + '\n';
+    this.pending = this.pending
+      .then(() => appendFile(this.path, line, { encoding: 'utf8', mode: 0o600 }))
+      .catch((error) => {
+        console.error(`[Audit] Failed to write ${this.path}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return this.pending;
+  }
+
+  /**
+   * Return matching entries, most recent last, limited to the newest `limit`.
+   * Throws an AuditQueryError if `until` is before `since`.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const since = query.since ? Date.parse(query.since) : null;
+    const until = query.until ? Date.parse(query.until) : null;
+    if (since !== null && until !== null && until < since) {
+      throw new AuditQueryError(`The end of the range (${query.until}) must not be before its start (${query.since})`);
+    }
+
+    await this.pending;
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const resourceId = query.resource_id !== undefined ? String(query.resource_id) : null;
+
+    const entries = content
+      .split('\n')
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          return [];
+        }
+      })
+      .filter((e) => {
+        if (query.tool && e.tool !== query.tool) return false;
+        const time = Date.parse(e.timestamp);
+        if (since !== null && time < since) return false;
+        if (until !== null && time > until) return false;
+        if (resourceId !== null && !referencesResource(e, resourceId)) return false;
+        return true;
+      });
+
+    return entries.slice(Math.max(entries.length - (query.limit ?? 50), 0));
+  }
+}
+
+/** Whether an entry's arguments, actions or action resources mention `id`. */
+function referencesResource(entry: AuditEntry, id: string): boolean {
+  if (entry.resources.some((r) => String(r.id) === id)) return true;
+  if (entry.action_ids.some((a) => String(a) === id)) return true;
+  const search = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.some(search);
+    if (value && typeof value === 'object') return Object.values(value).some(search);
+    return String(value) === id;
+  };
+  return search(entry.arguments);
+}
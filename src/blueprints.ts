@@ -0,0 +1,495 @@
+/**
+ * Server blueprints — named YAML or JSON files (one per blueprint, in
+ * `HETZNER_BLUEPRINTS_DIR`) describing a server and the resources around
+ * it: SSH keys, firewalls, networks, volumes and a placement group.
+ *
+ * Dependencies are either references to existing resources (name, ID or
+ * label selector, see resolver.ts) or inline definitions, which are reused
+ * when a resource of that name exists and created otherwise. `{{name}}` in
+ * any string is replaced with the server's name, so volume names and
+ * cloud-init can be per-server.
+ *
+ * Planning checks every reference against the project without changing
+ * anything; provisioning runs the plan in dependency order: placement
+ * group, networks, firewalls, the server, then volumes.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+import { DryRunInterception, type HetznerAction } from './clients/common.js';
+import { enforceLabelGuard, type LabelGuardConfig } from './guards.js';
+import { resolveResource, type ResourceType } from './resolver.js';
+import {
+  firewallRuleInputSchema,
+  labelsInputSchema,
+  networkSubnetInputSchema,
+  type CloudImage,
+  type CloudServer,
+  type CloudServerType,
+  type CloudVolume,
+} from './types/cloud.js';
+
+export class BlueprintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlueprintError';
+  }
+}
+
+// ── Schema ──────────────────────────────────────────────────────────────────
+
+const referenceSchema = z.union([z.string().min(1), z.number().int()]);
+
+const inlineFirewallSchema = z.object({
+  name: z.string().min(1),
+  rules: z.array(firewallRuleInputSchema).default([]),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const inlineNetworkSchema = z.object({
+  name: z.string().min(1),
+  ip_range: z.string(),
+  subnets: z.array(networkSubnetInputSchema).optional(),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const inlineVolumeSchema = z.object({
+  name: z.string().min(1),
+  size: z.number().int().min(10),
+  format: z.enum(['ext4', 'xfs']).optional(),
+  automount: z.boolean().default(true),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const inlinePlacementGroupSchema = z.object({
+  name: z.string().min(1),
+  type: z.literal('spread').default('spread'),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+export const blueprintSchema = z.object({
+  description: z.string().optional(),
+  server_type: z.string().min(1),
+  image: z.union([z.string().min(1), z.number().int()]),
+  location: z.string().optional(),
+  datacenter: z.string().optional(),
+  ssh_keys: z.array(referenceSchema).default([]),
+  firewalls: z.array(z.union([referenceSchema, inlineFirewallSchema])).default([]),
+  networks: z.array(z.union([referenceSchema, inlineNetworkSchema])).default([]),
+  volumes: z.array(z.union([referenceSchema, inlineVolumeSchema])).default([]),
+  placement_group: z.union([referenceSchema, inlinePlacementGroupSchema]).optional(),
+  user_data: z.string().optional().describe('cloud-init user data'),
+  labels: labelsInputSchema.optional(),
+  public_net: z.object({
+    enable_ipv4: z.boolean().default(true),
+    enable_ipv6: z.boolean().default(true),
+  }).strict().optional(),
+  start_after_create: z.boolean().default(true),
+}).strict();
+export type BlueprintSpec = z.infer<typeof blueprintSchema>;
+
+export interface Blueprint {
+  /** File name without extension. */
+  name: string;
+  file: string;
+  spec: BlueprintSpec;
+}
+
+export interface BlueprintCatalog {
+  blueprints: Blueprint[];
+  /** Files that could not be read or failed validation. */
+  errors: Array<{ file: string; message: string }>;
+}
+
+// ── Loading ─────────────────────────────────────────────────────────────────
+
+const EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Read and validate every blueprint file in `dir`. Files are re-read on each
+ * call, so edits take effect without a restart.
+ */
+export function loadBlueprints(dir: string): BlueprintCatalog {
+  const catalog: BlueprintCatalog = { blueprints: [], errors: [] };
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => EXTENSIONS.includes(extname(f))).sort();
+  } catch (error) {
+    throw new BlueprintError(`Cannot read blueprints directory ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const file of files) {
+    const name = basename(file, extname(file));
+    if (catalog.blueprints.some((b) => b.name === name)) {
+      catalog.errors.push({ file, message: `Another file already defines blueprint "${name}"` });
+      continue;
+    }
+    try {
+      const source = readFileSync(join(dir, file), 'utf8');
+      const data = extname(file) === '.json' ? JSON.parse(source) as unknown : parseYaml(source);
+      catalog.blueprints.push({ name, file, spec: parseSpec(data) });
+    } catch (error) {
+      catalog.errors.push({ file, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return catalog;
+}
+
+function parseSpec(data: unknown): BlueprintSpec {
+  const parsed = blueprintSchema.safeParse(data);
+  if (parsed.success) return parsed.data;
+  const issues = parsed.error.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message));
+  throw new BlueprintError(`Invalid blueprint: ${issues.join('; ')}`);
+}
+
+/**
+ * Look up one blueprint by name. A file that exists but failed to load is
+ * reported with its error.
+ */
+export function findBlueprint(dir: string, name: string): Blueprint {
+  const catalog = loadBlueprints(dir);
+  const found = catalog.blueprints.find((b) => b.name === name);
+  if (found) return found;
+  const failed = catalog.errors.find((e) => basename(e.file, extname(e.file)) === name);
+  if (failed) throw new BlueprintError(`Blueprint "${name}" (${failed.file}) could not be loaded: ${failed.message}`);
+  const available = catalog.blueprints.map((b) => b.name).join(', ') || 'none';
+  throw new BlueprintError(`No blueprint named "${name}". Available: ${available}`);
+}
+
+/**
+ * The blueprint's spec for one server: `{{name}}` replaced in every string,
+ * and the location and labels overridden when given.
+ */
+export function instantiateBlueprint(
+  blueprint: Blueprint,
+  serverName: string,
+  overrides: { location?: string; labels?: Record<string, string> } = {},
+): BlueprintSpec {
+  const substitute = (value: unknown): unknown => {
+    if (typeof value === 'string') return value.split('{{name}}').join(serverName);
+    if (Array.isArray(value)) return value.map(substitute);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v)]));
+    }
+    return value;
+  };
+  const spec = substitute(blueprint.spec) as BlueprintSpec;
+  if (overrides.location) {
+    spec.location = overrides.location;
+    delete spec.datacenter;
+  }
+  if (overrides.labels) spec.labels = { ...spec.labels, ...overrides.labels };
+  return spec;
+}
+
+// ── Planning ────────────────────────────────────────────────────────────────
+
+export type BlueprintStepType = 'ssh_key' | 'placement_group' | 'network' | 'firewall' | 'server' | 'volume';
+
+export interface BlueprintStep {
+  type: BlueprintStepType;
+  name: string;
+  /** `reuse` an existing resource, `create` a new one, or `attach` an existing volume. */
+  action: 'create' | 'reuse' | 'attach';
+  /** ID of the existing resource, or of the created one after provisioning. */
+  id: number | null;
+}
+
+export interface BlueprintPlan {
+  steps: BlueprintStep[];
+  errors: string[];
+  warnings: string[];
+}
+
+interface Named {
+  id: number;
+  name: string;
+}
+
+/**
+ * Check a blueprint spec against the project and work out which resources
+ * would be reused, attached or created. Nothing is changed; problems are
+ * collected in `errors` rather than thrown.
+ */
+export async function planBlueprint(
+  cloud: CloudClient,
+  serverName: string,
+  spec: BlueprintSpec,
+  guard: LabelGuardConfig | null,
+): Promise<BlueprintPlan> {
+  const plan: BlueprintPlan = { steps: [], errors: [], warnings: [] };
+  const fail = (error: unknown) => plan.errors.push(error instanceof Error ? error.message : String(error));
+
+  // Catalog: server type, location, image
+  const [serverType] = await cloud.requestAll<CloudServerType>('/server_types', 'server_types', { name: spec.server_type });
+  if (!serverType) plan.errors.push(`Unknown server type "${spec.server_type}"`);
+
+  let location = spec.location ?? null;
+  if (spec.location && spec.datacenter) plan.errors.push('Set either location or datacenter, not both');
+  if (spec.location) {
+    const [found] = await cloud.requestAll<Named>('/locations', 'locations', { name: spec.location });
+    if (!found) plan.errors.push(`Unknown location "${spec.location}"`);
+  } else if (spec.datacenter) {
+    const [found] = await cloud.requestAll<Named & { location: Named }>('/datacenters', 'datacenters', { name: spec.datacenter });
+    if (found) location = found.location.name;
+    else plan.errors.push(`Unknown datacenter "${spec.datacenter}"`);
+  } else {
+    plan.warnings.push('No location or datacenter set; Hetzner will choose one');
+  }
+  if (serverType && location && !serverType.prices.some((p) => p.location === location)) {
+    plan.errors.push(`Server type ${serverType.name} is not available in ${location}`);
+  }
+
+  try {
+    const image = await findImage(cloud, spec.image, serverType?.architecture);
+    if (!image) plan.errors.push(`Unknown image "${spec.image}"${serverType ? ` for ${serverType.architecture}` : ''}`);
+  } catch (error) {
+    fail(error);
+  }
+
+  // Existing references and inline definitions
+  for (const ref of spec.ssh_keys) {
+    await reference(cloud, plan, 'ssh_key', ref).catch(fail);
+  }
+  if (spec.placement_group !== undefined) {
+    await dependency(cloud, plan, 'placement_group', spec.placement_group).catch(fail);
+  }
+  for (const network of spec.networks) {
+    await dependency(cloud, plan, 'network', network).catch(fail);
+  }
+  for (const firewall of spec.firewalls) {
+    await dependency(cloud, plan, 'firewall', firewall).catch(fail);
+  }
+
+  const [existing] = await cloud.requestAll<Named>('/servers', 'servers', { name: serverName });
+  if (existing) plan.errors.push(`A server named "${serverName}" already exists (ID ${existing.id})`);
+  plan.steps.push({ type: 'server', name: serverName, action: 'create', id: null });
+
+  for (const volume of spec.volumes) {
+    await planVolume(cloud, plan, volume, location).catch(fail);
+  }
+
+  // Existing networks, firewalls and volumes gain the server, so they follow the same label guard as single tools
+  if (guard) {
+    for (const step of plan.steps) {
+      const tool = GUARDED_STEPS[step.type];
+      if (tool && step.action !== 'create' && step.id !== null) {
+        await enforceLabelGuard(guard, cloud, tool, { id: step.id }).catch(fail);
+      }
+    }
+  }
+  return plan;
+}
+
+/** The single tool whose label guard applies to changing an existing resource of each step type. */
+const GUARDED_STEPS: Partial<Record<BlueprintStepType, string>> = {
+  network: 'update_network',
+  firewall: 'apply_firewall_to_resources',
+  volume: 'attach_volume',
+};
+
+async function findImage(
+  cloud: CloudClient,
+  image: string | number,
+  architecture: string | undefined,
+): Promise<CloudImage | null> {
+  if (typeof image === 'number' || /^\d+$/.test(image)) {
+    const result = await cloud.request<{ image: CloudImage }>(`/images/${image}`).catch(() => null);
+    return result?.image ?? null;
+  }
+  const [found] = await cloud.requestAll<CloudImage>('/images', 'images', { name: image, architecture });
+  return found ?? null;
+}
+
+async function reference(
+  cloud: CloudClient,
+  plan: BlueprintPlan,
+  type: BlueprintStepType & ResourceType,
+  ref: string | number,
+): Promise<number> {
+  const id = await resolveResource(cloud, type, ref);
+  plan.steps.push({ type, name: String(ref), action: 'reuse', id });
+  return id;
+}
+
+/** A reference must exist; an inline definition is reused by name or created. */
+async function dependency(
+  cloud: CloudClient,
+  plan: BlueprintPlan,
+  type: 'placement_group' | 'network' | 'firewall',
+  value: string | number | { name: string },
+): Promise<void> {
+  if (typeof value !== 'object') {
+    await reference(cloud, plan, type, value);
+    return;
+  }
+  const [existing] = await cloud.requestAll<Named>(`/${type}s`, `${type}s`, { name: value.name });
+  plan.steps.push({ type, name: value.name, action: existing ? 'reuse' : 'create', id: existing?.id ?? null });
+  if (existing) plan.warnings.push(`${type.replace('_', ' ')} "${value.name}" exists and is reused as is`);
+}
+
+async function planVolume(
+  cloud: CloudClient,
+  plan: BlueprintPlan,
+  value: string | number | { name: string },
+  location: string | null,
+): Promise<void> {
+  let volume: CloudVolume | undefined;
+  if (typeof value !== 'object') {
+    const id = await resolveResource(cloud, 'volume', value);
+    volume = (await cloud.request<{ volume: CloudVolume }>(`/volumes/${id}`)).volume;
+  } else {
+    [volume] = await cloud.requestAll<CloudVolume>('/volumes', 'volumes', { name: value.name });
+    if (!volume) {
+      plan.steps.push({ type: 'volume', name: value.name, action: 'create', id: null });
+      return;
+    }
+  }
+
+  plan.steps.push({ type: 'volume', name: volume.name, action: 'attach', id: volume.id });
+  if (volume.server !== null) {
+    plan.errors.push(`Volume "${volume.name}" is already attached to server ${volume.server}`);
+  }
+  if (location && volume.location.name !== location) {
+    plan.errors.push(`Volume "${volume.name}" is in ${volume.location.name}, not ${location}`);
+  }
+}
+
+// ── Provisioning ────────────────────────────────────────────────────────────
+
+/** Wait for an action to finish; a failed action fails the step. */
+async function waitFor(cloud: CloudClient, action: HetznerAction): Promise<void> {
+  const finished = await cloud.pollAction(action.id);
+  if (finished.status === 'error') {
+    throw new BlueprintError(`Action ${finished.command} (${finished.id}) failed: ${finished.error?.message ?? 'unknown error'}`);
+  }
+}
+
+export interface ProvisionResult {
+  server: CloudServer;
+  root_password: string | null;
+  steps: BlueprintStep[];
+}
+
+/**
+ * Plan the blueprint, then create and attach its resources in order. Fails
+ * before changing anything if the plan has errors. If a later step fails,
+ * the error lists the resources already created (they are not rolled back).
+ */
+export async function provisionBlueprint(
+  cloud: CloudClient,
+  serverName: string,
+  spec: BlueprintSpec,
+  guard: LabelGuardConfig | null,
+): Promise<ProvisionResult> {
+  const plan = await planBlueprint(cloud, serverName, spec, guard);
+  if (plan.errors.length > 0) {
+    throw new BlueprintError(`Blueprint cannot be applied:\n- ${plan.errors.join('\n- ')}`);
+  }
+
+  const idsOf = (type: BlueprintStepType) => plan.steps.filter((s) => s.type === type).map((s) => s.id!);
+  const inline = <T extends { name: string }>(items: unknown[], name: string) =>
+    items.find((item): item is T => typeof item === 'object' && (item as T).name === name)!;
+  let server: CloudServer | null = null;
+  let rootPassword: string | null = null;
+
+  for (const step of plan.steps) {
+    if (step.action === 'reuse') continue;
+    try {
+      switch (step.type) {
+        case 'placement_group': {
+          const pg = spec.placement_group as z.infer<typeof inlinePlacementGroupSchema>;
+          const result = await cloud.request<{ placement_group: Named }>('/placement_groups', {
+            method: 'POST',
+            body: { name: pg.name, type: pg.type, ...(pg.labels ? { labels: pg.labels } : {}) },
+          });
+          step.id = result.placement_group.id;
+          break;
+        }
+        case 'network': {
+          const { name, ip_range, subnets, labels } = inline<z.infer<typeof inlineNetworkSchema>>(spec.networks, step.name);
+          const result = await cloud.request<{ network: Named }>('/networks', {
+            method: 'POST',
+            body: { name, ip_range, ...(subnets ? { subnets } : {}), ...(labels ? { labels } : {}) },
+          });
+          step.id = result.network.id;
+          break;
+        }
+        case 'firewall': {
+          const { name, rules, labels } = inline<z.infer<typeof inlineFirewallSchema>>(spec.firewalls, step.name);
+          const result = await cloud.request<{ firewall: Named; actions: HetznerAction[] }>('/firewalls', {
+            method: 'POST',
+            body: { name, rules, ...(labels ? { labels } : {}) },
+          });
+          step.id = result.firewall.id;
+          break;
+        }
+        case 'server': {
+          const body: Record<string, unknown> = {
+            name: serverName,
+            server_type: spec.server_type,
+            image: spec.image,
+            ssh_keys: idsOf('ssh_key'),
+            networks: idsOf('network'),
+            firewalls: idsOf('firewall').map((id) => ({ firewall: id })),
+            start_after_create: spec.start_after_create,
+          };
+          if (spec.location) body.location = spec.location;
+          if (spec.datacenter) body.datacenter = spec.datacenter;
+          if (spec.placement_group !== undefined) body.placement_group = idsOf('placement_group')[0];
+          if (spec.user_data) body.user_data = spec.user_data;
+          if (spec.labels) body.labels = spec.labels;
+          if (spec.public_net) body.public_net = spec.public_net;
+
+          const result = await cloud.request<{ server: CloudServer; action: HetznerAction; root_password: string | null }>(
+            '/servers',
+            { method: 'POST', body },
+          );
+          server = result.server;
+          rootPassword = result.root_password;
+          step.id = server.id;
+          if (result.action) await waitFor(cloud, result.action);
+          break;
+        }
+        case 'volume': {
+          const serverId = server!.id;
+          if (step.action === 'attach') {
+            const automount = spec.volumes.some((v) => typeof v === 'object' && v.name === step.name && v.automount);
+            const result = await cloud.request<{ action: HetznerAction }>(`/volumes/${step.id}/actions/attach`, {
+              method: 'POST',
+              body: { server: serverId, automount },
+            });
+            if (result.action) await waitFor(cloud, result.action);
+            break;
+          }
+          const { name, size, format, automount, labels } = inline<z.infer<typeof inlineVolumeSchema>>(spec.volumes, step.name);
+          const result = await cloud.request<{ volume: Named; action: HetznerAction }>('/volumes', {
+            method: 'POST',
+            body: { name, size, server: serverId, automount, ...(format ? { format } : {}), ...(labels ? { labels } : {}) },
+          });
+          step.id = result.volume.id;
+          if (result.action) await waitFor(cloud, result.action);
+          break;
+        }
+        default:
+          break;
+      }
+    } catch (error) {
+      if (error instanceof DryRunInterception) throw error;
+      const created = plan.steps.filter((s) => s.action === 'create' && s.id !== null);
+      const done = created.length > 0
+        ? `\nAlready created (not rolled back): ${created.map((s) => `${s.type.replace('_', ' ')} ${s.id} (${s.name})`).join(', ')}`
+        : '';
+      const message = error instanceof Error ? error.message : String(error);
+      const action = step.action === 'attach' ? 'Attaching' : 'Creating';
+      throw new BlueprintError(`${action} ${step.type.replace('_', ' ')} "${step.name}" failed: ${message}${done}`);
+    }
+  }
+
+  // Re-read the server so it shows the attached volumes and networks
+  const final = await cloud.request<{ server: CloudServer }>(`/servers/${server!.id}`);
+  return { server: final.server, root_password: rootPassword, steps: plan.steps };
+}
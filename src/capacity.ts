@@ -0,0 +1,291 @@
+/**
+ * Server type capacity — which server types can be ordered where, which of
+ * them fit a set of requirements, and whether a planned server can be
+ * created as specified.
+ *
+ * A type can be ordered in a location when it is not deprecated and at least
+ * one datacenter of the location lists it in `server_types.available`.
+ */
+
+import type { CloudClient } from './clients/cloud.js';
+import { resolveResource, type ResourceType } from './resolver.js';
+import type { CloudDatacenter, CloudLocation, CloudNetwork, CloudServerType, CloudVolume } from './types/cloud.js';
+
+export class AvailabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvailabilityError';
+  }
+}
+
+export interface ServerTypeCatalog {
+  serverTypes: CloudServerType[];
+  datacenters: CloudDatacenter[];
+}
+
+export async function fetchServerTypeCatalog(cloud: CloudClient): Promise<ServerTypeCatalog> {
+  const [serverTypes, datacenters] = await Promise.all([
+    cloud.requestAll<CloudServerType>('/server_types', 'server_types'),
+    cloud.requestAll<CloudDatacenter>('/datacenters', 'datacenters'),
+  ]);
+  return { serverTypes, datacenters };
+}
+
+/** Whether the type is deprecated and can no longer be ordered. */
+export function isDeprecated(serverType: CloudServerType, now = new Date()): boolean {
+  return !!serverType.deprecation && new Date(serverType.deprecation.unavailable_after) <= now;
+}
+
+/** Names of the locations with a datacenter where the type is available. */
+export function availableLocations(catalog: ServerTypeCatalog, serverType: CloudServerType): string[] {
+  const locations = catalog.datacenters
+    .filter((dc) => dc.server_types?.available.includes(serverType.id))
+    .map((dc) => dc.location.name);
+  return [...new Set(locations)];
+}
+
+export interface ServerTypeRequirements {
+  /** Minimum number of vCPUs. */
+  cores?: number;
+  /** Minimum memory in GB. */
+  memory?: number;
+  /** Minimum local disk in GB. */
+  disk?: number;
+  architecture?: 'x86' | 'arm';
+  cpu_type?: 'shared' | 'dedicated';
+  /** Locations to consider, in order of preference (default: all). */
+  locations?: string[];
+}
+
+export interface ServerTypeOption {
+  server_type: string;
+  id: number;
+  description: string;
+  cores: number;
+  memory: number;
+  disk: number;
+  architecture: string;
+  cpu_type: string;
+  /** Cheapest of the matching locations; earlier preferred locations win ties. */
+  location: string;
+  monthly_gross: number;
+  hourly_gross: number;
+  /** Matching locations the type is available in. */
+  locations: string[];
+}
+
+export interface ServerTypeRecommendation {
+  options: ServerTypeOption[];
+  /** Why each type that was not recommended was left out. */
+  excluded: Array<{ server_type: string; reason: string }>;
+}
+
+/**
+ * The types that meet every requirement and are available in at least one
+ * of the locations, cheapest first. Ties are broken by fewer resources, so
+ * the smallest fitting type comes first.
+ */
+export function recommendServerTypes(
+  catalog: ServerTypeCatalog,
+  requirements: ServerTypeRequirements,
+): ServerTypeRecommendation {
+  const options: ServerTypeOption[] = [];
+  const excluded: ServerTypeRecommendation['excluded'] = [];
+  const preferred = requirements.locations?.length ? requirements.locations : null;
+
+  for (const st of catalog.serverTypes) {
+    const exclude = (reason: string) => excluded.push({ server_type: st.name, reason });
+    const short: string[] = [];
+    if (requirements.cores && st.cores < requirements.cores) short.push(`${st.cores} vCPUs`);
+    if (requirements.memory && st.memory < requirements.memory) short.push(`${st.memory} GB memory`);
+    if (requirements.disk && st.disk < requirements.disk) short.push(`${st.disk} GB disk`);
+
+    if (isDeprecated(st)) {
+      exclude(`deprecated, unavailable after ${st.deprecation!.unavailable_after}`);
+    } else if (requirements.architecture && st.architecture !== requirements.architecture) {
+      exclude(`${st.architecture} architecture`);
+    } else if (requirements.cpu_type && st.cpu_type !== requirements.cpu_type) {
+      exclude(`${st.cpu_type} vCPUs`);
+    } else if (short.length > 0) {
+      exclude(`only ${short.join(', ')}`);
+    } else {
+      const available = availableLocations(catalog, st);
+      const locations = preferred ? preferred.filter((l) => available.includes(l)) : available;
+      const prices = locations
+        .map((location) => st.prices.find((p) => p.location === location))
+        .filter((p) => p !== undefined);
+      if (prices.length === 0) {
+        exclude(preferred ? `not available in ${preferred.join(', ')}` : 'not available in any location');
+        continue;
+      }
+      const cheapest = prices.reduce((best, p) =>
+        parseFloat(p.price_monthly.gross) < parseFloat(best.price_monthly.gross) ? p : best);
+      options.push({
+        server_type: st.name,
+        id: st.id,
+        description: st.description,
+        cores: st.cores,
+        memory: st.memory,
+        disk: st.disk,
+        architecture: st.architecture,
+        cpu_type: st.cpu_type,
+        location: cheapest.location,
+        monthly_gross: parseFloat(cheapest.price_monthly.gross),
+        hourly_gross: parseFloat(cheapest.price_hourly.gross),
+        locations: prices.map((p) => p.location),
+      });
+    }
+  }
+
+  options.sort((a, b) =>
+    a.monthly_gross - b.monthly_gross || a.cores - b.cores || a.memory - b.memory || a.disk - b.disk);
+  return { options, excluded };
+}
+
+// ── Availability check ──────────────────────────────────────────────────────
+
+export interface AvailabilityRequest {
+  server_type: string | number;
+  location?: string;
+  datacenter?: string;
+  ssh_keys?: Array<string | number>;
+  networks?: Array<string | number>;
+  firewalls?: Array<string | number>;
+  volumes?: Array<string | number>;
+}
+
+export interface AvailabilityCheck {
+  available: boolean;
+  /** Datacenters of the requested location or datacenter that have the type available. */
+  datacenters: string[];
+  errors: string[];
+  warnings: string[];
+  alternatives: {
+    /** Other datacenters that have the type available. */
+    datacenters: Array<{ datacenter: string; location: string }>;
+    /** Types at least as large, with the same architecture, available in the requested location. */
+    server_types: Array<{ server_type: string; location: string; monthly_gross: number }>;
+  };
+}
+
+/** Number of alternative server types suggested. */
+const MAX_ALTERNATIVE_TYPES = 3;
+
+/**
+ * Check that the server type can be ordered in the requested location or
+ * datacenter, and that the referenced SSH keys, networks, firewalls and
+ * volumes exist and can be used there: networks need a subnet in the
+ * location's network zone, volumes must be in the location and detached.
+ * Nothing is changed; problems are collected in `errors` rather than thrown.
+ */
+export async function checkAvailability(cloud: CloudClient, request: AvailabilityRequest): Promise<AvailabilityCheck> {
+  const catalog = await fetchServerTypeCatalog(cloud);
+  const check: AvailabilityCheck = {
+    available: false,
+    datacenters: [],
+    errors: [],
+    warnings: [],
+    alternatives: { datacenters: [], server_types: [] },
+  };
+  const fail = (error: unknown) => check.errors.push(error instanceof Error ? error.message : String(error));
+
+  // Where: the requested datacenter, the datacenters of the location, or any
+  let targets = catalog.datacenters;
+  let location: CloudLocation | null = null;
+  if (request.location && request.datacenter) {
+    check.errors.push('Set either location or datacenter, not both');
+  } else if (request.datacenter) {
+    targets = catalog.datacenters.filter((dc) => dc.name === request.datacenter);
+    if (targets.length === 0) check.errors.push(`Unknown datacenter "${request.datacenter}"`);
+    location = targets[0]?.location ?? null;
+  } else if (request.location) {
+    targets = catalog.datacenters.filter((dc) => dc.location.name === request.location);
+    if (targets.length === 0) check.errors.push(`Unknown location "${request.location}"`);
+    location = targets[0]?.location ?? null;
+  } else {
+    check.warnings.push('No location or datacenter set; Hetzner will choose one');
+  }
+  const where = request.datacenter ?? request.location ?? 'any location';
+
+  // What: the server type
+  const st = catalog.serverTypes.find((t) => t.name === request.server_type || String(t.id) === String(request.server_type));
+  if (!st) {
+    check.errors.push(`Unknown server type "${request.server_type}"`);
+  } else if (targets.length > 0) {
+    check.datacenters = targets.filter((dc) => dc.server_types?.available.includes(st.id)).map((dc) => dc.name);
+    if (isDeprecated(st)) {
+      check.errors.push(`Server type ${st.name} is deprecated and unavailable since ${st.deprecation!.unavailable_after}`);
+    } else if (check.datacenters.length === 0) {
+      const supported = targets.some((dc) => dc.server_types?.supported.includes(st.id));
+      check.errors.push(supported
+        ? `Server type ${st.name} is currently unavailable in ${where}`
+        : `Server type ${st.name} is not supported in ${where}`);
+    }
+    if (check.datacenters.length === 0) {
+      const targetNames = new Set(targets.map((dc) => dc.name));
+      check.alternatives.datacenters = isDeprecated(st) ? [] : catalog.datacenters
+        .filter((dc) => !targetNames.has(dc.name) && dc.server_types?.available.includes(st.id))
+        .map((dc) => ({ datacenter: dc.name, location: dc.location.name }));
+      const { options } = recommendServerTypes(catalog, {
+        cores: st.cores,
+        memory: st.memory,
+        disk: st.disk,
+        architecture: st.architecture as 'x86' | 'arm',
+        locations: location ? [location.name] : undefined,
+      });
+      check.alternatives.server_types = options
+        .filter((o) => o.id !== st.id)
+        .slice(0, MAX_ALTERNATIVE_TYPES)
+        .map((o) => ({ server_type: o.server_type, location: o.location, monthly_gross: o.monthly_gross }));
+    }
+  }
+
+  // Referenced resources
+  const resolve = (type: ResourceType, refs: Array<string | number> = []) =>
+    Promise.all(refs.map((ref) => resolveResource(cloud, type, ref).catch((error: unknown) => {
+      fail(error);
+      return null;
+    })));
+  await resolve('ssh_key', request.ssh_keys);
+  await resolve('firewall', request.firewalls);
+
+  for (const id of await resolve('network', request.networks)) {
+    if (id === null || !location) continue;
+    const { network } = await cloud.request<{ network: CloudNetwork }>(`/networks/${id}`);
+    if (!network.subnets.some((s) => s.network_zone === location.network_zone)) {
+      check.errors.push(
+        `Network ${network.name} has no subnet in network zone ${location.network_zone} (location ${location.name})`,
+      );
+    }
+  }
+
+  const volumeLocations = new Set<string>();
+  for (const id of await resolve('volume', request.volumes)) {
+    if (id === null) continue;
+    const { volume } = await cloud.request<{ volume: CloudVolume }>(`/volumes/${id}`);
+    volumeLocations.add(volume.location.name);
+    if (volume.server !== null) check.errors.push(`Volume ${volume.name} is already attached to server ${volume.server}`);
+    if (location && volume.location.name !== location.name) {
+      check.errors.push(`Volume ${volume.name} is in ${volume.location.name}, not in ${location.name}`);
+    }
+  }
+  if (!location && volumeLocations.size > 1) {
+    check.errors.push(`Volumes are in different locations (${[...volumeLocations].join(', ')})`);
+  }
+
+  check.available = check.errors.length === 0;
+  return check;
+}
+
+/** Errors and alternatives of a failed check, as one message. */
+export function describeUnavailability(check: AvailabilityCheck): string {
+  const lines = [...check.errors];
+  const { datacenters, server_types: serverTypes } = check.alternatives;
+  if (datacenters.length > 0) {
+    lines.push(`Available in: ${datacenters.map((d) => d.datacenter).join(', ')}`);
+  }
+  if (serverTypes.length > 0) {
+    lines.push(`Alternative server types: ${serverTypes.map((t) => `${t.server_type} (${t.location}, ${t.monthly_gross.toFixed(2)}/month)`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
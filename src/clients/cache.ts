@@ -0,0 +1,101 @@
+/**
+ * Read-through response cache for static Cloud API catalog endpoints.
+ *
+ * Server types, locations, datacenters, ISOs, load balancer types and pricing
+ * rarely change but are looked up on almost every create/plan call. GET
+ * responses for these paths are kept for a per-path TTL; any successful
+ * mutation under the same collection drops its entries.
+ */
+
+/** TTLs in milliseconds, keyed by top-level collection path. */
+const CACHE_TTLS: Record<string, number> = {
+  '/server_types': 60 * 60_000,
+  '/load_balancer_types': 60 * 60_000,
+  '/locations': 24 * 60 * 60_000,
+  // Datacenters carry per-type availability, which changes more often
+  '/datacenters': 5 * 60_000,
+  '/isos': 60 * 60_000,
+  '/pricing': 60 * 60_000,
+};
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Top-level collection of an API path, e.g. `/server_types/1` → `/server_types`.
+ */
+function collectionOf(path: string): string {
+  const match = /^\/[^/?]+/.exec(path);
+  return match ? match[0] : path;
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * TTL for a path, or null when responses for it are never cached.
+   */
+  ttlFor(path: string): number | null {
+    return CACHE_TTLS[collectionOf(path)] ?? null;
+  }
+
+  /**
+   * Cached response for a request key (path plus query string), if fresh.
+   * Returns a copy so callers cannot mutate the cached value.
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return structuredClone(entry.value) as T;
+  }
+
+  set(key: string, value: unknown, ttl: number): void {
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Drop cached responses in the same collection as a mutated path.
+   */
+  invalidate(path: string): void {
+    this.clear(collectionOf(path));
+  }
+
+  /**
+   * Drop all entries, or only those whose path starts with `prefix`.
+   * Returns the number of entries removed.
+   */
+  clear(prefix?: string): number {
+    if (!prefix) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  stats(): CacheStats {
+    return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+  }
+}
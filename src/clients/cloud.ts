@@ -1,17 +1,26 @@
 /**
  * Hetzner Cloud API client (api.hetzner.cloud/v1).
- * Uses Bearer token auth, JSON bodies, auto-pagination, action polling.
+ * Uses Bearer token auth, JSON bodies, auto-pagination, action polling,
+ * a token-bucket scheduler that throttles and retries on 429/503, and a
+ * read-through cache for static catalog endpoints. Requests can be recorded
+ * to or replayed from a fixture file.
  */
 
 import type { CloudConfig } from '../config.js';
+import { currentContext } from '../context.js';
 import {
+  DryRunInterception,
   HetznerApiError,
+  collectActions,
   type HetznerAction,
   type PaginationMeta,
   type RateLimitInfo,
   parseRateLimitHeaders,
   sleep,
 } from './common.js';
+import { RateLimitScheduler, type SchedulerStatus } from './scheduler.js';
+import { ResponseCache, type CacheStats } from './cache.js';
+import type { FixtureStore } from './fixtures.js';
 
 interface RequestOptions {
   method?: string;
@@ -23,9 +32,12 @@ export class CloudClient {
   private readonly baseUrl: string;
   private readonly token: string;
   private readonly timeout = 30_000;
+  private readonly maxRetries = 3;
+  private readonly scheduler = new RateLimitScheduler();
+  private readonly cache = new ResponseCache();
   public lastRateLimit: RateLimitInfo | null = null;
 
-  constructor(config: CloudConfig) {
+  constructor(config: CloudConfig, private readonly fixtures: FixtureStore | null = null) {
     this.baseUrl = config.baseUrl;
     this.token = config.token;
   }
@@ -48,6 +60,13 @@ export class CloudClient {
       if (qs) url += `?${qs}`;
     }
 
+    const cacheKey = url.slice(this.baseUrl.length);
+    const ttl = method === 'GET' ? this.cache.ttlFor(path) : null;
+    if (ttl !== null) {
+      const cached = this.cache.get<T>(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.token}`,
       Accept: 'application/json',
@@ -59,21 +78,31 @@ export class CloudClient {
       requestBody = JSON.stringify(body);
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: requestBody,
-        signal: controller.signal,
-      });
+    if (method !== 'GET' && currentContext()?.dryRun) {
+      throw new DryRunInterception({ api: 'cloud', method, path: cacheKey, body });
+    }
 
-      clearTimeout(timeoutId);
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.send(url, { method, headers, body: requestBody });
 
       // Track rate limit
       this.lastRateLimit = parseRateLimitHeaders(response.headers);
+      if (this.lastRateLimit) this.scheduler.update(this.lastRateLimit);
+
+      // Rate limited or temporarily unavailable — back off and retry
+      if ((response.status === 429 || response.status === 503) && attempt < this.maxRetries) {
+        const delay = this.scheduler.retryDelay(response.status, response.headers, attempt);
+        console.error(
+          `[Cloud:${response.status}] ${method} ${path} throttled. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.maxRetries})`
+        );
+        await response.body?.cancel();
+        const signal = currentContext()?.signal;
+        await sleep(delay, signal);
+        if (signal?.aborted) {
+          throw new HetznerApiError(0, 'CANCELLED', `Stopped retrying ${method} ${path}: the call was cancelled.`);
+        }
+        continue;
+      }
 
       if (!response.ok) {
         const errorBody = await response.json().catch(() => null) as {
@@ -88,19 +117,44 @@ export class CloudClient {
         );
       }
 
+      if (method !== 'GET') this.cache.invalidate(path);
+
       // 204 No Content
       if (response.status === 204 || response.headers.get('content-length') === '0') {
         return {} as T;
       }
 
-      return (await response.json()) as T;
+      const data = (await response.json()) as T;
+      if (ttl !== null) this.cache.set(cacheKey, data, ttl);
+      const collected = currentContext()?.actions;
+      if (collected) collectActions(data, collected);
+      return data;
+    }
+  }
+
+  /**
+   * Send one HTTP request through the rate-limit scheduler, with timeout,
+   * recording or replaying it when fixtures are enabled.
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    await this.scheduler.acquire();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const doFetch = () => fetch(url, { ...init, signal: controller.signal });
+
+    try {
+      if (this.fixtures) {
+        return await this.fixtures.fetch(url.slice(this.baseUrl.length), init, doFetch);
+      }
+      return await doFetch();
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof HetznerApiError) throw error;
       if (error instanceof DOMException && error.name === 'AbortError') {
         throw new HetznerApiError(0, 'TIMEOUT', `Request timed out after ${this.timeout}ms`);
       }
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      this.scheduler.release();
     }
   }
 
@@ -127,27 +181,46 @@ export class CloudClient {
         allItems.push(...items);
       }
 
-      const meta = result.meta as { pagination?: PaginationMeta } | undefined;
-      if (!meta?.pagination?.next_page) break;
-      page = meta.pagination.next_page;
+      // DNS endpoints report last_page without next_page
+      const pagination = (result.meta as { pagination?: Partial<PaginationMeta> } | undefined)?.pagination;
+      const next = pagination?.next_page !== undefined
+        ? pagination.next_page
+        : page < (pagination?.last_page ?? 0) ? page + 1 : null;
+      if (!next) break;
+      page = next;
     }
 
     return allItems;
   }
 
   /**
-   * Poll an action until it completes (success or error).
+   * Poll an action until it completes (success or error). Each polled state
+   * is reported to the call context's progress callback. When the call runs
+   * with `wait: false`, the action's current state is returned after one
+   * read; when the call is cancelled, polling stops with a CANCELLED error
+   * (the action itself keeps running).
    */
   async pollAction(actionId: number, timeoutMs = 300_000): Promise<HetznerAction> {
+    const context = currentContext();
     const start = Date.now();
     let delay = 1000;
 
     while (Date.now() - start < timeoutMs) {
+      if (context?.signal?.aborted) {
+        throw new HetznerApiError(
+          0,
+          'CANCELLED',
+          `Stopped waiting for action ${actionId}: the call was cancelled. ` +
+          'The action keeps running; check it with get_action or wait_for_actions.',
+        );
+      }
       const result = await this.request<{ action: HetznerAction }>(`/actions/${actionId}`);
+      context?.onActionProgress?.(result.action);
       if (result.action.status === 'success' || result.action.status === 'error') {
         return result.action;
       }
-      await sleep(delay);
+      if (context?.wait === false) return result.action;
+      await sleep(delay, context?.signal);
       delay = Math.min(delay * 1.5, 5000);
     }
 
@@ -158,6 +231,28 @@ export class CloudClient {
     );
   }
 
+  /**
+   * Current rate-limit budget and scheduler state.
+   */
+  rateLimitStatus(): SchedulerStatus {
+    return this.scheduler.status();
+  }
+
+  /**
+   * Drop cached catalog responses, optionally only those under a path prefix.
+   * Returns the number of entries removed.
+   */
+  clearCache(prefix?: string): number {
+    return this.cache.clear(prefix);
+  }
+
+  /**
+   * Cache entry count and hit/miss counters.
+   */
+  cacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
   /**
    * Returns a rate-limit warning string if remaining requests are low, else null.
    */
@@ -47,6 +47,20 @@ export interface HetznerAction {
   finished: string | null;
   resources: Array<{ id: number; type: string }>;
   error?: { code: string; message: string };
+  [key: string]: unknown;
+}
+
+/**
+ * Append the actions contained in an API response (`action`, `actions`,
+ * `next_actions`) to `into`.
+ */
+export function collectActions(response: unknown, into: HetznerAction[]): void {
+  if (!response || typeof response !== 'object') return;
+  const r = response as { action?: HetznerAction; actions?: HetznerAction[]; next_actions?: HetznerAction[] };
+  if (r.action?.id) into.push(r.action);
+  for (const list of [r.actions, r.next_actions]) {
+    if (Array.isArray(list)) into.push(...list.filter((a) => a?.id));
+  }
 }
 
 // ── Errors ──────────────────────────────────────────────────────────────────
@@ -75,10 +89,46 @@ export class RobotApiError extends Error {
   }
 }
 
+// ── Dry Run ─────────────────────────────────────────────────────────────────
+
+export interface PlannedRequest {
+  api: 'cloud' | 'robot';
+  method: string;
+  /** Path relative to the API base URL, including the query string. */
+  path: string;
+  body?: unknown;
+  /** Robot only: the form-encoded body exactly as it would be sent. */
+  encoded_body?: string;
+}
+
+/**
+ * Thrown by a client in place of sending a mutating request while the
+ * current tool call runs in dry-run mode.
+ */
+export class DryRunInterception extends Error {
+  constructor(public readonly request: PlannedRequest) {
+    super(`Dry run: ${request.method} ${request.path} not sent`);
+    this.name = 'DryRunInterception';
+  }
+}
+
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Wait `ms` milliseconds, or until `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
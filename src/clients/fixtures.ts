@@ -0,0 +1,155 @@
+/**
+ * HTTP fixtures — record request/response pairs to a JSONL file, or serve
+ * them back in replay mode so a session can be re-run offline.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { FixtureMode } from '../config.js';
+import { redactSecrets } from '../audit.js';
+
+export interface FixtureInteraction {
+  method: string;
+  /** Path relative to the API base URL, including the query string. */
+  path: string;
+  body?: string;
+  status: number;
+  headers: Record<string, string>;
+  response: string;
+}
+
+/** Response headers kept in fixtures; everything else is dropped. */
+const RECORDED_HEADERS = [
+  'content-type',
+  'content-length',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+];
+
+/**
+ * Thrown in replay mode when a request has no recorded interaction.
+ */
+export class FixtureMissError extends Error {
+  constructor(public readonly method: string, public readonly path: string, file: string, fileMissing = false) {
+    super(`No recorded response for ${method} ${path} in ${file}${fileMissing ? ' (the file does not exist)' : ''}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+export class FixtureStore {
+  // Replay: recorded interactions per request, consumed in order
+  private readonly queues = new Map<string, FixtureInteraction[]>();
+  // Replay: no fixture file was recorded for this client
+  private readonly fileMissing: boolean = false;
+
+  /**
+   * `secrets` are literal credential values (token, password) replaced with
+   * "[REDACTED]" wherever they appear in a recorded request or response.
+   */
+  constructor(
+    public readonly file: string,
+    public readonly mode: FixtureMode,
+    private readonly secrets: string[],
+  ) {
+    if (mode === 'record') {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, '', { encoding: 'utf8', mode: 0o600 });
+      return;
+    }
+    // A client that was never used while recording has no file; replay then
+    // starts empty and only the requests it actually sends fail.
+    if (!existsSync(file)) {
+      this.fileMissing = true;
+      return;
+    }
+    for (const line of readFileSync(file, 'utf8').split('\n')) {
+      if (!line) continue;
+      const interaction = JSON.parse(line) as FixtureInteraction;
+      const key = requestKey(interaction.method, interaction.path, interaction.body);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  /**
+   * Send a request through the store: in record mode `send()` is called and
+   * its response recorded; in replay mode the next recorded response for the
+   * same method, path and body is returned. The last recorded response for a
+   * request is repeated once the others are used up (e.g. action polling).
+   */
+  async fetch(path: string, init: RequestInit, send: () => Promise<Response>): Promise<Response> {
+    const method = init.method ?? 'GET';
+    const body = typeof init.body === 'string' ? this.scrubBody(init.body) : undefined;
+    const scrubbedPath = this.scrubText(path);
+
+    if (this.mode === 'replay') {
+      const queue = this.queues.get(requestKey(method, scrubbedPath, body));
+      if (!queue?.length) throw new FixtureMissError(method, scrubbedPath, this.file, this.fileMissing);
+      const interaction = queue.length > 1 ? queue.shift()! : queue[0];
+      const empty = interaction.status === 204 || interaction.status === 304;
+      return new Response(empty ? null : interaction.response, {
+        status: interaction.status,
+        headers: interaction.headers,
+      });
+    }
+
+    const response = await send();
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    const interaction: FixtureInteraction = {
+      method,
+      path: scrubbedPath,
+      ...(body !== undefined ? { body } : {}),
+      status: response.status,
+      headers,
+      response: this.scrubBody(text),
+    };
+    appendFileSync(this.file, JSON.stringify(interaction) + '\n', { encoding: 'utf8', mode: 0o600 });
+
+    const empty = response.status === 204 || response.status === 304;
+    return new Response(empty ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Redact secret-looking keys in a JSON or form-encoded body, then any
+   * literal credential values.
+   */
+  private scrubBody(text: string): string {
+    if (!text) return text;
+    let scrubbed: string;
+    try {
+      scrubbed = JSON.stringify(redactSecrets(JSON.parse(text)));
+    } catch {
+      if (text.includes('=') && !/\s/.test(text)) {
+        const fields = Object.fromEntries(new URLSearchParams(text));
+        scrubbed = new URLSearchParams(redactSecrets(fields) as Record<string, string>).toString();
+      } else {
+        scrubbed = text;
+      }
+    }
+    return this.scrubText(scrubbed);
+  }
+
+  private scrubText(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      if (secret) result = result.split(secret).join('[REDACTED]');
+    }
+    return result;
+  }
+}
+
+function requestKey(method: string, path: string, body?: string): string {
+  return `${method} ${path}${body ? ` ${body}` : ''}`;
+}
@@ -2,10 +2,14 @@
  * Hetzner Robot API client (robot-ws.your-server.de).
  * Uses HTTP Basic auth, form-encoded POST bodies, JSON responses.
  * Implements request queuing, exponential backoff on 429s, and retries.
+ * Requests can be recorded to or replayed from a fixture file.
  */
 
 import type { RobotConfig } from '../config.js';
-import { RobotApiError, sleep } from './common.js';
+import { currentContext } from '../context.js';
+import { DryRunInterception, RobotApiError, sleep } from './common.js';
+import { FixtureMissError, type FixtureStore } from './fixtures.js';
+import { MAX_RETRY_DELAY_MS } from './scheduler.js';
 
 interface RequestOptions {
   method?: string;
@@ -24,7 +28,7 @@ export class RobotClient {
   private activeRequests = 0;
   private readonly maxConcurrent = 2;
 
-  constructor(config: RobotConfig) {
+  constructor(config: RobotConfig, private readonly fixtures: FixtureStore | null = null) {
     this.baseUrl = config.baseUrl;
     this.authHeader =
       'Basic ' + Buffer.from(`${config.user}:${config.password}`).toString('base64');
@@ -35,6 +39,23 @@ export class RobotClient {
    * POST bodies are sent as application/x-www-form-urlencoded (Robot API requirement).
    */
   async request<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+    // Checked before queuing: queued requests may start outside the caller's context
+    const { method = 'GET', body, params } = options;
+    if (method !== 'GET' && currentContext()?.dryRun) {
+      let encodedBody: string | undefined;
+      if (body) {
+        const formData = new URLSearchParams();
+        this.flattenFormData(formData, body);
+        encodedBody = formData.toString();
+      }
+      throw new DryRunInterception({
+        api: 'robot',
+        method,
+        path: params ? `${path}?${new URLSearchParams(params).toString()}` : path,
+        body,
+        encoded_body: encodedBody,
+      });
+    }
     return this.enqueue(() => this.doRequest<T>(path, options));
   }
 
@@ -68,12 +89,11 @@ export class RobotClient {
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
       try {
-        const response = await fetch(url, {
-          method,
-          headers,
-          body: requestBody,
-          signal: controller.signal,
-        });
+        const init: RequestInit = { method, headers, body: requestBody };
+        const doFetch = () => fetch(url, { ...init, signal: controller.signal });
+        const response = this.fixtures
+          ? await this.fixtures.fetch(url.slice(this.baseUrl.length), init, doFetch)
+          : await doFetch();
 
         clearTimeout(timeoutId);
 
@@ -81,14 +101,15 @@ export class RobotClient {
         if (response.status === 429 || response.status === 403) {
           const retryAfter = response.headers.get('Retry-After');
           const jitter = Math.random() * 1000;
-          const delay = retryAfter
-            ? parseInt(retryAfter, 10) * 1000
-            : Math.pow(2, attempt) * 1000 + jitter;
+          const delay = Math.min(
+            retryAfter ? parseInt(retryAfter, 10) * 1000 : Math.pow(2, attempt) * 1000 + jitter,
+            MAX_RETRY_DELAY_MS,
+          );
 
           console.error(
             `[Robot:${response.status}] Rate limited on ${path}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.maxRetries})`
           );
-          await sleep(delay);
+          await this.sleepUnlessCancelled(delay, path);
           continue;
         }
 
@@ -117,7 +138,7 @@ export class RobotClient {
       } catch (error) {
         clearTimeout(timeoutId);
 
-        if (error instanceof RobotApiError) throw error;
+        if (error instanceof RobotApiError || error instanceof FixtureMissError) throw error;
 
         if (error instanceof DOMException && error.name === 'AbortError') {
           throw new RobotApiError(0, 'TIMEOUT', `Request timed out after ${this.timeout}ms`, path);
@@ -130,7 +151,7 @@ export class RobotClient {
           console.error(
             `[Robot] Network error on ${path}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${this.maxRetries}): ${lastError.message}`
           );
-          await sleep(delay);
+          await this.sleepUnlessCancelled(delay, path);
         }
       }
     }
@@ -143,6 +164,15 @@ export class RobotClient {
     );
   }
 
+  /** Wait before a retry, giving up early if the current call is cancelled. */
+  private async sleepUnlessCancelled(ms: number, path: string): Promise<void> {
+    const signal = currentContext()?.signal;
+    await sleep(ms, signal);
+    if (signal?.aborted) {
+      throw new RobotApiError(0, 'CANCELLED', 'Stopped retrying: the call was cancelled.', path);
+    }
+  }
+
   /**
    * Flatten nested objects into form data with bracket notation.
    * e.g., { rules: { input: [{ action: 'accept' }] } }
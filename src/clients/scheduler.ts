@@ -0,0 +1,122 @@
+/**
+ * Token-bucket request scheduler for the Cloud API.
+ *
+ * Hetzner Cloud allows `RateLimit-Limit` requests per hour, refilled at
+ * `limit / 3600` requests per second, and reports the remaining budget on
+ * every response. The scheduler mirrors that bucket locally, delays requests
+ * when it runs dry, caps concurrency, and computes backoff for 429/503.
+ */
+
+import type { RateLimitInfo } from './common.js';
+import { sleep } from './common.js';
+
+/** Longest wait before a retry, whatever `Retry-After` or the refill rate say. */
+export const MAX_RETRY_DELAY_MS = 60_000;
+
+export interface SchedulerStatus {
+  limit: number;
+  /** Estimated remaining requests, including refill since the last response. */
+  remaining: number;
+  /** When the bucket will be full again (ISO 8601), per the last response. */
+  reset: string | null;
+  active_requests: number;
+  queued_requests: number;
+  max_concurrent: number;
+  throttled_requests: number;
+  retried_requests: number;
+}
+
+export class RateLimitScheduler {
+  private limit = 3600;
+  private tokens = 3600;
+  private resetAt: number | null = null;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+  private throttled = 0;
+  private retried = 0;
+
+  constructor(private readonly maxConcurrent = 5) {}
+
+  /** Requests refilled per millisecond. */
+  private get refillRate(): number {
+    return this.limit / 3_600_000;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit, this.tokens + (now - this.lastRefill) * this.refillRate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait for a concurrency slot and one token from the bucket. Must be paired
+   * with `release()`.
+   */
+  async acquire(): Promise<void> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.active++;
+
+    this.refill();
+    if (this.tokens < 1) {
+      this.throttled++;
+      await sleep(Math.ceil((1 - this.tokens) / this.refillRate));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  release(): void {
+    this.active--;
+    const next = this.waiters.shift();
+    next?.();
+  }
+
+  /**
+   * Sync the local bucket with the budget reported by the API.
+   */
+  update(info: RateLimitInfo): void {
+    this.limit = info.limit;
+    this.tokens = info.remaining;
+    this.resetAt = info.reset * 1000;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Delay before retrying a 429/503 response: `Retry-After` if sent, else
+   * the time for one token to refill after a 429, else exponential backoff.
+   * Never more than MAX_RETRY_DELAY_MS.
+   */
+  retryDelay(status: number, headers: Headers, attempt: number): number {
+    this.retried++;
+    const jitter = Math.random() * 250;
+    const retryAfter = headers.get('Retry-After');
+    let delay: number;
+    if (retryAfter && /^\d+$/.test(retryAfter)) {
+      delay = parseInt(retryAfter, 10) * 1000;
+    } else if (status === 429) {
+      this.tokens = 0;
+      this.lastRefill = Date.now();
+      delay = Math.max(Math.ceil(1 / this.refillRate), 1000);
+    } else {
+      delay = Math.min(Math.pow(2, attempt) * 1000, 30_000);
+    }
+    return Math.min(delay, MAX_RETRY_DELAY_MS) + jitter;
+  }
+
+  status(): SchedulerStatus {
+    this.refill();
+    return {
+      limit: this.limit,
+      remaining: Math.floor(this.tokens),
+      reset: this.resetAt ? new Date(this.resetAt).toISOString() : null,
+      active_requests: this.active,
+      queued_requests: this.waiters.length,
+      max_concurrent: this.maxConcurrent,
+      throttled_requests: this.throttled,
+      retried_requests: this.retried,
+    };
+  }
+}
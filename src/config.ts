@@ -1,5 +1,15 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { loadPolicy, type ToolPolicy } from './policy.js';
+import { parseLabelSelector, type LabelGuardConfig } from './guards.js';
+
 export type HetznerMode = 'read_only' | 'read_write';
 
+export type TransportType = 'stdio' | 'http';
+
+export type FixtureMode = 'record' | 'replay';
+
 export interface CloudConfig {
   token: string;
   baseUrl: string;
@@ -11,23 +21,89 @@ export interface RobotConfig {
   baseUrl: string;
 }
 
-export interface HetznerConfig {
+export interface HttpConfig {
+  host: string;
+  port: number;
+  authToken: string;
+  /** Close MCP sessions that see no requests for this long (default 30 minutes). */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  /** Directory holding one `<profile>-cloud.jsonl` / `<profile>-robot.jsonl` file per client. */
+  dir: string;
+}
+
+export interface ProfileConfig {
+  name: string;
   cloud: CloudConfig | null;
   robot: RobotConfig | null;
+}
+
+export interface HetznerConfig {
+  profiles: ProfileConfig[];
+  defaultProfile: string;
   mode: HetznerMode;
+  policy: ToolPolicy | null;
+  guard: LabelGuardConfig | null;
+  dryRun: boolean;
+  auditLogPath: string | null;
+  /** Directory of server blueprint files (YAML or JSON). */
+  blueprintsDir: string | null;
+  fixtures: FixtureConfig | null;
+  transport: TransportType;
+  http: HttpConfig | null;
 }
 
-export function loadConfig(): HetznerConfig {
-  const cloudToken = process.env.HETZNER_CLOUD_TOKEN;
-  const robotUser = process.env.HETZNER_ROBOT_USER;
-  const robotPassword = process.env.HETZNER_ROBOT_PASSWORD;
+const DEFAULT_CLOUD_URL = 'https://api.hetzner.cloud/v1';
+const DEFAULT_ROBOT_URL = 'https://robot-ws.your-server.de';
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const profilesFileSchema = z.object({
+  default: z.string().optional(),
+  profiles: z.record(
+    z.object({
+      cloud_token: z.string().optional(),
+      cloud_url: z.string().optional(),
+      robot_user: z.string().optional(),
+      robot_password: z.string().optional(),
+      robot_url: z.string().optional(),
+    }).strict(),
+  ),
+}).strict();
+
+/**
+ * Load configuration from environment variables. Transport settings can also
+ * be given on the command line (`--transport http --port 3000 --host 0.0.0.0`),
+ * which take precedence over their environment counterparts.
+ *
+ * Credentials come from up to three sources, merged into named profiles:
+ * the unprefixed `HETZNER_CLOUD_TOKEN` / `HETZNER_ROBOT_*` variables (profile
+ * "default"), a JSON profiles file (`HETZNER_PROFILES_FILE`), and prefixed
+ * variables such as `HETZNER_PROFILE_STAGING_CLOUD_TOKEN` (profile "staging").
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2)): HetznerConfig {
   const rawMode = process.env.HETZNER_MODE ?? 'read_only';
+  const { profiles, fileDefault } = loadProfiles();
 
-  if (!cloudToken && !(robotUser && robotPassword)) {
+  if (profiles.size === 0) {
     console.error(
       'ERROR: No Hetzner credentials configured.\n' +
       'Set HETZNER_CLOUD_TOKEN for Cloud/DNS API access, and/or\n' +
-      'Set HETZNER_ROBOT_USER + HETZNER_ROBOT_PASSWORD for Robot API access.'
+      'Set HETZNER_ROBOT_USER + HETZNER_ROBOT_PASSWORD for Robot API access, or\n' +
+      'Configure named profiles via HETZNER_PROFILES_FILE or HETZNER_PROFILE_<NAME>_* variables.'
+    );
+    process.exit(1);
+  }
+
+  const defaultProfile = process.env.HETZNER_DEFAULT_PROFILE ?? fileDefault ?? (
+    profiles.has('default') ? 'default' : [...profiles.keys()][0]
+  );
+  if (!profiles.has(defaultProfile)) {
+    console.error(
+      `ERROR: Default profile "${defaultProfile}" is not configured. ` +
+      `Available profiles: ${[...profiles.keys()].join(', ')}`
     );
     process.exit(1);
   }
@@ -39,36 +115,247 @@ export function loadConfig(): HetznerConfig {
 
   const mode = rawMode as HetznerMode;
 
+  let policy: ToolPolicy | null = null;
+  const policyFile = process.env.HETZNER_POLICY_FILE;
+  if (policyFile) {
+    try {
+      policy = loadPolicy(policyFile);
+    } catch (error) {
+      console.error(`ERROR: Could not load HETZNER_POLICY_FILE (${policyFile}): ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  const allowSelector = process.env.HETZNER_GUARD_ALLOW_SELECTOR || null;
+  const protectSelector = process.env.HETZNER_GUARD_PROTECT_SELECTOR || null;
+  for (const [name, selector] of [
+    ['HETZNER_GUARD_ALLOW_SELECTOR', allowSelector],
+    ['HETZNER_GUARD_PROTECT_SELECTOR', protectSelector],
+  ] as const) {
+    if (!selector) continue;
+    try {
+      parseLabelSelector(selector);
+    } catch (error) {
+      console.error(`ERROR: ${name} is not a valid label selector: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+  const guard = allowSelector || protectSelector ? { allowSelector, protectSelector } : null;
+
+  const rawDryRun = process.env.HETZNER_DRY_RUN ?? 'false';
+  if (rawDryRun !== 'true' && rawDryRun !== 'false') {
+    console.error('ERROR: HETZNER_DRY_RUN must be "true" or "false". Got: ' + rawDryRun);
+    process.exit(1);
+  }
+  const dryRun = rawDryRun === 'true';
+
+  let fixtures: FixtureConfig | null = null;
+  const rawFixtures = process.env.HETZNER_FIXTURES;
+  if (rawFixtures) {
+    if (rawFixtures !== 'record' && rawFixtures !== 'replay') {
+      console.error('ERROR: HETZNER_FIXTURES must be "record" or "replay". Got: ' + rawFixtures);
+      process.exit(1);
+    }
+    fixtures = { mode: rawFixtures, dir: process.env.HETZNER_FIXTURES_DIR || 'fixtures' };
+  }
+
+  const { values: cli } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+    strict: false,
+  });
+
+  const rawTransport = (cli.transport as string | undefined) ?? process.env.HETZNER_TRANSPORT ?? 'stdio';
+  if (rawTransport !== 'stdio' && rawTransport !== 'http') {
+    console.error('ERROR: HETZNER_TRANSPORT must be "stdio" or "http". Got: ' + rawTransport);
+    process.exit(1);
+  }
+
+  const transport = rawTransport as TransportType;
+  let http: HttpConfig | null = null;
+
+  if (transport === 'http') {
+    const authToken = process.env.HETZNER_MCP_AUTH_TOKEN;
+    if (!authToken) {
+      console.error(
+        'ERROR: HTTP transport requires a bearer token.\n' +
+        'Set HETZNER_MCP_AUTH_TOKEN to the token clients must send in the Authorization header.'
+      );
+      process.exit(1);
+    }
+
+    const rawPort = (cli.port as string | undefined) ?? process.env.HETZNER_HTTP_PORT ?? '3000';
+    const port = Number(rawPort);
+    if (!/^\d+$/.test(rawPort) || port > 65535) {
+      console.error('ERROR: HETZNER_HTTP_PORT must be a valid port number. Got: ' + rawPort);
+      process.exit(1);
+    }
+
+    const rawIdleTimeout = process.env.HETZNER_HTTP_SESSION_TIMEOUT ?? '1800';
+    const idleTimeout = Number(rawIdleTimeout);
+    if (!/^\d+$/.test(rawIdleTimeout) || idleTimeout === 0) {
+      console.error('ERROR: HETZNER_HTTP_SESSION_TIMEOUT must be a positive number of seconds. Got: ' + rawIdleTimeout);
+      process.exit(1);
+    }
+
+    http = {
+      host: (cli.host as string | undefined) ?? process.env.HETZNER_HTTP_HOST ?? '127.0.0.1',
+      port,
+      authToken,
+      sessionIdleTimeoutMs: idleTimeout * 1000,
+    };
+  }
+
   return {
-    cloud: cloudToken
-      ? {
-          token: cloudToken,
-          baseUrl: process.env.HETZNER_CLOUD_URL ?? 'https://api.hetzner.cloud/v1',
-        }
-      : null,
-    robot:
-      robotUser && robotPassword
-        ? {
-            user: robotUser,
-            password: robotPassword,
-            baseUrl: process.env.HETZNER_ROBOT_URL ?? 'https://robot-ws.your-server.de',
-          }
-        : null,
+    profiles: [...profiles.values()],
+    defaultProfile,
     mode,
+    policy,
+    guard,
+    dryRun,
+    auditLogPath: process.env.HETZNER_AUDIT_LOG || null,
+    blueprintsDir: process.env.HETZNER_BLUEPRINTS_DIR || null,
+    fixtures,
+    transport,
+    http,
   };
 }
 
 export function describeConfig(config: HetznerConfig): string {
-  const lines: string[] = [`Mode: ${config.mode}`];
-  if (config.cloud) {
-    lines.push('Cloud API: configured');
-  } else {
-    lines.push('Cloud API: not configured (set HETZNER_CLOUD_TOKEN)');
+  const lines: string[] = [`Mode: ${config.mode}${config.dryRun ? ' (dry run by default)' : ''}`];
+  if (config.policy) {
+    lines.push(
+      `Policy: ${config.policy.allow.length} allow / ${config.policy.deny.length} deny rules (denied tools: ${config.policy.onDeny})`,
+    );
   }
-  if (config.robot) {
-    lines.push(`Robot API: configured (user: ${config.robot.user})`);
+  if (config.http) {
+    lines.push(`Transport: http (listening on ${config.http.host}:${config.http.port})`);
   } else {
-    lines.push('Robot API: not configured (set HETZNER_ROBOT_USER + HETZNER_ROBOT_PASSWORD)');
+    lines.push('Transport: stdio');
+  }
+  if (config.auditLogPath) {
+    lines.push(`Audit log: ${config.auditLogPath}`);
+  }
+  if (config.blueprintsDir) {
+    lines.push(`Blueprints: ${config.blueprintsDir}`);
+  }
+  if (config.fixtures) {
+    lines.push(
+      config.fixtures.mode === 'record'
+        ? `Fixtures: recording HTTP traffic to ${config.fixtures.dir}`
+        : `Fixtures: replaying HTTP traffic from ${config.fixtures.dir} (no network access)`,
+    );
+  }
+  if (config.guard) {
+    const parts: string[] = [];
+    if (config.guard.allowSelector) parts.push(`allow "${config.guard.allowSelector}"`);
+    if (config.guard.protectSelector) parts.push(`protect "${config.guard.protectSelector}"`);
+    lines.push(`Label guard: ${parts.join(', ')}`);
+  }
+  for (const profile of config.profiles) {
+    const isDefault = profile.name === config.defaultProfile ? ' (default)' : '';
+    lines.push(`Profile "${profile.name}"${isDefault}:`);
+    if (profile.cloud) {
+      lines.push('  Cloud API: configured');
+    } else {
+      lines.push('  Cloud API: not configured (set HETZNER_CLOUD_TOKEN)');
+    }
+    if (profile.robot) {
+      lines.push(`  Robot API: configured (user: ${profile.robot.user})`);
+    } else {
+      lines.push('  Robot API: not configured (set HETZNER_ROBOT_USER + HETZNER_ROBOT_PASSWORD)');
+    }
   }
   return lines.join('\n');
 }
+
+// ── Profiles ────────────────────────────────────────────────────────────────
+
+function loadProfiles(): { profiles: Map<string, ProfileConfig>; fileDefault?: string } {
+  let fileDefault: string | undefined;
+  const profiles = new Map<string, ProfileConfig>();
+  const cloudUrl = process.env.HETZNER_CLOUD_URL ?? DEFAULT_CLOUD_URL;
+  const robotUrl = process.env.HETZNER_ROBOT_URL ?? DEFAULT_ROBOT_URL;
+
+  const addProfile = (
+    name: string,
+    source: string,
+    creds: { cloudToken?: string; cloudUrl?: string; robotUser?: string; robotPassword?: string; robotUrl?: string },
+  ) => {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      console.error(`ERROR: Invalid profile name "${name}" in ${source}. Use lowercase letters, digits, "-" and "_".`);
+      process.exit(1);
+    }
+    if (profiles.has(name)) {
+      console.error(`ERROR: Profile "${name}" from ${source} is defined more than once.`);
+      process.exit(1);
+    }
+    if (!creds.cloudToken && !(creds.robotUser && creds.robotPassword)) {
+      console.error(`ERROR: Profile "${name}" from ${source} has neither a Cloud token nor Robot user + password.`);
+      process.exit(1);
+    }
+    profiles.set(name, {
+      name,
+      cloud: creds.cloudToken
+        ? { token: creds.cloudToken, baseUrl: creds.cloudUrl ?? cloudUrl }
+        : null,
+      robot: creds.robotUser && creds.robotPassword
+        ? { user: creds.robotUser, password: creds.robotPassword, baseUrl: creds.robotUrl ?? robotUrl }
+        : null,
+    });
+  };
+
+  // 1. Unprefixed variables → "default" profile
+  const cloudToken = process.env.HETZNER_CLOUD_TOKEN;
+  const robotUser = process.env.HETZNER_ROBOT_USER;
+  const robotPassword = process.env.HETZNER_ROBOT_PASSWORD;
+  if (cloudToken || (robotUser && robotPassword)) {
+    addProfile('default', 'HETZNER_* variables', { cloudToken, robotUser, robotPassword });
+  }
+
+  // 2. Profiles file
+  const file = process.env.HETZNER_PROFILES_FILE;
+  if (file) {
+    let parsed: z.infer<typeof profilesFileSchema>;
+    try {
+      parsed = profilesFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+    } catch (error) {
+      console.error(`ERROR: Could not load HETZNER_PROFILES_FILE (${file}): ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    fileDefault = parsed.default;
+    for (const [name, p] of Object.entries(parsed.profiles)) {
+      addProfile(name, file, {
+        cloudToken: p.cloud_token,
+        cloudUrl: p.cloud_url,
+        robotUser: p.robot_user,
+        robotPassword: p.robot_password,
+        robotUrl: p.robot_url,
+      });
+    }
+  }
+
+  // 3. Prefixed variables: HETZNER_PROFILE_<NAME>_CLOUD_TOKEN, _ROBOT_USER, _ROBOT_PASSWORD
+  const prefixed = new Map<string, { cloudToken?: string; robotUser?: string; robotPassword?: string }>();
+  const suffixes = { _CLOUD_TOKEN: 'cloudToken', _ROBOT_USER: 'robotUser', _ROBOT_PASSWORD: 'robotPassword' } as const;
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!key.startsWith('HETZNER_PROFILE_') || !value) continue;
+    for (const [suffix, field] of Object.entries(suffixes)) {
+      if (key.endsWith(suffix) && key.length > 'HETZNER_PROFILE_'.length + suffix.length) {
+        const name = key.slice('HETZNER_PROFILE_'.length, -suffix.length).toLowerCase();
+        const entry = prefixed.get(name) ?? {};
+        entry[field] = value;
+        prefixed.set(name, entry);
+      }
+    }
+  }
+  for (const [name, creds] of prefixed) {
+    addProfile(name, `HETZNER_PROFILE_${name.toUpperCase()}_* variables`, creds);
+  }
+
+  return { profiles, fileDefault };
+}
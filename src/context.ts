@@ -0,0 +1,41 @@
+/**
+ * Per-call context — carries state about the tool call currently being
+ * handled (e.g. the selected project) through async code, so tool handlers
+ * and API clients don't need it threaded through every signature.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { HetznerAction } from './clients/common.js';
+
+export interface CallContext {
+  /** Tool name being executed (or `resource:<family>` for resource reads). */
+  tool: string;
+  /** Project profile selected for this call (undefined = default). */
+  project?: string;
+  /** When set, clients throw DryRunInterception instead of sending mutating requests. */
+  dryRun?: boolean;
+  /** When set, clients append every action returned by the API to this list. */
+  actions?: HetznerAction[];
+  /** When false, action polling returns the action's current state instead of waiting. */
+  wait?: boolean;
+  /** Aborted when the client cancels the call; stops action polling and retry waits. */
+  signal?: AbortSignal;
+  /** Called with each polled state of an action being waited on. */
+  onActionProgress?: (action: HetznerAction) => void;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Run `fn` with `context` as the current call context.
+ */
+export function runWithContext<T>(context: CallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The call context of the tool call currently executing, if any.
+ */
+export function currentContext(): CallContext | undefined {
+  return storage.getStore();
+}
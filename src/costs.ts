@@ -0,0 +1,425 @@
+/**
+ * Cost engine — match resources to location-specific monthly prices from
+ * `/pricing`, for the running project (line items per resource) and for
+ * planned changes (signed deltas, also used by dry runs).
+ * All amounts are gross monthly prices as numbers in the pricing currency.
+ */
+
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+import { resourceRef } from './resolver.js';
+import type {
+  CloudFloatingIP,
+  CloudImage,
+  CloudLoadBalancer,
+  CloudLocationPrice,
+  CloudPricing,
+  CloudPrimaryIP,
+  CloudServer,
+  CloudVolume,
+} from './types/cloud.js';
+
+export interface MonthlyPrice {
+  amount: number;
+  /** Location the price applies to (null for location-independent prices). */
+  location: string | null;
+}
+
+export async function fetchPricing(cloud: CloudClient): Promise<CloudPricing> {
+  const result = await cloud.request<{ pricing: CloudPricing }>('/pricing');
+  return result.pricing;
+}
+
+/**
+ * Pick the price entry for `location`, or the cheapest one if no location is
+ * given. Returns null if the location has no price (i.e. is unavailable).
+ */
+function pickPrice<P extends { location: string; price_monthly: { gross: string } }>(
+  prices: P[],
+  location?: string | null,
+): MonthlyPrice | null {
+  const entry = location
+    ? prices.find((p) => p.location === location)
+    : [...prices].sort((a, b) => parseFloat(a.price_monthly.gross) - parseFloat(b.price_monthly.gross))[0];
+  if (!entry) return null;
+  return { amount: parseFloat(entry.price_monthly.gross), location: entry.location };
+}
+
+export function serverTypePrice(
+  pricing: CloudPricing,
+  serverType: string | number,
+  location?: string | null,
+): MonthlyPrice | null {
+  const st = pricing.server_types.find((t) => t.name === serverType || String(t.id) === String(serverType));
+  return st ? pickPrice(st.prices, location) : null;
+}
+
+export function loadBalancerTypePrice(
+  pricing: CloudPricing,
+  lbType: string | number,
+  location?: string | null,
+): MonthlyPrice | null {
+  const lt = pricing.load_balancer_types.find((t) => t.name === lbType || String(t.id) === String(lbType));
+  return lt ? pickPrice(lt.prices, location) : null;
+}
+
+export function floatingIpPrice(
+  pricing: CloudPricing,
+  type: string,
+  location?: string | null,
+): MonthlyPrice | null {
+  const entry = pricing.floating_ips.find((f) => f.type === type);
+  return entry ? pickPrice(entry.prices, location) : null;
+}
+
+export function primaryIpPrice(
+  pricing: CloudPricing,
+  type: string,
+  location?: string | null,
+): MonthlyPrice | null {
+  const entry = pricing.primary_ips.find((p) => p.type === type);
+  return entry ? pickPrice(entry.prices, location) : null;
+}
+
+export function volumePrice(pricing: CloudPricing, sizeGb: number): MonthlyPrice {
+  return { amount: sizeGb * parseFloat(pricing.volume.price_per_gb_month.gross), location: null };
+}
+
+/**
+ * Backups cost a percentage of the server's price.
+ */
+export function backupPrice(pricing: CloudPricing, server: MonthlyPrice): MonthlyPrice {
+  return {
+    amount: server.amount * (parseFloat(pricing.server_backup.percentage) / 100),
+    location: server.location,
+  };
+}
+
+/**
+ * Location name of a datacenter name (`fsn1-dc14` → `fsn1`).
+ */
+export function datacenterLocation(datacenter: string): string {
+  return datacenter.split('-')[0];
+}
+
+export function formatAmount(amount: number, currency: string): string {
+  const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+  return `${sign}${Math.abs(amount).toFixed(2)} ${currency}`;
+}
+
+const TB = 1024 ** 4;
+
+/** Round to cents. */
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function times(price: MonthlyPrice | null, count: number): MonthlyPrice | null {
+  return price && { amount: price.amount * count, location: price.location };
+}
+
+/**
+ * Traffic beyond the included amount, priced per TB for the location.
+ * `outgoing` is the traffic of the current billing period so far.
+ */
+function trafficOverage(
+  prices: CloudLocationPrice[],
+  location: string,
+  outgoing: number | null | undefined,
+  included: number | null | undefined,
+): MonthlyPrice | null {
+  const entry = prices.find((p) => p.location === location);
+  const allowance = included ?? entry?.included_traffic;
+  if (!entry?.price_per_tb_traffic || !outgoing || allowance === undefined || outgoing <= allowance) return null;
+  return { amount: ((outgoing - allowance) / TB) * parseFloat(entry.price_per_tb_traffic.gross), location };
+}
+
+// ── Project costs ───────────────────────────────────────────────────────────
+
+export type CostItemType =
+  | 'server'
+  | 'server_backup'
+  | 'traffic'
+  | 'volume'
+  | 'floating_ip'
+  | 'primary_ip'
+  | 'load_balancer'
+  | 'snapshot';
+
+export interface CostItem {
+  type: CostItemType;
+  id: number;
+  name: string;
+  location: string | null;
+  detail: string;
+  /** Null when no price matches (unknown type or unavailable in the location). */
+  monthly_gross: number | null;
+  labels: Record<string, string>;
+}
+
+/** Billing fields of servers and load balancers that the response schemas leave out. */
+interface Billed {
+  backup_window?: string | null;
+  outgoing_traffic?: number | null;
+  included_traffic?: number | null;
+}
+
+/**
+ * One line item per billed resource of the project: servers with their
+ * backups and traffic overage, volumes, floating and primary IPs, load
+ * balancers with their traffic overage, and snapshots. Backup images are
+ * covered by the server backup surcharge.
+ */
+export async function projectCostItems(
+  cloud: CloudClient,
+  pricing: CloudPricing,
+  labelSelector?: string,
+): Promise<CostItem[]> {
+  const params = { label_selector: labelSelector };
+  const [servers, volumes, floatingIps, primaryIps, loadBalancers, snapshots] = await Promise.all([
+    cloud.requestAll<CloudServer & Billed>('/servers', 'servers', params),
+    cloud.requestAll<CloudVolume>('/volumes', 'volumes', params),
+    cloud.requestAll<CloudFloatingIP>('/floating_ips', 'floating_ips', params),
+    cloud.requestAll<CloudPrimaryIP>('/primary_ips', 'primary_ips', params),
+    cloud.requestAll<CloudLoadBalancer & Billed>('/load_balancers', 'load_balancers', params),
+    cloud.requestAll<CloudImage>('/images', 'images', { ...params, type: 'snapshot' }),
+  ]);
+
+  const items: CostItem[] = [];
+  const item = (
+    type: CostItemType,
+    resource: { id: number; name: string | null; labels: Record<string, string> },
+    detail: string,
+    price: MonthlyPrice | null,
+    location: string | null,
+  ) => {
+    items.push({
+      type,
+      id: resource.id,
+      name: resource.name ?? String(resource.id),
+      location: price?.location ?? location,
+      detail,
+      monthly_gross: price && round(price.amount),
+      labels: resource.labels,
+    });
+  };
+
+  for (const server of servers) {
+    const location = server.datacenter.location.name;
+    const type = server.server_type.name;
+    const price = serverTypePrice(pricing, type, location);
+    item('server', server, `server type ${type}`, price, location);
+    if (server.backup_window) {
+      item('server_backup', server, 'server backups', price && backupPrice(pricing, price), location);
+    }
+    const prices = pricing.server_types.find((t) => t.name === type)?.prices ?? [];
+    const overage = trafficOverage(prices, location, server.outgoing_traffic, server.included_traffic);
+    if (overage) item('traffic', server, 'traffic beyond the included amount', overage, location);
+  }
+  for (const volume of volumes) {
+    item('volume', volume, `${volume.size} GB volume`, volumePrice(pricing, volume.size), volume.location.name);
+  }
+  for (const ip of floatingIps) {
+    const location = ip.home_location.name;
+    item('floating_ip', ip, `${ip.type} floating IP`, floatingIpPrice(pricing, ip.type, location), location);
+  }
+  for (const ip of primaryIps) {
+    const location = ip.datacenter.location.name;
+    item('primary_ip', ip, `${ip.type} primary IP`, primaryIpPrice(pricing, ip.type, location), location);
+  }
+  for (const lb of loadBalancers) {
+    const location = lb.location.name;
+    const type = lb.load_balancer_type.name;
+    item('load_balancer', lb, `load balancer type ${type}`, loadBalancerTypePrice(pricing, type, location), location);
+    const prices = pricing.load_balancer_types.find((t) => t.name === type)?.prices ?? [];
+    const overage = trafficOverage(prices, location, lb.outgoing_traffic, lb.included_traffic);
+    if (overage) item('traffic', lb, 'traffic beyond the included amount', overage, location);
+  }
+  for (const snapshot of snapshots) {
+    const size = snapshot.image_size ?? 0;
+    const price = { amount: size * parseFloat(pricing.image.price_per_gb_month.gross), location: null };
+    item('snapshot', { ...snapshot, name: snapshot.description }, `${size} GB snapshot`, price, null);
+  }
+  return items;
+}
+
+export interface CostSummary {
+  monthly_gross: number;
+  by_type: Record<string, number>;
+  /** Per label key, the total per label value; `(none)` collects items without the label. */
+  by_label: Record<string, Record<string, number>>;
+}
+
+/**
+ * Totals of signed or unsigned amounts, per type and per value of each
+ * label key in `groupBy`. Unpriced items count as zero.
+ */
+export function summarizeCosts(
+  items: Array<{ type: string; monthly_gross: number | null; labels: Record<string, string> }>,
+  groupBy: string[] = [],
+): CostSummary {
+  const add = (totals: Record<string, number>, key: string, amount: number) => {
+    totals[key] = round((totals[key] ?? 0) + amount);
+  };
+  const summary: CostSummary = { monthly_gross: 0, by_type: {}, by_label: {} };
+  for (const key of groupBy) summary.by_label[key] = {};
+  for (const item of items) {
+    const amount = item.monthly_gross ?? 0;
+    summary.monthly_gross = round(summary.monthly_gross + amount);
+    add(summary.by_type, item.type, amount);
+    for (const key of groupBy) add(summary.by_label[key], item.labels[key] ?? '(none)', amount);
+  }
+  return summary;
+}
+
+// ── Change costs ────────────────────────────────────────────────────────────
+
+const labelsParam = z.record(z.string()).optional().describe('Labels the new resource would get, for the per-label breakdown');
+const locationParam = z.string().optional().describe('Location name (default: priced at the cheapest location)');
+const ipTypeParam = z.enum(['ipv4', 'ipv6']);
+
+export const costChangeSchema = z.discriminatedUnion('change', [
+  z.object({
+    change: z.literal('create_server'),
+    server_type: z.string(),
+    location: locationParam,
+    backups: z.boolean().optional().describe('Whether backups are enabled'),
+    count: z.number().int().positive().optional().describe('Number of servers (default: 1)'),
+    labels: labelsParam,
+  }),
+  z.object({ change: z.literal('change_server_type'), server: resourceRef('server', 'Server'), server_type: z.string() }),
+  z.object({ change: z.literal('enable_backup'), server: resourceRef('server', 'Server') }),
+  z.object({ change: z.literal('disable_backup'), server: resourceRef('server', 'Server') }),
+  z.object({ change: z.literal('delete_server'), server: resourceRef('server', 'Server') }),
+  z.object({
+    change: z.literal('create_volume'),
+    size: z.number().positive().describe('Size in GB'),
+    count: z.number().int().positive().optional().describe('Number of volumes (default: 1)'),
+    labels: labelsParam,
+  }),
+  z.object({ change: z.literal('resize_volume'), volume: resourceRef('volume', 'Volume'), size: z.number().positive() }),
+  z.object({ change: z.literal('delete_volume'), volume: resourceRef('volume', 'Volume') }),
+  z.object({ change: z.literal('create_floating_ip'), ip_type: ipTypeParam, location: locationParam, labels: labelsParam }),
+  z.object({ change: z.literal('delete_floating_ip'), floating_ip: resourceRef('floating_ip', 'Floating IP') }),
+  z.object({ change: z.literal('create_primary_ip'), ip_type: ipTypeParam, location: locationParam, labels: labelsParam }),
+  z.object({ change: z.literal('delete_primary_ip'), primary_ip: resourceRef('primary_ip', 'Primary IP') }),
+  z.object({
+    change: z.literal('create_load_balancer'),
+    load_balancer_type: z.string(),
+    location: locationParam,
+    labels: labelsParam,
+  }),
+  z.object({
+    change: z.literal('change_load_balancer_type'),
+    load_balancer: resourceRef('load_balancer', 'Load balancer'),
+    load_balancer_type: z.string(),
+  }),
+  z.object({ change: z.literal('delete_load_balancer'), load_balancer: resourceRef('load_balancer', 'Load balancer') }),
+]);
+export type CostChange = z.infer<typeof costChangeSchema>;
+
+export interface PricedChange {
+  price: MonthlyPrice | null;
+  sign: 1 | -1;
+  detail: string;
+  labels: Record<string, string>;
+}
+
+/**
+ * The price lines of a planned change: what it adds (sign 1) and what it
+ * removes (sign -1). Existing resources are fetched for their type, size
+ * and location; references must already be resolved to IDs.
+ */
+export async function priceChange(cloud: CloudClient, pricing: CloudPricing, change: CostChange): Promise<PricedChange[]> {
+  const get = async <T>(path: string, key: string) => (await cloud.request<Record<string, T>>(path))[key];
+  const line = (price: MonthlyPrice | null, sign: 1 | -1, detail: string, labels: Record<string, string> = {}): PricedChange =>
+    ({ price, sign, detail, labels });
+  const counted = (count: number | undefined, detail: string) => (count && count > 1 ? `${count} × ${detail}` : detail);
+  const located = (location: string | undefined, detail: string) => (location ? detail : `${detail} (cheapest location)`);
+
+  switch (change.change) {
+    case 'create_server': {
+      const count = change.count ?? 1;
+      const price = serverTypePrice(pricing, change.server_type, change.location);
+      const detail = (what: string) => located(change.location, counted(count, what));
+      const lines = [line(times(price, count), 1, detail(`server type ${change.server_type}`), change.labels)];
+      if (change.backups) {
+        lines.push(line(times(price && backupPrice(pricing, price), count), 1, detail('server backups'), change.labels));
+      }
+      return lines;
+    }
+    case 'change_server_type':
+    case 'enable_backup':
+    case 'disable_backup':
+    case 'delete_server': {
+      const server = await get<CloudServer & Billed>(`/servers/${change.server}`, 'server');
+      const location = server.datacenter.location.name;
+      const current = serverTypePrice(pricing, server.server_type.name, location);
+      const backup = current && backupPrice(pricing, current);
+      const currentLine = line(current, -1, `server type ${server.server_type.name}`, server.labels);
+      if (change.change === 'change_server_type') {
+        const next = serverTypePrice(pricing, change.server_type, location);
+        const lines = [line(next, 1, `server type ${change.server_type}`, server.labels), currentLine];
+        if (server.backup_window) {
+          // The backup surcharge is a percentage of the server price, so it changes with the type
+          lines.push(
+            line(next && backupPrice(pricing, next), 1, 'server backups', server.labels),
+            line(backup, -1, 'server backups', server.labels),
+          );
+        }
+        return lines;
+      }
+      if (change.change === 'delete_server') {
+        return server.backup_window ? [currentLine, line(backup, -1, 'server backups', server.labels)] : [currentLine];
+      }
+      return [line(backup, change.change === 'enable_backup' ? 1 : -1, 'server backups', server.labels)];
+    }
+    case 'create_volume': {
+      const count = change.count ?? 1;
+      return [line(times(volumePrice(pricing, change.size), count), 1, counted(count, `${change.size} GB volume`), change.labels)];
+    }
+    case 'resize_volume':
+    case 'delete_volume': {
+      const volume = await get<CloudVolume>(`/volumes/${change.volume}`, 'volume');
+      const size = change.change === 'delete_volume' ? -volume.size : change.size - volume.size;
+      return [line(volumePrice(pricing, Math.abs(size)), size < 0 ? -1 : 1, `${size} GB volume size`, volume.labels)];
+    }
+    case 'create_floating_ip': {
+      const price = floatingIpPrice(pricing, change.ip_type, change.location);
+      return [line(price, 1, located(change.location, `${change.ip_type} floating IP`), change.labels)];
+    }
+    case 'delete_floating_ip': {
+      const ip = await get<CloudFloatingIP>(`/floating_ips/${change.floating_ip}`, 'floating_ip');
+      return [line(floatingIpPrice(pricing, ip.type, ip.home_location.name), -1, `${ip.type} floating IP`, ip.labels)];
+    }
+    case 'create_primary_ip': {
+      const price = primaryIpPrice(pricing, change.ip_type, change.location);
+      return [line(price, 1, located(change.location, `${change.ip_type} primary IP`), change.labels)];
+    }
+    case 'delete_primary_ip': {
+      const ip = await get<CloudPrimaryIP>(`/primary_ips/${change.primary_ip}`, 'primary_ip');
+      return [line(primaryIpPrice(pricing, ip.type, ip.datacenter.location.name), -1, `${ip.type} primary IP`, ip.labels)];
+    }
+    case 'create_load_balancer': {
+      const price = loadBalancerTypePrice(pricing, change.load_balancer_type, change.location);
+      return [line(price, 1, located(change.location, `load balancer type ${change.load_balancer_type}`), change.labels)];
+    }
+    case 'change_load_balancer_type':
+    case 'delete_load_balancer': {
+      const lb = await get<CloudLoadBalancer>(`/load_balancers/${change.load_balancer}`, 'load_balancer');
+      const location = lb.location.name;
+      const current = loadBalancerTypePrice(pricing, lb.load_balancer_type.name, location);
+      const lines = [line(current, -1, `load balancer type ${lb.load_balancer_type.name}`, lb.labels)];
+      if (change.change === 'change_load_balancer_type') {
+        const next = loadBalancerTypePrice(pricing, change.load_balancer_type, location);
+        lines.unshift(line(next, 1, `load balancer type ${change.load_balancer_type}`, lb.labels));
+      }
+      return lines;
+    }
+  }
+}
+
+/** Signed monthly amount of a price line, or null if it has no price. */
+export function signedAmount(line: PricedChange): number | null {
+  return line.price && round(line.sign * line.price.amount);
+}
@@ -0,0 +1,273 @@
+/**
+ * Dry-run planning — turns an intercepted mutating request into a plan:
+ * the exact request, the resources it references, and the cost delta.
+ */
+
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+import { HetznerApiError, type PlannedRequest } from './clients/common.js';
+import { datacenterLocation, fetchPricing, formatAmount, priceChange, type CostChange } from './costs.js';
+
+export const dryRunPlanSchema = z.object({
+  dry_run: z.literal(true),
+  tool: z.string(),
+  request: z.object({
+    api: z.enum(['cloud', 'robot']),
+    method: z.string(),
+    path: z.string(),
+    body: z.unknown().optional(),
+    encoded_body: z.string().optional(),
+  }).nullable(),
+  references: z.array(z.object({
+    field: z.string(),
+    type: z.string(),
+    ref: z.union([z.string(), z.number()]),
+    found: z.boolean(),
+    id: z.number().optional(),
+    name: z.string().optional(),
+  })),
+  cost_delta: z.object({
+    monthly_gross: z.string(),
+    detail: z.string(),
+  }).nullable(),
+  warnings: z.array(z.string()),
+  /** Output of a tool that completed without sending a mutating request. */
+  result: z.unknown().optional(),
+});
+
+export type DryRunPlan = z.infer<typeof dryRunPlanSchema>;
+export type ResolvedReference = DryRunPlan['references'][number];
+export type CostDelta = NonNullable<DryRunPlan['cost_delta']>;
+
+/**
+ * Build the plan for an intercepted request. `cloud` is null for projects
+ * without Cloud access, in which case references and costs are skipped.
+ */
+export async function buildDryRunPlan(
+  tool: string,
+  request: PlannedRequest,
+  cloud: CloudClient | null,
+): Promise<DryRunPlan> {
+  const plan: DryRunPlan = {
+    dry_run: true,
+    tool,
+    request,
+    references: [],
+    cost_delta: null,
+    warnings: [],
+  };
+  if (request.api !== 'cloud' || !cloud) return plan;
+
+  plan.references = await resolveReferences(cloud, request);
+  for (const ref of plan.references) {
+    if (!ref.found) plan.warnings.push(`${ref.field}: ${ref.type} "${ref.ref}" does not exist`);
+  }
+
+  try {
+    plan.cost_delta = await estimateCostDelta(cloud, request);
+  } catch (error) {
+    plan.warnings.push(`Cost estimate unavailable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return plan;
+}
+
+/**
+ * Plan for a dry run in which the tool sent no mutating request at all
+ * (e.g. it returned early), carrying the tool's own output.
+ */
+export function emptyDryRunPlan(tool: string, result: unknown): DryRunPlan {
+  return {
+    dry_run: true,
+    tool,
+    request: null,
+    references: [],
+    cost_delta: null,
+    warnings: [],
+    result,
+  };
+}
+
+// ── References ──────────────────────────────────────────────────────────────
+
+/** Collection path and response key per resource type. */
+const COLLECTIONS: Record<string, { path: string; key: string }> = {
+  server: { path: '/servers', key: 'server' },
+  volume: { path: '/volumes', key: 'volume' },
+  network: { path: '/networks', key: 'network' },
+  firewall: { path: '/firewalls', key: 'firewall' },
+  floating_ip: { path: '/floating_ips', key: 'floating_ip' },
+  primary_ip: { path: '/primary_ips', key: 'primary_ip' },
+  load_balancer: { path: '/load_balancers', key: 'load_balancer' },
+  certificate: { path: '/certificates', key: 'certificate' },
+  ssh_key: { path: '/ssh_keys', key: 'ssh_key' },
+  placement_group: { path: '/placement_groups', key: 'placement_group' },
+  storage_box: { path: '/storage_boxes', key: 'storage_box' },
+  image: { path: '/images', key: 'image' },
+  iso: { path: '/isos', key: 'iso' },
+  server_type: { path: '/server_types', key: 'server_type' },
+  load_balancer_type: { path: '/load_balancer_types', key: 'load_balancer_type' },
+  location: { path: '/locations', key: 'location' },
+  datacenter: { path: '/datacenters', key: 'datacenter' },
+};
+
+/** Body fields that refer to other resources. */
+const BODY_REFERENCES: Record<string, string> = {
+  server: 'server',
+  volume: 'volume',
+  network: 'network',
+  volumes: 'volume',
+  networks: 'network',
+  firewalls: 'firewall',
+  ssh_keys: 'ssh_key',
+  placement_group: 'placement_group',
+  certificates: 'certificate',
+  image: 'image',
+  iso: 'iso',
+  server_type: 'server_type',
+  load_balancer_type: 'load_balancer_type',
+  location: 'location',
+  home_location: 'location',
+  datacenter: 'datacenter',
+};
+
+async function resolveReferences(cloud: CloudClient, request: PlannedRequest): Promise<ResolvedReference[]> {
+  const refs: ResolvedReference[] = [];
+
+  // The resource addressed by the path, e.g. /servers/42/actions/reboot
+  const target = /^\/([a-z_]+)\/(\d+)/.exec(request.path);
+  if (target) {
+    const type = Object.keys(COLLECTIONS).find((t) => COLLECTIONS[t].path === `/${target[1]}`);
+    if (type) refs.push(await lookup(cloud, 'path', type, Number(target[2])));
+  }
+
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  for (const [field, type] of Object.entries(BODY_REFERENCES)) {
+    for (const value of referenceValues(body[field])) {
+      refs.push(await lookup(cloud, field, type, value));
+    }
+  }
+  if (request.path === '/primary_ips' || /^\/primary_ips\/\d+\/actions\/assign$/.test(request.path)) {
+    if (typeof body.assignee_id === 'number') refs.push(await lookup(cloud, 'assignee_id', 'server', body.assignee_id));
+  }
+  return refs;
+}
+
+/** Extract IDs/names from `5`, `"cx22"`, `{ id: 5 }`, `{ firewall: 5 }` or arrays thereof. */
+function referenceValues(value: unknown): Array<string | number> {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.flatMap(referenceValues);
+  if (typeof value === 'number' || typeof value === 'string') return [value];
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.id === 'number') return [obj.id];
+    if (typeof obj.firewall === 'number') return [obj.firewall];
+  }
+  return [];
+}
+
+async function lookup(
+  cloud: CloudClient,
+  field: string,
+  type: string,
+  ref: string | number,
+): Promise<ResolvedReference> {
+  const { path, key } = COLLECTIONS[type];
+  try {
+    if (typeof ref === 'number' || /^\d+$/.test(ref)) {
+      const result = await cloud.request<Record<string, { id: number; name?: string }>>(`${path}/${ref}`);
+      const item = result[key];
+      return { field, type, ref, found: true, id: item.id, name: item.name };
+    }
+    const items = await cloud.requestAll<{ id: number; name?: string }>(path, `${key}s`, { name: ref });
+    const item = items.find((i) => i.name === ref);
+    return item
+      ? { field, type, ref, found: true, id: item.id, name: item.name }
+      : { field, type, ref, found: false };
+  } catch (error) {
+    if (error instanceof HetznerApiError && error.status === 404) {
+      return { field, type, ref, found: false };
+    }
+    throw error;
+  }
+}
+
+// ── Cost Delta ──────────────────────────────────────────────────────────────
+
+/**
+ * The cost engine's view of a request, or null if the request does not
+ * change what the project is billed for.
+ */
+function requestToChange(request: PlannedRequest): CostChange | null {
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  const { method, path } = request;
+  let match: RegExpExecArray | null;
+
+  if (method === 'POST' && path === '/servers') {
+    const location = body.location as string | undefined
+      ?? (body.datacenter ? datacenterLocation(body.datacenter as string) : undefined);
+    return { change: 'create_server', server_type: body.server_type as string, location };
+  }
+  if ((match = /^\/servers\/(\d+)(\/actions\/(change_type|enable_backup|disable_backup))?$/.exec(path))) {
+    const server = match[1];
+    if (method === 'DELETE' && !match[2]) return { change: 'delete_server', server };
+    if (match[3] === 'change_type') return { change: 'change_server_type', server, server_type: body.server_type as string };
+    if (match[3] === 'enable_backup' || match[3] === 'disable_backup') return { change: match[3], server };
+    return null;
+  }
+  if (method === 'POST' && path === '/volumes') return { change: 'create_volume', size: body.size as number };
+  if ((match = /^\/volumes\/(\d+)(\/actions\/resize)?$/.exec(path))) {
+    if (method === 'DELETE' && !match[2]) return { change: 'delete_volume', volume: match[1] };
+    if (match[2]) return { change: 'resize_volume', volume: match[1], size: body.size as number };
+    return null;
+  }
+  if (method === 'POST' && path === '/floating_ips') {
+    return { change: 'create_floating_ip', ip_type: body.type as 'ipv4' | 'ipv6', location: body.home_location as string | undefined };
+  }
+  if (method === 'DELETE' && (match = /^\/floating_ips\/(\d+)$/.exec(path))) {
+    return { change: 'delete_floating_ip', floating_ip: match[1] };
+  }
+  if (method === 'POST' && path === '/primary_ips') {
+    const location = body.datacenter ? datacenterLocation(body.datacenter as string) : undefined;
+    return { change: 'create_primary_ip', ip_type: body.type as 'ipv4' | 'ipv6', location };
+  }
+  if (method === 'DELETE' && (match = /^\/primary_ips\/(\d+)$/.exec(path))) {
+    return { change: 'delete_primary_ip', primary_ip: match[1] };
+  }
+  if (method === 'POST' && path === '/load_balancers') {
+    return {
+      change: 'create_load_balancer',
+      load_balancer_type: body.load_balancer_type as string,
+      location: body.location as string | undefined,
+    };
+  }
+  if ((match = /^\/load_balancers\/(\d+)(\/actions\/change_type)?$/.exec(path))) {
+    if (method === 'DELETE' && !match[2]) return { change: 'delete_load_balancer', load_balancer: match[1] };
+    if (match[2]) {
+      return { change: 'change_load_balancer_type', load_balancer: match[1], load_balancer_type: body.load_balancer_type as string };
+    }
+  }
+  return null;
+}
+
+async function estimateCostDelta(cloud: CloudClient, request: PlannedRequest): Promise<CostDelta | null> {
+  const change = requestToChange(request);
+  if (!change) return null;
+  const pricing = await fetchPricing(cloud);
+  const { currency } = pricing;
+  const changes = await priceChange(cloud, pricing, change);
+
+  const unpriced = changes.filter((c) => !c.price);
+  if (unpriced.length > 0) {
+    return {
+      monthly_gross: 'unknown',
+      detail: `No price found for ${unpriced.map((c) => c.detail).join(', ')} (unknown type or unavailable in location)`,
+    };
+  }
+  const total = changes.reduce((sum, c) => sum + c.sign * c.price!.amount, 0);
+  return {
+    monthly_gross: formatAmount(total, currency),
+    detail: changes
+      .map((c) => `${c.sign > 0 ? '+' : '-'} ${c.detail}: ${c.price!.amount.toFixed(2)} ${currency}${c.price!.location ? ` (${c.price!.location})` : ''}`)
+      .join('; '),
+  };
+}
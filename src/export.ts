@@ -0,0 +1,268 @@
+/**
+ * Project export — a snapshot of every Cloud resource and DNS zone in a
+ * project, rendered either as JSON or as Terraform configuration.
+ *
+ * The JSON form is an infrastructure document (see infrastructure.ts) with
+ * IDs replaced by names, so planning it against the same project shows no
+ * changes, plus the resources such documents do not manage (SSH keys,
+ * primary IPs, certificates, placement groups, DNS zones). The Terraform form
+ * is written by terraform.ts.
+ */
+
+import type { CloudClient } from './clients/cloud.js';
+import type { InfrastructureDocument } from './infrastructure.js';
+import type {
+  CloudCertificate,
+  CloudFirewall,
+  CloudFloatingIP,
+  CloudLoadBalancer,
+  CloudNetwork,
+  CloudPlacementGroup,
+  CloudPrimaryIP,
+  CloudServer,
+  CloudSSHKey,
+  CloudVolume,
+  FirewallRuleInput,
+  LoadBalancerServiceInput,
+  NetworkSubnetInput,
+} from './types/cloud.js';
+import type { DnsRecord, DnsRecordType, DnsZone } from './types/dns.js';
+
+export interface ProjectSnapshot {
+  servers: CloudServer[];
+  networks: CloudNetwork[];
+  firewalls: CloudFirewall[];
+  load_balancers: CloudLoadBalancer[];
+  volumes: CloudVolume[];
+  floating_ips: CloudFloatingIP[];
+  primary_ips: CloudPrimaryIP[];
+  certificates: CloudCertificate[];
+  ssh_keys: CloudSSHKey[];
+  placement_groups: CloudPlacementGroup[];
+  dns_zones: Array<{ zone: DnsZone; records: DnsRecord[] }>;
+}
+
+export interface LiveLoadBalancerService {
+  protocol: string;
+  listen_port: number;
+  destination_port: number;
+  proxyprotocol?: boolean;
+  health_check?: Record<string, unknown> | null;
+  http?: Record<string, unknown> | null;
+}
+
+export interface LiveLoadBalancerTarget {
+  type: 'server' | 'label_selector' | 'ip';
+  server?: { id: number };
+  label_selector?: { selector: string };
+  ip?: { ip: string };
+  use_private_ip?: boolean;
+}
+
+/**
+ * Fetch every exported resource of the project.
+ */
+export async function fetchProjectSnapshot(cloud: CloudClient): Promise<ProjectSnapshot> {
+  const list = <T>(key: string) => cloud.requestAll<T>(`/${key}`, key);
+  const [
+    servers, networks, firewalls, loadBalancers, volumes, floatingIps,
+    primaryIps, certificates, sshKeys, placementGroups, zones,
+  ] = await Promise.all([
+    list<CloudServer>('servers'),
+    list<CloudNetwork>('networks'),
+    list<CloudFirewall>('firewalls'),
+    list<CloudLoadBalancer>('load_balancers'),
+    list<CloudVolume>('volumes'),
+    list<CloudFloatingIP>('floating_ips'),
+    list<CloudPrimaryIP>('primary_ips'),
+    list<CloudCertificate>('certificates'),
+    list<CloudSSHKey>('ssh_keys'),
+    list<CloudPlacementGroup>('placement_groups'),
+    cloud.requestAll<DnsZone>('/dns/zones', 'zones'),
+  ]);
+
+  const dnsZones: ProjectSnapshot['dns_zones'] = [];
+  for (const zone of zones) {
+    dnsZones.push({ zone, records: await cloud.requestAll<DnsRecord>('/dns/records', 'records', { zone_id: zone.id }) });
+  }
+
+  return {
+    servers,
+    networks,
+    firewalls,
+    load_balancers: loadBalancers,
+    volumes,
+    floating_ips: floatingIps,
+    primary_ips: primaryIps,
+    certificates,
+    ssh_keys: sshKeys,
+    placement_groups: placementGroups,
+    dns_zones: dnsZones,
+  };
+}
+
+/** Number of exported resources per collection. */
+export function snapshotCounts(snapshot: ProjectSnapshot): Record<string, number> {
+  return Object.fromEntries(Object.entries(snapshot).map(([key, items]) => [key, (items as unknown[]).length]));
+}
+
+/** SOA records are maintained by Hetzner and never exported. */
+export function exportedRecords(records: DnsRecord[]): DnsRecord[] {
+  return records.filter((r) => r.type !== 'SOA');
+}
+
+// ── JSON ────────────────────────────────────────────────────────────────────
+
+type DocumentTarget = NonNullable<InfrastructureDocument['load_balancers'][number]['targets']>[number];
+
+export interface ProjectExport {
+  /** Accepted as is by plan_infrastructure and apply_infrastructure. */
+  document: InfrastructureDocument;
+  /** Resources that infrastructure documents do not manage. */
+  other_resources: {
+    ssh_keys: Array<{ name: string; public_key: string; labels: Record<string, string> }>;
+    primary_ips: Array<{
+      name: string;
+      type: string;
+      datacenter: string;
+      assignee: string | null;
+      auto_delete: boolean;
+      labels: Record<string, string>;
+    }>;
+    certificates: Array<{
+      name: string;
+      type: string;
+      domain_names: string[];
+      certificate?: string;
+      labels: Record<string, string>;
+    }>;
+    placement_groups: Array<{ name: string; type: string; servers: string[]; labels: Record<string, string> }>;
+    dns_zones: Array<{ name: string; ttl: number }>;
+  };
+}
+
+/**
+ * The snapshot as a name-based document. IDs of related resources become
+ * their names; empty and null fields are left out.
+ */
+export function snapshotToDocument(snapshot: ProjectSnapshot): ProjectExport {
+  const names = (items: Array<{ id: number; name: string }>) => new Map(items.map((item) => [item.id, item.name]));
+  const serverNames = names(snapshot.servers);
+  const networkNames = names(snapshot.networks);
+  const firewallNames = names(snapshot.firewalls);
+  const serverName = (id: number | null) => (id === null ? null : serverNames.get(id) ?? String(id));
+
+  const document: InfrastructureDocument = {
+    networks: snapshot.networks.map((n) => ({
+      name: n.name,
+      ip_range: n.ip_range,
+      subnets: n.subnets.map((s) => {
+        const { vswitch_id: vswitchId } = s as { vswitch_id?: number | null };
+        return {
+          type: s.type as NetworkSubnetInput['type'],
+          network_zone: s.network_zone,
+          ip_range: s.ip_range,
+          ...(vswitchId ? { vswitch_id: vswitchId } : {}),
+        };
+      }),
+      routes: n.routes.map((r) => ({ destination: r.destination, gateway: r.gateway })),
+      labels: n.labels,
+    })),
+    firewalls: snapshot.firewalls.map((f) => ({
+      name: f.name,
+      rules: f.rules.map((rule) => ({
+        direction: rule.direction as FirewallRuleInput['direction'],
+        protocol: rule.protocol as FirewallRuleInput['protocol'],
+        ...(rule.port ? { port: rule.port } : {}),
+        ...(rule.source_ips?.length ? { source_ips: rule.source_ips } : {}),
+        ...(rule.destination_ips?.length ? { destination_ips: rule.destination_ips } : {}),
+        ...(rule.description ? { description: rule.description } : {}),
+      })),
+      labels: f.labels,
+    })),
+    servers: snapshot.servers.map((s) => ({
+      name: s.name,
+      server_type: s.server_type.name,
+      image: s.image?.name ?? s.image?.id ?? 'unknown',
+      location: s.datacenter.location.name,
+      networks: s.private_net.map((n) => networkNames.get(n.network) ?? String(n.network)),
+      firewalls: s.public_net.firewalls.map((f) => firewallNames.get(f.id) ?? String(f.id)),
+      labels: s.labels,
+    })),
+    volumes: snapshot.volumes.map((v) => ({
+      name: v.name,
+      size: v.size,
+      location: v.location.name,
+      server: serverName(v.server),
+      ...(v.format ? { format: v.format as 'ext4' | 'xfs' } : {}),
+      labels: v.labels,
+    })),
+    floating_ips: snapshot.floating_ips.map((ip) => ({
+      name: ip.name,
+      type: ip.type as 'ipv4' | 'ipv6',
+      home_location: ip.home_location.name,
+      server: serverName(ip.server),
+      ...(ip.description ? { description: ip.description } : {}),
+      labels: ip.labels,
+    })),
+    load_balancers: snapshot.load_balancers.map((lb) => ({
+      name: lb.name,
+      load_balancer_type: lb.load_balancer_type.name,
+      location: lb.location.name,
+      algorithm: lb.algorithm.type as 'round_robin' | 'least_connections',
+      services: (lb.services as LiveLoadBalancerService[]).map((s) => compact(s) as LoadBalancerServiceInput),
+      targets: (lb.targets as LiveLoadBalancerTarget[]).map((t): DocumentTarget => {
+        if (t.type === 'server') return compact({ server: serverName(t.server!.id)!, use_private_ip: t.use_private_ip });
+        if (t.type === 'label_selector') return compact({ label_selector: t.label_selector!.selector, use_private_ip: t.use_private_ip });
+        return { ip: t.ip!.ip };
+      }),
+      labels: lb.labels,
+    })),
+    dns_records: snapshot.dns_zones.flatMap(({ zone, records }) => exportedRecords(records).map((r) => ({
+      zone: zone.name,
+      type: r.type as DnsRecordType,
+      name: r.name,
+      value: r.value,
+      ...(r.ttl !== undefined && r.ttl !== null ? { ttl: r.ttl } : {}),
+    }))),
+  };
+
+  return {
+    document,
+    other_resources: {
+      ssh_keys: snapshot.ssh_keys.map((k) => ({ name: k.name, public_key: k.public_key, labels: k.labels })),
+      primary_ips: snapshot.primary_ips.map((ip) => ({
+        name: ip.name,
+        type: ip.type,
+        datacenter: ip.datacenter.name,
+        assignee: serverName(ip.assignee_id),
+        auto_delete: ip.auto_delete,
+        labels: ip.labels,
+      })),
+      certificates: snapshot.certificates.map((c) => ({
+        name: c.name,
+        type: c.type,
+        domain_names: c.domain_names,
+        ...(c.type === 'uploaded' && c.certificate ? { certificate: c.certificate } : {}),
+        labels: c.labels,
+      })),
+      placement_groups: snapshot.placement_groups.map((g) => ({
+        name: g.name,
+        type: g.type,
+        servers: g.servers.map((id) => serverName(id)!),
+        labels: g.labels,
+      })),
+      dns_zones: snapshot.dns_zones.map(({ zone }) => ({ name: zone.name, ttl: zone.ttl })),
+    },
+  };
+}
+
+/** Drop null and undefined fields, recursively through nested objects. */
+function compact<T extends object>(value: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === null || field === undefined) continue;
+    result[key] = field !== null && typeof field === 'object' && !Array.isArray(field) ? compact(field) : field;
+  }
+  return result as T;
+}
@@ -0,0 +1,160 @@
+/**
+ * Label guards — before a mutating Cloud tool touches an existing resource,
+ * fetch it and check its labels against the configured selectors.
+ *
+ * `allowSelector` (e.g. `managed-by=agent`) must match for the mutation to
+ * proceed; `protectSelector` (e.g. `env=prod`) must not match. Either may be
+ * omitted. Selectors use Hetzner label selector syntax.
+ */
+
+import type { CloudClient } from './clients/cloud.js';
+import { isMutatingTool, toolCategories } from './policy.js';
+
+export interface LabelGuardConfig {
+  allowSelector: string | null;
+  protectSelector: string | null;
+}
+
+export class LabelGuardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LabelGuardError';
+  }
+}
+
+// ── Guarded resources ───────────────────────────────────────────────────────
+
+interface GuardedResource {
+  /** Noun used in tool names, e.g. `floating_ip` in `assign_floating_ip`. */
+  noun: string;
+  path: string;
+  key: string;
+}
+
+const GUARDED_RESOURCES: GuardedResource[] = [
+  { noun: 'server', path: '/servers', key: 'server' },
+  { noun: 'volume', path: '/volumes', key: 'volume' },
+  { noun: 'network', path: '/networks', key: 'network' },
+  { noun: 'firewall', path: '/firewalls', key: 'firewall' },
+  { noun: 'floating_ip', path: '/floating_ips', key: 'floating_ip' },
+  { noun: 'primary_ip', path: '/primary_ips', key: 'primary_ip' },
+  { noun: 'load_balancer', path: '/load_balancers', key: 'load_balancer' },
+  { noun: 'storage_box', path: '/storage_boxes', key: 'storage_box' },
+];
+
+/**
+ * Resolve which resource a mutating Cloud tool operates on, if it is a
+ * guarded one. The resource is the first guarded noun in the tool name
+ * (`attach_server_to_network` targets the server) and its ID is `args.id`.
+ */
+export function guardedResourceFor(
+  tool: string,
+  args: Record<string, unknown>,
+): (GuardedResource & { id: number }) | null {
+  if (!isMutatingTool(tool) || !toolCategories(tool).includes('cloud')) return null;
+  if (typeof args.id !== 'number') return null;
+
+  let best: { resource: GuardedResource; index: number } | null = null;
+  for (const resource of GUARDED_RESOURCES) {
+    const match = new RegExp(`(^|_)${resource.noun}(_|$)`).exec(tool);
+    if (match && (!best || match.index < best.index)) {
+      best = { resource, index: match.index };
+    }
+  }
+  return best ? { ...best.resource, id: args.id } : null;
+}
+
+/**
+ * Refuse the call (by throwing LabelGuardError) if the target resource's
+ * labels don't satisfy the guard. Tools without a guarded target pass.
+ */
+export async function enforceLabelGuard(
+  guard: LabelGuardConfig,
+  cloud: CloudClient,
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<void> {
+  const target = guardedResourceFor(tool, args);
+  if (!target) return;
+
+  const result = await cloud.request<Record<string, { labels?: Record<string, string> }>>(
+    `${target.path}/${target.id}`,
+  );
+  const labels = result[target.key]?.labels ?? {};
+  const subject = `${target.noun.replace('_', ' ')} ${target.id}`;
+
+  if (guard.allowSelector && !matchesLabelSelector(labels, guard.allowSelector)) {
+    throw new LabelGuardError(
+      `Refusing ${tool}: ${subject} does not match the allowed label selector "${guard.allowSelector}" ` +
+      `(labels: ${JSON.stringify(labels)}).`,
+    );
+  }
+  if (guard.protectSelector && matchesLabelSelector(labels, guard.protectSelector)) {
+    throw new LabelGuardError(
+      `Refusing ${tool}: ${subject} matches the protected label selector "${guard.protectSelector}" ` +
+      `(labels: ${JSON.stringify(labels)}).`,
+    );
+  }
+}
+
+// ── Label selectors ─────────────────────────────────────────────────────────
+
+type LabelRequirement =
+  | { op: 'exists' | 'not_exists'; key: string }
+  | { op: 'eq' | 'neq'; key: string; value: string }
+  | { op: 'in' | 'notin'; key: string; values: string[] };
+
+/**
+ * Parse a label selector such as `env=prod,tier!=db,!legacy,team in (a,b)`.
+ */
+export function parseLabelSelector(selector: string): LabelRequirement[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of selector) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((raw) => raw.trim()).filter(Boolean).map((part): LabelRequirement => {
+    const setMatch = /^([^\s!=]+)\s+(in|notin)\s+\((.*)\)$/.exec(part);
+    if (setMatch) {
+      return {
+        op: setMatch[2] as 'in' | 'notin',
+        key: setMatch[1],
+        values: setMatch[3].split(',').map((v) => v.trim()).filter(Boolean),
+      };
+    }
+    const neq = /^([^\s!=]+)\s*!=\s*(.*)$/.exec(part);
+    if (neq) return { op: 'neq', key: neq[1], value: neq[2].trim() };
+    const eq = /^([^\s!=]+)\s*==?\s*(.*)$/.exec(part);
+    if (eq) return { op: 'eq', key: eq[1], value: eq[2].trim() };
+    if (part.startsWith('!')) return { op: 'not_exists', key: part.slice(1).trim() };
+    if (/^[^\s!=()]+$/.test(part)) return { op: 'exists', key: part };
+    throw new Error(`Invalid label selector expression: "${part}"`);
+  });
+}
+
+/**
+ * Whether `labels` satisfy every requirement of `selector`.
+ */
+export function matchesLabelSelector(labels: Record<string, string>, selector: string): boolean {
+  return parseLabelSelector(selector).every((req) => {
+    const has = Object.prototype.hasOwnProperty.call(labels, req.key);
+    switch (req.op) {
+      case 'exists': return has;
+      case 'not_exists': return !has;
+      case 'eq': return has && labels[req.key] === req.value;
+      case 'neq': return !has || labels[req.key] !== req.value;
+      case 'in': return has && req.values.includes(labels[req.key]);
+      case 'notin': return !has || !req.values.includes(labels[req.key]);
+    }
+  });
+}
@@ -5,35 +5,70 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { loadConfig, describeConfig } from './config.js';
-import { CloudClient } from './clients/cloud.js';
-import { RobotClient } from './clients/robot.js';
+import { ProjectRegistry } from './projects.js';
+import { AuditLog } from './audit.js';
 import { registerAllTools } from './server.js';
+import { registerAllResources } from './resources.js';
+import { registerAllPrompts } from './prompts.js';
+import { startHttpServer } from './transports/http.js';
 
 async function main(): Promise<void> {
   const config = loadConfig();
 
   const readOnly = config.mode === 'read_only';
 
-  // Create API clients based on available credentials
-  const cloud = config.cloud ? new CloudClient(config.cloud) : null;
-  const robot = config.robot ? new RobotClient(config.robot) : null;
+  // Create API clients for every configured profile (shared by all sessions)
+  const projects = new ProjectRegistry(config.profiles, config.defaultProfile, config.fixtures);
+  const audit = config.auditLogPath ? new AuditLog(config.auditLogPath) : null;
 
-  // Create MCP server
-  const server = new McpServer({
-    name: 'hetzner-mcp',
-    version: '0.1.0',
-  });
-
-  // Register all tools
-  registerAllTools(server, cloud, robot, readOnly);
+  // Create an MCP server with all tools, resources and prompts registered
+  const createServer = (): McpServer => {
+    const server = new McpServer({
+      name: 'hetzner-mcp',
+      version: '0.1.0',
+    });
+    registerAllTools(server, projects, {
+      readOnly,
+      policy: config.policy,
+      guard: config.guard,
+      dryRunDefault: config.dryRun,
+      audit,
+      blueprintsDir: config.blueprintsDir,
+    });
+    registerAllResources(server, projects);
+    registerAllPrompts(server, projects);
+    return server;
+  };
 
   // Log configuration (to stderr so it doesn't interfere with stdio transport)
   console.error('hetzner-mcp starting...');
   console.error(describeConfig(config));
 
+  if (config.http) {
+    const handle = await startHttpServer(createServer, config.http);
+
+    // Graceful shutdown: close MCP sessions, then the listener
+    let shuttingDown = false;
+    const shutdown = (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.error(`Received ${signal}, shutting down...`);
+      handle.close().then(
+        () => process.exit(0),
+        (error) => {
+          console.error('Error during shutdown:', error);
+          process.exit(1);
+        },
+      );
+    };
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    return;
+  }
+
   // Connect via stdio transport
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
 }
 
 main().catch((error) => {
@@ -0,0 +1,1102 @@
+/**
+ * Declarative infrastructure — a desired-state document listing a project's
+ * networks, firewalls, servers, volumes, floating IPs, load balancers and DNS
+ * records, compared against the live project to produce a plan that can then
+ * be applied.
+ *
+ * Resources are matched by name; DNS records by zone, name and type, with the
+ * document listing every value the record set should have. Optional fields
+ * left out of the document are not managed: a server without `networks`
+ * keeps the networks it has, while `networks: []` detaches it from all of
+ * them. Properties that cannot change in place (a server's image or
+ * location, shrinking a volume, ...) are reported as warnings, never
+ * replaced. Live resources missing from the document are only deleted when
+ * they match `prune_selector`.
+ *
+ * Applying re-plans, then runs the changes in dependency order — networks,
+ * firewalls, servers, volumes, floating IPs, load balancers, DNS records,
+ * then deletions in reverse — waiting for every action. It stops at the first
+ * failure; nothing is rolled back automatically, but the result carries a
+ * rollback note for each change made.
+ */
+
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+import { collectActions, DryRunInterception, type HetznerAction } from './clients/common.js';
+import { matchesLabelSelector, type LabelGuardConfig } from './guards.js';
+import { resolveResource } from './resolver.js';
+import {
+  firewallRuleInputSchema,
+  labelsInputSchema,
+  loadBalancerServiceInputSchema,
+  networkRouteInputSchema,
+  networkSubnetInputSchema,
+  type CloudFirewall,
+  type CloudFloatingIP,
+  type CloudLoadBalancer,
+  type CloudNetwork,
+  type CloudServer,
+  type CloudVolume,
+} from './types/cloud.js';
+import { dnsRecordTypeSchema, type DnsRecord, type DnsZone } from './types/dns.js';
+
+export class InfrastructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InfrastructureError';
+  }
+}
+
+// ── Document ────────────────────────────────────────────────────────────────
+
+const nameSchema = z.string().min(1);
+
+const networkSchema = z.object({
+  name: nameSchema,
+  ip_range: z.string(),
+  subnets: z.array(networkSubnetInputSchema.extend({
+    ip_range: z.string().describe('Subnet CIDR, which identifies the subnet'),
+  })).optional(),
+  routes: z.array(networkRouteInputSchema).optional(),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const firewallSchema = z.object({
+  name: nameSchema,
+  rules: z.array(firewallRuleInputSchema).optional(),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const serverSchema = z.object({
+  name: nameSchema,
+  server_type: nameSchema,
+  image: z.union([nameSchema, z.number().int()]).describe('Image name or ID (used at creation only)'),
+  location: z.string().optional(),
+  ssh_keys: z.array(z.union([nameSchema, z.number().int()])).optional()
+    .describe('SSH key names or IDs (used at creation only)'),
+  networks: z.array(nameSchema).optional().describe('Names of the networks the server is attached to'),
+  firewalls: z.array(nameSchema).optional().describe('Names of the firewalls applied to the server'),
+  user_data: z.string().optional().describe('cloud-init user data (used at creation only)'),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const volumeSchema = z.object({
+  name: nameSchema,
+  size: z.number().int().min(10).describe('Size in GB; volumes can only grow'),
+  location: z.string().optional(),
+  server: nameSchema.nullable().optional().describe('Name of the server the volume is attached to, null for none'),
+  format: z.enum(['ext4', 'xfs']).optional().describe('Filesystem for a new volume'),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const floatingIpSchema = z.object({
+  name: nameSchema,
+  type: z.enum(['ipv4', 'ipv6']),
+  home_location: z.string().optional(),
+  server: nameSchema.nullable().optional().describe('Name of the server the IP is assigned to, null for none'),
+  description: z.string().optional(),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const loadBalancerTargetSchema = z.union([
+  z.object({ server: nameSchema, use_private_ip: z.boolean().optional() }).strict(),
+  z.object({ label_selector: nameSchema, use_private_ip: z.boolean().optional() }).strict(),
+  z.object({ ip: nameSchema }).strict(),
+]);
+
+const loadBalancerSchema = z.object({
+  name: nameSchema,
+  load_balancer_type: nameSchema,
+  location: nameSchema,
+  algorithm: z.enum(['round_robin', 'least_connections']).optional(),
+  services: z.array(loadBalancerServiceInputSchema).optional().describe('Services, identified by listen_port'),
+  targets: z.array(loadBalancerTargetSchema).optional().describe('Targets: {"server": name}, {"label_selector": selector} or {"ip": address}'),
+  labels: labelsInputSchema.optional(),
+}).strict();
+
+const dnsRecordSchema = z.object({
+  zone: nameSchema.describe('Zone name, e.g. "example.com"'),
+  type: dnsRecordTypeSchema,
+  name: nameSchema.describe('Record name, "@" for the zone apex'),
+  value: z.string(),
+  ttl: z.number().int().optional(),
+}).strict();
+
+export const infrastructureSchema = z.object({
+  networks: z.array(networkSchema).default([]),
+  firewalls: z.array(firewallSchema).default([]),
+  servers: z.array(serverSchema).default([]),
+  volumes: z.array(volumeSchema).default([]),
+  floating_ips: z.array(floatingIpSchema).default([]),
+  load_balancers: z.array(loadBalancerSchema).default([]),
+  dns_records: z.array(dnsRecordSchema).default([]),
+  prune_selector: nameSchema.optional()
+    .describe('Delete live resources matching this label selector that the document does not list (DNS records are never pruned)'),
+}).strict();
+export type InfrastructureDocument = z.infer<typeof infrastructureSchema>;
+
+// ── Plan ────────────────────────────────────────────────────────────────────
+
+export type InfrastructureResource =
+  | 'network'
+  | 'firewall'
+  | 'server'
+  | 'volume'
+  | 'floating_ip'
+  | 'load_balancer'
+  | 'dns_record';
+
+type CloudResource = Exclude<InfrastructureResource, 'dns_record'>;
+
+/** Creation order; deletions run in reverse. */
+const CLOUD_RESOURCES: CloudResource[] = ['network', 'firewall', 'server', 'volume', 'floating_ip', 'load_balancer'];
+
+const LABELS: Record<InfrastructureResource, string> = {
+  network: 'network',
+  firewall: 'firewall',
+  server: 'server',
+  volume: 'volume',
+  floating_ip: 'floating IP',
+  load_balancer: 'load balancer',
+  dns_record: 'DNS record set',
+};
+
+export interface PlannedChange {
+  /** `type.name`, e.g. `server.web-1`; DNS record sets are `dns_record.zone/name/type`. */
+  address: string;
+  type: InfrastructureResource;
+  name: string;
+  action: 'create' | 'update' | 'delete';
+  /** ID of the live resource; for creates, set once applied. */
+  id: number | string | null;
+  /** What changes, as `field: old → new` or `+`/`-` entries. */
+  details: string[];
+}
+
+export interface InfrastructurePlan {
+  changes: PlannedChange[];
+  /** Addresses of listed resources that already match the document. */
+  unchanged: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+/** Address → ID of every live resource, plus created ones as the plan is applied. */
+type IdMap = Map<string, number>;
+
+/** A value known when planning, or looked up from the IDs when applied. */
+type Deferred<T> = T | ((ids: IdMap) => T);
+
+/** One API call within a change, waiting for the actions it starts. */
+interface Step {
+  description: string;
+  run(ids: IdMap): Promise<void>;
+}
+
+interface Change extends PlannedChange {
+  steps: Step[];
+}
+
+interface LiveState {
+  network: CloudNetwork[];
+  firewall: CloudFirewall[];
+  server: CloudServer[];
+  volume: CloudVolume[];
+  floating_ip: CloudFloatingIP[];
+  load_balancer: CloudLoadBalancer[];
+  zones: DnsZone[];
+  records: DnsRecord[];
+}
+
+type LiveService = { listen_port: number; protocol: string; destination_port: number } & Record<string, unknown>;
+
+interface LiveTarget {
+  type: string;
+  server?: { id: number };
+  label_selector?: { selector: string };
+  ip?: { ip: string };
+}
+
+/**
+ * Compare the document with the live project. Nothing is changed; problems
+ * are collected in `errors` rather than thrown.
+ */
+export async function planInfrastructure(
+  cloud: CloudClient,
+  document: InfrastructureDocument,
+  guard: LabelGuardConfig | null,
+): Promise<InfrastructurePlan> {
+  const planner = await Planner.create(cloud, document, guard);
+  return {
+    changes: planner.changes.map(({ steps: _steps, ...change }) => change),
+    unchanged: planner.unchanged,
+    errors: planner.errors,
+    warnings: planner.warnings,
+  };
+}
+
+async function fetchLiveState(cloud: CloudClient, document: InfrastructureDocument): Promise<LiveState> {
+  const [network, firewall, server, volume, floatingIp, loadBalancer] = await Promise.all([
+    cloud.requestAll<CloudNetwork>('/networks', 'networks'),
+    cloud.requestAll<CloudFirewall>('/firewalls', 'firewalls'),
+    cloud.requestAll<CloudServer>('/servers', 'servers'),
+    cloud.requestAll<CloudVolume>('/volumes', 'volumes'),
+    cloud.requestAll<CloudFloatingIP>('/floating_ips', 'floating_ips'),
+    cloud.requestAll<CloudLoadBalancer>('/load_balancers', 'load_balancers'),
+  ]);
+
+  const zones: DnsZone[] = [];
+  const records: DnsRecord[] = [];
+  for (const name of new Set(document.dns_records.map((r) => r.zone))) {
+    const [zone] = await cloud.requestAll<DnsZone>('/dns/zones', 'zones', { name });
+    if (!zone) continue;
+    zones.push(zone);
+    records.push(...await cloud.requestAll<DnsRecord>('/dns/records', 'records', { zone_id: zone.id }));
+  }
+
+  return { network, firewall, server, volume, floating_ip: floatingIp, load_balancer: loadBalancer, zones, records };
+}
+
+class Planner {
+  readonly changes: Change[] = [];
+  readonly unchanged: string[] = [];
+  readonly errors: string[] = [];
+  readonly warnings: string[] = [];
+  readonly ids: IdMap = new Map();
+  private readonly deletions: Change[] = [];
+  private readonly declared = new Set<string>();
+
+  private constructor(
+    private readonly cloud: CloudClient,
+    private readonly document: InfrastructureDocument,
+    private readonly live: LiveState,
+    private readonly guard: LabelGuardConfig | null,
+  ) {}
+
+  static async create(
+    cloud: CloudClient,
+    document: InfrastructureDocument,
+    guard: LabelGuardConfig | null,
+  ): Promise<Planner> {
+    const planner = new Planner(cloud, document, await fetchLiveState(cloud, document), guard);
+    await planner.plan();
+    return planner;
+  }
+
+  private async plan(): Promise<void> {
+    for (const type of CLOUD_RESOURCES) {
+      for (const resource of this.live[type]) this.ids.set(`${type}.${resource.name}`, resource.id);
+    }
+    const documentKeys = {
+      network: 'networks',
+      firewall: 'firewalls',
+      server: 'servers',
+      volume: 'volumes',
+      floating_ip: 'floating_ips',
+      load_balancer: 'load_balancers',
+    } as const;
+    for (const type of CLOUD_RESOURCES) {
+      for (const { name } of this.document[documentKeys[type]]) {
+        const address = `${type}.${name}`;
+        if (this.declared.has(address)) this.errors.push(`${address} is listed more than once`);
+        this.declared.add(address);
+      }
+    }
+
+    this.planNetworks();
+    this.planFirewalls();
+    await this.planServers();
+    this.planVolumes();
+    this.planFloatingIps();
+    this.planLoadBalancers();
+    this.planDnsRecords();
+    if (this.document.prune_selector) this.planPrune(this.document.prune_selector);
+    this.changes.push(...this.deletions);
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────
+
+  private add(change: Omit<Change, 'address'>, liveLabels?: Record<string, string>): void {
+    const address = `${change.type}.${change.name}`;
+    if (change.steps.length === 0) {
+      this.unchanged.push(address);
+      return;
+    }
+    if (liveLabels) this.checkGuard(address, liveLabels);
+    (change.action === 'delete' ? this.deletions : this.changes).push({ address, ...change });
+  }
+
+  /** Changes to existing resources follow the same label guard as single tools. */
+  private checkGuard(address: string, labels: Record<string, string>): void {
+    if (!this.guard) return;
+    const { allowSelector, protectSelector } = this.guard;
+    if (allowSelector && !matchesLabelSelector(labels, allowSelector)) {
+      this.errors.push(
+        `Refusing to change ${address}: it does not match the allowed label selector "${allowSelector}" ` +
+        `(labels: ${JSON.stringify(labels)})`,
+      );
+    }
+    if (protectSelector && matchesLabelSelector(labels, protectSelector)) {
+      this.errors.push(
+        `Refusing to change ${address}: it matches the protected label selector "${protectSelector}" ` +
+        `(labels: ${JSON.stringify(labels)})`,
+      );
+    }
+  }
+
+  /**
+   * A resource the document refers to by name, which must be listed in the
+   * document or exist in the project. Its ID is read when the plan is applied.
+   */
+  private reference(from: string, type: CloudResource, name: string): (ids: IdMap) => number {
+    const address = `${type}.${name}`;
+    if (!this.ids.has(address) && !this.declared.has(address)) {
+      this.errors.push(`${from}: no ${LABELS[type]} named "${name}" in the document or the project`);
+    }
+    return (ids) => {
+      const id = ids.get(address);
+      if (id === undefined) throw new InfrastructureError(`${address} has not been created`);
+      return id;
+    };
+  }
+
+  private nameOf(type: CloudResource, id: number | null): string {
+    if (id === null) return 'none';
+    return this.live[type].find((r) => r.id === id)?.name ?? String(id);
+  }
+
+  private request(description: string, method: string, path: Deferred<string>, body?: Deferred<unknown>): Step {
+    return {
+      description,
+      run: async (ids) => {
+        await send(this.cloud, method, resolve(path, ids), resolve(body, ids));
+      },
+    };
+  }
+
+  private createStep(type: CloudResource, name: string, body: Deferred<Record<string, unknown>>): Step {
+    return {
+      description: `create ${LABELS[type]}`,
+      run: async (ids) => {
+        const result = await send<Record<string, { id: number }>>(this.cloud, 'POST', `/${type}s`, resolve(body, ids));
+        ids.set(`${type}.${name}`, result[type].id);
+      },
+    };
+  }
+
+  private actionStep(type: CloudResource, id: Deferred<number>, command: string, body: Deferred<unknown> = {}): Step {
+    return this.request(command, 'POST', (ids) => `/${type}s/${resolve(id, ids)}/actions/${command}`, body);
+  }
+
+  /** Add a label update when the document sets labels that differ. */
+  private labels(
+    type: CloudResource,
+    id: number,
+    live: Record<string, string>,
+    desired: Record<string, string> | undefined,
+    details: string[],
+    fields: Record<string, unknown>,
+  ): void {
+    if (desired === undefined || sameLabels(live, desired)) return;
+    details.push(`labels: ${JSON.stringify(live)} → ${JSON.stringify(desired)}`);
+    fields.labels = desired;
+  }
+
+  private updateStep(type: CloudResource, id: number, fields: Record<string, unknown>): Step[] {
+    return Object.keys(fields).length > 0 ? [this.request('update', 'PUT', `/${type}s/${id}`, fields)] : [];
+  }
+
+  private drift(address: string, field: string, live: string, desired: string, remedy: string): void {
+    if (live !== desired) {
+      this.warnings.push(`${address}: ${field} is ${live}, the document says ${desired}; ${remedy}`);
+    }
+  }
+
+  // ── Networks ──────────────────────────────────────────────────────────
+
+  private planNetworks(): void {
+    for (const network of this.document.networks) {
+      const live = this.live.network.find((n) => n.name === network.name);
+      if (!live) {
+        this.add({
+          type: 'network',
+          name: network.name,
+          action: 'create',
+          id: null,
+          details: [
+            `ip_range: ${network.ip_range}`,
+            ...(network.subnets ?? []).map((s) => `subnet + ${s.ip_range}`),
+            ...(network.routes ?? []).map((r) => `route + ${r.destination} via ${r.gateway}`),
+          ],
+          steps: [this.createStep('network', network.name, {
+            name: network.name,
+            ip_range: network.ip_range,
+            subnets: network.subnets,
+            routes: network.routes,
+            labels: network.labels,
+          })],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      if (live.ip_range !== network.ip_range) {
+        details.push(`ip_range: ${live.ip_range} → ${network.ip_range}`);
+        steps.push(this.actionStep('network', live.id, 'change_ip_range', { ip_range: network.ip_range }));
+      }
+      if (network.subnets) {
+        for (const subnet of network.subnets) {
+          if (live.subnets.some((s) => s.ip_range === subnet.ip_range)) continue;
+          details.push(`subnet + ${subnet.ip_range}`);
+          steps.push(this.actionStep('network', live.id, 'add_subnet', subnet));
+        }
+        for (const subnet of live.subnets) {
+          if (network.subnets.some((s) => s.ip_range === subnet.ip_range)) continue;
+          details.push(`subnet - ${subnet.ip_range}`);
+          steps.push(this.actionStep('network', live.id, 'delete_subnet', { ip_range: subnet.ip_range }));
+        }
+      }
+      if (network.routes) {
+        const same = (a: { destination: string; gateway: string }, b: { destination: string; gateway: string }) =>
+          a.destination === b.destination && a.gateway === b.gateway;
+        for (const route of network.routes) {
+          if (live.routes.some((r) => same(r, route))) continue;
+          details.push(`route + ${route.destination} via ${route.gateway}`);
+          steps.push(this.actionStep('network', live.id, 'add_route', route));
+        }
+        for (const route of live.routes) {
+          if (network.routes.some((r) => same(r, route))) continue;
+          details.push(`route - ${route.destination} via ${route.gateway}`);
+          steps.push(this.actionStep('network', live.id, 'delete_route', route));
+        }
+      }
+      this.labels('network', live.id, live.labels, network.labels, details, fields);
+      steps.push(...this.updateStep('network', live.id, fields));
+      this.add({ type: 'network', name: network.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  // ── Firewalls ─────────────────────────────────────────────────────────
+
+  private planFirewalls(): void {
+    for (const firewall of this.document.firewalls) {
+      const live = this.live.firewall.find((f) => f.name === firewall.name);
+      if (!live) {
+        this.add({
+          type: 'firewall',
+          name: firewall.name,
+          action: 'create',
+          id: null,
+          details: (firewall.rules ?? []).map((rule) => `rule + ${describeRule(rule)}`),
+          steps: [this.createStep('firewall', firewall.name, {
+            name: firewall.name,
+            rules: firewall.rules,
+            labels: firewall.labels,
+          })],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      const desired = firewall.rules;
+      const desiredKeys = desired?.map(ruleKey) ?? [];
+      const liveKeys = live.rules.map(ruleKey);
+      const added = desired?.filter((rule) => !liveKeys.includes(ruleKey(rule))) ?? [];
+      const removed = desired ? live.rules.filter((rule) => !desiredKeys.includes(ruleKey(rule))) : [];
+      if (added.length > 0 || removed.length > 0) {
+        details.push(
+          ...added.map((rule) => `rule + ${describeRule(rule)}`),
+          ...removed.map((rule) => `rule - ${describeRule(rule)}`),
+        );
+        steps.push(this.actionStep('firewall', live.id, 'set_rules', { rules: desired }));
+      }
+      this.labels('firewall', live.id, live.labels, firewall.labels, details, fields);
+      steps.push(...this.updateStep('firewall', live.id, fields));
+      this.add({ type: 'firewall', name: firewall.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  // ── Servers ───────────────────────────────────────────────────────────
+
+  private async planServers(): Promise<void> {
+    for (const server of this.document.servers) {
+      const address = `server.${server.name}`;
+      const live = this.live.server.find((s) => s.name === server.name);
+      const networks = (server.networks ?? []).map((name) => ({ name, id: this.reference(address, 'network', name) }));
+      const firewalls = (server.firewalls ?? []).map((name) => ({ name, id: this.reference(address, 'firewall', name) }));
+
+      if (!live) {
+        const sshKeys: number[] = [];
+        for (const ref of server.ssh_keys ?? []) {
+          try {
+            sshKeys.push(await resolveResource(this.cloud, 'ssh_key', ref));
+          } catch (error) {
+            this.errors.push(`${address}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        this.add({
+          type: 'server',
+          name: server.name,
+          action: 'create',
+          id: null,
+          details: [
+            `server_type: ${server.server_type}`,
+            `image: ${server.image}`,
+            ...(server.location ? [`location: ${server.location}`] : []),
+            ...networks.map((n) => `network + ${n.name}`),
+            ...firewalls.map((f) => `firewall + ${f.name}`),
+          ],
+          steps: [this.createStep('server', server.name, (ids) => ({
+            name: server.name,
+            server_type: server.server_type,
+            image: server.image,
+            location: server.location,
+            ssh_keys: sshKeys,
+            networks: networks.map((n) => n.id(ids)),
+            firewalls: firewalls.map((f) => ({ firewall: f.id(ids) })),
+            user_data: server.user_data,
+            labels: server.labels,
+            start_after_create: true,
+          }))],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      const liveImage = typeof server.image === 'number' ? String(live.image?.id ?? 'none') : live.image?.name ?? 'none';
+      this.drift(address, 'image', liveImage, String(server.image), 'rebuild the server to change it');
+      if (server.location) {
+        this.drift(address, 'location', live.datacenter.location.name, server.location, 'servers cannot move between locations');
+      }
+
+      if (live.server_type.name !== server.server_type) {
+        const running = live.status === 'running';
+        details.push(`server_type: ${live.server_type.name} → ${server.server_type}${running ? ' (powered off during the change)' : ''}`);
+        if (running) steps.push(this.actionStep('server', live.id, 'poweroff'));
+        steps.push(this.actionStep('server', live.id, 'change_type', { server_type: server.server_type, upgrade_disk: false }));
+        if (running) steps.push(this.actionStep('server', live.id, 'poweron'));
+      }
+
+      if (server.networks) {
+        const attached = live.private_net.map((n) => n.network);
+        for (const network of networks) {
+          const id = this.ids.get(`network.${network.name}`);
+          if (id !== undefined && attached.includes(id)) continue;
+          details.push(`network + ${network.name}`);
+          steps.push(this.actionStep('server', live.id, 'attach_to_network', (ids: IdMap) => ({ network: network.id(ids) })));
+        }
+        for (const id of attached) {
+          if (server.networks.some((name) => this.ids.get(`network.${name}`) === id)) continue;
+          details.push(`network - ${this.nameOf('network', id)}`);
+          steps.push(this.actionStep('server', live.id, 'detach_from_network', { network: id }));
+        }
+      }
+
+      if (server.firewalls) {
+        const target = [{ type: 'server', server: { id: live.id } }];
+        const applied = live.public_net.firewalls.map((f) => f.id);
+        for (const firewall of firewalls) {
+          const id = this.ids.get(`firewall.${firewall.name}`);
+          if (id !== undefined && applied.includes(id)) continue;
+          details.push(`firewall + ${firewall.name}`);
+          steps.push(this.actionStep('firewall', firewall.id, 'apply_to_resources', { apply_to: target }));
+        }
+        for (const id of applied) {
+          if (server.firewalls.some((name) => this.ids.get(`firewall.${name}`) === id)) continue;
+          details.push(`firewall - ${this.nameOf('firewall', id)}`);
+          steps.push(this.actionStep('firewall', id, 'remove_from_resources', { remove_from: target }));
+        }
+      }
+
+      this.labels('server', live.id, live.labels, server.labels, details, fields);
+      steps.push(...this.updateStep('server', live.id, fields));
+      this.add({ type: 'server', name: server.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  // ── Volumes ───────────────────────────────────────────────────────────
+
+  private planVolumes(): void {
+    for (const volume of this.document.volumes) {
+      const address = `volume.${volume.name}`;
+      const live = this.live.volume.find((v) => v.name === volume.name);
+      const server = volume.server ? this.reference(address, 'server', volume.server) : null;
+
+      if (!live) {
+        if (!server && !volume.location) this.errors.push(`${address}: set a location or a server for a new volume`);
+        this.add({
+          type: 'volume',
+          name: volume.name,
+          action: 'create',
+          id: null,
+          details: [
+            `size: ${volume.size} GB`,
+            server ? `server: ${volume.server}` : `location: ${volume.location}`,
+          ],
+          steps: [this.createStep('volume', volume.name, (ids) => ({
+            name: volume.name,
+            size: volume.size,
+            ...(server ? { server: server(ids) } : { location: volume.location }),
+            format: volume.format,
+            automount: false,
+            labels: volume.labels,
+          }))],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      if (volume.size > live.size) {
+        details.push(`size: ${live.size} GB → ${volume.size} GB`);
+        steps.push(this.actionStep('volume', live.id, 'resize', { size: volume.size }));
+      } else if (volume.size < live.size) {
+        this.warnings.push(`${address}: size is ${live.size} GB, the document says ${volume.size} GB; volumes cannot shrink`);
+      }
+      if (volume.location) {
+        this.drift(address, 'location', live.location.name, volume.location, 'volumes cannot move between locations');
+      }
+
+      if (volume.server !== undefined) {
+        const desired = volume.server === null ? null : this.ids.get(`server.${volume.server}`);
+        if (desired !== live.server) {
+          details.push(`server: ${this.nameOf('server', live.server)} → ${volume.server ?? 'none'}`);
+          if (live.server !== null) steps.push(this.actionStep('volume', live.id, 'detach'));
+          if (server) steps.push(this.actionStep('volume', live.id, 'attach', (ids: IdMap) => ({ server: server(ids), automount: false })));
+        }
+      }
+
+      this.labels('volume', live.id, live.labels, volume.labels, details, fields);
+      steps.push(...this.updateStep('volume', live.id, fields));
+      this.add({ type: 'volume', name: volume.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  // ── Floating IPs ──────────────────────────────────────────────────────
+
+  private planFloatingIps(): void {
+    for (const ip of this.document.floating_ips) {
+      const address = `floating_ip.${ip.name}`;
+      const live = this.live.floating_ip.find((f) => f.name === ip.name);
+      const server = ip.server ? this.reference(address, 'server', ip.server) : null;
+
+      if (!live) {
+        if (!server && !ip.home_location) this.errors.push(`${address}: set a home_location or a server for a new floating IP`);
+        this.add({
+          type: 'floating_ip',
+          name: ip.name,
+          action: 'create',
+          id: null,
+          details: [`type: ${ip.type}`, server ? `server: ${ip.server}` : `home_location: ${ip.home_location}`],
+          steps: [this.createStep('floating_ip', ip.name, (ids) => ({
+            name: ip.name,
+            type: ip.type,
+            ...(server ? { server: server(ids) } : { home_location: ip.home_location }),
+            description: ip.description,
+            labels: ip.labels,
+          }))],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      this.drift(address, 'type', live.type, ip.type, 'create a new floating IP instead');
+      if (ip.home_location) {
+        this.drift(address, 'home_location', live.home_location.name, ip.home_location, 'create a new floating IP instead');
+      }
+
+      if (ip.server !== undefined) {
+        const desired = ip.server === null ? null : this.ids.get(`server.${ip.server}`);
+        if (desired !== live.server) {
+          details.push(`server: ${this.nameOf('server', live.server)} → ${ip.server ?? 'none'}`);
+          steps.push(server
+            ? this.actionStep('floating_ip', live.id, 'assign', (ids: IdMap) => ({ server: server(ids) }))
+            : this.actionStep('floating_ip', live.id, 'unassign'));
+        }
+      }
+
+      if (ip.description !== undefined && ip.description !== live.description) {
+        details.push(`description: ${JSON.stringify(live.description ?? null)} → ${JSON.stringify(ip.description)}`);
+        fields.description = ip.description;
+      }
+      this.labels('floating_ip', live.id, live.labels, ip.labels, details, fields);
+      steps.push(...this.updateStep('floating_ip', live.id, fields));
+      this.add({ type: 'floating_ip', name: ip.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  // ── Load balancers ────────────────────────────────────────────────────
+
+  private planLoadBalancers(): void {
+    for (const lb of this.document.load_balancers) {
+      const address = `load_balancer.${lb.name}`;
+      const live = this.live.load_balancer.find((l) => l.name === lb.name);
+      const targets = (lb.targets ?? []).map((target) => this.target(address, target));
+
+      if (!live) {
+        this.add({
+          type: 'load_balancer',
+          name: lb.name,
+          action: 'create',
+          id: null,
+          details: [
+            `load_balancer_type: ${lb.load_balancer_type}`,
+            `location: ${lb.location}`,
+            ...(lb.services ?? []).map((s) => `service + ${describeService(s)}`),
+            ...targets.map((t) => `target + ${t.text}`),
+          ],
+          steps: [this.createStep('load_balancer', lb.name, (ids) => ({
+            name: lb.name,
+            load_balancer_type: lb.load_balancer_type,
+            location: lb.location,
+            algorithm: lb.algorithm ? { type: lb.algorithm } : undefined,
+            services: lb.services,
+            targets: targets.map((t) => t.body(ids)),
+            labels: lb.labels,
+          }))],
+        });
+        continue;
+      }
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      const fields: Record<string, unknown> = {};
+      this.drift(address, 'location', live.location.name, lb.location, 'load balancers cannot move between locations');
+      if (live.load_balancer_type.name !== lb.load_balancer_type) {
+        details.push(`load_balancer_type: ${live.load_balancer_type.name} → ${lb.load_balancer_type}`);
+        steps.push(this.actionStep('load_balancer', live.id, 'change_type', { load_balancer_type: lb.load_balancer_type }));
+      }
+      if (lb.algorithm && live.algorithm.type !== lb.algorithm) {
+        details.push(`algorithm: ${live.algorithm.type} → ${lb.algorithm}`);
+        steps.push(this.actionStep('load_balancer', live.id, 'change_algorithm', { type: lb.algorithm }));
+      }
+
+      if (lb.services) {
+        const services = live.services as LiveService[];
+        for (const service of lb.services) {
+          const current = services.find((s) => s.listen_port === service.listen_port);
+          if (!current) {
+            details.push(`service + ${describeService(service)}`);
+            steps.push(this.actionStep('load_balancer', live.id, 'add_service', service));
+          } else if (!covers(current, service)) {
+            details.push(`service: ${describeService(current)} → ${describeService(service)}`);
+            steps.push(this.actionStep('load_balancer', live.id, 'update_service', service));
+          }
+        }
+        for (const service of services) {
+          if (lb.services.some((s) => s.listen_port === service.listen_port)) continue;
+          details.push(`service - ${describeService(service)}`);
+          steps.push(this.actionStep('load_balancer', live.id, 'delete_service', { listen_port: service.listen_port }));
+        }
+      }
+
+      if (lb.targets) {
+        const current = live.targets as LiveTarget[];
+        const currentKeys = current.map(targetKey);
+        for (const target of targets) {
+          if (target.key !== null && currentKeys.includes(target.key)) continue;
+          details.push(`target + ${target.text}`);
+          steps.push(this.actionStep('load_balancer', live.id, 'add_target', target.body));
+        }
+        for (const target of current) {
+          if (targets.some((t) => t.key === targetKey(target))) continue;
+          const { type, server, label_selector, ip } = target;
+          details.push(`target - ${describeTarget(target, (id) => this.nameOf('server', id))}`);
+          steps.push(this.actionStep('load_balancer', live.id, 'remove_target', { type, server, label_selector, ip }));
+        }
+      }
+
+      this.labels('load_balancer', live.id, live.labels, lb.labels, details, fields);
+      steps.push(...this.updateStep('load_balancer', live.id, fields));
+      this.add({ type: 'load_balancer', name: lb.name, action: 'update', id: live.id, details, steps }, live.labels);
+    }
+  }
+
+  private target(
+    from: string,
+    target: z.infer<typeof loadBalancerTargetSchema>,
+  ): { key: string | null; text: string; body: (ids: IdMap) => Record<string, unknown> } {
+    if ('server' in target) {
+      const server = this.reference(from, 'server', target.server);
+      const id = this.ids.get(`server.${target.server}`);
+      return {
+        // A server created by this plan cannot be a target yet
+        key: id !== undefined ? `server:${id}` : null,
+        text: `server ${target.server}`,
+        body: (ids) => ({ type: 'server', server: { id: server(ids) }, use_private_ip: target.use_private_ip }),
+      };
+    }
+    if ('label_selector' in target) {
+      return {
+        key: `label_selector:${target.label_selector}`,
+        text: `label_selector ${target.label_selector}`,
+        body: () => ({
+          type: 'label_selector',
+          label_selector: { selector: target.label_selector },
+          use_private_ip: target.use_private_ip,
+        }),
+      };
+    }
+    return { key: `ip:${target.ip}`, text: `ip ${target.ip}`, body: () => ({ type: 'ip', ip: { ip: target.ip } }) };
+  }
+
+  // ── DNS records ───────────────────────────────────────────────────────
+
+  private planDnsRecords(): void {
+    const sets = new Map<string, InfrastructureDocument['dns_records']>();
+    for (const record of this.document.dns_records) {
+      const key = `${record.zone}/${record.name}/${record.type}`;
+      sets.set(key, [...(sets.get(key) ?? []), record]);
+    }
+
+    for (const [key, records] of sets) {
+      const { zone: zoneName, name, type } = records[0];
+      const zone = this.live.zones.find((z) => z.name === zoneName);
+      if (!zone) {
+        this.errors.push(`dns_record.${key}: no DNS zone named "${zoneName}"`);
+        continue;
+      }
+      const current = this.live.records.filter((r) => r.zone_id === zone.id && r.name === name && r.type === type);
+
+      const details: string[] = [];
+      const steps: Step[] = [];
+      for (const record of records) {
+        const body = { zone_id: zone.id, type, name, value: record.value, ttl: record.ttl };
+        const existing = current.find((r) => r.value === record.value);
+        if (!existing) {
+          details.push(`+ ${record.value}`);
+          steps.push(this.request('create record', 'POST', '/dns/records', body));
+        } else if (record.ttl !== undefined && existing.ttl !== record.ttl) {
+          details.push(`ttl of ${record.value}: ${existing.ttl ?? 'zone default'} → ${record.ttl}`);
+          steps.push(this.request('update record', 'PUT', `/dns/records/${existing.id}`, body));
+        }
+      }
+      for (const record of current) {
+        if (records.some((r) => r.value === record.value)) continue;
+        details.push(`- ${record.value}`);
+        steps.push(this.request('delete record', 'DELETE', `/dns/records/${record.id}`));
+      }
+      this.add({
+        type: 'dns_record',
+        name: key,
+        action: current.length === 0 ? 'create' : 'update',
+        id: current.length === 1 ? current[0].id : null,
+        details,
+        steps,
+      });
+    }
+  }
+
+  // ── Pruning ───────────────────────────────────────────────────────────
+
+  private planPrune(selector: string): void {
+    for (const type of [...CLOUD_RESOURCES].reverse()) {
+      for (const live of this.live[type]) {
+        const address = `${type}.${live.name}`;
+        if (this.declared.has(address) || !matchesLabelSelector(live.labels, selector)) continue;
+        if ((live as { protection?: { delete: boolean } }).protection?.delete) {
+          this.errors.push(`${address} matches prune_selector but is delete protected`);
+        }
+
+        const steps: Step[] = [];
+        if (type === 'volume' && (live as CloudVolume).server !== null) {
+          steps.push(this.actionStep('volume', live.id, 'detach'));
+        }
+        if (type === 'firewall' && (live as CloudFirewall).applied_to.length > 0) {
+          steps.push(this.actionStep('firewall', live.id, 'remove_from_resources', { remove_from: (live as CloudFirewall).applied_to }));
+        }
+        steps.push(this.request('delete', 'DELETE', `/${type}s/${live.id}`));
+        this.add({ type, name: live.name, action: 'delete', id: live.id, details: describeLive(type, live), steps }, live.labels);
+      }
+    }
+  }
+}
+
+// ── Apply ───────────────────────────────────────────────────────────────────
+
+export interface ApplyResult {
+  status: 'applied' | 'failed' | 'no_changes';
+  applied: Array<Pick<PlannedChange, 'address' | 'action' | 'id'>>;
+  failed: { address: string; error: string } | null;
+  /** Changes after the failed one, in plan order. */
+  not_attempted: string[];
+  /** How to undo each change made, including a partly applied failed one. */
+  rollback_notes: string[];
+  /** Differences that cannot change in place (the plan's warnings). */
+  unapplied: string[];
+}
+
+/**
+ * Plan, then apply the changes in order. Fails without changing anything if
+ * the plan has errors; a failure part way through is reported in the result
+ * (not thrown) so the rollback notes for earlier changes are not lost.
+ */
+export async function applyInfrastructure(
+  cloud: CloudClient,
+  document: InfrastructureDocument,
+  guard: LabelGuardConfig | null,
+): Promise<ApplyResult> {
+  const planner = await Planner.create(cloud, document, guard);
+  if (planner.errors.length > 0) {
+    throw new InfrastructureError(`Infrastructure plan has errors, nothing was changed:\n- ${planner.errors.join('\n- ')}`);
+  }
+
+  const result: ApplyResult = {
+    status: planner.changes.length === 0 ? 'no_changes' : 'applied',
+    applied: [],
+    failed: null,
+    not_attempted: [],
+    rollback_notes: [],
+    unapplied: planner.warnings,
+  };
+
+  for (const [index, change] of planner.changes.entries()) {
+    let completed = 0;
+    try {
+      for (const step of change.steps) {
+        await step.run(planner.ids);
+        completed++;
+      }
+    } catch (error) {
+      if (error instanceof DryRunInterception) throw error;
+      result.status = 'failed';
+      result.failed = { address: change.address, error: error instanceof Error ? error.message : String(error) };
+      result.not_attempted = planner.changes.slice(index + 1).map((c) => c.address);
+      if (completed > 0) {
+        const done = change.steps.slice(0, completed).map((s) => s.description).join(', ');
+        result.rollback_notes.push(
+          `${change.address} failed after ${completed} of ${change.steps.length} steps (${done}); check its current state.`,
+        );
+      }
+      break;
+    }
+    if (change.action === 'create' && change.type !== 'dns_record') change.id = planner.ids.get(change.address) ?? null;
+    result.applied.push({ address: change.address, action: change.action, id: change.id });
+    result.rollback_notes.push(rollbackNote(change));
+  }
+  return result;
+}
+
+function rollbackNote(change: Change): string {
+  const subject = `${LABELS[change.type]} "${change.name}"${change.id !== null ? ` (ID ${change.id})` : ''}`;
+  switch (change.action) {
+    case 'create':
+      return change.type === 'dns_record'
+        ? `Created ${subject}; delete its records to roll back.`
+        : `Created ${subject}; delete it to roll back.`;
+    case 'update':
+      return `Updated ${subject}; to roll back, revert: ${change.details.join('; ')}.`;
+    case 'delete':
+      return `Deleted ${subject} (${change.details.join(', ')}); it cannot be restored, only recreated.`;
+  }
+}
+
+/** Send a request and wait for the actions it starts; a failed action fails the step. */
+async function send<T = unknown>(cloud: CloudClient, method: string, path: string, body?: unknown): Promise<T> {
+  const result = await cloud.request<T>(path, { method, ...(body !== undefined ? { body } : {}) });
+  const actions: HetznerAction[] = [];
+  collectActions(result, actions);
+  for (const action of actions) {
+    const finished = await cloud.pollAction(action.id);
+    if (finished.status === 'error') {
+      throw new InfrastructureError(`Action ${finished.command} (${finished.id}) failed: ${finished.error?.message ?? 'unknown error'}`);
+    }
+  }
+  return result;
+}
+
+function resolve<T>(value: Deferred<T>, ids: IdMap): T {
+  return typeof value === 'function' ? (value as (ids: IdMap) => T)(ids) : value;
+}
+
+// ── Comparison and descriptions ─────────────────────────────────────────────
+
+function sameLabels(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => b[key] === a[key]);
+}
+
+/** Whether every field set in `desired` has the same value in `live`, recursively. */
+function covers(live: unknown, desired: unknown): boolean {
+  if (desired !== null && typeof desired === 'object' && !Array.isArray(desired)) {
+    return Object.entries(desired).every(([key, value]) =>
+      value === undefined || covers((live as Record<string, unknown> | undefined)?.[key], value));
+  }
+  return JSON.stringify(live) === JSON.stringify(desired);
+}
+
+type Rule = {
+  direction: string;
+  protocol: string;
+  port?: string | null;
+  source_ips?: string[];
+  destination_ips?: string[];
+  description?: string | null;
+};
+
+function ruleKey(rule: Rule): string {
+  return JSON.stringify([
+    rule.direction,
+    rule.protocol,
+    rule.port ?? null,
+    [...(rule.source_ips ?? [])].sort(),
+    [...(rule.destination_ips ?? [])].sort(),
+    rule.description ?? null,
+  ]);
+}
+
+function describeRule(rule: Rule): string {
+  const ips = rule.direction === 'in' ? `from ${(rule.source_ips ?? []).join(', ')}` : `to ${(rule.destination_ips ?? []).join(', ')}`;
+  return `${rule.direction} ${rule.protocol}${rule.port ? ` ${rule.port}` : ''} ${ips}`;
+}
+
+function describeService(service: { protocol: string; listen_port: number; destination_port?: number }): string {
+  return `${service.protocol} ${service.listen_port} → ${service.destination_port ?? service.listen_port}`;
+}
+
+function targetKey(target: LiveTarget): string {
+  if (target.type === 'server') return `server:${target.server?.id}`;
+  if (target.type === 'label_selector') return `label_selector:${target.label_selector?.selector}`;
+  return `ip:${target.ip?.ip}`;
+}
+
+function describeTarget(target: LiveTarget, serverName: (id: number) => string): string {
+  if (target.type === 'server') return `server ${serverName(target.server!.id)}`;
+  if (target.type === 'label_selector') return `label_selector ${target.label_selector?.selector}`;
+  return `ip ${target.ip?.ip}`;
+}
+
+/** What a deleted resource looked like, enough to recreate it. */
+function describeLive(type: CloudResource, live: LiveState[CloudResource][number]): string[] {
+  switch (type) {
+    case 'network':
+      return [`ip_range ${(live as CloudNetwork).ip_range}`];
+    case 'firewall':
+      return (live as CloudFirewall).rules.map((rule) => `rule ${describeRule(rule)}`);
+    case 'server': {
+      const server = live as CloudServer;
+      return [`server_type ${server.server_type.name}`, `image ${server.image?.name ?? server.image?.id ?? 'none'}`, `location ${server.datacenter.location.name}`];
+    }
+    case 'volume': {
+      const volume = live as CloudVolume;
+      return [`size ${volume.size} GB`, `location ${volume.location.name}`];
+    }
+    case 'floating_ip': {
+      const ip = live as CloudFloatingIP;
+      return [`${ip.type} ${ip.ip}`, `home_location ${ip.home_location.name}`];
+    }
+    case 'load_balancer': {
+      const lb = live as CloudLoadBalancer;
+      return [`load_balancer_type ${lb.load_balancer_type.name}`, `location ${lb.location.name}`];
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * List output shaping — every `list_*` tool accepts `fields`, `limit`,
+ * `offset` and `format`, applied here to the collection array in the tool's
+ * output so callers can page through large projects and keep only the
+ * values they need.
+ *
+ * Fields are dotted paths into each item (`public_net.ipv4.ip`,
+ * `server.server_name` for Robot items). Structured content always carries
+ * the JSON result; `format` only changes the text content.
+ */
+
+import { z } from 'zod';
+
+export type ListFormat = 'json' | 'table' | 'csv' | 'summary';
+
+export interface ListOptions {
+  fields: string[] | null;
+  limit: number | null;
+  offset: number;
+  format: ListFormat;
+}
+
+export interface ShapedList {
+  data: Record<string, unknown>;
+  text: string;
+}
+
+/** Arguments added to every list tool by the registrar. */
+export const listParams = {
+  fields: z.string()
+    .optional()
+    .describe('Comma-separated fields to keep per item, dotted for nested values (e.g. "id,name,status,public_net.ipv4.ip")'),
+  limit: z.number().int().positive().optional().describe('Maximum number of items to return'),
+  offset: z.number().int().min(0).optional().describe('Number of items to skip (default: 0)'),
+  format: z.enum(['json', 'table', 'csv', 'summary'])
+    .optional()
+    .describe('Text format: json (default), table, csv, or summary (counts plus one line per item)'),
+};
+
+export function isListTool(name: string): boolean {
+  return name.startsWith('list_');
+}
+
+/**
+ * Split the list arguments off a tool call.
+ */
+export function parseListOptions(args: Record<string, unknown>): {
+  options: ListOptions;
+  rest: Record<string, unknown>;
+} {
+  const { fields, limit, offset, format, ...rest } = args;
+  const paths = typeof fields === 'string'
+    ? fields.split(',').map((f) => f.trim()).filter(Boolean)
+    : [];
+  return {
+    options: {
+      fields: paths.length > 0 ? paths : null,
+      limit: (limit as number | undefined) ?? null,
+      offset: (offset as number | undefined) ?? 0,
+      format: (format as ListFormat | undefined) ?? 'json',
+    },
+    rest,
+  };
+}
+
+/**
+ * Output schema of a list tool: every field becomes optional at any depth
+ * (items may be projected), plus `total` when the list was paged.
+ */
+export function listOutputSchema(schema: z.ZodObject<z.ZodRawShape>): z.ZodObject<z.ZodRawShape> {
+  const relaxed = relax(schema) as z.ZodObject<z.ZodRawShape>;
+  return relaxed.extend({ total: z.number().optional() });
+}
+
+function relax(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as z.ZodRawShape;
+    const relaxed = z.object(Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, relax(value).optional()])));
+    return schema._def.unknownKeys === 'passthrough' ? relaxed.passthrough() : relaxed;
+  }
+  if (schema instanceof z.ZodArray) return z.array(relax(schema.element));
+  if (schema instanceof z.ZodNullable) return relax(schema.unwrap()).nullable();
+  if (schema instanceof z.ZodOptional) return relax(schema.unwrap()).optional();
+  return schema;
+}
+
+/**
+ * Page and project the collection array of a list tool's output (the first
+ * array-valued field, e.g. `servers` or `zones`) and render the text content.
+ */
+export function shapeListOutput(data: Record<string, unknown>, options: ListOptions): ShapedList {
+  const key = Object.keys(data).find((k) => Array.isArray(data[k]));
+  if (key === undefined) return { data, text: JSON.stringify(data, null, 2) };
+
+  const all = data[key] as unknown[];
+  const end = options.limit === null ? undefined : options.offset + options.limit;
+  const page = all.slice(options.offset, end);
+  const items = options.fields ? page.map((item) => project(item, options.fields!)) : page;
+  const range = pageRange(page.length, options);
+
+  const shaped: Record<string, unknown> = { ...data, [key]: items };
+  if (range !== null) shaped.total = all.length;
+
+  const columns = options.fields ?? defaultColumns(page);
+  switch (options.format) {
+    case 'table': {
+      const note = range ? `\n(showing ${range} of ${all.length} ${key})` : '';
+      return { data: shaped, text: renderTable(page, columns) + note };
+    }
+    case 'csv':
+      return { data: shaped, text: renderCsv(page, columns) };
+    case 'summary': {
+      const heading = `${all.length} ${key}` + (range ? `, showing ${range}` : '');
+      return { data: shaped, text: renderSummary(heading, all, page, columns, options) };
+    }
+    default:
+      return { data: shaped, text: JSON.stringify(shaped, null, 2) };
+  }
+}
+
+// ── Fields ──────────────────────────────────────────────────────────────────
+
+function valueAt(item: unknown, path: string): unknown {
+  let current = item;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/** Keep only the given paths, preserving their nesting. */
+function project(item: unknown, paths: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const path of paths) {
+    const value = valueAt(item, path);
+    if (value === undefined) continue;
+    const parts = path.split('.');
+    let target = result;
+    for (const part of parts.slice(0, -1)) {
+      if (typeof target[part] !== 'object' || target[part] === null) target[part] = {};
+      target = target[part] as Record<string, unknown>;
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return result;
+}
+
+/**
+ * Scalar top-level fields of the items. Robot items wrap the resource in a
+ * single key (`{ server: {...} }`); their inner scalars are used instead.
+ */
+function defaultColumns(items: unknown[]): string[] {
+  const columns = new Set<string>();
+  for (const item of items) {
+    if (item === null || typeof item !== 'object') continue;
+    const entries = Object.entries(item);
+    const [wrapper, inner] = entries.length === 1 ? entries[0] : [null, null];
+    if (wrapper !== null && inner !== null && typeof inner === 'object' && !Array.isArray(inner)) {
+      for (const [k, v] of Object.entries(inner)) if (isScalar(v)) columns.add(`${wrapper}.${k}`);
+    } else {
+      for (const [k, v] of entries) if (isScalar(v)) columns.add(k);
+    }
+  }
+  return [...columns];
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// ── Renderers ───────────────────────────────────────────────────────────────
+
+function renderTable(items: unknown[], columns: string[]): string {
+  const rows = items.map((item) => columns.map((c) => cell(valueAt(item, c))));
+  const widths = columns.map((c, i) => Math.max(c.length, ...rows.map((r) => r[i].length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(columns), line(widths.map((w) => '-'.repeat(w))), ...rows.map(line)].join('\n');
+}
+
+function renderCsv(items: unknown[], columns: string[]): string {
+  const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = items.map((item) => columns.map((c) => quote(cell(valueAt(item, c)))).join(','));
+  return [columns.map(quote).join(','), ...rows].join('\n');
+}
+
+const SUMMARY_COLUMNS = /(^|\.)(id|name|server_number|server_name|ip|type|value|status)$/;
+
+/** Status counts cover the whole list; the item lines only the returned page. */
+function renderSummary(heading: string, all: unknown[], items: unknown[], columns: string[], options: ListOptions): string {
+  const lines = [heading];
+
+  const statusColumn = (options.fields ?? defaultColumns(all)).find((c) => /(^|\.)status$/.test(c));
+  if (statusColumn) {
+    const counts = new Map<string, number>();
+    for (const item of all) {
+      const status = cell(valueAt(item, statusColumn)) || 'unknown';
+      counts.set(status, (counts.get(status) ?? 0) + 1);
+    }
+    lines.push('By status: ' + [...counts].map(([status, n]) => `${status} ${n}`).join(', '));
+  }
+
+  const shown = options.fields ?? columns.filter((c) => SUMMARY_COLUMNS.test(c)).slice(0, 4);
+  for (const item of items) {
+    lines.push('- ' + shown.map((c) => cell(valueAt(item, c))).filter(Boolean).join(' | '));
+  }
+  return lines.join('\n');
+}
+
+/** 1-based range of the returned items, or null when the list was not paged. */
+function pageRange(shown: number, options: ListOptions): string | null {
+  if (options.limit === null && options.offset === 0) return null;
+  return shown > 0 ? `${options.offset + 1}-${options.offset + shown}` : 'none';
+}
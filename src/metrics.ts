@@ -0,0 +1,270 @@
+/**
+ * Metrics analysis — step selection, downsampling and per-series summaries
+ * (min/avg/p95/max, trend and anomaly windows) for the time series returned
+ * by the server and Load Balancer metrics endpoints.
+ */
+
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+import { cloudMetricsSchema, type CloudMetrics } from './types/cloud.js';
+
+type Sample = [number, string];
+
+export class MetricsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricsError';
+  }
+}
+
+/** Steps (seconds) that `chooseStep` rounds up to. */
+const NICE_STEPS = [1, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 10800, 21600, 43200, 86400];
+
+/** Trends whose total change over the range is below this share of the average are flat. */
+const FLAT_TREND = 0.1;
+
+/**
+ * Trends whose line explains less than this share of the variance (R²) are
+ * flat too, so daily cycles over several days are not read as a trend.
+ */
+const MIN_TREND_FIT = 0.25;
+
+/** Samples further than this many standard deviations from the mean are anomalous. */
+const ANOMALY_SIGMA = 3;
+
+const MAX_ANOMALY_WINDOWS = 10;
+
+/** Samples per series that summaries are computed from when no step is given. */
+const SUMMARY_POINTS = 1000;
+
+/**
+ * The smallest round step that keeps a range within `maxPoints` samples.
+ */
+export function chooseStep(start: string, end: string, maxPoints: number): number {
+  const span = (Date.parse(end) - Date.parse(start)) / 1000;
+  const minimum = Math.max(1, Math.ceil(span / maxPoints));
+  return NICE_STEPS.find((s) => s >= minimum) ?? Math.ceil(minimum / 86400) * 86400;
+}
+
+/**
+ * Average consecutive samples into buckets so at most `maxPoints` remain.
+ * Each bucket keeps the timestamp of its first sample.
+ */
+export function downsample(values: Sample[], maxPoints: number): Sample[] {
+  if (values.length <= maxPoints) return values;
+  const size = Math.ceil(values.length / maxPoints);
+  const result: Sample[] = [];
+  for (let i = 0; i < values.length; i += size) {
+    const bucket = numeric(values.slice(i, i + size));
+    if (bucket.length === 0) continue;
+    const avg = bucket.reduce((sum, [, v]) => sum + v, 0) / bucket.length;
+    result.push([values[i][0], String(round(avg))]);
+  }
+  return result;
+}
+
+/** A downsampled copy of the metrics, with the step widened to match. */
+export function downsampleMetrics(metrics: CloudMetrics, maxPoints: number): CloudMetrics {
+  const longest = Math.max(0, ...Object.values(metrics.time_series).map((series) => series.values.length));
+  const timeSeries = Object.fromEntries(Object.entries(metrics.time_series)
+    .map(([name, series]) => [name, { values: downsample(series.values, maxPoints) }]));
+  const step = longest > maxPoints ? metrics.step * Math.ceil(longest / maxPoints) : metrics.step;
+  return { ...metrics, step, time_series: timeSeries };
+}
+
+export interface AnomalyWindow {
+  start: string;
+  end: string;
+  direction: 'high' | 'low';
+  /** Most extreme value in the window. */
+  peak: number;
+}
+
+export interface SeriesSummary {
+  points: number;
+  min: number | null;
+  avg: number | null;
+  p95: number | null;
+  max: number | null;
+  first: number | null;
+  last: number | null;
+  trend: {
+    direction: 'rising' | 'falling' | 'flat';
+    /** Least-squares slope, per hour. */
+    slope_per_hour: number;
+  };
+  /** Runs of samples more than three standard deviations from the mean. */
+  anomalies: AnomalyWindow[];
+}
+
+/**
+ * Summarize one series. Samples that are not numbers (the API reports gaps
+ * as "NaN") are skipped.
+ */
+export function summarizeSeries(values: Sample[]): SeriesSummary {
+  const samples = numeric(values);
+  const flat = { direction: 'flat' as const, slope_per_hour: 0 };
+  if (samples.length === 0) {
+    return { points: 0, min: null, avg: null, p95: null, max: null, first: null, last: null, trend: flat, anomalies: [] };
+  }
+
+  const sorted = samples.map(([, v]) => v).sort((a, b) => a - b);
+  const avg = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const std = Math.sqrt(sorted.reduce((sum, v) => sum + (v - avg) ** 2, 0) / sorted.length);
+
+  return {
+    points: samples.length,
+    min: round(sorted[0]),
+    avg: round(avg),
+    p95: round(sorted[Math.min(sorted.length - 1, Math.ceil(0.95 * sorted.length) - 1)]),
+    max: round(sorted[sorted.length - 1]),
+    first: round(samples[0][1]),
+    last: round(samples[samples.length - 1][1]),
+    trend: samples.length < 2 ? flat : trend(samples, avg),
+    anomalies: std === 0 ? [] : anomalies(samples, avg, std),
+  };
+}
+
+/** Summaries of every series of the metrics. */
+export function summarizeMetrics(metrics: CloudMetrics): Record<string, SeriesSummary> {
+  return Object.fromEntries(Object.entries(metrics.time_series)
+    .map(([name, series]) => [name, summarizeSeries(series.values)]));
+}
+
+// ── Tool parameters and output ──────────────────────────────────────────────
+
+export const seriesSummarySchema = z.object({
+  points: z.number(),
+  min: z.number().nullable(),
+  avg: z.number().nullable(),
+  p95: z.number().nullable(),
+  max: z.number().nullable(),
+  first: z.number().nullable(),
+  last: z.number().nullable(),
+  trend: z.object({ direction: z.enum(['rising', 'falling', 'flat']), slope_per_hour: z.number() }),
+  anomalies: z.array(z.object({
+    start: z.string(),
+    end: z.string(),
+    direction: z.enum(['high', 'low']),
+    peak: z.number(),
+  })),
+});
+
+/** Time range of the metrics tools; reversed ranges are rejected by `checkRange`. */
+export const metricsRangeShape = {
+  start: z.string().datetime({ offset: true }).describe('Start of period in ISO 8601 format (e.g. 2024-01-01T00:00:00Z)'),
+  end: z.string().datetime({ offset: true }).describe('End of period in ISO 8601 format (e.g. 2024-01-02T00:00:00Z)'),
+};
+
+/** Parameters shared by the metrics tools, next to type, start and end. */
+export const metricsOptionsShape = {
+  step: z.number().int().positive().optional()
+    .describe('Seconds between samples (default: the smallest round step that fits the range into max_points samples)'),
+  max_points: z.number().int().min(10).max(1000).default(100)
+    .describe('Maximum samples per series; longer series are downsampled by averaging (default: 100)'),
+  mode: z.enum(['series', 'summary']).default('series')
+    .describe('series returns the samples; summary returns min/avg/p95/max, trend and anomaly windows per series'),
+};
+
+export const metricsOutputShape = {
+  start: z.string(),
+  end: z.string(),
+  step: z.number(),
+  time_series: cloudMetricsSchema.shape.time_series.optional(),
+  summary: z.record(seriesSummarySchema).optional(),
+};
+
+export interface MetricsOptions {
+  type: string;
+  start: string;
+  end: string;
+  step?: number;
+  max_points?: number;
+  mode?: 'series' | 'summary';
+}
+
+export interface MetricsResult {
+  start: string;
+  end: string;
+  step: number;
+  time_series?: CloudMetrics['time_series'];
+  summary?: Record<string, SeriesSummary>;
+}
+
+/**
+ * Throw a MetricsError unless `end` is after `start`.
+ */
+export function checkRange(start: string, end: string): void {
+  if (Date.parse(end) <= Date.parse(start)) {
+    throw new MetricsError(`The end of the range (${end}) must be after its start (${start})`);
+  }
+}
+
+/**
+ * Fetch `<path>/metrics` with a step suited to the range, then downsample
+ * the series or, in summary mode, summarize them. Summaries are computed
+ * from finer samples than the series mode returns.
+ */
+export async function fetchMetrics(cloud: CloudClient, path: string, options: MetricsOptions): Promise<MetricsResult> {
+  checkRange(options.start, options.end);
+  const maxPoints = options.max_points ?? 100;
+  const summary = options.mode === 'summary';
+  const step = options.step ?? chooseStep(options.start, options.end, summary ? SUMMARY_POINTS : maxPoints);
+  const { metrics } = await cloud.request<{ metrics: CloudMetrics }>(`${path}/metrics`, {
+    params: { type: options.type, start: options.start, end: options.end, step },
+  });
+  if (summary) {
+    return { start: metrics.start, end: metrics.end, step: metrics.step, summary: summarizeMetrics(metrics) };
+  }
+  return downsampleMetrics(metrics, maxPoints);
+}
+
+function trend(samples: Array<[number, number]>, avg: number): SeriesSummary['trend'] {
+  const meanT = samples.reduce((sum, [t]) => sum + t, 0) / samples.length;
+  let covariance = 0;
+  let variance = 0;
+  let valueVariance = 0;
+  for (const [t, v] of samples) {
+    covariance += (t - meanT) * (v - avg);
+    variance += (t - meanT) ** 2;
+    valueVariance += (v - avg) ** 2;
+  }
+  const slope = variance === 0 ? 0 : covariance / variance;
+  const fit = variance === 0 || valueVariance === 0 ? 0 : covariance ** 2 / (variance * valueVariance);
+  const change = slope * (samples[samples.length - 1][0] - samples[0][0]);
+  const relative = avg === 0 ? Math.abs(change) : Math.abs(change / avg);
+  const direction = relative < FLAT_TREND || fit < MIN_TREND_FIT ? 'flat' : change > 0 ? 'rising' : 'falling';
+  return { direction, slope_per_hour: round(slope * 3600) };
+}
+
+function anomalies(samples: Array<[number, number]>, avg: number, std: number): AnomalyWindow[] {
+  const windows: AnomalyWindow[] = [];
+  let current: AnomalyWindow | null = null;
+  for (const [t, v] of samples) {
+    const deviation = (v - avg) / std;
+    const direction = deviation > ANOMALY_SIGMA ? 'high' : deviation < -ANOMALY_SIGMA ? 'low' : null;
+    if (current && direction === current.direction) {
+      current.end = iso(t);
+      current.peak = direction === 'high' ? Math.max(current.peak, round(v)) : Math.min(current.peak, round(v));
+      continue;
+    }
+    current = null;
+    if (direction && windows.length < MAX_ANOMALY_WINDOWS) {
+      current = { start: iso(t), end: iso(t), direction, peak: round(v) };
+      windows.push(current);
+    }
+  }
+  return windows;
+}
+
+function numeric(values: Sample[]): Array<[number, number]> {
+  return values.map(([t, v]): [number, number] => [t, parseFloat(v)]).filter(([, v]) => Number.isFinite(v));
+}
+
+function iso(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
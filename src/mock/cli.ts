@@ -0,0 +1,30 @@
+/**
+ * Run the mock Hetzner API server standalone, e.g. for trying hetzner-mcp
+ * without credentials:
+ *
+ *   npm run mock -- --port 4000
+ *   HETZNER_CLOUD_URL=http://127.0.0.1:4000/v1 HETZNER_CLOUD_TOKEN=mock npm run dev
+ */
+
+import { startMockServer } from './server.js';
+
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const mock = await startMockServer({
+  port: Number(flag('port') ?? process.env.HETZNER_MOCK_PORT ?? 4000),
+  host: flag('host') ?? '127.0.0.1',
+});
+
+console.error('Mock Hetzner API listening:');
+console.error(`  HETZNER_CLOUD_URL=${mock.cloudUrl}`);
+console.error(`  HETZNER_ROBOT_URL=${mock.robotUrl}`);
+console.error('Any token, Robot user and password are accepted.');
+
+const shutdown = () => {
+  mock.close().then(() => process.exit(0), () => process.exit(1));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,1732 @@
+/**
+ * In-process fake of the Hetzner Cloud API (including DNS under /dns).
+ *
+ * State lives in memory: resources are created, updated and deleted by the
+ * same requests the real API accepts, list endpoints paginate with `meta`,
+ * every change returns an action whose progress advances each time it is
+ * polled, and responses carry `RateLimit-*` headers.
+ */
+
+import { createHash } from 'node:crypto';
+import type { HetznerAction } from '../clients/common.js';
+import { matchesLabelSelector } from '../guards.js';
+import type {
+  CloudCertificate,
+  CloudDatacenter,
+  CloudFirewall,
+  CloudFloatingIP,
+  CloudImage,
+  CloudISO,
+  CloudLoadBalancer,
+  CloudLoadBalancerType,
+  CloudLocation,
+  CloudNetwork,
+  CloudPlacementGroup,
+  CloudPrimaryIP,
+  CloudServer,
+  CloudServerType,
+  CloudSSHKey,
+  CloudStorageBox,
+  CloudVolume,
+} from '../types/cloud.js';
+import type { DnsRecord, DnsZone } from '../types/dns.js';
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockCloudOptions {
+  /** Progress added to a running action each time it is read (default: 100, i.e. done on first poll). */
+  actionProgressStep?: number;
+  /** Requests per hour reported in `RateLimit-Limit` (default: 3600). */
+  rateLimit?: number;
+  /** Start with a small set of resources in every collection (default: true). */
+  seed?: boolean;
+}
+
+type Resource = Record<string, unknown>;
+
+type ActionDone = (extra?: Resource, related?: Array<{ id: number; type: string }>) => MockResponse;
+
+/** Shape of the resources stored in each collection, as the API returns them. */
+export interface CloudCollections {
+  servers: CloudServer;
+  volumes: CloudVolume;
+  networks: CloudNetwork;
+  firewalls: CloudFirewall;
+  floating_ips: CloudFloatingIP;
+  primary_ips: CloudPrimaryIP;
+  load_balancers: CloudLoadBalancer;
+  certificates: CloudCertificate;
+  ssh_keys: CloudSSHKey;
+  placement_groups: CloudPlacementGroup;
+  images: CloudImage;
+  storage_boxes: CloudStorageBox;
+  server_types: CloudServerType;
+  load_balancer_types: CloudLoadBalancerType;
+  locations: CloudLocation;
+  datacenters: CloudDatacenter;
+  isos: CloudISO;
+}
+
+class MockCloudError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/** Collection path → response key and action resource type. */
+const COLLECTIONS: Record<string, { singular: string; type: string; readOnly?: boolean }> = {
+  servers: { singular: 'server', type: 'server' },
+  volumes: { singular: 'volume', type: 'volume' },
+  networks: { singular: 'network', type: 'network' },
+  firewalls: { singular: 'firewall', type: 'firewall' },
+  floating_ips: { singular: 'floating_ip', type: 'floating_ip' },
+  primary_ips: { singular: 'primary_ip', type: 'primary_ip' },
+  load_balancers: { singular: 'load_balancer', type: 'load_balancer' },
+  certificates: { singular: 'certificate', type: 'certificate' },
+  ssh_keys: { singular: 'ssh_key', type: 'ssh_key' },
+  placement_groups: { singular: 'placement_group', type: 'placement_group' },
+  images: { singular: 'image', type: 'image' },
+  storage_boxes: { singular: 'storage_box', type: 'storage_box' },
+  server_types: { singular: 'server_type', type: 'server_type', readOnly: true },
+  load_balancer_types: { singular: 'load_balancer_type', type: 'load_balancer_type', readOnly: true },
+  locations: { singular: 'location', type: 'location', readOnly: true },
+  datacenters: { singular: 'datacenter', type: 'datacenter', readOnly: true },
+  isos: { singular: 'iso', type: 'iso', readOnly: true },
+};
+
+const LOCATIONS = [
+  { id: 1, name: 'fsn1', description: 'Falkenstein DC Park 1', country: 'DE', city: 'Falkenstein', latitude: 50.47612, longitude: 12.370071, network_zone: 'eu-central' },
+  { id: 2, name: 'nbg1', description: 'Nuremberg DC Park 1', country: 'DE', city: 'Nuremberg', latitude: 49.452102, longitude: 11.076665, network_zone: 'eu-central' },
+  { id: 3, name: 'hel1', description: 'Helsinki DC Park 1', country: 'FI', city: 'Helsinki', latitude: 60.169855, longitude: 24.938379, network_zone: 'eu-central' },
+];
+
+const SERVER_TYPES = [
+  { id: 1, name: 'cx22', description: 'CX22', cores: 2, memory: 4, disk: 40, storage_type: 'local', cpu_type: 'shared', architecture: 'x86', hourly: 0.0071, monthly: 4.35 },
+  { id: 2, name: 'cx32', description: 'CX32', cores: 4, memory: 8, disk: 80, storage_type: 'local', cpu_type: 'shared', architecture: 'x86', hourly: 0.0127, monthly: 7.7 },
+  { id: 3, name: 'cpx31', description: 'CPX 31', cores: 4, memory: 8, disk: 160, storage_type: 'local', cpu_type: 'shared', architecture: 'x86', hourly: 0.0233, monthly: 14.52 },
+  { id: 4, name: 'cax11', description: 'CAX11', cores: 2, memory: 4, disk: 40, storage_type: 'local', cpu_type: 'shared', architecture: 'arm', hourly: 0.0063, monthly: 3.79 },
+  { id: 5, name: 'ccx13', description: 'CCX13 Dedicated CPU', cores: 2, memory: 8, disk: 80, storage_type: 'local', cpu_type: 'dedicated', architecture: 'x86', hourly: 0.0224, monthly: 13.99 },
+  {
+    id: 6, name: 'cx21', description: 'CX21', cores: 2, memory: 4, disk: 40, storage_type: 'local', cpu_type: 'shared', architecture: 'x86', hourly: 0.0092, monthly: 5.77,
+    deprecation: { announced: '2024-06-06T00:00:00Z', unavailable_after: '2024-09-06T00:00:00Z' },
+  },
+];
+
+const LOAD_BALANCER_TYPES = [
+  { id: 1, name: 'lb11', description: 'LB11', max_connections: 10000, max_services: 5, max_targets: 25, max_assigned_certificates: 10, hourly: 0.0088, monthly: 5.39 },
+  { id: 2, name: 'lb21', description: 'LB21', max_connections: 20000, max_services: 15, max_targets: 75, max_assigned_certificates: 25, hourly: 0.0264, monthly: 16.4 },
+];
+
+const TB = 1024 ** 4;
+
+const STORAGE_BOX_TYPES = [
+  { name: 'bx11', description: 'BX11', size: TB, snapshot_limit: 10, automatic_snapshot_limit: 10, subaccounts_limit: 100 },
+  { name: 'bx21', description: 'BX21', size: 5 * TB, snapshot_limit: 20, automatic_snapshot_limit: 20, subaccounts_limit: 100 },
+  { name: 'bx31', description: 'BX31', size: 10 * TB, snapshot_limit: 30, automatic_snapshot_limit: 30, subaccounts_limit: 100 },
+];
+
+const VAT = 1.19;
+
+function price(net: number, digits = 4): { net: string; gross: string } {
+  return { net: net.toFixed(digits), gross: (net * VAT).toFixed(digits) };
+}
+
+function locationPrices(hourly: number, monthly: number) {
+  return LOCATIONS.map((l) => ({
+    location: l.name,
+    price_hourly: price(hourly),
+    price_monthly: price(monthly),
+    included_traffic: 21990232555520,
+    price_per_tb_traffic: price(1),
+  }));
+}
+
+/** Order two field values of the same type, as the API's `sort` parameter does. */
+function compare(a: unknown, b: unknown): number {
+  const [x, y] = typeof a === 'number' && typeof b === 'number' ? [a, b] : [String(a), String(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/** A list field of a request body; absent or malformed lists are empty. */
+function arrayOf<T = Resource>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+/** A nested object of a request body or resource; absent or malformed objects are empty. */
+function objectOf(value: unknown): Resource {
+  return typeof value === 'object' && value !== null ? (value as Resource) : {};
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function required(body: Resource, ...fields: string[]): void {
+  const missing = fields.filter((f) => body[f] === undefined || body[f] === null || body[f] === '');
+  if (missing.length > 0) {
+    throw new MockCloudError(400, 'invalid_input', `invalid input in fields ${missing.map((f) => `'${f}'`).join(', ')}`);
+  }
+}
+
+export class MockCloudApi {
+  private readonly collections = new Map<string, Map<number, Resource>>();
+  private readonly actions = new Map<number, HetznerAction>();
+  private readonly zones = new Map<string, DnsZone>();
+  private readonly records = new Map<string, DnsRecord>();
+  /** Storage box snapshots and subaccounts by ID; each names its box in `storage_box`. */
+  private readonly storageBoxChildren = {
+    snapshots: new Map<number, Resource>(),
+    subaccounts: new Map<number, Resource>(),
+  };
+  private readonly injected: Array<{ status: number; retryAfter?: number }> = [];
+  private readonly failing = new Set<string>();
+  private readonly failed = new Set<number>();
+  private readonly progressStep: number;
+  private readonly limit: number;
+  private remaining: number;
+  private nextId = 100;
+  private nextAddress = 10;
+  /** Every request received, in order, as `METHOD /path?query`. */
+  readonly requests: string[] = [];
+
+  constructor(options: MockCloudOptions = {}) {
+    this.progressStep = options.actionProgressStep ?? 100;
+    this.limit = options.rateLimit ?? 3600;
+    this.remaining = this.limit;
+    for (const name of Object.keys(COLLECTIONS)) this.collections.set(name, new Map());
+    this.seedCatalog();
+    if (options.seed ?? true) this.seedResources();
+  }
+
+  /**
+   * Make the next `count` requests fail with `status` (e.g. 429 or 503).
+   */
+  injectError(status: number, count = 1, retryAfter?: number): void {
+    for (let i = 0; i < count; i++) this.injected.push({ status, retryAfter });
+  }
+
+  /**
+   * Make the next action with `command` (e.g. `attach_volume`) finish with
+   * status `error` instead of `success`.
+   */
+  failAction(command: string): void {
+    this.failing.add(command);
+  }
+
+  /**
+   * Resource by collection and ID, for assertions in tests.
+   */
+  resource<K extends keyof CloudCollections>(collection: K, id: number): CloudCollections[K] | undefined {
+    return this.collections.get(collection)?.get(id) as CloudCollections[K] | undefined;
+  }
+
+  /**
+   * All resources in a collection, for assertions in tests.
+   */
+  list<K extends keyof CloudCollections>(collection: K): Array<CloudCollections[K]> {
+    return [...(this.collections.get(collection)?.values() ?? [])] as Array<CloudCollections[K]>;
+  }
+
+  /**
+   * Action by ID without advancing it, for assertions in tests.
+   */
+  peekAction(id: number): HetznerAction | undefined {
+    return this.actions.get(id);
+  }
+
+  handle(method: string, path: string, query: URLSearchParams, body: unknown): MockResponse {
+    const qs = query.toString();
+    this.requests.push(`${method} ${path}${qs ? `?${qs}` : ''}`);
+    this.remaining = Math.max(0, this.remaining - 1);
+
+    const injected = this.injected.shift();
+    let response: MockResponse;
+    if (injected) {
+      response = {
+        status: injected.status,
+        body: { error: { code: injected.status === 429 ? 'rate_limit_exceeded' : 'unavailable', message: 'injected error' } },
+        headers: injected.retryAfter !== undefined ? { 'Retry-After': String(injected.retryAfter) } : undefined,
+      };
+    } else {
+      try {
+        response = this.route(method, path.split('/').filter(Boolean), query, (body ?? {}) as Resource);
+      } catch (error) {
+        if (!(error instanceof MockCloudError)) throw error;
+        response = { status: error.status, body: { error: { code: error.code, message: error.message, details: {} } } };
+      }
+    }
+
+    response.headers = {
+      ...response.headers,
+      'RateLimit-Limit': String(this.limit),
+      'RateLimit-Remaining': String(this.remaining),
+      'RateLimit-Reset': String(Math.floor(Date.now() / 1000) + (this.limit - this.remaining)),
+    };
+    return response;
+  }
+
+  // ── Routing ─────────────────────────────────────────────────────────────
+
+  private route(method: string, segments: string[], query: URLSearchParams, body: Resource): MockResponse {
+    const [root, id, sub, command] = segments;
+
+    if (root === 'dns') return this.routeDns(method, segments.slice(1), query, body);
+    if (root === 'pricing' && method === 'GET') return { status: 200, body: { pricing: this.pricing() } };
+
+    if (root === 'actions') {
+      if (id === undefined && method === 'GET') return this.paginate('actions', this.filterActions([...this.actions.values()], query), query);
+      if (id !== undefined && method === 'GET') return { status: 200, body: { action: this.readAction(Number(id)) } };
+    }
+
+    const collection = COLLECTIONS[root];
+    if (!collection) throw new MockCloudError(404, 'not_found', `unknown path /${segments.join('/')}`);
+    const store = this.collections.get(root)!;
+
+    if (id === undefined) {
+      if (method === 'GET') return this.paginate(root, this.filter(root, [...store.values()], query), query);
+      if (method === 'POST' && !collection.readOnly) return this.create(root, body);
+    } else if (id === 'actions' && method === 'GET') {
+      const actions = [...this.actions.values()].filter((a) => a.resources.some((r) => r.type === collection.type));
+      return this.paginate('actions', this.filterActions(actions, query), query);
+    } else {
+      const resource = this.find(root, Number(id));
+
+      if (root === 'storage_boxes' && (sub === 'snapshots' || sub === 'subaccounts')) {
+        return this.routeStorageBoxChildren(method, resource as CloudStorageBox, sub, segments.slice(3), query, body);
+      } else if (sub === undefined) {
+        if (method === 'GET') return { status: 200, body: { [collection.singular]: resource } };
+        if (method === 'PUT' && !collection.readOnly) return this.update(root, resource, body);
+        if (method === 'DELETE' && !collection.readOnly) return this.remove(root, resource);
+      } else if (sub === 'metrics' && method === 'GET') {
+        return { status: 200, body: { metrics: this.metrics(root, query) } };
+      } else if (sub === 'actions' && command === undefined && method === 'GET') {
+        const actions = [...this.actions.values()].filter((a) =>
+          a.resources.some((r) => r.type === collection.type && r.id === resource.id));
+        return this.paginate('actions', this.filterActions(actions, query), query);
+      } else if (sub === 'actions' && command !== undefined && method === 'GET') {
+        const action = this.readAction(Number(command));
+        if (!action.resources.some((r) => r.type === collection.type && r.id === resource.id)) {
+          throw new MockCloudError(404, 'not_found', `action with ID '${command}' not found`);
+        }
+        return { status: 200, body: { action } };
+      } else if (sub === 'actions' && command !== undefined && method === 'POST') {
+        return this.resourceAction(root, resource, command, body);
+      }
+    }
+
+    throw new MockCloudError(404, 'not_found', `unknown path ${method} /${segments.join('/')}`);
+  }
+
+  private find<K extends keyof CloudCollections>(collection: K, id: number): CloudCollections[K];
+  private find(collection: string, id: number): Resource;
+  private find(collection: string, id: number): Resource {
+    const resource = this.collections.get(collection)!.get(id);
+    if (!resource) {
+      throw new MockCloudError(404, 'not_found', `${COLLECTIONS[collection].singular} with ID '${id}' not found`);
+    }
+    return resource;
+  }
+
+  /** Look up a catalog entry or resource by ID or name. */
+  private lookup<K extends keyof CloudCollections>(collection: K, ref: unknown): CloudCollections[K] {
+    const found = [...this.collections.get(collection)!.values()].find(
+      (r) => String(r.id) === String(ref) || r.name === ref,
+    );
+    if (!found) {
+      throw new MockCloudError(400, 'invalid_input', `${COLLECTIONS[collection].singular} '${String(ref)}' not found`);
+    }
+    return found as CloudCollections[K];
+  }
+
+  private filter(collection: string, items: Resource[], query: URLSearchParams): Resource[] {
+    let result = items;
+    const name = query.get('name');
+    if (name) result = result.filter((r) => r.name === name);
+    const selector = query.get('label_selector');
+    if (selector) result = result.filter((r) => matchesLabelSelector((r.labels ?? {}) as Record<string, string>, selector));
+    const statuses = query.getAll('status');
+    if (statuses.length > 0) result = result.filter((r) => statuses.includes(String(r.status)));
+    const type = query.get('type');
+    if (type && collection !== 'server_types') result = result.filter((r) => r.type === type);
+    const architecture = query.get('architecture');
+    if (architecture) result = result.filter((r) => r.architecture === architecture);
+    const ip = query.get('ip');
+    if (ip) result = result.filter((r) => r.ip === ip);
+    const fingerprint = query.get('fingerprint');
+    if (fingerprint) result = result.filter((r) => r.fingerprint === fingerprint);
+
+    const sort = query.get('sort');
+    if (sort) {
+      const [field, direction] = sort.split(':');
+      result = [...result].sort((a, b) => compare(a[field], b[field]));
+      if (direction === 'desc') result.reverse();
+    } else {
+      result = [...result].sort((a, b) => compare(a.id, b.id));
+    }
+    return result;
+  }
+
+  private filterActions(actions: HetznerAction[], query: URLSearchParams): HetznerAction[] {
+    const statuses = query.getAll('status');
+    return actions
+      .filter((a) => statuses.length === 0 || statuses.includes(a.status))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private paginate(key: string, items: unknown[], query: URLSearchParams): MockResponse {
+    const perPage = Math.min(Number(query.get('per_page') ?? 25), 50);
+    const page = Math.max(Number(query.get('page') ?? 1), 1);
+    const lastPage = Math.max(Math.ceil(items.length / perPage), 1);
+    return {
+      status: 200,
+      body: {
+        [key]: items.slice((page - 1) * perPage, page * perPage),
+        meta: {
+          pagination: {
+            page,
+            per_page: perPage,
+            previous_page: page > 1 ? page - 1 : null,
+            next_page: page < lastPage ? page + 1 : null,
+            last_page: lastPage,
+            total_entries: items.length,
+          },
+        },
+      },
+    };
+  }
+
+  // ── Actions ─────────────────────────────────────────────────────────────
+
+  private action(command: string, resources: Array<{ id: number; type: string }>): HetznerAction {
+    const action: HetznerAction = {
+      id: this.nextId++,
+      command,
+      status: 'running',
+      progress: 0,
+      started: now(),
+      finished: null,
+      resources,
+    };
+    this.actions.set(action.id, action);
+    if (this.failing.delete(command)) this.failed.add(action.id);
+    return action;
+  }
+
+  /** Reading an action advances it by one progress step. */
+  private readAction(id: number): HetznerAction {
+    const action = this.actions.get(id);
+    if (!action) throw new MockCloudError(404, 'not_found', `action with ID '${id}' not found`);
+    if (action.status === 'running') {
+      action.progress = Math.min(100, action.progress + this.progressStep);
+      if (action.progress >= 100) {
+        action.status = this.failed.has(id) ? 'error' : 'success';
+        if (action.status === 'error') action.error = { code: 'action_failed', message: 'Action failed' };
+        action.finished = now();
+      }
+    }
+    return action;
+  }
+
+  // ── CRUD ────────────────────────────────────────────────────────────────
+
+  private insert<K extends keyof CloudCollections>(collection: K, resource: Resource): CloudCollections[K] {
+    this.collections.get(collection)!.set(resource.id as number, resource);
+    return resource as CloudCollections[K];
+  }
+
+  private address(): { ipv4: string; ipv6: string } {
+    const n = this.nextAddress++;
+    return { ipv4: `203.0.113.${n}`, ipv6: `2001:db8:${n.toString(16)}::/64` };
+  }
+
+  private create(collection: string, body: Resource): MockResponse {
+    const id = this.nextId++;
+    const base = { id, labels: body.labels ?? {}, created: now() };
+    const type = COLLECTIONS[collection].type;
+
+    switch (collection) {
+      case 'servers': {
+        required(body, 'name', 'server_type', 'image');
+        const server = this.buildServer(id, body);
+        this.insert('servers', server);
+        const action = this.action('create_server', [{ id, type }]);
+        const nextActions = body.start_after_create === false ? [] : [this.action('start_server', [{ id, type }])];
+        const rootPassword = Array.isArray(body.ssh_keys) && body.ssh_keys.length > 0 ? null : `mock-${id}-root`;
+        return { status: 201, body: { server, action, next_actions: nextActions, root_password: rootPassword } };
+      }
+      case 'volumes': {
+        required(body, 'name', 'size');
+        const server = body.server !== undefined ? this.find('servers', Number(body.server)) : null;
+        if (!server && !body.location) throw new MockCloudError(400, 'invalid_input', 'location or server is required');
+        const location = server ? server.datacenter.location : this.lookup('locations', body.location);
+        const volume = this.insert('volumes', {
+          ...base,
+          name: body.name,
+          size: body.size,
+          server: server?.id ?? null,
+          location,
+          status: 'available',
+          protection: { delete: false },
+          linux_device: `/dev/disk/by-id/scsi-0HC_Volume_${id}`,
+          format: body.format ?? null,
+        });
+        if (server) server.volumes.push(id);
+        const action = this.action('create_volume', [{ id, type }]);
+        const nextActions = server ? [this.action('attach_volume', [{ id, type }, { id: server.id, type: 'server' }])] : [];
+        return { status: 201, body: { volume, action, next_actions: nextActions } };
+      }
+      case 'networks': {
+        required(body, 'name', 'ip_range');
+        const network = this.insert('networks', {
+          ...base,
+          name: body.name,
+          ip_range: body.ip_range,
+          subnets: arrayOf(body.subnets).map((s) => ({ gateway: String(s.ip_range).replace(/\.0\/\d+$/, '.1'), ...s })),
+          routes: body.routes ?? [],
+          servers: [],
+          load_balancers: [],
+          protection: { delete: false },
+          expose_routes_to_vswitch: false,
+        });
+        return { status: 201, body: { network } };
+      }
+      case 'firewalls': {
+        required(body, 'name');
+        const firewall = this.insert('firewalls', {
+          ...base,
+          name: body.name,
+          rules: arrayOf(body.rules).map(normalizeRule),
+          applied_to: [],
+        });
+        const actions = this.applyFirewall(firewall, arrayOf(body.apply_to));
+        return { status: 201, body: { firewall, actions } };
+      }
+      case 'floating_ips': {
+        required(body, 'type');
+        const server = body.server !== undefined ? this.find('servers', Number(body.server)) : null;
+        if (!server && !body.home_location) throw new MockCloudError(400, 'invalid_input', 'home_location or server is required');
+        const { ipv4, ipv6 } = this.address();
+        const floatingIp = this.insert('floating_ips', {
+          ...base,
+          name: body.name ?? `floating-ip-${id}`,
+          description: body.description ?? null,
+          ip: body.type === 'ipv6' ? ipv6 : ipv4,
+          type: body.type,
+          server: server?.id ?? null,
+          dns_ptr: [],
+          home_location: server ? server.datacenter.location : this.lookup('locations', body.home_location),
+          blocked: false,
+          protection: { delete: false },
+        });
+        if (server) server.public_net.floating_ips.push(id);
+        const action = server
+          ? this.action('assign_floating_ip', [{ id, type }, { id: server.id, type: 'server' }])
+          : this.action('create_floating_ip', [{ id, type }]);
+        return { status: 201, body: { floating_ip: floatingIp, action } };
+      }
+      case 'primary_ips': {
+        required(body, 'name', 'type', 'assignee_type');
+        if (body.assignee_id === undefined && body.datacenter === undefined) {
+          throw new MockCloudError(400, 'invalid_input', 'assignee_id or datacenter is required');
+        }
+        const server = body.assignee_id !== undefined ? this.find('servers', Number(body.assignee_id)) : null;
+        const { ipv4, ipv6 } = this.address();
+        const primaryIp = this.insert('primary_ips', {
+          ...base,
+          name: body.name,
+          ip: body.type === 'ipv6' ? ipv6 : ipv4,
+          type: body.type,
+          assignee_id: server?.id ?? null,
+          assignee_type: body.assignee_type,
+          auto_delete: body.auto_delete ?? false,
+          blocked: false,
+          datacenter: server ? server.datacenter : this.lookup('datacenters', body.datacenter),
+          dns_ptr: [],
+          protection: { delete: false },
+        });
+        const action = server ? this.action('assign_primary_ip', [{ id, type }, { id: server.id, type: 'server' }]) : null;
+        return { status: 201, body: { primary_ip: primaryIp, action } };
+      }
+      case 'load_balancers': {
+        required(body, 'name', 'load_balancer_type');
+        if (!body.location && !body.network_zone) throw new MockCloudError(400, 'invalid_input', 'location or network_zone is required');
+        const lbType = this.lookup('load_balancer_types', body.load_balancer_type);
+        const location = body.location
+          ? this.lookup('locations', body.location)
+          : LOCATIONS.find((l) => l.network_zone === body.network_zone) ?? LOCATIONS[0];
+        const { ipv4, ipv6 } = this.address();
+        const lb = this.insert('load_balancers', {
+          ...base,
+          name: body.name,
+          public_net: {
+            enabled: body.public_interface ?? true,
+            ipv4: { ip: ipv4, dns_ptr: null },
+            ipv6: { ip: ipv6.replace('/64', '1'), dns_ptr: null },
+          },
+          private_net: [],
+          location,
+          load_balancer_type: lbType,
+          protection: { delete: false },
+          targets: body.targets ?? [],
+          services: body.services ?? [],
+          algorithm: body.algorithm ?? { type: 'round_robin' },
+          outgoing_traffic: null,
+          ingoing_traffic: null,
+          included_traffic: 21990232555520,
+        });
+        return { status: 201, body: { load_balancer: lb, action: this.action('create_load_balancer', [{ id, type }]) } };
+      }
+      case 'certificates': {
+        required(body, 'name');
+        const managed = body.type === 'managed';
+        if (managed) required(body, 'domain_names');
+        else required(body, 'certificate', 'private_key');
+        const certificate = this.insert('certificates', {
+          ...base,
+          name: body.name,
+          type: managed ? 'managed' : 'uploaded',
+          certificate: managed ? null : body.certificate,
+          domain_names: body.domain_names ?? ['example.com'],
+          fingerprint: fingerprint(String(body.certificate ?? body.name)),
+          not_valid_before: now(),
+          not_valid_after: new Date(Date.now() + 90 * 86_400_000).toISOString(),
+          status: managed ? { issuance: 'pending', renewal: 'unavailable', error: null } : null,
+          used_by: [],
+        });
+        const action = managed ? this.action('create_certificate', [{ id, type }]) : null;
+        return { status: 201, body: { certificate, action } };
+      }
+      case 'ssh_keys': {
+        required(body, 'name', 'public_key');
+        const sshKey = this.insert('ssh_keys', {
+          ...base,
+          name: body.name,
+          public_key: body.public_key,
+          fingerprint: fingerprint(String(body.public_key)),
+        });
+        return { status: 201, body: { ssh_key: sshKey } };
+      }
+      case 'placement_groups': {
+        required(body, 'name', 'type');
+        const group = this.insert('placement_groups', { ...base, name: body.name, type: body.type, servers: [] });
+        return { status: 201, body: { placement_group: group, action: null } };
+      }
+      case 'storage_boxes': {
+        required(body, 'name', 'storage_box_type', 'location', 'password');
+        const username = `u${id}`;
+        const storageBox = this.insert('storage_boxes', {
+          ...base,
+          username,
+          name: body.name,
+          status: 'active',
+          storage_box_type: this.storageBoxType(body.storage_box_type),
+          location: this.lookup('locations', body.location),
+          access_settings: {
+            reachable_externally: false,
+            samba_enabled: false,
+            ssh_enabled: false,
+            webdav_enabled: false,
+            zfs_enabled: false,
+            ...(body.access_settings as Resource | undefined),
+          },
+          server: `${username}.your-storagebox.de`,
+          system: 'FSN1-BX355',
+          stats: { size: 0, size_data: 0, size_snapshots: 0 },
+          snapshot_plan: null,
+          protection: { delete: false },
+        });
+        return { status: 201, body: { storage_box: storageBox, action: this.action('create', [{ id, type }]) } };
+      }
+    }
+    throw new MockCloudError(405, 'method_not_allowed', `cannot create ${collection}`);
+  }
+
+  private buildServer(id: number, body: Resource): CloudServer {
+    const serverType = this.lookup('server_types', body.server_type);
+    const image = this.lookup('images', body.image);
+    const datacenter = body.datacenter
+      ? this.lookup('datacenters', body.datacenter)
+      : this.list('datacenters').find((d) => d.location.name === (body.location ?? 'fsn1'));
+    if (!datacenter) throw new MockCloudError(400, 'invalid_input', `location '${body.location}' not found`);
+    if (!datacenter.server_types?.available.includes(serverType.id)) {
+      throw new MockCloudError(412, 'resource_unavailable', `server type ${serverType.name} is unavailable in ${datacenter.name}`);
+    }
+    const { ipv4, ipv6 } = this.address();
+
+    const server: CloudServer = {
+      id,
+      name: String(body.name),
+      status: body.start_after_create === false ? 'off' : 'running',
+      public_net: {
+        ipv4: { id: this.nextId++, ip: ipv4, blocked: false, dns_ptr: `static.${ipv4.split('.').reverse().join('.')}.clients.your-server.de` },
+        ipv6: { id: this.nextId++, ip: ipv6, blocked: false, dns_ptr: [] },
+        floating_ips: [],
+        firewalls: [],
+      },
+      private_net: [],
+      server_type: serverType,
+      datacenter,
+      image,
+      iso: null,
+      rescue_enabled: false,
+      locked: false,
+      backup_window: null,
+      outgoing_traffic: 0,
+      ingoing_traffic: 0,
+      included_traffic: 21990232555520,
+      protection: { delete: false, rebuild: false },
+      labels: (body.labels ?? {}) as Record<string, string>,
+      volumes: [],
+      load_balancers: [],
+      placement_group: null,
+      primary_disk_size: serverType.disk,
+      created: now(),
+    };
+
+    for (const volumeId of arrayOf<unknown>(body.volumes)) {
+      const volume = this.find('volumes', Number(volumeId));
+      volume.server = id;
+      server.volumes.push(volume.id);
+    }
+    for (const networkId of arrayOf<unknown>(body.networks)) {
+      const network = this.find('networks', Number(networkId));
+      network.servers.push(id);
+      server.private_net.push({ network: network.id, ip: this.networkIp(network), alias_ips: [], mac_address: mac(id) });
+    }
+    for (const ref of arrayOf(body.firewalls)) {
+      const firewall = this.find('firewalls', Number(ref.firewall));
+      firewall.applied_to.push({ type: 'server', server: { id } });
+      server.public_net.firewalls.push({ id: firewall.id, status: 'applied' });
+    }
+    if (body.placement_group !== undefined) {
+      const group = this.find('placement_groups', Number(body.placement_group));
+      group.servers.push(id);
+      server.placement_group = group;
+    }
+    return server;
+  }
+
+  private networkIp(network: CloudNetwork): string {
+    const prefix = String(network.ip_range).split('.').slice(0, 3).join('.');
+    return `${prefix}.${this.nextAddress++ % 250 + 2}`;
+  }
+
+  private update(collection: string, resource: Resource, body: Resource): MockResponse {
+    const updatable = ['name', 'labels', 'description', 'type', 'auto_delete', 'expose_routes_to_vswitch'];
+    for (const field of updatable) {
+      if (body[field] !== undefined && field in resource) resource[field] = body[field];
+    }
+    return { status: 200, body: { [COLLECTIONS[collection].singular]: resource } };
+  }
+
+  private remove(collection: string, resource: Resource): MockResponse {
+    if ((resource.protection as Resource | undefined)?.delete) {
+      throw new MockCloudError(403, 'protected', `${COLLECTIONS[collection].singular} is delete protected`);
+    }
+    if (collection === 'volumes' && resource.server !== null) {
+      throw new MockCloudError(423, 'locked', 'volume is attached to a server');
+    }
+    const id = Number(resource.id);
+    this.collections.get(collection)!.delete(id);
+
+    if (collection === 'servers') {
+      for (const volume of this.list('volumes')) if (volume.server === id) volume.server = null;
+      for (const ip of this.list('floating_ips')) if (ip.server === id) ip.server = null;
+      for (const ip of this.list('primary_ips')) if (ip.assignee_id === id) ip.assignee_id = null;
+      for (const network of this.list('networks')) network.servers = network.servers.filter((s) => s !== id);
+      return { status: 200, body: { action: this.action('delete_server', [{ id, type: 'server' }]) } };
+    }
+    return { status: 204 };
+  }
+
+  // ── Resource actions ────────────────────────────────────────────────────
+
+  private resourceAction(collection: string, resource: Resource, command: string, body: Resource): MockResponse {
+    const type = COLLECTIONS[collection].type;
+    const self = { id: Number(resource.id), type };
+    const done: ActionDone = (extra = {}, related = []) => ({
+      status: 201,
+      body: { action: this.action(command, [self, ...related]), ...extra },
+    });
+
+    // Shared by most resource types
+    if (command === 'change_protection') {
+      const protection = resource.protection as Resource | undefined;
+      for (const key of ['delete', 'rebuild']) {
+        if (body[key] !== undefined && protection && key in protection) protection[key] = body[key];
+      }
+      return done();
+    }
+    if (command === 'change_dns_ptr') {
+      required(body, 'ip');
+      this.setDnsPtr(resource, String(body.ip), (body.dns_ptr as string | null | undefined) ?? null);
+      return done();
+    }
+
+    const response = this.collectionAction(collection, resource, command, body, done);
+    if (response) return response;
+    throw new MockCloudError(404, 'not_found', `unknown action '${command}' for ${collection}`);
+  }
+
+  /** Actions specific to one collection; undefined for commands it does not know. */
+  private collectionAction(collection: string, resource: Resource, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (collection) {
+      case 'servers': return this.serverAction(resource as CloudServer, command, body, done);
+      case 'volumes': return this.volumeAction(resource as CloudVolume, command, body, done);
+      case 'networks': return this.networkAction(resource as CloudNetwork, command, body, done);
+      case 'firewalls': return this.firewallAction(resource as CloudFirewall, command, body, done);
+      case 'floating_ips': return this.floatingIpAction(resource as CloudFloatingIP, command, body, done);
+      case 'primary_ips': return this.primaryIpAction(resource as CloudPrimaryIP, command, body, done);
+      case 'load_balancers': return this.loadBalancerAction(resource as CloudLoadBalancer, command, body, done);
+      case 'storage_boxes': return this.storageBoxAction(resource as CloudStorageBox, command, body, done);
+      case 'certificates': return this.certificateAction(resource as CloudCertificate, command, body, done);
+    }
+    return undefined;
+  }
+
+  private serverAction(server: CloudServer, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'poweron':
+      case 'reboot':
+      case 'reset':
+        server.status = 'running';
+        return done();
+      case 'poweroff':
+      case 'shutdown':
+        server.status = 'off';
+        return done();
+      case 'rebuild':
+        required(body, 'image');
+        if (server.protection.rebuild) throw new MockCloudError(403, 'protected', 'server is rebuild protected');
+        server.image = this.lookup('images', body.image);
+        return done({ root_password: `mock-${server.id}-rebuilt` });
+      case 'change_type':
+        required(body, 'server_type');
+        server.server_type = this.lookup('server_types', body.server_type);
+        if (body.upgrade_disk) server.primary_disk_size = server.server_type.disk;
+        return done();
+      case 'enable_rescue':
+        server.rescue_enabled = true;
+        return done({ root_password: `mock-${server.id}-rescue` });
+      case 'disable_rescue':
+        server.rescue_enabled = false;
+        return done();
+      case 'create_image': {
+        const id = this.nextId++;
+        const image = this.insert('images', {
+          id,
+          type: body.type ?? 'snapshot',
+          status: 'available',
+          name: null,
+          description: body.description ?? `${server.name} snapshot`,
+          image_size: 1.2,
+          disk_size: server.primary_disk_size,
+          created: now(),
+          created_from: { id: server.id, name: server.name },
+          bound_to: body.type === 'backup' ? server.id : null,
+          os_flavor: server.image?.os_flavor ?? 'unknown',
+          os_version: server.image?.os_version ?? null,
+          rapid_deploy: false,
+          protection: { delete: false },
+          deprecated: null,
+          labels: body.labels ?? {},
+          architecture: server.server_type.architecture,
+        });
+        return done({ image }, [{ id, type: 'image' }]);
+      }
+      case 'enable_backup':
+        server.backup_window = '22-02';
+        return done();
+      case 'disable_backup':
+        server.backup_window = null;
+        return done();
+      case 'attach_iso':
+        required(body, 'iso');
+        server.iso = this.lookup('isos', body.iso);
+        return done();
+      case 'detach_iso':
+        server.iso = null;
+        return done();
+      case 'request_console':
+        return done({ wss_url: `wss://console.hetzner.cloud/?server_id=${server.id}&token=mock`, password: 'mock-console' });
+      case 'attach_to_network': {
+        required(body, 'network');
+        const network = this.find('networks', Number(body.network));
+        if (server.private_net.some((n: Resource) => n.network === network.id)) {
+          throw new MockCloudError(422, 'server_already_attached', 'server is already attached to this network');
+        }
+        network.servers.push(server.id);
+        server.private_net.push({
+          network: network.id,
+          ip: String(body.ip ?? this.networkIp(network)),
+          alias_ips: arrayOf<string>(body.alias_ips),
+          mac_address: mac(server.id),
+        });
+        return done({}, [{ id: network.id, type: 'network' }]);
+      }
+      case 'detach_from_network': {
+        required(body, 'network');
+        const network = this.find('networks', Number(body.network));
+        server.private_net = server.private_net.filter((n: Resource) => n.network !== network.id);
+        network.servers = network.servers.filter((s: number) => s !== server.id);
+        return done({}, [{ id: network.id, type: 'network' }]);
+      }
+      case 'change_alias_ips': {
+        required(body, 'network', 'alias_ips');
+        const attachment = server.private_net.find((n: Resource) => n.network === Number(body.network));
+        if (!attachment) throw new MockCloudError(422, 'server_not_attached_to_network', 'server is not attached to this network');
+        attachment.alias_ips = arrayOf<string>(body.alias_ips);
+        return done({}, [{ id: Number(body.network), type: 'network' }]);
+      }
+      case 'add_to_placement_group': {
+        required(body, 'placement_group');
+        const group = this.find('placement_groups', Number(body.placement_group));
+        group.servers.push(server.id);
+        server.placement_group = group;
+        return done({}, [{ id: group.id, type: 'placement_group' }]);
+      }
+      case 'remove_from_placement_group': {
+        const placed = server.placement_group as CloudPlacementGroup | null | undefined;
+        const group = placed ? this.resource('placement_groups', placed.id) : undefined;
+        if (group) group.servers = group.servers.filter((s: number) => s !== server.id);
+        server.placement_group = null;
+        return done();
+      }
+    }
+    return undefined;
+  }
+
+  private volumeAction(volume: CloudVolume, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'attach': {
+        required(body, 'server');
+        const server = this.find('servers', Number(body.server));
+        volume.server = server.id;
+        server.volumes.push(volume.id);
+        return done({}, [{ id: server.id, type: 'server' }]);
+      }
+      case 'detach': {
+        const server = volume.server !== null ? this.resource('servers', volume.server) : undefined;
+        if (server) server.volumes = server.volumes.filter((v: number) => v !== volume.id);
+        volume.server = null;
+        return done();
+      }
+      case 'resize':
+        required(body, 'size');
+        if (Number(body.size) <= volume.size) {
+          throw new MockCloudError(422, 'invalid_input', 'volumes can only be increased in size');
+        }
+        volume.size = Number(body.size);
+        return done();
+    }
+    return undefined;
+  }
+
+  private networkAction(network: CloudNetwork, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'add_subnet':
+        required(body, 'type', 'network_zone');
+        network.subnets.push({
+          type: String(body.type),
+          ip_range: String(body.ip_range),
+          network_zone: String(body.network_zone),
+          gateway: String(body.gateway ?? String(body.ip_range ?? '').replace(/\.0\/\d+$/, '.1')),
+          vswitch_id: body.vswitch_id ?? null,
+        });
+        return done();
+      case 'delete_subnet':
+        required(body, 'ip_range');
+        network.subnets = network.subnets.filter((s: Resource) => s.ip_range !== body.ip_range);
+        return done();
+      case 'add_route':
+        required(body, 'destination', 'gateway');
+        network.routes.push({ destination: String(body.destination), gateway: String(body.gateway) });
+        return done();
+      case 'delete_route':
+        required(body, 'destination', 'gateway');
+        network.routes = network.routes.filter(
+          (r: Resource) => r.destination !== body.destination || r.gateway !== body.gateway,
+        );
+        return done();
+      case 'change_ip_range':
+        required(body, 'ip_range');
+        network.ip_range = String(body.ip_range);
+        return done();
+    }
+    return undefined;
+  }
+
+  /** Firewall actions return one action per affected resource. */
+  private firewallAction(firewall: CloudFirewall, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    const self = { id: firewall.id, type: 'firewall' };
+    switch (command) {
+      case 'set_rules':
+        firewall.rules = arrayOf(body.rules).map(normalizeRule);
+        return {
+          status: 201,
+          body: {
+            actions: [
+              this.action('set_firewall_rules', [self]),
+              ...firewall.applied_to
+                .filter((a) => a.type === 'server')
+                .map((a) => this.action('apply_firewall', [self, { id: Number(a.server?.id), type: 'server' }])),
+            ],
+          },
+        };
+      case 'apply_to_resources':
+        required(body, 'apply_to');
+        return { status: 201, body: { actions: this.applyFirewall(firewall, arrayOf(body.apply_to)) } };
+      case 'remove_from_resources': {
+        required(body, 'remove_from');
+        const actions = (body.remove_from as Resource[]).map((target) => {
+          firewall.applied_to = firewall.applied_to.filter((a) => !sameTarget(a, target));
+          if (target.type === 'server') {
+            const server = this.resource('servers', Number(objectOf(target.server).id));
+            if (server) server.public_net.firewalls = server.public_net.firewalls.filter((f: Resource) => f.id !== firewall.id);
+          }
+          return this.action('remove_firewall', [self]);
+        });
+        return { status: 201, body: { actions } };
+      }
+    }
+    return undefined;
+  }
+
+  private floatingIpAction(ip: CloudFloatingIP, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'assign': {
+        required(body, 'server');
+        const server = this.find('servers', Number(body.server));
+        ip.server = server.id;
+        server.public_net.floating_ips.push(ip.id);
+        return done({}, [{ id: server.id, type: 'server' }]);
+      }
+      case 'unassign': {
+        const server = ip.server !== null ? this.resource('servers', ip.server) : undefined;
+        if (server) server.public_net.floating_ips = server.public_net.floating_ips.filter((f: number) => f !== ip.id);
+        ip.server = null;
+        return done();
+      }
+    }
+    return undefined;
+  }
+
+  private primaryIpAction(ip: CloudPrimaryIP, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'assign': {
+        required(body, 'assignee_id', 'assignee_type');
+        const server = this.find('servers', Number(body.assignee_id));
+        if (ip.assignee_id !== null) {
+          throw new MockCloudError(422, 'primary_ip_already_assigned', 'primary IP is already assigned');
+        }
+        ip.assignee_id = server.id;
+        ip.assignee_type = String(body.assignee_type);
+        return done({}, [{ id: server.id, type: 'server' }]);
+      }
+      case 'unassign':
+        ip.assignee_id = null;
+        return done();
+    }
+    return undefined;
+  }
+
+  private loadBalancerAction(lb: CloudLoadBalancer, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'add_service':
+        required(body, 'protocol', 'listen_port');
+        if (arrayOf(lb.services).some((s) => s.listen_port === body.listen_port)) {
+          throw new MockCloudError(422, 'source_port_already_used', `listen port ${body.listen_port} is already used`);
+        }
+        lb.services.push({ destination_port: body.listen_port, proxyprotocol: false, ...body });
+        return done();
+      case 'update_service': {
+        required(body, 'listen_port');
+        const service = arrayOf(lb.services).find((s) => s.listen_port === body.listen_port);
+        if (!service) throw new MockCloudError(404, 'not_found', `service on port ${body.listen_port} not found`);
+        Object.assign(service, body);
+        return done();
+      }
+      case 'delete_service':
+        required(body, 'listen_port');
+        lb.services = arrayOf(lb.services).filter((s) => s.listen_port !== body.listen_port);
+        return done();
+      case 'add_target':
+        required(body, 'type');
+        lb.targets.push({ ...body, health_status: [] });
+        return done({}, body.server ? [{ id: Number(objectOf(body.server).id), type: 'server' }] : []);
+      case 'remove_target':
+        required(body, 'type');
+        lb.targets = arrayOf(lb.targets).filter((t) => !sameTarget(t, body));
+        return done();
+      case 'change_algorithm':
+        required(body, 'type');
+        lb.algorithm = { type: String(body.type) };
+        return done();
+      case 'change_type':
+        required(body, 'load_balancer_type');
+        lb.load_balancer_type = this.lookup('load_balancer_types', body.load_balancer_type);
+        return done();
+      case 'attach_to_network': {
+        required(body, 'network');
+        const network = this.find('networks', Number(body.network));
+        lb.private_net.push({ network: network.id, ip: String(body.ip ?? this.networkIp(network)) });
+        network.load_balancers = [...arrayOf<number>(network.load_balancers), lb.id];
+        return done({}, [{ id: network.id, type: 'network' }]);
+      }
+      case 'detach_from_network': {
+        required(body, 'network');
+        lb.private_net = lb.private_net.filter((n) => n.network !== Number(body.network));
+        const network = this.resource('networks', Number(body.network));
+        if (network) network.load_balancers = arrayOf<number>(network.load_balancers).filter((l) => l !== lb.id);
+        return done();
+      }
+      case 'enable_public_interface':
+        lb.public_net.enabled = true;
+        return done();
+      case 'disable_public_interface':
+        lb.public_net.enabled = false;
+        return done();
+    }
+    return undefined;
+  }
+
+  private storageBoxAction(box: CloudStorageBox, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'change_type': {
+        required(body, 'storage_box_type');
+        const storageBoxType = this.storageBoxType(body.storage_box_type);
+        if (storageBoxType.size < box.stats.size) {
+          throw new MockCloudError(422, 'invalid_input', 'storage box data does not fit into the new storage box type');
+        }
+        box.storage_box_type = storageBoxType;
+        return done();
+      }
+      case 'reset_password':
+        required(body, 'password');
+        return done();
+      case 'update_access_settings':
+        for (const key of Object.keys(box.access_settings)) {
+          if (body[key] !== undefined) (box.access_settings as Resource)[key] = body[key];
+        }
+        return done();
+      case 'rollback_snapshot': {
+        required(body, 'snapshot');
+        const snapshot = [...this.storageBoxChildren.snapshots.values()].find((s) =>
+          s.storage_box === box.id && (s.id === Number(body.snapshot) || s.name === body.snapshot));
+        if (!snapshot) throw new MockCloudError(404, 'not_found', `snapshot '${String(body.snapshot)}' not found`);
+        return done();
+      }
+      case 'enable_snapshot_plan':
+        required(body, 'max_snapshots', 'minute', 'hour');
+        box.snapshot_plan = {
+          max_snapshots: Number(body.max_snapshots),
+          minute: Number(body.minute),
+          hour: Number(body.hour),
+          day_of_week: body.day_of_week == null ? null : Number(body.day_of_week),
+          day_of_month: body.day_of_month == null ? null : Number(body.day_of_month),
+        };
+        return done();
+      case 'disable_snapshot_plan':
+        box.snapshot_plan = null;
+        return done();
+    }
+    return undefined;
+  }
+
+  private certificateAction(certificate: CloudCertificate, command: string, body: Resource, done: ActionDone): MockResponse | undefined {
+    switch (command) {
+      case 'retry':
+        if (certificate.type !== 'managed') {
+          throw new MockCloudError(422, 'caa_record_does_not_allow_ca', 'only managed certificates can be retried');
+        }
+        certificate.status = { issuance: 'pending', renewal: 'unavailable', error: null };
+        return done();
+    }
+    return undefined;
+  }
+
+  // ── Storage box snapshots and subaccounts ───────────────────────────────
+
+  private routeStorageBoxChildren(
+    method: string,
+    box: CloudStorageBox,
+    kind: 'snapshots' | 'subaccounts',
+    [childId, sub, command]: string[],
+    query: URLSearchParams,
+    body: Resource,
+  ): MockResponse {
+    const store = this.storageBoxChildren[kind];
+    const singular = kind === 'snapshots' ? 'snapshot' : 'subaccount';
+    const boxAction = (name: string) => this.action(name, [{ id: box.id, type: 'storage_box' }]);
+
+    if (childId === undefined) {
+      if (method === 'GET') {
+        let items = [...store.values()].filter((c) => c.storage_box === box.id);
+        const automatic = query.get('is_automatic');
+        if (automatic !== null) items = items.filter((c) => String(c.is_automatic) === automatic);
+        return this.paginate(kind, items, query);
+      }
+      if (method === 'POST') {
+        const id = this.nextId++;
+        const child = kind === 'snapshots'
+          ? {
+            id,
+            name: now().slice(0, 19).replace(/:/g, '-'),
+            description: body.description ?? '',
+            is_automatic: false,
+            stats: { size: 0, size_filesystem: box.stats.size_data },
+          }
+          : this.buildSubaccount(id, box, body);
+        store.set(id, { ...child, storage_box: box.id, labels: body.labels ?? {}, created: now() });
+        const action = boxAction(kind === 'snapshots' ? 'create_snapshot' : 'create_subaccount');
+        return { status: 201, body: { [singular]: store.get(id), action } };
+      }
+    } else {
+      const child = store.get(Number(childId));
+      if (!child || child.storage_box !== box.id) {
+        throw new MockCloudError(404, 'not_found', `${singular} with ID '${childId}' not found`);
+      }
+      if (sub === undefined) {
+        if (method === 'GET') return { status: 200, body: { [singular]: child } };
+        if (method === 'PUT') {
+          for (const field of ['description', 'labels']) if (body[field] !== undefined) child[field] = body[field];
+          return { status: 200, body: { [singular]: child } };
+        }
+        if (method === 'DELETE') {
+          store.delete(Number(child.id));
+          return { status: 201, body: { action: boxAction(kind === 'snapshots' ? 'delete_snapshot' : 'delete_subaccount') } };
+        }
+      } else if (kind === 'subaccounts' && sub === 'actions' && method === 'POST') {
+        switch (command) {
+          case 'change_home_directory':
+            required(body, 'home_directory');
+            child.home_directory = String(body.home_directory);
+            return { status: 201, body: { action: boxAction(command) } };
+          case 'reset_subaccount_password':
+            required(body, 'password');
+            return { status: 201, body: { action: boxAction(command) } };
+          case 'update_access_settings': {
+            const settings = objectOf(child.access_settings);
+            for (const key of Object.keys(settings)) {
+              if (body[key] !== undefined) settings[key] = body[key];
+            }
+            return { status: 201, body: { action: boxAction(command) } };
+          }
+        }
+      }
+    }
+    throw new MockCloudError(404, 'not_found', `unknown path ${method} /storage_boxes/${box.id}/${kind}`);
+  }
+
+  private buildSubaccount(id: number, box: CloudStorageBox, body: Resource): Resource {
+    required(body, 'password', 'home_directory');
+    const count = [...this.storageBoxChildren.subaccounts.values()].filter((s) => s.storage_box === box.id).length;
+    const username = `${box.username}-sub${count + 1}`;
+    return {
+      id,
+      username,
+      home_directory: body.home_directory,
+      server: `${username}.your-storagebox.de`,
+      access_settings: {
+        reachable_externally: false,
+        readonly: false,
+        samba_enabled: false,
+        ssh_enabled: false,
+        webdav_enabled: false,
+        ...objectOf(body.access_settings),
+      },
+      description: body.description ?? '',
+    };
+  }
+
+  private storageBoxType(name: unknown): CloudStorageBox['storage_box_type'] {
+    const storageBoxType = STORAGE_BOX_TYPES.find((t) => t.name === name);
+    if (!storageBoxType) throw new MockCloudError(400, 'invalid_input', `storage box type '${String(name)}' not found`);
+    return { ...storageBoxType };
+  }
+
+  private setDnsPtr(resource: Resource, ip: string, dnsPtr: string | null): void {
+    const publicNet = objectOf(resource.public_net);
+    const ipv4 = objectOf(publicNet.ipv4);
+    if (ipv4.ip === ip) {
+      ipv4.dns_ptr = dnsPtr;
+      return;
+    }
+    if (Array.isArray(resource.dns_ptr)) {
+      const ptrs = arrayOf(resource.dns_ptr).filter((p) => p.ip !== ip);
+      resource.dns_ptr = dnsPtr === null ? ptrs : [...ptrs, { ip, dns_ptr: dnsPtr }];
+      return;
+    }
+    if (publicNet.ipv6) {
+      const ipv6 = objectOf(publicNet.ipv6);
+      ipv6.dns_ptr = [...arrayOf(ipv6.dns_ptr).filter((p) => p.ip !== ip), { ip, dns_ptr: dnsPtr }];
+      return;
+    }
+    throw new MockCloudError(422, 'invalid_input', `ip '${ip}' does not belong to this resource`);
+  }
+
+  private applyFirewall(firewall: CloudFirewall, targets: Resource[]): HetznerAction[] {
+    return targets.map((target) => {
+      if (!firewall.applied_to.some((a) => sameTarget(a, target))) {
+        firewall.applied_to.push(target as CloudFirewall['applied_to'][number]);
+      }
+      const resources = [{ id: firewall.id, type: 'firewall' }];
+      if (target.type === 'server') {
+        const server = this.find('servers', Number(objectOf(target.server).id));
+        server.public_net.firewalls.push({ id: firewall.id, status: 'applied' });
+        resources.push({ id: server.id, type: 'server' });
+      }
+      return this.action('apply_firewall', resources);
+    });
+  }
+
+  // ── Metrics ─────────────────────────────────────────────────────────────
+
+  private metrics(collection: string, query: URLSearchParams): Resource {
+    const type = query.get('type');
+    const start = Date.parse(query.get('start') ?? '');
+    const end = Date.parse(query.get('end') ?? '');
+    if (!type || Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+      throw new MockCloudError(400, 'invalid_input', 'type, start and end are required and start must be before end');
+    }
+    const span = (end - start) / 1000;
+    const step = Number(query.get('step') ?? Math.max(1, Math.ceil(span / 100)));
+
+    const names: Record<string, string[]> = collection === 'servers'
+      ? {
+        cpu: ['cpu'],
+        disk: ['disk.0.iops.read', 'disk.0.iops.write', 'disk.0.bandwidth.read', 'disk.0.bandwidth.write'],
+        network: ['network.0.pps.in', 'network.0.pps.out', 'network.0.bandwidth.in', 'network.0.bandwidth.out'],
+      }
+      : {
+        open_connections: ['open_connections'],
+        connections_per_second: ['connections_per_second'],
+        requests_per_second: ['requests_per_second'],
+        bandwidth: ['bandwidth.in', 'bandwidth.out'],
+      };
+
+    const timeSeries: Record<string, { values: Array<[number, string]> }> = {};
+    for (const metric of type.split(',')) {
+      for (const [index, name] of (names[metric] ?? [metric]).entries()) {
+        const values: Array<[number, string]> = [];
+        for (let t = start / 1000; t <= end / 1000; t += step) {
+          // Deterministic daily wave so repeated calls return the same data
+          const value = 50 + 40 * Math.sin((t / 86_400) * 2 * Math.PI + index);
+          values.push([t, value.toFixed(2)]);
+        }
+        timeSeries[name] = { values };
+      }
+    }
+    return { start: new Date(start).toISOString(), end: new Date(end).toISOString(), step, time_series: timeSeries };
+  }
+
+  // ── DNS ─────────────────────────────────────────────────────────────────
+
+  private routeDns(method: string, segments: string[], query: URLSearchParams, body: Resource): MockResponse {
+    const [root, id, sub] = segments;
+
+    if (root === 'zones') {
+      if (id === undefined && method === 'GET') {
+        let zones = [...this.zones.values()];
+        const name = query.get('name');
+        if (name) zones = zones.filter((z) => z.name === name);
+        const search = query.get('search_name');
+        if (search) zones = zones.filter((z) => z.name.includes(search));
+        return this.paginateDns('zones', zones, query);
+      }
+      if (id === undefined && method === 'POST') {
+        required(body, 'name');
+        if ([...this.zones.values()].some((z) => z.name === body.name)) {
+          throw new MockCloudError(422, 'uniqueness_error', `zone '${body.name}' already exists`);
+        }
+        return { status: 201, body: { zone: this.createZone(String(body.name), Number(body.ttl ?? 86400)) } };
+      }
+      if (id === 'file' && sub === 'validate' && method === 'POST') {
+        required(body, 'zone_file');
+        const { records, invalid } = parseZoneFile(String(body.zone_file));
+        return {
+          status: 200,
+          body: { parsed_records: records.length, valid_records: records, invalid_records: invalid },
+        };
+      }
+
+      const zone = this.zones.get(id);
+      if (!zone) throw new MockCloudError(404, 'not_found', `zone '${id}' not found`);
+
+      if (sub === undefined) {
+        if (method === 'GET') return { status: 200, body: { zone } };
+        if (method === 'PUT') {
+          if (body.name !== undefined) zone.name = String(body.name);
+          if (body.ttl !== undefined) zone.ttl = Number(body.ttl);
+          zone.modified = now();
+          return { status: 200, body: { zone } };
+        }
+        if (method === 'DELETE') {
+          this.zones.delete(id);
+          for (const record of [...this.records.values()]) if (record.zone_id === id) this.records.delete(record.id);
+          return { status: 200, body: {} };
+        }
+      }
+      if (sub === 'export' && method === 'GET') {
+        return { status: 200, body: { zone_file: this.exportZone(zone) } };
+      }
+      if (sub === 'import' && method === 'POST') {
+        required(body, 'zone_file');
+        const { records, invalid } = parseZoneFile(String(body.zone_file));
+        if (invalid.length > 0) throw new MockCloudError(422, 'invalid_input', `${invalid.length} invalid records in zone file`);
+        for (const record of [...this.records.values()]) if (record.zone_id === id) this.records.delete(record.id);
+        for (const record of records) this.createRecord({ ...record, zone_id: id });
+        this.refreshRecordCount(zone);
+        return { status: 201, body: { zone } };
+      }
+    }
+
+    if (root === 'records') {
+      if (id === undefined && method === 'GET') {
+        const zoneId = query.get('zone_id');
+        const records = [...this.records.values()].filter((r) => !zoneId || r.zone_id === zoneId);
+        return this.paginateDns('records', records, query);
+      }
+      if (id === undefined && method === 'POST') return { status: 201, body: { record: this.createRecord(body) } };
+      if (id === 'bulk' && method === 'POST') {
+        const records: Resource[] = [];
+        const invalid: Resource[] = [];
+        for (const entry of (body.records ?? []) as Resource[]) {
+          try {
+            records.push(this.createRecord(entry));
+          } catch (err) {
+            invalid.push({ record: entry, message: (err as Error).message });
+          }
+        }
+        return { status: 200, body: { records, valid_records: records, invalid_records: invalid } };
+      }
+      if (id === 'bulk' && method === 'PUT') {
+        const records: Resource[] = [];
+        const failed: Resource[] = [];
+        for (const entry of (body.records ?? []) as Resource[]) {
+          const record = this.records.get(String(entry.id));
+          if (!record) failed.push(entry);
+          else records.push(Object.assign(record, entry, { modified: now() }));
+        }
+        return { status: 200, body: { records, failed_records: failed } };
+      }
+
+      const record = this.records.get(id);
+      if (!record) throw new MockCloudError(404, 'not_found', `record '${id}' not found`);
+      if (method === 'GET') return { status: 200, body: { record } };
+      if (method === 'PUT') {
+        required(body, 'zone_id', 'type', 'name', 'value');
+        Object.assign(record, body, { modified: now() });
+        return { status: 200, body: { record } };
+      }
+      if (method === 'DELETE') {
+        this.records.delete(id);
+        const zone = this.zones.get(record.zone_id);
+        if (zone) this.refreshRecordCount(zone);
+        return { status: 200, body: {} };
+      }
+    }
+
+    throw new MockCloudError(404, 'not_found', `unknown path ${method} /dns/${segments.join('/')}`);
+  }
+
+  private paginateDns(key: string, items: Resource[], query: URLSearchParams): MockResponse {
+    const perPage = Math.min(Number(query.get('per_page') ?? 100), 100);
+    const page = Math.max(Number(query.get('page') ?? 1), 1);
+    return {
+      status: 200,
+      body: {
+        [key]: items.slice((page - 1) * perPage, page * perPage),
+        meta: {
+          pagination: {
+            page,
+            per_page: perPage,
+            last_page: Math.max(Math.ceil(items.length / perPage), 1),
+            total_entries: items.length,
+          },
+        },
+      },
+    };
+  }
+
+  private createZone(name: string, ttl: number): DnsZone {
+    const id = `zone${this.nextId++}`;
+    const zone: DnsZone = {
+      id,
+      name,
+      ttl,
+      registrar: '',
+      legacy_dns_host: '',
+      legacy_ns: [],
+      ns: ['hydrogen.ns.hetzner.com', 'oxygen.ns.hetzner.com', 'helium.ns.hetzner.de'],
+      created: now(),
+      verified: '',
+      modified: now(),
+      project: '',
+      owner: '',
+      permission: '',
+      zone_type: { id: '', name: '', description: '', prices: null },
+      status: 'verified',
+      paused: false,
+      is_secondary_dns: false,
+      txt_verification: { name: '', token: '' },
+      records_count: 0,
+    };
+    this.zones.set(id, zone);
+    return zone;
+  }
+
+  private createRecord(body: Resource): DnsRecord {
+    required(body, 'zone_id', 'type', 'name', 'value');
+    const zone = this.zones.get(String(body.zone_id));
+    if (!zone) throw new MockCloudError(422, 'invalid_input', `zone '${String(body.zone_id)}' not found`);
+    const id = `rec${this.nextId++}`;
+    const record: DnsRecord = {
+      id,
+      type: String(body.type),
+      name: String(body.name),
+      value: String(body.value),
+      zone_id: String(body.zone_id),
+      created: now(),
+      modified: now(),
+      ...(body.ttl !== undefined ? { ttl: Number(body.ttl) } : {}),
+    };
+    this.records.set(id, record);
+    this.refreshRecordCount(zone);
+    return record;
+  }
+
+  private refreshRecordCount(zone: DnsZone): void {
+    zone.records_count = [...this.records.values()].filter((r) => r.zone_id === zone.id).length;
+  }
+
+  private exportZone(zone: DnsZone): string {
+    const lines = [`$ORIGIN ${zone.name}.`, `$TTL ${zone.ttl}`];
+    for (const record of this.records.values()) {
+      if (record.zone_id !== zone.id) continue;
+      lines.push([record.name, record.ttl ?? '', 'IN', record.type, record.value].filter((p) => p !== '').join('\t'));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  // ── Seed data ───────────────────────────────────────────────────────────
+
+  private pricing(): Resource {
+    return {
+      currency: 'EUR',
+      vat_rate: '19.00',
+      image: { price_per_gb_month: price(0.0119) },
+      volume: { price_per_gb_month: price(0.044) },
+      server_backup: { percentage: '20.00' },
+      server_types: SERVER_TYPES.map((t) => ({ id: t.id, name: t.name, prices: locationPrices(t.hourly, t.monthly) })),
+      load_balancer_types: LOAD_BALANCER_TYPES.map((t) => ({ id: t.id, name: t.name, prices: locationPrices(t.hourly, t.monthly) })),
+      floating_ips: [
+        { type: 'ipv4', prices: LOCATIONS.map((l) => ({ location: l.name, price_monthly: price(3) })) },
+        { type: 'ipv6', prices: LOCATIONS.map((l) => ({ location: l.name, price_monthly: price(3) })) },
+      ],
+      primary_ips: [
+        { type: 'ipv4', prices: LOCATIONS.map((l) => ({ location: l.name, price_hourly: price(0.0008), price_monthly: price(0.5) })) },
+        { type: 'ipv6', prices: LOCATIONS.map((l) => ({ location: l.name, price_hourly: price(0), price_monthly: price(0) })) },
+      ],
+      floating_ip: { price_monthly: price(3) },
+      traffic: { price_per_tb: price(1) },
+    };
+  }
+
+  private seedCatalog(): void {
+    for (const location of LOCATIONS) this.insert('locations', { ...location });
+
+    const serverTypes = SERVER_TYPES.map(({ hourly, monthly, deprecation, ...t }) => ({
+      ...t,
+      deprecated: Boolean(deprecation),
+      deprecation: deprecation ?? null,
+      prices: locationPrices(hourly, monthly),
+    }));
+    for (const t of serverTypes) this.insert('server_types', t);
+
+    const dcNames = ['fsn1-dc14', 'nbg1-dc3', 'hel1-dc2'];
+    LOCATIONS.forEach((location, i) => {
+      // Dedicated vCPU types are sold out in Helsinki; deprecated types can no longer be ordered
+      const available = serverTypes
+        .filter((t) => !t.deprecation && (location.name !== 'hel1' || t.cpu_type !== 'dedicated'))
+        .map((t) => t.id);
+      this.insert('datacenters', {
+        id: i + 1,
+        name: dcNames[i],
+        description: `${location.city} DC ${dcNames[i].split('-dc')[1]}`,
+        location,
+        server_types: {
+          supported: serverTypes.map((t) => t.id),
+          available,
+          available_for_migration: available,
+        },
+      });
+    });
+
+    for (const t of LOAD_BALANCER_TYPES) {
+      const { hourly, monthly, ...rest } = t;
+      this.insert('load_balancer_types', { ...rest, prices: locationPrices(hourly, monthly) });
+    }
+
+    const images = [
+      { id: 1, name: 'ubuntu-24.04', description: 'Ubuntu 24.04', os_flavor: 'ubuntu', os_version: '24.04', architecture: 'x86' },
+      { id: 2, name: 'debian-12', description: 'Debian 12', os_flavor: 'debian', os_version: '12', architecture: 'x86' },
+      { id: 3, name: 'ubuntu-24.04', description: 'Ubuntu 24.04', os_flavor: 'ubuntu', os_version: '24.04', architecture: 'arm' },
+    ];
+    for (const image of images) {
+      this.insert('images', {
+        ...image,
+        type: 'system',
+        status: 'available',
+        image_size: null,
+        disk_size: 5,
+        created: '2024-04-25T00:00:00Z',
+        created_from: null,
+        bound_to: null,
+        rapid_deploy: true,
+        protection: { delete: false },
+        deprecated: null,
+        labels: {},
+      });
+    }
+
+    this.insert('isos', { id: 1, name: 'virtio-win-0.1.248.iso', description: 'virtio 0.1.248', type: 'public', architecture: 'x86', deprecation: null });
+    this.insert('isos', { id: 2, name: 'FreeBSD-14.1-RELEASE-amd64-dvd1', description: 'FreeBSD 14.1 x64', type: 'public', architecture: 'x86', deprecation: null });
+  }
+
+  private seedResources(): void {
+    const key = this.seed('ssh_keys', { name: 'admin', public_key: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIMockKeyForTests admin@example.com' });
+    const network = this.seed('networks', {
+      name: 'backend',
+      ip_range: '10.0.0.0/16',
+      subnets: [{ type: 'cloud', ip_range: '10.0.1.0/24', network_zone: 'eu-central' }],
+      labels: { env: 'prod' },
+    });
+    const firewall = this.seed('firewalls', {
+      name: 'web',
+      rules: [{ direction: 'in', protocol: 'tcp', port: '443', source_ips: ['0.0.0.0/0', '::/0'] }],
+      labels: { env: 'prod' },
+    });
+    const web = this.seed('servers', {
+      name: 'web-1',
+      server_type: 'cx22',
+      image: 'ubuntu-24.04',
+      location: 'fsn1',
+      ssh_keys: [key.id],
+      networks: [network.id],
+      firewalls: [{ firewall: firewall.id }],
+      labels: { env: 'prod', role: 'web' },
+    });
+    this.create('servers', {
+      name: 'staging-1',
+      server_type: 'cx32',
+      image: 'debian-12',
+      location: 'nbg1',
+      labels: { env: 'staging' },
+    });
+    this.create('volumes', { name: 'data', size: 20, server: web.id, labels: { env: 'prod' } });
+    this.create('floating_ips', { type: 'ipv4', name: 'web-vip', server: web.id, labels: { env: 'prod' } });
+    this.create('primary_ips', { name: 'spare-ipv4', type: 'ipv4', assignee_type: 'server', datacenter: 'fsn1-dc14' });
+    this.create('load_balancers', {
+      name: 'web-lb',
+      load_balancer_type: 'lb11',
+      location: 'fsn1',
+      algorithm: { type: 'round_robin' },
+      targets: [{ type: 'server', server: { id: web.id }, use_private_ip: false }],
+      services: [{ protocol: 'http', listen_port: 80, destination_port: 80, proxyprotocol: false }],
+      labels: { env: 'prod' },
+    });
+    this.create('certificates', { name: 'example-com', type: 'managed', domain_names: ['example.com', 'www.example.com'] });
+    this.create('placement_groups', { name: 'spread', type: 'spread' });
+
+    const zone = this.createZone('example.com', 86400);
+    this.createRecord({ zone_id: zone.id, type: 'A', name: '@', value: web.public_net.ipv4?.ip, ttl: 300 });
+    this.createRecord({ zone_id: zone.id, type: 'CNAME', name: 'www', value: 'example.com.' });
+
+    const storageBox = this.seed('storage_boxes', {
+      name: 'backup',
+      storage_box_type: 'bx11',
+      location: 'fsn1',
+      password: 'mock-password',
+      access_settings: { ssh_enabled: true },
+      labels: { env: 'prod' },
+    });
+    storageBox.stats = { size: 214748364800, size_data: 193273528320, size_snapshots: 21474836480 };
+
+    // Seeded actions are already finished
+    for (const action of this.actions.values()) {
+      action.status = 'success';
+      action.progress = 100;
+      action.finished = action.started;
+    }
+  }
+
+  /** Create a seed resource through the API path and return it. */
+  private seed<K extends keyof CloudCollections>(collection: K, body: Resource): CloudCollections[K] {
+    const response = this.create(collection, body).body as Record<string, CloudCollections[K]>;
+    return response[COLLECTIONS[collection].singular];
+  }
+}
+
+function normalizeRule(rule: Resource): CloudFirewall['rules'][number] {
+  return {
+    direction: String(rule.direction),
+    protocol: String(rule.protocol),
+    port: rule.port == null ? null : String(rule.port),
+    source_ips: arrayOf<string>(rule.source_ips),
+    destination_ips: arrayOf<string>(rule.destination_ips),
+    description: rule.description == null ? null : String(rule.description),
+  };
+}
+
+function sameTarget(a: Resource, b: Resource): boolean {
+  if (a.type !== b.type) return false;
+  if (a.type === 'server') return Number(objectOf(a.server).id) === Number(objectOf(b.server).id);
+  if (a.type === 'label_selector') return objectOf(a.label_selector).selector === objectOf(b.label_selector).selector;
+  if (a.type === 'ip') return objectOf(a.ip).ip === objectOf(b.ip).ip;
+  return false;
+}
+
+function fingerprint(data: string): string {
+  return createHash('md5').update(data).digest('hex').match(/../g)!.join(':');
+}
+
+function mac(id: number): string {
+  return `86:00:00:${[id >> 16, id >> 8, id].map((b) => (b & 0xff).toString(16).padStart(2, '0')).join(':')}`;
+}
+
+/**
+ * Minimal zone file parser: `name [ttl] [IN] TYPE value` lines, ignoring
+ * directives, comments and SOA records.
+ */
+function parseZoneFile(text: string): { records: Resource[]; invalid: string[] } {
+  const records: Resource[] = [];
+  const invalid: string[] = [];
+  const types = new Set(['A', 'AAAA', 'NS', 'MX', 'CNAME', 'RP', 'TXT', 'SOA', 'HINFO', 'SRV', 'DANE', 'TLSA', 'DS', 'CAA']);
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/;.*$/, '').trim();
+    if (!line || line.startsWith('$')) continue;
+    const parts = line.split(/\s+/);
+    const name = parts.shift()!;
+    let ttl: number | undefined;
+    if (/^\d+$/.test(parts[0] ?? '')) ttl = Number(parts.shift());
+    if (parts[0]?.toUpperCase() === 'IN') parts.shift();
+    const type = parts.shift()?.toUpperCase();
+    if (!type || !types.has(type) || parts.length === 0) {
+      invalid.push(raw);
+      continue;
+    }
+    if (type === 'SOA') continue;
+    records.push({ name, type, value: parts.join(' '), ...(ttl !== undefined ? { ttl } : {}) });
+  }
+  return { records, invalid };
+}
@@ -0,0 +1,614 @@
+/**
+ * In-process fake of the Hetzner Robot API.
+ *
+ * Request bodies are form-encoded with bracket notation
+ * (`rules[input][0][action]=accept`), as the real API expects, and
+ * responses use Robot's wrapped shapes (`[{ server: {...} }]`).
+ */
+
+import type { MockResponse } from './cloud.js';
+
+type Resource = Record<string, unknown>;
+
+class MockRobotError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Parse a form-encoded body with bracket notation into nested objects.
+ * Objects whose keys are all indices become arrays.
+ */
+export function parseFormBody(text: string): Resource {
+  const root: Resource = {};
+  for (const [key, value] of new URLSearchParams(text)) {
+    const path = key.replace(/\]/g, '').split('[');
+    let node = root;
+    path.forEach((part, i) => {
+      if (i === path.length - 1) node[part] = value;
+      else node = (node[part] ??= {}) as Resource;
+    });
+  }
+  return arrayify(root) as Resource;
+}
+
+function arrayify(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  const entries = Object.entries(value as Resource).map(([k, v]) => [k, arrayify(v)] as const);
+  if (entries.length > 0 && entries.every(([k]) => /^\d+$/.test(k))) {
+    return entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, v]) => v);
+  }
+  return Object.fromEntries(entries);
+}
+
+function bool(value: unknown, fallback: unknown): boolean {
+  if (value === undefined) return fallback === true;
+  return value === true || value === 'true' || value === '1';
+}
+
+function required(body: Resource, ...fields: string[]): void {
+  const missing = fields.filter((f) => body[f] === undefined || body[f] === '');
+  if (missing.length > 0) {
+    throw new MockRobotError(400, 'INVALID_INPUT', `invalid input: missing ${missing.join(', ')}`);
+  }
+}
+
+export class MockRobotApi {
+  private readonly servers = new Map<number, Resource>();
+  private readonly cancellations = new Map<number, Resource>();
+  private readonly boot = new Map<number, Resource>();
+  private readonly firewalls = new Map<number, Resource>();
+  private readonly templates = new Map<number, Resource>();
+  private readonly keys = new Map<string, Resource>();
+  private readonly ips = new Map<string, Resource>();
+  private readonly subnets = new Map<string, Resource>();
+  private readonly rdns = new Map<string, string>();
+  private readonly failovers = new Map<string, Resource>();
+  private readonly vswitches = new Map<number, Resource>();
+  private readonly storageBoxes = new Map<number, Resource>();
+  private nextId = 1000;
+  /** Every request received, in order, as `METHOD /path?query`. */
+  readonly requests: string[] = [];
+
+  constructor(options: { seed?: boolean } = {}) {
+    if (options.seed ?? true) this.seed();
+  }
+
+  handle(method: string, path: string, query: URLSearchParams, body: Resource): MockResponse {
+    const qs = query.toString();
+    this.requests.push(`${method} ${path}${qs ? `?${qs}` : ''}`);
+    try {
+      return this.route(method, path.split('/').filter(Boolean).map(decodeURIComponent), query, body);
+    } catch (error) {
+      if (!(error instanceof MockRobotError)) throw error;
+      return { status: error.status, body: { error: { status: error.status, code: error.code, message: error.message } } };
+    }
+  }
+
+  // ── Routing ─────────────────────────────────────────────────────────────
+
+  private route(method: string, segments: string[], query: URLSearchParams, body: Resource): MockResponse {
+    const [root, id, sub] = segments;
+    const ok = (data: unknown, status = 200): MockResponse => ({ status, body: data });
+
+    switch (root) {
+      case 'server': {
+        if (id === undefined && method === 'GET') {
+          return ok([...this.servers.values()].map((s) => ({ server: summary(s) })));
+        }
+        const server = this.server(id);
+        if (sub === undefined && method === 'GET') return ok({ server });
+        if (sub === undefined && method === 'POST') {
+          required(body, 'server_name');
+          server.server_name = body.server_name;
+          return ok({ server: summary(server) });
+        }
+        if (sub === 'cancellation') {
+          const cancellation = this.cancellations.get(Number(server.server_number))!;
+          if (method === 'GET') return ok({ cancellation });
+          if (method === 'POST') {
+            required(body, 'cancellation_date');
+            if (body.cancellation_date !== 'now' && String(body.cancellation_date) < String(cancellation.earliest_cancellation_date)) {
+              throw new MockRobotError(409, 'CONFLICT', 'cancellation date is before the earliest cancellation date');
+            }
+            Object.assign(cancellation, {
+              cancelled: true,
+              cancellation_date: body.cancellation_date,
+              cancellation_reason: body.cancellation_reason ?? null,
+            });
+            server.cancelled = true;
+            return ok({ cancellation });
+          }
+          if (method === 'DELETE') {
+            if (!cancellation.cancelled) throw new MockRobotError(409, 'CONFLICT', 'server is not cancelled');
+            Object.assign(cancellation, { cancelled: false, cancellation_date: null, cancellation_reason: null });
+            server.cancelled = false;
+            return ok({});
+          }
+        }
+        break;
+      }
+
+      case 'reset': {
+        const types = ['sw', 'hw', 'man'];
+        if (id === undefined && method === 'GET') {
+          return ok([...this.servers.values()].map((s) => ({ reset: { server_ip: s.server_ip, server_number: s.server_number, type: types } })));
+        }
+        const server = this.server(id);
+        if (method === 'GET') return ok({ reset: { server_ip: server.server_ip, server_number: server.server_number, type: types } });
+        if (method === 'POST') {
+          required(body, 'type');
+          if (!types.includes(String(body.type))) throw new MockRobotError(400, 'INVALID_INPUT', `invalid reset type '${body.type}'`);
+          return ok({ reset: { server_ip: server.server_ip, server_number: server.server_number, type: body.type } });
+        }
+        break;
+      }
+
+      case 'wol': {
+        const server = this.server(id);
+        if (method === 'GET' || method === 'POST') {
+          return ok({ wol: { server_ip: server.server_ip, server_ipv6_net: server.server_ipv6_net, server_number: server.server_number } });
+        }
+        break;
+      }
+
+      case 'boot': {
+        const server = this.server(id);
+        const config = this.boot.get(Number(server.server_number))!;
+        if (sub === undefined && method === 'GET') return ok({ boot: config });
+        if (sub === 'rescue' || sub === 'linux' || sub === 'vnc') {
+          if (method === 'GET') return ok({ [sub]: config[sub] });
+          if (method === 'POST') {
+            required(body, sub === 'rescue' ? 'os' : 'dist');
+            if (['rescue', 'linux', 'vnc'].some((k) => (config[k] as Resource).active)) {
+              throw new MockRobotError(409, 'BOOT_ALREADY_ENABLED', 'another boot configuration is already active');
+            }
+            config[sub] = {
+              ...(config[sub] as Resource),
+              ...(sub === 'rescue' ? { os: body.os } : { dist: body.dist, lang: body.lang ?? 'en' }),
+              arch: Number(body.arch ?? 64),
+              active: true,
+              password: `mock-${sub}-${server.server_number}`,
+              ...(sub !== 'vnc' ? { authorized_key: body.authorized_key ? [body.authorized_key] : [] } : {}),
+            };
+            return ok({ [sub]: config[sub] });
+          }
+          if (method === 'DELETE') {
+            config[sub] = this.inactiveBoot(server, sub);
+            return ok({ [sub]: config[sub] });
+          }
+        }
+        break;
+      }
+
+      case 'key': {
+        if (id === undefined && method === 'GET') return ok([...this.keys.values()].map((key) => ({ key })));
+        if (id === undefined && method === 'POST') {
+          required(body, 'name', 'data');
+          const fingerprint = this.fingerprint();
+          const key = { name: body.name, fingerprint, type: String(body.data).split(' ')[0].replace('ssh-', ''), size: 256, data: body.data, created_at: new Date().toISOString() };
+          this.keys.set(fingerprint, key);
+          return ok({ key }, 201);
+        }
+        const key = this.keys.get(id);
+        if (!key) throw new MockRobotError(404, 'NOT_FOUND', `key ${id} not found`);
+        if (method === 'GET') return ok({ key });
+        if (method === 'POST') {
+          required(body, 'name');
+          key.name = body.name;
+          return ok({ key });
+        }
+        if (method === 'DELETE') {
+          this.keys.delete(id);
+          return ok({});
+        }
+        break;
+      }
+
+      case 'ip':
+      case 'subnet': {
+        const store = root === 'ip' ? this.ips : this.subnets;
+        if (id === undefined && method === 'GET') return ok([...store.values()].map((entry) => ({ [root]: entry })));
+        const entry = store.get(id);
+        if (!entry) throw new MockRobotError(404, root === 'ip' ? 'IP_NOT_FOUND' : 'SUBNET_NOT_FOUND', `${root} ${id} not found`);
+        if (sub === undefined && method === 'GET') return ok({ [root]: entry });
+        if (sub === undefined && method === 'POST') {
+          entry.traffic_warnings = bool(body.traffic_warnings, entry.traffic_warnings);
+          for (const field of ['traffic_hourly', 'traffic_daily', 'traffic_monthly']) {
+            if (body[field] !== undefined) entry[field] = Number(body[field]);
+          }
+          return ok({ [root]: entry });
+        }
+        if (sub === 'mac') {
+          if (method === 'GET') {
+            if (!entry.separate_mac) throw new MockRobotError(404, 'MAC_NOT_FOUND', 'no separate MAC assigned');
+            return ok({ mac: { ip: id, mac: entry.separate_mac } });
+          }
+          if (method === 'PUT') {
+            if (entry.separate_mac) throw new MockRobotError(409, 'MAC_ALREADY_SET', 'separate MAC already assigned');
+            entry.separate_mac = `00:50:56:00:${(this.nextId++ & 0xff).toString(16).padStart(2, '0')}:01`;
+            return ok({ mac: { ip: id, mac: entry.separate_mac } }, 201);
+          }
+          if (method === 'DELETE') {
+            entry.separate_mac = null;
+            return ok({ mac: { ip: id, mac: null } });
+          }
+        }
+        break;
+      }
+
+      case 'firewall': {
+        if (id === 'template') return this.routeTemplates(method, sub, body);
+        const server = this.server(id);
+        const firewall = this.firewalls.get(Number(server.server_number))!;
+        if (method === 'GET') return ok({ firewall });
+        if (method === 'POST') {
+          required(body, 'status');
+          Object.assign(firewall, {
+            status: body.status,
+            filter_ipv6: bool(body.filter_ipv6, firewall.filter_ipv6),
+            whitelist_hos: bool(body.whitelist_hos, firewall.whitelist_hos),
+            rules: normalizeRules(body.rules),
+          });
+          return ok({ firewall });
+        }
+        if (method === 'DELETE') {
+          Object.assign(firewall, { status: 'disabled', rules: { input: [], output: [] } });
+          return ok({ firewall });
+        }
+        break;
+      }
+
+      case 'vswitch': {
+        if (id === undefined && method === 'GET') {
+          return ok([...this.vswitches.values()].map(({ id: vid, name, vlan, cancelled }) => ({ id: vid, name, vlan, cancelled })));
+        }
+        if (id === undefined && method === 'POST') {
+          required(body, 'name', 'vlan');
+          const vswitch = { id: this.nextId++, name: body.name, vlan: Number(body.vlan), cancelled: false, server: [], subnet: [], cloud_network: [] };
+          this.vswitches.set(vswitch.id, vswitch);
+          return ok(vswitch, 201);
+        }
+        const vswitch = this.vswitches.get(Number(id));
+        if (!vswitch) throw new MockRobotError(404, 'NOT_FOUND', `vswitch ${id} not found`);
+        if (sub === undefined && method === 'GET') return ok(vswitch);
+        if (sub === undefined && method === 'POST') {
+          if (body.name !== undefined) vswitch.name = body.name;
+          if (body.vlan !== undefined) vswitch.vlan = Number(body.vlan);
+          return ok(vswitch, 201);
+        }
+        if (sub === undefined && method === 'DELETE') {
+          vswitch.cancelled = true;
+          return ok({});
+        }
+        if (sub === 'server') {
+          required(body, 'server');
+          const numbers = ([] as unknown[]).concat(body.server).map(Number);
+          for (const number of numbers) {
+            const server = this.server(String(number));
+            const members = (vswitch.server as Resource[]).filter((s) => s.server_number !== number);
+            if (method === 'POST') {
+              members.push({ server_ip: server.server_ip, server_ipv6_net: server.server_ipv6_net, server_number: number, status: 'ready' });
+            }
+            vswitch.server = members;
+          }
+          if (method === 'POST' || method === 'DELETE') return ok({}, method === 'POST' ? 201 : 200);
+        }
+        break;
+      }
+
+      case 'rdns': {
+        if (id === undefined && method === 'GET') {
+          const serverIp = query.get('server_ip');
+          const number = query.get('server_number');
+          const server = number ? this.servers.get(Number(number)) : undefined;
+          const entries = [...this.rdns.entries()].filter(([ip]) =>
+            (!serverIp || ip === serverIp) && (!server || ip === server.server_ip || (server.ip as string[]).includes(ip)));
+          return ok(entries.map(([ip, ptr]) => ({ rdns: { ip, ptr } })));
+        }
+        if (method === 'GET') {
+          const ptr = this.rdns.get(id);
+          if (ptr === undefined) throw new MockRobotError(404, 'RDNS_NOT_FOUND', `no reverse DNS entry for ${id}`);
+          return ok({ rdns: { ip: id, ptr } });
+        }
+        if (method === 'PUT' || method === 'POST') {
+          required(body, 'ptr');
+          if (method === 'PUT' && this.rdns.has(id)) throw new MockRobotError(409, 'RDNS_ALREADY_EXISTS', `reverse DNS entry for ${id} already exists`);
+          if (method === 'POST' && !this.rdns.has(id)) throw new MockRobotError(404, 'RDNS_NOT_FOUND', `no reverse DNS entry for ${id}`);
+          this.rdns.set(id, String(body.ptr));
+          return ok({ rdns: { ip: id, ptr: body.ptr } }, method === 'PUT' ? 201 : 200);
+        }
+        if (method === 'DELETE') {
+          this.rdns.delete(id);
+          return ok({});
+        }
+        break;
+      }
+
+      case 'traffic': {
+        if (method !== 'GET' && method !== 'POST') break;
+        const params = method === 'GET' ? Object.fromEntries(query) : body;
+        required(params, 'type', 'from', 'to');
+        const targets = [params.ip, params.subnet]
+          .flatMap((v) => (v === undefined ? [] : Array.isArray(v) ? v : String(v).split(',')))
+          .map((v) => String(v).trim());
+        if (targets.length === 0) throw new MockRobotError(400, 'INVALID_INPUT', 'ip or subnet is required');
+        const data: Record<string, { in: number; out: number; sum: number }> = {};
+        targets.forEach((target, i) => {
+          const incoming = 120.5 + i * 10;
+          const outgoing = 840.25 + i * 25;
+          data[target] = { in: incoming, out: outgoing, sum: incoming + outgoing };
+        });
+        return ok({ traffic: { type: params.type, from: params.from, to: params.to, data } });
+      }
+
+      case 'storagebox': {
+        if (id === undefined && method === 'GET') {
+          return ok([...this.storageBoxes.values()].map((box) => ({ storagebox: storageBoxSummary(box) })));
+        }
+        const storagebox = this.storageBoxes.get(Number(id));
+        if (!storagebox) throw new MockRobotError(404, 'STORAGEBOX_NOT_FOUND', `storage box ${id} not found`);
+        if (sub === undefined && method === 'GET') return ok({ storagebox });
+        break;
+      }
+
+      case 'failover': {
+        if (id === undefined && method === 'GET') return ok([...this.failovers.values()].map((failover) => ({ failover })));
+        const failover = this.failovers.get(id);
+        if (!failover) throw new MockRobotError(404, 'NOT_FOUND', `failover IP ${id} not found`);
+        if (method === 'GET') return ok({ failover });
+        if (method === 'POST') {
+          required(body, 'active_server_ip');
+          if (![...this.servers.values()].some((s) => s.server_ip === body.active_server_ip)) {
+            throw new MockRobotError(404, 'FAILOVER_NEW_SERVER_NOT_FOUND', `server ${body.active_server_ip} not found`);
+          }
+          failover.active_server_ip = body.active_server_ip;
+          return ok({ failover });
+        }
+        if (method === 'DELETE') {
+          failover.active_server_ip = null;
+          return ok({ failover });
+        }
+        break;
+      }
+    }
+
+    throw new MockRobotError(404, 'NOT_FOUND', `unknown path ${method} /${segments.join('/')}`);
+  }
+
+  private routeTemplates(method: string, id: string | undefined, body: Resource): MockResponse {
+    if (id === undefined && method === 'GET') {
+      return { status: 200, body: [...this.templates.values()].map(({ rules: _rules, ...t }) => ({ firewall_template: t })) };
+    }
+    if (id === undefined && method === 'POST') {
+      required(body, 'name');
+      const template = {
+        id: this.nextId++,
+        name: body.name,
+        filter_ipv6: bool(body.filter_ipv6, false),
+        whitelist_hos: bool(body.whitelist_hos, true),
+        is_default: bool(body.is_default, false),
+        rules: normalizeRules(body.rules),
+      };
+      this.templates.set(template.id, template);
+      return { status: 201, body: { firewall_template: template } };
+    }
+    const template = this.templates.get(Number(id));
+    if (!template) throw new MockRobotError(404, 'NOT_FOUND', `firewall template ${id} not found`);
+    if (method === 'GET') return { status: 200, body: { firewall_template: template } };
+    if (method === 'POST') {
+      if (body.name !== undefined) template.name = body.name;
+      template.filter_ipv6 = bool(body.filter_ipv6, template.filter_ipv6);
+      template.whitelist_hos = bool(body.whitelist_hos, template.whitelist_hos);
+      template.is_default = bool(body.is_default, template.is_default);
+      if (body.rules !== undefined) template.rules = normalizeRules(body.rules);
+      return { status: 200, body: { firewall_template: template } };
+    }
+    if (method === 'DELETE') {
+      this.templates.delete(Number(id));
+      return { status: 200, body: {} };
+    }
+    throw new MockRobotError(404, 'NOT_FOUND', `unknown path ${method} /firewall/template/${id}`);
+  }
+
+  private server(number: string | undefined): Resource {
+    const server = this.servers.get(Number(number));
+    if (!server) throw new MockRobotError(404, 'SERVER_NOT_FOUND', `server ${number} not found`);
+    return server;
+  }
+
+  private fingerprint(): string {
+    const hex = (this.nextId++).toString(16).padStart(32, '0');
+    return hex.match(/../g)!.join(':');
+  }
+
+  private inactiveBoot(server: Resource, kind: string): Resource {
+    const base = { server_ip: server.server_ip, server_ipv6_net: server.server_ipv6_net, server_number: server.server_number, active: false, password: null };
+    if (kind === 'rescue') return { ...base, os: ['linux', 'vkvm'], arch: [64], authorized_key: [], host_key: [] };
+    if (kind === 'linux') return { ...base, dist: ['Debian 12 base', 'Ubuntu 24.04 LTS base'], arch: [64], lang: ['en', 'de'], authorized_key: [], host_key: [] };
+    return { ...base, dist: ['Fedora-40', 'CentOS Stream 9'], arch: [64], lang: ['en_US', 'de_DE'] };
+  }
+
+  // ── Seed data ───────────────────────────────────────────────────────────
+
+  private seed(): void {
+    const servers = [
+      { number: 321, name: 'db-1', ip: '198.51.100.10', ipv6: '2a01:4f8:a:1::', product: 'AX41-NVMe', dc: 'FSN1-DC1' },
+      { number: 322, name: 'db-2', ip: '198.51.100.20', ipv6: '2a01:4f8:a:2::', product: 'AX41-NVMe', dc: 'NBG1-DC3' },
+    ];
+    for (const s of servers) {
+      const server = {
+        server_ip: s.ip,
+        server_ipv6_net: s.ipv6,
+        server_number: s.number,
+        server_name: s.name,
+        product: s.product,
+        dc: s.dc,
+        traffic: 'unlimited',
+        status: 'ready',
+        cancelled: false,
+        paid_until: '2026-12-31',
+        ip: [s.ip],
+        subnet: [{ ip: s.ipv6, mask: '64' }],
+        reset: true,
+        rescue: true,
+        vnc: true,
+        windows: false,
+        plesk: false,
+        cpanel: false,
+        wol: true,
+        hot_swap: false,
+        linked_storagebox: null,
+      };
+      this.servers.set(s.number, server);
+      this.cancellations.set(s.number, {
+        server_ip: s.ip,
+        server_ipv6_net: s.ipv6,
+        server_number: s.number,
+        server_name: s.name,
+        earliest_cancellation_date: '2026-11-30',
+        cancelled: false,
+        reservation_possible: false,
+        reserved: false,
+        cancellation_date: null,
+        cancellation_reason: ['Upgrade to a new server', 'Dissatisfied with the hardware', 'Other'],
+      });
+      this.boot.set(s.number, {
+        rescue: this.inactiveBoot(server, 'rescue'),
+        linux: this.inactiveBoot(server, 'linux'),
+        vnc: this.inactiveBoot(server, 'vnc'),
+        windows: null,
+        plesk: null,
+        cpanel: null,
+      });
+      this.firewalls.set(s.number, {
+        server_ip: s.ip,
+        server_number: s.number,
+        status: 'active',
+        filter_ipv6: false,
+        whitelist_hos: true,
+        port: 'main',
+        rules: {
+          input: [{ ip_version: 'ipv4', name: 'ssh', dst_ip: null, dst_port: '22', src_ip: null, src_port: null, protocol: 'tcp', tcp_flags: null, action: 'accept' }],
+          output: [],
+        },
+      });
+      this.ips.set(s.ip, {
+        ip: s.ip,
+        server_ip: s.ip,
+        server_number: s.number,
+        locked: false,
+        separate_mac: null,
+        traffic_warnings: false,
+        traffic_hourly: 50,
+        traffic_daily: 50,
+        traffic_monthly: 8,
+      });
+      this.subnets.set(s.ipv6, {
+        ip: s.ipv6,
+        mask: 64,
+        gateway: 'fe80::1',
+        server_ip: s.ip,
+        server_number: s.number,
+        failover: false,
+        locked: false,
+        traffic_warnings: false,
+        traffic_hourly: 50,
+        traffic_daily: 50,
+        traffic_monthly: 8,
+      });
+      this.rdns.set(s.ip, `${s.name}.example.com`);
+    }
+
+    this.keys.set('56:29:99:a4:5d:ed:ac:95:c1:f5:88:82:90:5d:dd:10', {
+      name: 'admin',
+      fingerprint: '56:29:99:a4:5d:ed:ac:95:c1:f5:88:82:90:5d:dd:10',
+      type: 'ED25519',
+      size: 256,
+      data: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIMockRobotKey admin@example.com',
+      created_at: '2024-01-01 00:00:00',
+    });
+    this.templates.set(1, {
+      id: 1,
+      name: 'Webserver',
+      filter_ipv6: false,
+      whitelist_hos: true,
+      is_default: false,
+      rules: {
+        input: [{ ip_version: 'ipv4', name: 'https', dst_port: '443', protocol: 'tcp', action: 'accept' }],
+        output: [],
+      },
+    });
+    this.failovers.set('198.51.100.100', {
+      ip: '198.51.100.100',
+      netmask: '255.255.255.255',
+      server_ip: '198.51.100.10',
+      server_ipv6_net: '2a01:4f8:a:1::',
+      server_number: 321,
+      active_server_ip: '198.51.100.10',
+    });
+    this.vswitches.set(4321, {
+      id: 4321,
+      name: 'backend',
+      vlan: 4000,
+      cancelled: false,
+      server: [{ server_ip: '198.51.100.10', server_ipv6_net: '2a01:4f8:a:1::', server_number: 321, status: 'ready' }],
+      subnet: [],
+      cloud_network: [],
+    });
+    this.storageBoxes.set(654, {
+      id: 654,
+      login: 'u654',
+      name: 'archive',
+      product: 'BX20',
+      cancelled: false,
+      locked: false,
+      location: 'FSN1',
+      linked_server: null,
+      paid_until: '2026-12-31',
+      disk_quota: 1048576,
+      disk_usage: 524288,
+      disk_usage_data: 458752,
+      disk_usage_snapshots: 65536,
+      webdav: false,
+      samba: false,
+      ssh: true,
+      external_reachability: false,
+      zfs: false,
+      server: 'u654.your-storagebox.de',
+    });
+  }
+}
+
+const STORAGE_BOX_SUMMARY_FIELDS = ['id', 'login', 'name', 'product', 'cancelled', 'locked', 'location', 'linked_server', 'paid_until'];
+
+function storageBoxSummary(box: Resource): Resource {
+  return Object.fromEntries(STORAGE_BOX_SUMMARY_FIELDS.map((field) => [field, box[field]]));
+}
+
+function summary(server: Resource): Resource {
+  const { reset: _r, rescue: _s, vnc: _v, windows: _w, plesk: _p, cpanel: _c, wol: _o, hot_swap: _h, linked_storagebox: _l, ...rest } = server;
+  return rest;
+}
+
+function normalizeRules(rules: unknown): Resource {
+  const input = (rules as Resource | undefined)?.input ?? [];
+  const output = (rules as Resource | undefined)?.output ?? [];
+  const rule = (r: Resource) => ({
+    ip_version: r.ip_version ?? 'ipv4',
+    name: r.name ?? null,
+    dst_ip: r.dst_ip ?? null,
+    dst_port: r.dst_port ?? null,
+    src_ip: r.src_ip ?? null,
+    src_port: r.src_port ?? null,
+    protocol: r.protocol ?? null,
+    tcp_flags: r.tcp_flags ?? null,
+    action: r.action ?? 'accept',
+  });
+  return { input: (input as Resource[]).map(rule), output: (output as Resource[]).map(rule) };
+}
@@ -0,0 +1,114 @@
+/**
+ * Mock Hetzner API server — serves the in-process Cloud/DNS and Robot fakes
+ * over HTTP so `HETZNER_CLOUD_URL` and `HETZNER_ROBOT_URL` can point at it.
+ * Cloud is mounted under `/v1`, Robot under `/robot`.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MockCloudApi, type MockCloudOptions, type MockResponse } from './cloud.js';
+import { MockRobotApi, parseFormBody } from './robot.js';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  cloud?: MockCloudOptions;
+  /** Start the Robot fake with seeded servers, IPs and keys (default: true). */
+  seedRobot?: boolean;
+}
+
+export interface MockServer {
+  /** Value for `HETZNER_CLOUD_URL`. */
+  cloudUrl: string;
+  /** Value for `HETZNER_ROBOT_URL`. */
+  robotUrl: string;
+  cloud: MockCloudApi;
+  robot: MockRobotApi;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock server. Port 0 (the default) picks a free port.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const cloud = new MockCloudApi(options.cloud);
+  const robot = new MockRobotApi({ seed: options.seedRobot });
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      console.error('[mock] Request failed:', error);
+      send(res, { status: 500, body: { error: { code: 'server_error', message: String(error) } } });
+    });
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const text = await readBody(req);
+    const auth = req.headers.authorization ?? '';
+
+    if (url.pathname.startsWith('/v1/')) {
+      if (!auth.startsWith('Bearer ')) {
+        send(res, { status: 401, body: { error: { code: 'unauthorized', message: 'unable to authenticate' } } });
+        return;
+      }
+      const body = text ? JSON.parse(text) as unknown : undefined;
+      send(res, cloud.handle(method, url.pathname.slice('/v1'.length), url.searchParams, body));
+      return;
+    }
+
+    if (url.pathname.startsWith('/robot/')) {
+      if (!auth.startsWith('Basic ')) {
+        send(res, { status: 401, body: { error: { status: 401, code: 'UNAUTHORIZED', message: 'Unauthorized' } } });
+        return;
+      }
+      send(res, robot.handle(method, url.pathname.slice('/robot'.length), url.searchParams, parseFormBody(text)));
+      return;
+    }
+
+    send(res, { status: 404, body: { error: { code: 'not_found', message: `no mock API at ${url.pathname}` } } });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const { address, port } = httpServer.address() as AddressInfo;
+  const base = `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+
+  return {
+    cloudUrl: `${base}/v1`,
+    robotUrl: `${base}/robot`,
+    cloud,
+    robot,
+    close: () => new Promise<void>((resolve, reject) => {
+      httpServer.closeAllConnections();
+      httpServer.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, response: MockResponse): void {
+  const headers: Record<string, string> = { ...response.headers };
+  if (response.body === undefined || response.status === 204) {
+    res.writeHead(response.status, { ...headers, 'Content-Length': '0' });
+    res.end();
+    return;
+  }
+  const payload = JSON.stringify(response.body);
+  res.writeHead(response.status, {
+    ...headers,
+    'Content-Type': 'application/json',
+    'Content-Length': String(Buffer.byteLength(payload)),
+  });
+  res.end(payload);
+}
@@ -0,0 +1,89 @@
+/**
+ * Tool policy — allow/deny rules evaluated centrally when tools are registered.
+ *
+ * Rules are tool-name globs (`power_*`, `*_robot_*`) or categories prefixed
+ * with `@`: the API a tool talks to (`@cloud`, `@dns`, `@robot`, `@meta`) and
+ * whether it changes anything (`@read`, `@write`). Deny rules win over allow
+ * rules; when an allow list is given, tools must match one of its entries.
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+export type PolicyDenyBehavior = 'hide' | 'refuse';
+
+export interface ToolPolicy {
+  allow: string[];
+  deny: string[];
+  /** `hide` never registers denied tools; `refuse` registers them but rejects every call. */
+  onDeny: PolicyDenyBehavior;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const policyFileSchema = z.object({
+  allow: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+  on_deny: z.enum(['hide', 'refuse']).default('hide'),
+}).strict();
+
+/** Tools provided by hetzner-mcp itself rather than a Hetzner API. */
+const META_TOOLS = new Set(['list_projects', 'get_audit_log', 'clear_cache']);
+
+const READ_PREFIXES = ['list_', 'get_', 'export_', 'wait_', 'validate_', 'plan_', 'estimate_', 'recommend_', 'check_', 'compare_'];
+
+/**
+ * Load and validate a policy file. Throws on unreadable or invalid files.
+ */
+export function loadPolicy(path: string): ToolPolicy {
+  const raw = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+  const parsed = policyFileSchema.parse(raw);
+  return { allow: parsed.allow, deny: parsed.deny, onDeny: parsed.on_deny };
+}
+
+/**
+ * Whether a tool changes state (anything that is not a list/get/export/wait/validate/plan/estimate/recommend/check/compare).
+ */
+export function isMutatingTool(name: string): boolean {
+  return !META_TOOLS.has(name) && !READ_PREFIXES.some((p) => name.startsWith(p));
+}
+
+/**
+ * Categories a tool belongs to, without the `@` prefix.
+ */
+export function toolCategories(name: string): string[] {
+  const api = META_TOOLS.has(name)
+    ? 'meta'
+    : /(^|_)robot(_|$)/.test(name)
+      ? 'robot'
+      : /(^|_)dns(_|$)/.test(name)
+        ? 'dns'
+        : 'cloud';
+  return [api, isMutatingTool(name) ? 'write' : 'read'];
+}
+
+/**
+ * Decide whether a tool may be used under `policy`.
+ */
+export function evaluatePolicy(policy: ToolPolicy, name: string): PolicyDecision {
+  const categories = toolCategories(name);
+  const matches = (rule: string) =>
+    rule.startsWith('@') ? categories.includes(rule.slice(1)) : globToRegExp(rule).test(name);
+
+  const denied = policy.deny.find(matches);
+  if (denied) {
+    return { allowed: false, reason: `matches deny rule "${denied}"` };
+  }
+  if (policy.allow.length > 0 && !policy.allow.some(matches)) {
+    return { allowed: false, reason: 'matches no allow rule' };
+  }
+  return { allowed: true };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
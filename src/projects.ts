@@ -0,0 +1,118 @@
+/**
+ * Project registry — one CloudClient/RobotClient pair per configured profile,
+ * with routing to the profile selected for the current tool call.
+ */
+
+import { join } from 'node:path';
+import type { FixtureConfig, ProfileConfig } from './config.js';
+import { CloudClient } from './clients/cloud.js';
+import { RobotClient } from './clients/robot.js';
+import { FixtureStore } from './clients/fixtures.js';
+import { currentContext } from './context.js';
+
+export interface Project {
+  name: string;
+  cloud: CloudClient | null;
+  robot: RobotClient | null;
+}
+
+export class ProjectRegistry {
+  private readonly projects = new Map<string, Project>();
+
+  constructor(
+    profiles: ProfileConfig[],
+    public readonly defaultProject: string,
+    fixtures: FixtureConfig | null = null,
+  ) {
+    const store = (profile: string, api: string, secrets: string[]) =>
+      fixtures ? new FixtureStore(join(fixtures.dir, `${profile}-${api}.jsonl`), fixtures.mode, secrets) : null;
+    for (const profile of profiles) {
+      this.projects.set(profile.name, {
+        name: profile.name,
+        cloud: profile.cloud
+          ? new CloudClient(profile.cloud, store(profile.name, 'cloud', [profile.cloud.token]))
+          : null,
+        robot: profile.robot
+          ? new RobotClient(profile.robot, store(profile.name, 'robot', [profile.robot.password]))
+          : null,
+      });
+    }
+  }
+
+  get names(): string[] {
+    return [...this.projects.keys()];
+  }
+
+  get hasCloud(): boolean {
+    return [...this.projects.values()].some((p) => p.cloud);
+  }
+
+  get hasRobot(): boolean {
+    return [...this.projects.values()].some((p) => p.robot);
+  }
+
+  list(): Project[] {
+    return [...this.projects.values()];
+  }
+
+  /**
+   * Look up a project by name (default project if omitted).
+   */
+  get(name?: string): Project {
+    const project = this.projects.get(name ?? this.defaultProject);
+    if (!project) {
+      throw new Error(`Unknown project "${name}". Available projects: ${this.names.join(', ')}`);
+    }
+    return project;
+  }
+
+  /**
+   * The project selected by the current tool call.
+   */
+  current(): Project {
+    return this.get(currentContext()?.project);
+  }
+
+  /**
+   * A CloudClient that forwards every call to the current project's client.
+   */
+  cloud(): CloudClient {
+    return routed(() => {
+      const project = this.current();
+      if (!project.cloud) {
+        throw new Error(`Project "${project.name}" has no Cloud API credentials configured.`);
+      }
+      return project.cloud;
+    });
+  }
+
+  /**
+   * A RobotClient that forwards every call to the current project's client.
+   */
+  robot(): RobotClient {
+    return routed(() => {
+      const project = this.current();
+      if (!project.robot) {
+        throw new Error(`Project "${project.name}" has no Robot API credentials configured.`);
+      }
+      return project.robot;
+    });
+  }
+}
+
+/**
+ * Build a stand-in object whose property accesses are resolved against the
+ * target returned by `resolve()` at the time of access.
+ */
+function routed<T extends object>(resolve: () => T): T {
+  return new Proxy({} as T, {
+    get(_target, prop) {
+      const target = resolve();
+      const value = Reflect.get(target, prop, target) as unknown;
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set(_target, prop, value) {
+      return Reflect.set(resolve(), prop, value);
+    },
+  });
+}
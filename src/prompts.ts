@@ -0,0 +1,246 @@
+/**
+ * MCP prompts — guided runbooks for common operations. Each prompt gathers
+ * the relevant current state through the same API endpoints the list tools
+ * use and embeds it, so the operator (or agent) starts from real IDs and
+ * names instead of an ad-hoc chain of lookups.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { runWithContext } from './context.js';
+import { formatError } from './clients/common.js';
+import type { ProjectRegistry } from './projects.js';
+import type { CloudLoadBalancer, CloudServer, CloudSSHKey } from './types/cloud.js';
+import type { DnsRecordsResponse, DnsZone } from './types/dns.js';
+import type { RobotRescueConfig, RobotResetOption, RobotSSHKey, RobotServerDetail } from './types/robot.js';
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  api: 'cloud' | 'robot';
+  args: Record<string, z.ZodType<string | undefined>>;
+  build: (args: PromptArgs) => Promise<string>;
+}
+
+export function registerAllPrompts(server: McpServer, projects: ProjectRegistry): void {
+  const multiProject = projects.names.length > 1;
+  const cloud = projects.hasCloud ? projects.cloud() : null;
+  const robot = projects.hasRobot ? projects.robot() : null;
+
+  const prompts: PromptDefinition[] = [];
+
+  if (cloud) {
+    prompts.push(
+      {
+        name: 'rotate_ssh_key',
+        title: 'Rotate SSH key across servers',
+        description: 'Replace an SSH key on all (or label-selected) Cloud servers and retire the old key.',
+        api: 'cloud',
+        args: {
+          old_key: z.string().describe('Name or ID of the SSH key being retired'),
+          new_key_name: z.string().optional().describe('Name for the replacement key'),
+          label_selector: z.string().optional().describe('Only servers matching this label selector'),
+        },
+        build: async (args) => {
+          const keys = await state(() => cloud.requestAll<CloudSSHKey>('/ssh_keys', 'ssh_keys'));
+          const servers = await state(() =>
+            cloud.requestAll<CloudServer>('/servers', 'servers', { label_selector: args.label_selector }),
+          );
+          const oldKey = Array.isArray(keys)
+            ? keys.find((k) => k.name === args.old_key || String(k.id) === args.old_key)
+            : undefined;
+          return [
+            `# Runbook: rotate SSH key "${args.old_key}"`,
+            '',
+            '## Current state',
+            `Old key: ${oldKey ? `${oldKey.name} (ID ${oldKey.id}, fingerprint ${oldKey.fingerprint})` : 'NOT FOUND — confirm the name/ID before continuing'}`,
+            `Servers in scope${args.label_selector ? ` (label selector "${args.label_selector}")` : ''}:`,
+            listLines(servers, (s) => `- ${s.name} (ID ${s.id}, ${s.status}, ${s.public_net.ipv4?.ip ?? 'no IPv4'})`),
+            `SSH keys in the project:`,
+            listLines(keys, (k) => `- ${k.name} (ID ${k.id}, ${k.fingerprint})`),
+            '',
+            '## Steps',
+            `1. Generate the new key pair locally, then call \`create_ssh_key\` with name "${args.new_key_name ?? `${args.old_key}-rotated`}" and the public key.`,
+            '2. Cloud SSH keys are only injected at server creation. For each running server above, add the new public key to `~/.ssh/authorized_keys` (configuration management or an SSH session using the old key).',
+            '3. Verify login with the new key on every server before removing anything.',
+            '4. Remove the old public key from `authorized_keys` on each server.',
+            `5. Call \`delete_ssh_key\` for the old key${oldKey ? ` (ID ${oldKey.id})` : ''} so new servers can't be created with it.`,
+            '6. Update automation and documentation that reference the old key name.',
+          ].join('\n');
+        },
+      },
+      {
+        name: 'replace_load_balancer_target',
+        title: 'Drain and replace load balancer target',
+        description: 'Add a replacement server to a load balancer, wait for it to become healthy, then drain and remove the old target.',
+        api: 'cloud',
+        args: {
+          load_balancer: z.string().describe('Load balancer name or ID'),
+          old_server: z.string().describe('Name or ID of the server target being drained'),
+          new_server: z.string().optional().describe('Name or ID of the replacement server'),
+        },
+        build: async (args) => {
+          const lbs = await state(() => cloud.requestAll<CloudLoadBalancer>('/load_balancers', 'load_balancers'));
+          const servers = await state(() => cloud.requestAll<CloudServer>('/servers', 'servers'));
+          const lb = Array.isArray(lbs) ? lbs.find((l) => matchesRef(l, args.load_balancer!)) : undefined;
+          const oldServer = Array.isArray(servers) ? servers.find((s) => matchesRef(s, args.old_server!)) : undefined;
+          const newServer = Array.isArray(servers) && args.new_server
+            ? servers.find((s) => matchesRef(s, args.new_server!))
+            : undefined;
+          return [
+            `# Runbook: replace target "${args.old_server}" on load balancer "${args.load_balancer}"`,
+            '',
+            '## Current state',
+            lb
+              ? `Load balancer: ${lb.name} (ID ${lb.id}, ${lb.load_balancer_type.name}, algorithm ${lb.algorithm.type})`
+              : 'Load balancer: NOT FOUND — confirm the name/ID before continuing',
+            lb ? `Targets:\n${JSON.stringify(lb.targets, null, 2)}` : '',
+            lb ? `Services:\n${JSON.stringify(lb.services, null, 2)}` : '',
+            `Old server: ${oldServer ? `${oldServer.name} (ID ${oldServer.id}, ${oldServer.status})` : 'NOT FOUND'}`,
+            `Replacement server: ${newServer ? `${newServer.name} (ID ${newServer.id}, ${newServer.status})` : args.new_server ? 'NOT FOUND' : 'not chosen yet — create one (e.g. create_server) first'}`,
+            '',
+            '## Steps',
+            `1. Make sure the replacement server runs the same application and is attached to the same network if targets use private IPs.`,
+            `2. Call \`add_load_balancer_target\` with type "server" and the replacement server's ID${lb ? ` on load balancer ${lb.id}` : ''}.`,
+            '3. Poll `get_load_balancer` until the new target reports `healthy` for every service. Do not continue while it is unhealthy.',
+            `4. Call \`remove_load_balancer_target\` for the old server${oldServer ? ` (ID ${oldServer.id})` : ''}. Existing connections are drained as the target is removed.`,
+            '5. Watch `get_load_balancer_metrics` (requests_per_second, open_connections) for a few minutes to confirm traffic is served.',
+            '6. Only then power off or delete the old server (consider `dry_run: true` first).',
+          ].filter((line) => line !== '').join('\n');
+        },
+      },
+      {
+        name: 'migrate_dns_zone',
+        title: 'Migrate DNS zone',
+        description: 'Move a DNS zone into Hetzner DNS (or between projects) via zone file export/import and a nameserver switch.',
+        api: 'cloud',
+        args: {
+          zone: z.string().describe('Zone name (domain), e.g. example.com'),
+          source: z.string().optional().describe('Where the zone lives today (e.g. "route53", "project:staging")'),
+        },
+        build: async (args) => {
+          const zones = await state(() => cloud.requestAll<DnsZone>('/dns/zones', 'zones', { name: args.zone }));
+          const zone = Array.isArray(zones) ? zones.find((z) => z.name === args.zone) : undefined;
+          const records = zone
+            ? await state(async () =>
+              (await cloud.request<DnsRecordsResponse>('/dns/records', { params: { zone_id: zone.id } })).records,
+            )
+            : null;
+          return [
+            `# Runbook: migrate DNS zone "${args.zone}"${args.source ? ` from ${args.source}` : ''}`,
+            '',
+            '## Current state',
+            zone
+              ? `Zone exists in this project: ID ${zone.id}, status ${zone.status}, ${zone.records_count} records, nameservers ${zone.ns.join(', ')}`
+              : 'Zone does not exist in this project yet.',
+            records && Array.isArray(records)
+              ? `Records:\n${records.map((r) => `- ${r.name} ${r.type} ${r.value}${r.ttl ? ` (ttl ${r.ttl})` : ''}`).join('\n')}`
+              : '',
+            '',
+            '## Steps',
+            '1. Export the zone from the source (for another Hetzner project: `export_dns_zone` with that project) and lower TTLs there ahead of the switch.',
+            zone
+              ? `2. The zone already exists (ID ${zone.id}); review the records above for conflicts before importing.`
+              : `2. Call \`create_dns_zone\` with name "${args.zone}".`,
+            '3. Call `validate_dns_zone_file` with the exported zone file and fix any invalid records.',
+            '4. Call `import_dns_zone` with the zone ID and the zone file.',
+            '5. Compare `list_dns_records` against the source: every A/AAAA/CNAME/MX/TXT/SRV/CAA record must be present.',
+            '6. At the registrar, switch the nameservers to the Hetzner nameservers shown by `get_dns_zone`.',
+            '7. Wait at least the old NS TTL, confirm resolution through public resolvers, then decommission the source zone.',
+          ].filter((line) => line !== '').join('\n');
+        },
+      },
+    );
+  }
+
+  if (robot) {
+    prompts.push({
+      name: 'rescue_dedicated_server',
+      title: 'Rescue a dedicated server',
+      description: 'Boot an unreachable dedicated server into the rescue system to repair it.',
+      api: 'robot',
+      args: {
+        server_number: z.string().describe('Robot server number'),
+        problem: z.string().optional().describe('Short description of the symptom (e.g. "no SSH after kernel update")'),
+      },
+      build: async (args) => {
+        const n = args.server_number;
+        const detail = await state(() => robot.request<RobotServerDetail>(`/server/${n}`));
+        const rescue = await state(() => robot.request<RobotRescueConfig>(`/boot/${n}/rescue`));
+        const reset = await state(() => robot.request<RobotResetOption>(`/reset/${n}`));
+        const keys = await state(() => robot.request<RobotSSHKey[]>('/key'));
+        const s = typeof detail === 'string' ? null : detail.server;
+        return [
+          `# Runbook: rescue dedicated server ${n}${args.problem ? ` — ${args.problem}` : ''}`,
+          '',
+          '## Current state',
+          s
+            ? `Server: ${s.server_name || '(unnamed)'} — ${s.product} in ${s.dc}, IP ${s.server_ip}, status ${s.status}`
+            : `Server: ${detail}`,
+          typeof rescue === 'string'
+            ? `Rescue: ${rescue}`
+            : `Rescue: ${rescue.rescue.active ? 'ALREADY ACTIVE' : 'inactive'}; available OS: ${[rescue.rescue.os].flat().join(', ')}`,
+          typeof reset === 'string' ? `Reset: ${reset}` : `Reset types: ${reset.reset.type.join(', ')}`,
+          'Robot SSH keys:',
+          listLines(keys, (k) => `- ${k.key.name} (${k.key.fingerprint})`),
+          '',
+          '## Steps',
+          `1. Call \`enable_robot_rescue\` for server ${n} with os "linux" and the fingerprint of a key above (otherwise note the returned password).`,
+          `2. Call \`reset_robot_server\` for server ${n}: prefer "sw" (ACPI), use "hw" if the server does not react.`,
+          `3. Wait 1-2 minutes, then SSH as root to ${s?.server_ip ?? 'the server IP'} and confirm the rescue system banner.`,
+          '4. Mount the installed system (e.g. `mount /dev/md2 /mnt`), inspect logs and repair (bootloader, fstab, network config, disk health with `smartctl`).',
+          `5. Call \`disable_robot_rescue\` if rescue is still armed, then reboot into the installed system (\`reboot\` or \`reset_robot_server\`).`,
+          '6. Verify services are reachable again.',
+        ].join('\n');
+      },
+    });
+  }
+
+  const projectArg = z.string().optional().describe(
+    `Project to gather state from (default: "${projects.defaultProject}")`,
+  );
+
+  for (const prompt of prompts) {
+    const argsSchema = multiProject ? { ...prompt.args, project: projectArg } : prompt.args;
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema },
+      async (args: PromptArgs) => {
+        const text = await runWithContext(
+          { tool: `prompt:${prompt.name}`, project: args.project },
+          () => prompt.build(args),
+        );
+        return {
+          description: prompt.description,
+          messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+        };
+      },
+    );
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a piece of state; on failure return the formatted error instead so a
+ * single failing lookup doesn't prevent the runbook from rendering.
+ */
+async function state<T>(fetcher: () => Promise<T>): Promise<T | string> {
+  try {
+    return await fetcher();
+  } catch (error) {
+    return `(could not fetch: ${formatError(error)})`;
+  }
+}
+
+function listLines<T>(items: T[] | string, line: (item: T) => string): string {
+  if (typeof items === 'string') return items;
+  return items.length > 0 ? items.map(line).join('\n') : '(none)';
+}
+
+function matchesRef(item: { id: number; name: string }, ref: string): boolean {
+  return item.name === ref || String(item.id) === ref;
+}
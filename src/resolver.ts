@@ -0,0 +1,164 @@
+/**
+ * Resource references — Cloud tool parameters declared with `resourceRef()`
+ * accept an ID, a name or a label selector (and an address for floating and
+ * primary IPs). The registrar resolves them to numeric IDs before the label
+ * guard and the handler run, so tools only ever see IDs.
+ *
+ * A reference must match exactly one resource; when a name or selector
+ * matches several, the call fails with the candidates listed.
+ */
+
+import { z } from 'zod';
+import type { CloudClient } from './clients/cloud.js';
+
+export type ResourceType =
+  | 'server'
+  | 'volume'
+  | 'network'
+  | 'firewall'
+  | 'floating_ip'
+  | 'primary_ip'
+  | 'load_balancer'
+  | 'certificate'
+  | 'ssh_key'
+  | 'placement_group'
+  | 'storage_box';
+
+export class ResourceResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceResolutionError';
+  }
+}
+
+interface Collection {
+  label: string;
+  path: string;
+  key: string;
+  /** Whether the resource can also be referenced by its `ip` field. */
+  byAddress?: boolean;
+}
+
+const COLLECTIONS: Record<ResourceType, Collection> = {
+  server: { label: 'server', path: '/servers', key: 'servers' },
+  volume: { label: 'volume', path: '/volumes', key: 'volumes' },
+  network: { label: 'network', path: '/networks', key: 'networks' },
+  firewall: { label: 'firewall', path: '/firewalls', key: 'firewalls' },
+  floating_ip: { label: 'floating IP', path: '/floating_ips', key: 'floating_ips', byAddress: true },
+  primary_ip: { label: 'primary IP', path: '/primary_ips', key: 'primary_ips', byAddress: true },
+  load_balancer: { label: 'load balancer', path: '/load_balancers', key: 'load_balancers' },
+  certificate: { label: 'certificate', path: '/certificates', key: 'certificates' },
+  ssh_key: { label: 'SSH key', path: '/ssh_keys', key: 'ssh_keys' },
+  placement_group: { label: 'placement group', path: '/placement_groups', key: 'placement_groups' },
+  storage_box: { label: 'storage box', path: '/storage_boxes', key: 'storage_boxes' },
+};
+
+// Schemas created by resourceRef(), with the resource type they reference
+const references = new WeakMap<z.ZodTypeAny, ResourceType>();
+
+/**
+ * Parameter schema for a reference to a Cloud resource: an ID, a name, or a
+ * label selector such as `role=web`.
+ */
+export function resourceRef(type: ResourceType, description: string): z.ZodUnion<[z.ZodNumber, z.ZodString]> {
+  const alternatives = COLLECTIONS[type].byAddress ? 'ID, name, address' : 'ID, name';
+  const schema = z.union([z.number().int(), z.string().min(1)])
+    .describe(`${description} (${alternatives} or label selector, e.g. "role=web")`);
+  references.set(schema, type);
+  return schema;
+}
+
+/** Whether a reference string is a label selector rather than a name. */
+export function isLabelSelector(ref: string): boolean {
+  return ref.includes('=') || ref.startsWith('!') || /\s(in|notin)\s*\(/.test(ref);
+}
+
+function isAddress(ref: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(ref) || (ref.includes(':') && /^[0-9a-f:./]+$/i.test(ref));
+}
+
+/**
+ * Resolve a single reference to the ID of the one resource it matches.
+ */
+export async function resolveResource(
+  cloud: CloudClient,
+  type: ResourceType,
+  ref: number | string,
+): Promise<number> {
+  if (typeof ref === 'number') return ref;
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const collection = COLLECTIONS[type];
+  type Item = { id: number; name?: string; ip?: string; labels?: Record<string, string> };
+  let matches: Item[];
+  let subject: string;
+
+  if (isLabelSelector(trimmed)) {
+    matches = await cloud.requestAll<Item>(collection.path, collection.key, { label_selector: trimmed });
+    subject = `label selector "${trimmed}"`;
+  } else if (collection.byAddress && isAddress(trimmed)) {
+    const address = trimmed.split('/')[0];
+    const all = await cloud.requestAll<Item>(collection.path, collection.key);
+    matches = all.filter((item) => item.ip !== undefined && item.ip.split('/')[0] === address);
+    subject = `address ${trimmed}`;
+  } else {
+    matches = await cloud.requestAll<Item>(collection.path, collection.key, { name: trimmed });
+    subject = `name "${trimmed}"`;
+  }
+
+  if (matches.length === 1) return matches[0].id;
+  if (matches.length === 0) {
+    throw new ResourceResolutionError(`No ${collection.label} matches ${subject}.`);
+  }
+  const candidates = matches
+    .map((item) => `${item.id}${item.name ? ` (${item.name})` : ''}`)
+    .join(', ');
+  throw new ResourceResolutionError(
+    `${subject[0].toUpperCase()}${subject.slice(1)} is ambiguous: it matches ${matches.length} ` +
+    `${collection.label}s: ${candidates}. Pass an ID or a more specific reference.`,
+  );
+}
+
+/**
+ * Replace every resource reference in a tool's arguments with the ID it
+ * resolves to, walking nested objects, arrays and unions of the tool's
+ * parameter schemas. Arguments without references are returned unchanged.
+ */
+export async function resolveReferences(
+  cloud: CloudClient,
+  params: z.ZodRawShape,
+  args: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const resolved: Record<string, unknown> = { ...args };
+  for (const [key, schema] of Object.entries(params)) {
+    if (args[key] !== undefined) resolved[key] = await resolveValue(cloud, schema, args[key]);
+  }
+  return resolved;
+}
+
+async function resolveValue(cloud: CloudClient, schema: z.ZodTypeAny, value: unknown): Promise<unknown> {
+  if (value === undefined || value === null) return value;
+
+  const type = references.get(schema);
+  if (type) return resolveResource(cloud, type, value as number | string);
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return resolveValue(cloud, schema.unwrap(), value);
+  }
+  if (schema instanceof z.ZodDefault) return resolveValue(cloud, schema.removeDefault(), value);
+  if (schema instanceof z.ZodEffects) return resolveValue(cloud, schema.innerType(), value);
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (const item of value) items.push(await resolveValue(cloud, schema.element, item));
+    return items;
+  }
+  if (schema instanceof z.ZodObject && typeof value === 'object') {
+    return resolveReferences(cloud, schema.shape as z.ZodRawShape, value as Record<string, unknown>);
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion && typeof value === 'object') {
+    const option = schema.optionsMap.get((value as Record<string, unknown>)[schema.discriminator] as string);
+    return option ? resolveValue(cloud, option, value) : value;
+  }
+  return value;
+}
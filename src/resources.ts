@@ -0,0 +1,218 @@
+/**
+ * MCP resources — expose Hetzner infrastructure state as browsable resources
+ * (`hetzner://cloud/servers/{id}`, `hetzner://dns/zones/{id}/zonefile`,
+ * `hetzner://robot/servers/{number}`, …) backed by the same API clients as
+ * the tools.
+ *
+ * URIs without a query address the default project. When several projects
+ * are configured, `?project=<name>` selects another one and listings cover
+ * every project.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { runWithContext } from './context.js';
+import type { Project, ProjectRegistry } from './projects.js';
+import type { RobotServer } from './types/robot.js';
+import type { DnsZone } from './types/dns.js';
+
+interface ListedResource {
+  /** Path variables identifying the item, e.g. `{ id: '42' }`. */
+  variables: Record<string, string>;
+  name: string;
+  description?: string;
+}
+
+interface ResourceFamily {
+  name: string;
+  /** URI template path after `hetzner://`, e.g. `cloud/servers/{id}`. */
+  path: string;
+  description: string;
+  mimeType: string;
+  api: 'cloud' | 'robot';
+  /** Enumerate items for one project, or null if the family isn't listable. */
+  list: ((project: Project) => Promise<ListedResource[]>) | null;
+  read: (variables: Variables) => Promise<string>;
+}
+
+/** Cloud collections exposed as `hetzner://cloud/<path>/{id}`. */
+const CLOUD_COLLECTIONS: Array<{ path: string; key: string; label: string }> = [
+  { path: 'servers', key: 'server', label: 'Server' },
+  { path: 'volumes', key: 'volume', label: 'Volume' },
+  { path: 'networks', key: 'network', label: 'Network' },
+  { path: 'firewalls', key: 'firewall', label: 'Firewall' },
+  { path: 'load_balancers', key: 'load_balancer', label: 'Load balancer' },
+  { path: 'floating_ips', key: 'floating_ip', label: 'Floating IP' },
+  { path: 'primary_ips', key: 'primary_ip', label: 'Primary IP' },
+  { path: 'certificates', key: 'certificate', label: 'Certificate' },
+  { path: 'ssh_keys', key: 'ssh_key', label: 'SSH key' },
+  { path: 'placement_groups', key: 'placement_group', label: 'Placement group' },
+];
+
+export function registerAllResources(server: McpServer, projects: ProjectRegistry): void {
+  const families: ResourceFamily[] = [];
+
+  if (projects.hasCloud) {
+    const cloud = projects.cloud();
+
+    for (const c of CLOUD_COLLECTIONS) {
+      families.push({
+        name: `cloud-${c.path.replace(/_/g, '-')}`,
+        path: `cloud/${c.path}/{id}`,
+        description: `${c.label} in the Hetzner Cloud project`,
+        mimeType: 'application/json',
+        api: 'cloud',
+        list: async (project) => {
+          const items = await project.cloud!.requestAll<{ id: number; name: string }>(`/${c.path}`, c.path);
+          return items.map((item) => ({
+            variables: { id: String(item.id) },
+            name: item.name,
+            description: `${c.label} ${item.id}`,
+          }));
+        },
+        read: async ({ id }) => {
+          const result = await cloud.request<Record<string, unknown>>(`/${c.path}/${id}`);
+          return JSON.stringify(result[c.key], null, 2);
+        },
+      });
+    }
+
+    families.push(
+      {
+        name: 'dns-zones',
+        path: 'dns/zones/{id}',
+        description: 'DNS zone with its settings',
+        mimeType: 'application/json',
+        api: 'cloud',
+        list: async (project) => {
+          const zones = await project.cloud!.requestAll<DnsZone>('/dns/zones', 'zones');
+          return zones.map((zone) => ({
+            variables: { id: zone.id },
+            name: zone.name,
+            description: `DNS zone ${zone.name}`,
+          }));
+        },
+        read: async ({ id }) => {
+          const result = await cloud.request<{ zone: DnsZone }>(`/dns/zones/${id}`);
+          return JSON.stringify(result.zone, null, 2);
+        },
+      },
+      {
+        name: 'dns-zonefiles',
+        path: 'dns/zones/{id}/zonefile',
+        description: 'DNS zone exported as a BIND zone file',
+        mimeType: 'text/plain',
+        api: 'cloud',
+        list: async (project) => {
+          const zones = await project.cloud!.requestAll<DnsZone>('/dns/zones', 'zones');
+          return zones.map((zone) => ({
+            variables: { id: zone.id },
+            name: `${zone.name} zone file`,
+          }));
+        },
+        read: async ({ id }) => {
+          const result = await cloud.request<unknown>(`/dns/zones/${id}/export`);
+          if (typeof result === 'string') return result;
+          const r = result as { zone_file?: string; zonefile?: string };
+          return r.zone_file ?? r.zonefile ?? JSON.stringify(result, null, 2);
+        },
+      },
+    );
+  }
+
+  if (projects.hasRobot) {
+    const robot = projects.robot();
+
+    families.push({
+      name: 'robot-servers',
+      path: 'robot/servers/{number}',
+      description: 'Dedicated server in the Hetzner Robot account',
+      mimeType: 'application/json',
+      api: 'robot',
+      list: async (project) => {
+        const servers = await project.robot!.request<RobotServer[]>('/server');
+        return servers.map(({ server: s }) => ({
+          variables: { number: String(s.server_number) },
+          name: s.server_name || s.server_ip || String(s.server_number),
+          description: `${s.product} in ${s.dc}${s.server_ip ? ` (${s.server_ip})` : ''}`,
+        }));
+      },
+      read: async ({ number }) => {
+        const result = await robot.request<unknown>(`/server/${number}`);
+        return JSON.stringify(result, null, 2);
+      },
+    });
+  }
+
+  for (const family of families) {
+    registerFamily(server, projects, family);
+  }
+}
+
+/**
+ * Register a family's templates: a `?project=` variant first (multi-project
+ * only, so it takes precedence when matching) and the plain default-project
+ * variant.
+ */
+function registerFamily(server: McpServer, projects: ProjectRegistry, family: ResourceFamily): void {
+  const multiProject = projects.names.length > 1;
+
+  const listFor = async (qualified: boolean) => {
+    const resources = [];
+    const targets = qualified ? projects.list() : [projects.get()];
+    for (const project of targets) {
+      if (!project[family.api] || !family.list) continue;
+      let items: ListedResource[];
+      try {
+        items = await family.list(project);
+      } catch (error) {
+        // One failing listing shouldn't hide every other resource
+        console.error(`[Resources] Listing ${family.name} for project "${project.name}" failed:`, error);
+        continue;
+      }
+      for (const item of items) {
+        let uri = `hetzner://${family.path}`;
+        for (const [key, value] of Object.entries(item.variables)) {
+          uri = uri.replace(`{${key}}`, encodeURIComponent(value));
+        }
+        if (qualified) uri += `?project=${encodeURIComponent(project.name)}`;
+        resources.push({
+          uri,
+          name: qualified ? `${item.name} (${project.name})` : item.name,
+          description: item.description,
+          mimeType: family.mimeType,
+        });
+      }
+    }
+    return { resources };
+  };
+
+  const read = async (uri: URL, variables: Variables) => {
+    const project = typeof variables.project === 'string' ? variables.project : undefined;
+    const text = await runWithContext(
+      { tool: `resource:${family.name}`, project },
+      () => family.read(variables),
+    );
+    return { contents: [{ uri: uri.href, mimeType: family.mimeType, text }] };
+  };
+
+  if (multiProject) {
+    server.registerResource(
+      `${family.name}-by-project`,
+      new ResourceTemplate(`hetzner://${family.path}{?project}`, {
+        list: family.list ? () => listFor(true) : undefined,
+      }),
+      { description: `${family.description} (project selected by ?project=)`, mimeType: family.mimeType },
+      read,
+    );
+  }
+
+  server.registerResource(
+    family.name,
+    new ResourceTemplate(`hetzner://${family.path}`, {
+      list: family.list && !multiProject ? () => listFor(false) : undefined,
+    }),
+    { description: `${family.description} (default project)`, mimeType: family.mimeType },
+    read,
+  );
+}
@@ -4,38 +4,246 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { CloudClient } from './clients/cloud.js';
-import type { RobotClient } from './clients/robot.js';
-import { formatError } from './clients/common.js';
+import { DryRunInterception, formatError } from './clients/common.js';
+import { runWithContext } from './context.js';
+import type { ProjectRegistry } from './projects.js';
+import { evaluatePolicy, isMutatingTool, toolCategories, type ToolPolicy } from './policy.js';
+import { enforceLabelGuard, type LabelGuardConfig } from './guards.js';
+import { buildDryRunPlan, dryRunPlanSchema, emptyDryRunPlan } from './dry-run.js';
+import { isListTool, listOutputSchema, listParams, parseListOptions, shapeListOutput } from './list-output.js';
+import { resolveReferences } from './resolver.js';
+import type { AuditLog } from './audit.js';
+import type { HetznerAction } from './clients/common.js';
 
 // ── ToolRegistrar ───────────────────────────────────────────────────────────
 
 /**
  * Simplified tool registration callback used by all tool files.
- * Wraps the MCP SDK's `server.tool()` with error handling.
+ * `output` is the Zod shape of the object the handler resolves to; it is
+ * published as the tool's output schema and the object is returned as
+ * structured content (plus its JSON serialization as text).
  */
-export type ToolRegistrar = (
+export type ToolRegistrar = <O extends z.ZodRawShape>(
   name: string,
   description: string,
   params: Record<string, z.ZodTypeAny>,
-  handler: (args: Record<string, unknown>) => Promise<string>,
+  output: O,
+  handler: (args: Record<string, unknown>) => Promise<z.infer<z.ZodObject<O>>>,
 ) => void;
 
+/**
+ * Options shared by all tool registrations.
+ */
+export interface ToolOptions {
+  readOnly: boolean;
+  policy: ToolPolicy | null;
+  guard: LabelGuardConfig | null;
+  /** Default for the `dry_run` argument of mutating tools. */
+  dryRunDefault: boolean;
+  audit: AuditLog | null;
+  /** Directory of server blueprints; blueprint tools are registered when set. */
+  blueprintsDir: string | null;
+}
+
+type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  _meta?: { warnings: string[] };
+};
+
+/**
+ * Mutating Cloud tools whose requests depend on the actions of earlier ones
+ * (a server must be off before its type changes, created before volumes
+ * attach). The API rejects such requests while the resource is locked by a
+ * running action, so these tools always wait and get no `wait` argument.
+ */
+const SEQUENCED_TOOLS = new Set(['apply_infrastructure', 'create_server_from_blueprint']);
+
 /**
  * Creates a ToolRegistrar that wraps each handler with try/catch formatting.
+ * When more than one project is configured, every tool also gets an optional
+ * `project` argument selecting which profile's API clients the call uses.
+ * Tools denied by the policy are either skipped or registered as refusals,
+ * and mutating Cloud tools are checked against the label guard first.
+ * Resource references (names, label selectors) in the arguments are
+ * resolved to IDs before either happens (see resolver.ts).
+ * Mutating tools get a `dry_run` argument that plans the API request
+ * instead of sending it, and every mutating call is written to the audit log.
+ * Their output schema therefore has every field optional, alongside the
+ * fields of a dry-run plan. List tools get `fields`, `limit`, `offset` and
+ * `format` arguments, applied to their output (see list-output.ts).
+ * Warnings (e.g. a low rate-limit budget) are returned in `_meta.warnings`,
+ * never mixed into the output. Mutating Cloud tools get a `wait` argument:
+ * with `wait: false` they return once the API accepts the request, with the
+ * started actions' IDs in `action_ids`. Tools that run dependent requests
+ * in sequence always wait (see SEQUENCED_TOOLS). Polled actions are reported as
+ * progress notifications when the client sends a progress token, and
+ * cancelling the call stops the polling.
  */
-export function createRegistrar(server: McpServer): ToolRegistrar {
-  return (name, description, params, handler) => {
-    server.tool(name, description, params, async (args) => {
+export function createRegistrar(
+  server: McpServer,
+  projects: ProjectRegistry,
+  options: ToolOptions,
+): ToolRegistrar {
+  const multiProject = projects.names.length > 1;
+  const projectParam = z.enum(projects.names as [string, ...string[]])
+    .optional()
+    .describe(`Project to operate on (default: "${projects.defaultProject}"). See list_projects`);
+  const dryRunParam = z.boolean()
+    .optional()
+    .describe(
+      'Plan only: resolve references, validate inputs and estimate cost, then return the exact API request ' +
+      `instead of sending it (default: ${options.dryRunDefault})`,
+    );
+  const waitParam = z.boolean()
+    .optional()
+    .describe(
+      'Wait for the actions started by this call to finish (default: true). With false, return as soon as ' +
+      'the request is accepted; pass the returned action_ids to wait_for_actions',
+    );
+  const waitOutput = { action_ids: z.array(z.number()).optional() };
+
+  return (name, description, params, output, handler) => {
+    const decision = options.policy ? evaluatePolicy(options.policy, name) : { allowed: true };
+    if (!decision.allowed) {
+      if (options.policy?.onDeny === 'hide') return;
+      server.registerTool(name, { description: `[Denied by policy] ${description}`, inputSchema: params }, async () => ({
+        content: [{
+          type: 'text' as const,
+          text: `Error: Tool "${name}" is not permitted by the configured tool policy (${decision.reason}).`,
+        }],
+        isError: true,
+      }));
+      return;
+    }
+
+    const mutating = isMutatingTool(name);
+    const listTool = isListTool(name);
+    const waitable = mutating && toolCategories(name).includes('cloud') && !SEQUENCED_TOOLS.has(name);
+    const schema: Record<string, z.ZodTypeAny> = { ...params };
+    if (multiProject) schema.project = projectParam;
+    if (mutating) schema.dry_run = dryRunParam;
+    if (waitable) schema.wait = waitParam;
+    if (listTool) {
+      const clash = Object.keys(params).filter((key) => key in listParams);
+      if (clash.length > 0) {
+        throw new Error(`Parameters of ${name} use name(s) reserved for list tools: ${clash.join(', ')}`);
+      }
+      Object.assign(schema, listParams);
+    }
+
+    let outputSchema = z.object(output).passthrough();
+    if (listTool) outputSchema = listOutputSchema(outputSchema) as unknown as typeof outputSchema;
+    if (mutating) {
+      const clash = Object.keys(output).filter((key) => key in dryRunPlanSchema.shape || key in waitOutput);
+      if (clash.length > 0) {
+        throw new Error(`Output of ${name} uses field(s) reserved for dry-run plans and action IDs: ${clash.join(', ')}`);
+      }
+      outputSchema = outputSchema.partial().merge(dryRunPlanSchema.partial()).passthrough() as unknown as typeof outputSchema;
+      if (waitable) outputSchema = outputSchema.extend(waitOutput) as unknown as typeof outputSchema;
+    }
+
+    const invoke = async (own: Record<string, unknown>, dryRun: boolean): Promise<Record<string, unknown>> => {
+      const { cloud } = projects.current();
+      // Names and label selectors become IDs before the guard sees them
+      const args = cloud ? await resolveReferences(cloud, params, own) : own;
+      if (options.guard && cloud) {
+        await enforceLabelGuard(options.guard, cloud, name, args);
+      }
+      if (!dryRun) return handler(args);
+
+      // Nothing is sent in a dry run, so skip the confirmation step
+      const planArgs = 'confirm' in params ? { ...args, confirm: true } : args;
+      try {
+        return { ...emptyDryRunPlan(name, await handler(planArgs)) };
+      } catch (error) {
+        if (!(error instanceof DryRunInterception)) throw error;
+        return { ...await buildDryRunPlan(name, error.request, cloud) };
+      }
+    };
+
+    server.registerTool(name, { description, inputSchema: schema, outputSchema }, async (args, extra) => {
+      const { project, dry_run, wait, ...own } = args as Record<string, unknown>;
+      const { options: listOptions, rest } = listTool ? parseListOptions(own) : { options: null, rest: own };
+      const dryRun = mutating && ((dry_run as boolean | undefined) ?? options.dryRunDefault);
+      const noWait = waitable && !dryRun && wait === false;
+      const audited = mutating && options.audit !== null;
+      const actions: HetznerAction[] = [];
+      const started = Date.now();
+
+      // Progress is the sum of the polled actions' progress, so it only grows
+      // when a call waits on several actions in turn or at once
+      const progressToken = extra._meta?.progressToken;
+      const polled = new Map<number, number>();
+      const onActionProgress = progressToken === undefined ? undefined : (action: HetznerAction) => {
+        if (polled.get(action.id) === action.progress) return;
+        polled.set(action.id, action.progress);
+        const progress = [...polled.values()].reduce((sum, p) => sum + p, 0);
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            total: polled.size * 100,
+            message: `${action.command} (action ${action.id}): ${action.progress}%`,
+          },
+        }).catch(() => {});
+      };
+
+      let result: ToolResult;
       try {
-        const text = await handler(args);
-        return { content: [{ type: 'text' as const, text }] };
+        result = await runWithContext(
+          {
+            tool: name,
+            project: project as string | undefined,
+            dryRun,
+            actions: audited || noWait ? actions : undefined,
+            wait: !noWait,
+            signal: extra.signal,
+            onActionProgress,
+          },
+          async () => {
+            let raw = await invoke(rest, dryRun);
+            if (noWait) raw = { ...raw, action_ids: [...new Set(actions.map((a) => a.id))] };
+            const { data, text } = listOptions
+              ? shapeListOutput(raw, listOptions)
+              : { data: raw, text: JSON.stringify(raw, null, 2) };
+            const warning = projects.current().cloud?.rateLimitWarning();
+            return {
+              content: [{ type: 'text' as const, text }],
+              structuredContent: data,
+              ...(warning ? { _meta: { warnings: [warning] } } : {}),
+            };
+          },
+        );
       } catch (error) {
-        return {
+        result = {
           content: [{ type: 'text' as const, text: formatError(error) }],
           isError: true,
         };
       }
+
+      if (audited) {
+        const actionIds = [...new Set(actions.map((a) => a.id))];
+        const resources = new Map<string, { id: number; type: string }>();
+        for (const a of actions) {
+          for (const r of a.resources ?? []) resources.set(`${r.type}:${r.id}`, r);
+        }
+        await options.audit!.record({
+          timestamp: new Date(started).toISOString(),
+          tool: name,
+          project: (project as string | undefined) ?? projects.defaultProject,
+          arguments: rest,
+          dry_run: dryRun,
+          action_ids: actionIds,
+          resources: [...resources.values()],
+          success: !result.isError,
+          error: result.isError ? result.content[0].text : undefined,
+          duration_ms: Date.now() - started,
+        });
+      }
+      return result;
     });
   };
 }
@@ -61,7 +269,16 @@ import { registerPlacementGroupTools } from './tools/placement-groups.js';
 import { registerDatacenterTools } from './tools/datacenters.js';
 import { registerLocationTools } from './tools/locations.js';
 import { registerPricingTools } from './tools/pricing.js';
+import { registerCostTools } from './tools/costs.js';
 import { registerActionTools } from './tools/actions.js';
+import { registerRateLimitTools } from './tools/rate-limit.js';
+import { registerCacheTools } from './tools/cache.js';
+import { registerProjectTools } from './tools/projects.js';
+import { registerAuditTools } from './tools/audit.js';
+import { registerBlueprintTools } from './tools/blueprints.js';
+import { registerInfrastructureTools } from './tools/infrastructure.js';
+import { registerExportTools } from './tools/export.js';
+import { registerStorageBoxTools } from './tools/storage-boxes.js';
 
 // DNS tool registrations
 import { registerDnsZoneTools } from './tools/dns-zones.js';
@@ -80,14 +297,24 @@ import { registerRobotVswitchTools } from './tools/robot-vswitch.js';
 import { registerRobotRdnsTools } from './tools/robot-rdns.js';
 import { registerRobotTrafficTools } from './tools/robot-traffic.js';
 import { registerRobotFailoverTools } from './tools/robot-failover.js';
+import { registerRobotStorageBoxTools } from './tools/robot-storage-boxes.js';
 
 export function registerAllTools(
   server: McpServer,
-  cloud: CloudClient | null,
-  robot: RobotClient | null,
-  readOnly: boolean,
+  projects: ProjectRegistry,
+  options: ToolOptions,
 ): void {
-  const register = createRegistrar(server);
+  const register = createRegistrar(server, projects, options);
+  const { readOnly } = options;
+
+  // Clients route each call to the project selected by its `project` argument
+  const cloud = projects.hasCloud ? projects.cloud() : null;
+  const robot = projects.hasRobot ? projects.robot() : null;
+
+  registerProjectTools(register, projects);
+  if (options.audit) {
+    registerAuditTools(register, options.audit);
+  }
 
   // ── Cloud + DNS tools ──────────────────────────────────────────────────
   if (cloud) {
@@ -106,10 +333,19 @@ export function registerAllTools(
     registerCertificateTools(register, cloud, readOnly);
     registerSshKeyTools(register, cloud, readOnly);
     registerPlacementGroupTools(register, cloud, readOnly);
+    registerStorageBoxTools(register, cloud, readOnly);
     registerDatacenterTools(register, cloud);
     registerLocationTools(register, cloud);
     registerPricingTools(register, cloud);
+    registerCostTools(register, cloud);
     registerActionTools(register, cloud);
+    registerRateLimitTools(register, cloud);
+    registerCacheTools(register, cloud);
+    if (options.blueprintsDir) {
+      registerBlueprintTools(register, cloud, options.blueprintsDir, options.guard, readOnly);
+    }
+    registerInfrastructureTools(register, cloud, options.guard, readOnly);
+    registerExportTools(register, cloud);
 
     // DNS
     registerDnsZoneTools(register, cloud, readOnly);
@@ -130,5 +366,6 @@ export function registerAllTools(
     registerRobotRdnsTools(register, robot, readOnly);
     registerRobotTrafficTools(register, robot);
     registerRobotFailoverTools(register, robot, readOnly);
+    registerRobotStorageBoxTools(register, robot);
   }
 }
@@ -0,0 +1,417 @@
+/**
+ * Terraform rendering of a project snapshot (see export.ts) for the
+ * hetznercloud/hcloud provider.
+ *
+ * Every resource is followed by an `import` block with its ID, so
+ * `terraform plan` adopts the existing resources instead of creating new
+ * ones. Related resources reference each other by address; IDs of resources
+ * outside the snapshot stay literal.
+ */
+
+import { exportedRecords, type LiveLoadBalancerService, type LiveLoadBalancerTarget, type ProjectSnapshot } from './export.js';
+
+/** An HCL expression written as is, e.g. a reference to another resource. */
+class Expression {
+  constructor(readonly text: string) {}
+}
+
+type HclValue = string | number | boolean | Expression | HclValue[] | { [key: string]: HclValue };
+
+interface Block {
+  type: string;
+  labels: string[];
+  body: BodyItem[];
+}
+
+/** An attribute (`key = value`) or a nested block. */
+type BodyItem = [string, HclValue] | Block;
+
+const INDENT = '  ';
+
+/**
+ * Render the snapshot as a Terraform configuration.
+ */
+export function snapshotToTerraform(snapshot: ProjectSnapshot): string {
+  return new TerraformWriter(snapshot).render();
+}
+
+class TerraformWriter {
+  private readonly blocks: Block[] = [];
+  private readonly usedNames = new Map<string, Set<string>>();
+  /** Resource addresses by `<api collection>:<id>`. */
+  private readonly addresses = new Map<string, string>();
+
+  constructor(private readonly snapshot: ProjectSnapshot) {}
+
+  render(): string {
+    const s = this.snapshot;
+    // Name every top-level resource first, so references work in any order
+    const named: Array<[string, string, Array<{ id: number; name: string }>]> = [
+      ['ssh_keys', 'hcloud_ssh_key', s.ssh_keys],
+      ['placement_groups', 'hcloud_placement_group', s.placement_groups],
+      ['networks', 'hcloud_network', s.networks],
+      ['firewalls', 'hcloud_firewall', s.firewalls],
+      ['servers', 'hcloud_server', s.servers],
+      ['volumes', 'hcloud_volume', s.volumes],
+      ['floating_ips', 'hcloud_floating_ip', s.floating_ips],
+      ['primary_ips', 'hcloud_primary_ip', s.primary_ips],
+      ['load_balancers', 'hcloud_load_balancer', s.load_balancers],
+    ];
+    for (const [collection, type, items] of named) {
+      for (const item of items) this.addresses.set(`${collection}:${item.id}`, `${type}.${this.name(type, item.name)}`);
+    }
+    for (const c of s.certificates) {
+      const type = c.type === 'managed' ? 'hcloud_managed_certificate' : 'hcloud_uploaded_certificate';
+      this.addresses.set(`certificates:${c.id}`, `${type}.${this.name(type, c.name)}`);
+    }
+
+    this.block({ type: 'terraform', labels: [], body: [
+      { type: 'required_providers', labels: [], body: [['hcloud', { source: 'hetznercloud/hcloud' }]] },
+    ] });
+
+    for (const key of s.ssh_keys) {
+      this.resource('ssh_keys', key.id, [
+        ['name', key.name],
+        ['public_key', key.public_key.trim()],
+        ...this.labels(key.labels),
+      ]);
+    }
+
+    for (const group of s.placement_groups) {
+      this.resource('placement_groups', group.id, [
+        ['name', group.name],
+        ['type', group.type],
+        ...this.labels(group.labels),
+      ]);
+    }
+
+    for (const network of s.networks) {
+      const networkId = this.ref('networks', network.id);
+      this.resource('networks', network.id, [
+        ['name', network.name],
+        ['ip_range', network.ip_range],
+        ...this.labels(network.labels),
+      ]);
+      for (const subnet of network.subnets) {
+        const { vswitch_id: vswitchId } = subnet as { vswitch_id?: number | null };
+        this.subresource('hcloud_network_subnet', `${network.name}_${subnet.ip_range}`, `${network.id}-${subnet.ip_range}`, [
+          ['network_id', networkId],
+          ['type', subnet.type],
+          ['network_zone', subnet.network_zone],
+          ['ip_range', subnet.ip_range],
+          ...optional('vswitch_id', vswitchId),
+        ]);
+      }
+      for (const route of network.routes) {
+        this.subresource('hcloud_network_route', `${network.name}_${route.destination}`, `${network.id}-${route.destination}`, [
+          ['network_id', networkId],
+          ['destination', route.destination],
+          ['gateway', route.gateway],
+        ]);
+      }
+    }
+
+    for (const firewall of s.firewalls) {
+      // Servers are attached through their firewall_ids; only selectors are applied here
+      const selectors = firewall.applied_to.filter((a) => a.type === 'label_selector' && a.label_selector);
+      this.resource('firewalls', firewall.id, [
+        ['name', firewall.name],
+        ...this.labels(firewall.labels),
+        ...firewall.rules.map((rule): Block => ({ type: 'rule', labels: [], body: [
+          ['direction', rule.direction],
+          ['protocol', rule.protocol],
+          ...optional('port', rule.port),
+          ...(rule.source_ips?.length ? [['source_ips', rule.source_ips] as BodyItem] : []),
+          ...(rule.destination_ips?.length ? [['destination_ips', rule.destination_ips] as BodyItem] : []),
+          ...optional('description', rule.description),
+        ] })),
+        ...selectors.map((a): Block => ({ type: 'apply_to', labels: [], body: [['label_selector', a.label_selector!.selector]] })),
+      ]);
+    }
+
+    for (const server of s.servers) {
+      const group = s.placement_groups.find((g) => g.servers.includes(server.id));
+      this.resource('servers', server.id, [
+        ['name', server.name],
+        ['server_type', server.server_type.name],
+        ['image', server.image?.name ?? String(server.image?.id ?? '')],
+        ['location', server.datacenter.location.name],
+        ...(server.public_net.firewalls.length > 0
+          ? [['firewall_ids', server.public_net.firewalls.map((f) => this.ref('firewalls', f.id))] as BodyItem]
+          : []),
+        ...(group ? [['placement_group_id', this.ref('placement_groups', group.id)] as BodyItem] : []),
+        ...this.labels(server.labels),
+        ...server.private_net.map((n): Block => ({ type: 'network', labels: [], body: [
+          ['network_id', this.ref('networks', n.network)],
+          ['ip', n.ip],
+        ] })),
+      ]);
+    }
+
+    for (const volume of s.volumes) {
+      this.resource('volumes', volume.id, [
+        ['name', volume.name],
+        ['size', volume.size],
+        ...(volume.server !== null
+          ? [['server_id', this.ref('servers', volume.server)] as BodyItem]
+          : [['location', volume.location.name] as BodyItem]),
+        ...optional('format', volume.format),
+        ...this.labels(volume.labels),
+      ]);
+    }
+
+    for (const ip of s.floating_ips) {
+      this.resource('floating_ips', ip.id, [
+        ['name', ip.name],
+        ['type', ip.type],
+        ['home_location', ip.home_location.name],
+        ...(ip.server !== null ? [['server_id', this.ref('servers', ip.server)] as BodyItem] : []),
+        ...optional('description', ip.description),
+        ...this.labels(ip.labels),
+      ]);
+    }
+
+    for (const ip of s.primary_ips) {
+      this.resource('primary_ips', ip.id, [
+        ['name', ip.name],
+        ['type', ip.type],
+        ['datacenter', ip.datacenter.name],
+        ['assignee_type', ip.assignee_type],
+        ...(ip.assignee_id !== null ? [['assignee_id', this.ref('servers', ip.assignee_id)] as BodyItem] : []),
+        ['auto_delete', ip.auto_delete],
+        ...this.labels(ip.labels),
+      ]);
+    }
+
+    for (const certificate of s.certificates) {
+      const address = this.addresses.get(`certificates:${certificate.id}`)!;
+      if (certificate.type === 'managed') {
+        this.resource('certificates', certificate.id, [
+          ['name', certificate.name],
+          ['domain_names', certificate.domain_names],
+          ...this.labels(certificate.labels),
+        ]);
+        continue;
+      }
+      // The private key cannot be read back from the API
+      const variable = `${address.split('.')[1]}_private_key`;
+      this.block({ type: 'variable', labels: [variable], body: [
+        ['type', new Expression('string')],
+        ['sensitive', true],
+      ] });
+      this.resource('certificates', certificate.id, [
+        ['name', certificate.name],
+        ['certificate', certificate.certificate ?? ''],
+        ['private_key', new Expression(`var.${variable}`)],
+        ...this.labels(certificate.labels),
+      ]);
+    }
+
+    for (const lb of s.load_balancers) {
+      const lbId = this.ref('load_balancers', lb.id);
+      this.resource('load_balancers', lb.id, [
+        ['name', lb.name],
+        ['load_balancer_type', lb.load_balancer_type.name],
+        ['location', lb.location.name],
+        ...this.labels(lb.labels),
+        { type: 'algorithm', labels: [], body: [['type', lb.algorithm.type]] },
+      ]);
+      for (const n of lb.private_net) {
+        this.subresource('hcloud_load_balancer_network', `${lb.name}_${n.ip}`, `${lb.id}-${n.network}`, [
+          ['load_balancer_id', lbId],
+          ['network_id', this.ref('networks', n.network)],
+          ['ip', n.ip],
+        ]);
+      }
+      for (const service of lb.services as LiveLoadBalancerService[]) {
+        this.subresource('hcloud_load_balancer_service', `${lb.name}_${service.listen_port}`, `${lb.id}__${service.listen_port}`, [
+          ['load_balancer_id', lbId],
+          ['protocol', service.protocol],
+          ['listen_port', service.listen_port],
+          ['destination_port', service.destination_port],
+          ...optional('proxyprotocol', service.proxyprotocol),
+          ...(service.http ? [this.serviceBlock('http', service.http)] : []),
+          ...(service.health_check ? [this.serviceBlock('health_check', service.health_check)] : []),
+        ]);
+      }
+      for (const target of lb.targets as LiveLoadBalancerTarget[]) {
+        const [body, suffix, importId]: [BodyItem[], string, string] =
+          target.type === 'server'
+            ? [[['server_id', this.ref('servers', target.server!.id)]], this.nameOf('servers', target.server!.id), `server__${target.server!.id}`]
+            : target.type === 'label_selector'
+              ? [[['label_selector', target.label_selector!.selector]], target.label_selector!.selector, `label_selector__${target.label_selector!.selector}`]
+              : [[['ip', target.ip!.ip]], target.ip!.ip, `ip__${target.ip!.ip}`];
+        this.subresource('hcloud_load_balancer_target', `${lb.name}_${suffix}`, `${lb.id}__${importId}`, [
+          ['type', target.type],
+          ['load_balancer_id', lbId],
+          ...body,
+          ...optional('use_private_ip', target.use_private_ip),
+        ]);
+      }
+    }
+
+    for (const { zone, records } of s.dns_zones) {
+      const zoneName = this.name('hcloud_zone', zone.name);
+      this.block({ type: 'resource', labels: ['hcloud_zone', zoneName], body: [
+        ['name', zone.name],
+        ['mode', 'primary'],
+        ['ttl', zone.ttl],
+      ] });
+      this.importBlock(`hcloud_zone.${zoneName}`, zone.name);
+
+      // Records sharing a name and type form one record set
+      const sets = new Map<string, typeof records>();
+      for (const record of exportedRecords(records)) {
+        const key = `${record.name}/${record.type}`;
+        sets.set(key, [...(sets.get(key) ?? []), record]);
+      }
+      for (const [key, set] of sets) {
+        const { name, type, ttl } = set[0];
+        this.subresource('hcloud_zone_rrset', `${zone.name}_${name === '@' ? 'apex' : name}_${type}`, `${zone.name}/${key}`, [
+          ['zone', new Expression(`hcloud_zone.${zoneName}.name`)],
+          ['name', name],
+          ['type', type],
+          ...optional('ttl', ttl),
+          ['records', set.map((r) => ({ value: r.value }))],
+        ]);
+      }
+    }
+
+    return this.blocks.map((block) => renderBlock(block, '').join('\n')).join('\n\n') + '\n';
+  }
+
+  // ── Resources ─────────────────────────────────────────────────────────
+
+  private resource(collection: string, id: number, body: BodyItem[]): void {
+    const address = this.addresses.get(`${collection}:${id}`)!;
+    const [type, name] = address.split('.');
+    this.block({ type: 'resource', labels: [type, name], body });
+    this.importBlock(address, String(id));
+  }
+
+  private subresource(type: string, name: string, importId: string, body: BodyItem[]): void {
+    const unique = this.name(type, name);
+    this.block({ type: 'resource', labels: [type, unique], body });
+    this.importBlock(`${type}.${unique}`, importId);
+  }
+
+  private importBlock(address: string, id: string): void {
+    this.block({ type: 'import', labels: [], body: [['to', new Expression(address)], ['id', id]] });
+  }
+
+  private block(block: Block): void {
+    this.blocks.push(block);
+  }
+
+  /** `http` and `health_check` of a Load Balancer service, with certificate IDs as references. */
+  private serviceBlock(type: string, fields: Record<string, unknown>): Block {
+    const body: BodyItem[] = [];
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === null || value === undefined) continue;
+      if (key === 'certificates' && Array.isArray(value)) {
+        if (value.length > 0) body.push([key, value.map((id: number) => this.ref('certificates', id))]);
+      } else if (typeof value === 'object' && !Array.isArray(value)) {
+        body.push(this.serviceBlock(key, value as Record<string, unknown>));
+      } else if (!Array.isArray(value) || value.length > 0) {
+        body.push([key, value as HclValue]);
+      }
+    }
+    return { type, labels: [], body };
+  }
+
+  private labels(labels: Record<string, string>): BodyItem[] {
+    return Object.keys(labels).length > 0 ? [['labels', labels]] : [];
+  }
+
+  /** Reference to the ID of an exported resource, or the literal ID if it is not part of the snapshot. */
+  private ref(collection: string, id: number): HclValue {
+    const address = this.addresses.get(`${collection}:${id}`);
+    return address ? new Expression(`${address}.id`) : id;
+  }
+
+  private nameOf(collection: string, id: number): string {
+    return this.addresses.get(`${collection}:${id}`)?.split('.')[1] ?? String(id);
+  }
+
+  /** A Terraform resource name for `name`, unique within `type`. */
+  private name(type: string, name: string): string {
+    let base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'resource';
+    if (/^\d/.test(base)) base = `r_${base}`;
+    const used = this.usedNames.get(type) ?? new Set<string>();
+    this.usedNames.set(type, used);
+    let unique = base;
+    for (let i = 2; used.has(unique); i++) unique = `${base}_${i}`;
+    used.add(unique);
+    return unique;
+  }
+}
+
+function optional(key: string, value: HclValue | null | undefined): BodyItem[] {
+  return value === null || value === undefined ? [] : [[key, value]];
+}
+
+// ── Rendering ───────────────────────────────────────────────────────────────
+
+function renderBlock(block: Block, indent: string): string[] {
+  const header = [block.type, ...block.labels.map(quote)].join(' ');
+  const inner = indent + INDENT;
+  const lines = [`${indent}${header} {`];
+
+  // Align `=` across each run of single-line attributes, as terraform fmt does
+  let run: Array<[string, string]> = [];
+  const flush = () => {
+    const width = Math.max(...run.map(([key]) => key.length));
+    for (const [key, value] of run) lines.push(`${inner}${key.padEnd(width)} = ${value}`);
+    run = [];
+  };
+
+  block.body.forEach((item, index) => {
+    if (!Array.isArray(item)) {
+      if (run.length > 0) flush();
+      if (index > 0) lines.push('');
+      lines.push(...renderBlock(item, inner));
+      return;
+    }
+    const [key, value] = item;
+    if (index > 0 && !Array.isArray(block.body[index - 1])) lines.push('');
+    const rendered = renderValue(value, inner, false);
+    if (rendered.includes('\n')) {
+      if (run.length > 0) flush();
+      lines.push(`${inner}${key} = ${rendered}`);
+    } else {
+      run.push([key, rendered]);
+    }
+  });
+  if (run.length > 0) flush();
+
+  lines.push(`${indent}}`);
+  return lines;
+}
+
+/** Objects are written across lines unless they appear inside a list. */
+function renderValue(value: HclValue, indent: string, inline: boolean): string {
+  if (value instanceof Expression) return value.text;
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map((item) => renderValue(item, indent, true)).join(', ')}]`;
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  if (inline) return `{ ${entries.map(([key, item]) => `${objectKey(key)} = ${renderValue(item, indent, true)}`).join(', ')} }`;
+  const width = Math.max(...entries.map(([key]) => objectKey(key).length));
+  const inner = indent + INDENT;
+  return [
+    '{',
+    ...entries.map(([key, item]) => `${inner}${objectKey(key).padEnd(width)} = ${renderValue(item, inner, false)}`),
+    `${indent}}`,
+  ].join('\n');
+}
+
+function objectKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : quote(key);
+}
+
+/** A JSON string with template sequences escaped, which HCL reads back unchanged. */
+function quote(value: string): string {
+  return JSON.stringify(value).replace(/\$\{/g, '$${').replace(/%\{/g, '%%{');
+}
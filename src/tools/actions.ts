@@ -1,11 +1,12 @@
 /**
- * Hetzner Cloud Action tools — read-only.
+ * Hetzner Cloud Action tools — read-only lookups and waiting on actions.
  */
 
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { HetznerAction } from '../clients/common.js';
+import { HetznerApiError, type HetznerAction } from '../clients/common.js';
+import { actionSchema } from '../types/cloud.js';
 
 export function registerActionTools(register: ToolRegistrar, cloud: CloudClient): void {
   // NOTE: list_actions removed — Hetzner deprecated the global /actions endpoint (410 Gone)
@@ -17,12 +18,39 @@ export function registerActionTools(register: ToolRegistrar, cloud: CloudClient)
     {
       id: z.number().describe('Action ID'),
     },
+    actionSchema.shape,
     async (args) => {
       const result = await cloud.request<{ action: HetznerAction }>(`/actions/${args.id}`);
-      let output = JSON.stringify(result.action, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.action;
+    },
+  );
+
+  register(
+    'wait_for_actions',
+    'Wait for actions to finish, e.g. those returned in action_ids by a call made with wait=false. ' +
+    'Actions are polled concurrently; progress is reported while waiting.',
+    {
+      ids: z.array(z.number().int()).min(1).describe('Action IDs to wait for'),
+      timeout_seconds: z.number().int().positive().default(300).describe('Maximum time to wait (default: 300)'),
+    },
+    {
+      actions: z.array(actionSchema),
+      finished: z.boolean().describe('Whether every action finished (success or error) within the timeout'),
+    },
+    async (args) => {
+      const ids = [...new Set(args.ids as number[])];
+      const timeoutMs = (args.timeout_seconds as number) * 1000;
+      const actions = await Promise.all(ids.map(async (id) => {
+        try {
+          return await cloud.pollAction(id, timeoutMs);
+        } catch (error) {
+          if (!(error instanceof HetznerApiError) || error.code !== 'POLL_TIMEOUT') throw error;
+          // Still running: report its latest state
+          const result = await cloud.request<{ action: HetznerAction }>(`/actions/${id}`);
+          return result.action;
+        }
+      }));
+      return { actions, finished: actions.every((a) => a.status !== 'running') };
     },
   );
 }
@@ -0,0 +1,45 @@
+/**
+ * Audit tools — query the audit log of mutating tool calls.
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { AuditLog } from '../audit.js';
+
+const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  project: z.string(),
+  arguments: z.record(z.unknown()),
+  dry_run: z.boolean(),
+  action_ids: z.array(z.number()),
+  resources: z.array(z.object({ id: z.number(), type: z.string() })),
+  success: z.boolean(),
+  error: z.string().optional(),
+  duration_ms: z.number(),
+});
+
+export function registerAuditTools(register: ToolRegistrar, audit: AuditLog): void {
+  register(
+    'get_audit_log',
+    'Query the audit log of mutating tool calls (arguments with secrets redacted, action IDs, success/error). Returns the most recent matching entries.',
+    {
+      tool: z.string().optional().describe('Only entries for this tool (e.g. delete_server)'),
+      resource_id: z.union([z.number(), z.string()]).optional().describe('Only entries whose arguments, actions or affected resources mention this ID'),
+      since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this time (ISO 8601)'),
+      until: z.string().datetime({ offset: true }).optional().describe('Only entries at or before this time (ISO 8601)'),
+      limit: z.number().int().positive().max(1000).default(50).describe('Maximum number of entries to return (newest, up to 1000)'),
+    },
+    { entries: z.array(auditEntrySchema) },
+    async (args) => {
+      const entries = await audit.query({
+        tool: args.tool as string | undefined,
+        resource_id: args.resource_id as number | string | undefined,
+        since: args.since as string | undefined,
+        until: args.until as string | undefined,
+        limit: args.limit as number,
+      });
+      return { entries };
+    },
+  );
+}
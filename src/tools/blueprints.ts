@@ -0,0 +1,116 @@
+/**
+ * Blueprint tools — list, validate and provision servers from the blueprint
+ * files in HETZNER_BLUEPRINTS_DIR (see blueprints.ts).
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+import type { LabelGuardConfig } from '../guards.js';
+import {
+  findBlueprint,
+  instantiateBlueprint,
+  loadBlueprints,
+  planBlueprint,
+  provisionBlueprint,
+} from '../blueprints.js';
+import { cloudServerSchema, labelsInputSchema } from '../types/cloud.js';
+
+const blueprintStepSchema = z.object({
+  type: z.enum(['ssh_key', 'placement_group', 'network', 'firewall', 'server', 'volume']),
+  name: z.string(),
+  action: z.enum(['create', 'reuse', 'attach']),
+  id: z.number().nullable(),
+});
+
+export function registerBlueprintTools(
+  register: ToolRegistrar,
+  cloud: CloudClient,
+  dir: string,
+  guard: LabelGuardConfig | null,
+  readOnly: boolean,
+): void {
+  register(
+    'list_blueprints',
+    'List the server blueprints available for create_server_from_blueprint, and any blueprint files that failed to load.',
+    {},
+    {
+      blueprints: z.array(z.object({
+        name: z.string(),
+        file: z.string(),
+        description: z.string().nullable(),
+        server_type: z.string(),
+        image: z.union([z.string(), z.number()]),
+        location: z.string().nullable(),
+      })),
+      errors: z.array(z.object({ file: z.string(), message: z.string() })),
+    },
+    async () => {
+      const catalog = loadBlueprints(dir);
+      return {
+        blueprints: catalog.blueprints.map((b) => ({
+          name: b.name,
+          file: b.file,
+          description: b.spec.description ?? null,
+          server_type: b.spec.server_type,
+          image: b.spec.image,
+          location: b.spec.location ?? b.spec.datacenter ?? null,
+        })),
+        errors: catalog.errors,
+      };
+    },
+  );
+
+  register(
+    'validate_blueprint',
+    'Check a blueprint against the project without changing anything: server type, image, location, and every ' +
+    'referenced SSH key, firewall, network, volume and placement group. Returns the steps create_server_from_blueprint would take.',
+    {
+      blueprint: z.string().describe('Blueprint name (see list_blueprints)'),
+      name: z.string().optional().describe('Server name to check, also used for {{name}} (default: the blueprint name)'),
+      location: z.string().optional().describe('Location overriding the blueprint\'s location or datacenter'),
+    },
+    {
+      blueprint: z.string(),
+      valid: z.boolean(),
+      errors: z.array(z.string()),
+      warnings: z.array(z.string()),
+      steps: z.array(blueprintStepSchema),
+    },
+    async (args) => {
+      const blueprint = findBlueprint(dir, args.blueprint as string);
+      const serverName = (args.name as string | undefined) ?? blueprint.name;
+      const spec = instantiateBlueprint(blueprint, serverName, { location: args.location as string | undefined });
+      const plan = await planBlueprint(cloud, serverName, spec, guard);
+      return { blueprint: blueprint.name, valid: plan.errors.length === 0, ...plan };
+    },
+  );
+
+  if (!readOnly) {
+    register(
+      'create_server_from_blueprint',
+      'Create a server from a blueprint. Referenced resources are resolved by name, ID or label selector; inline ' +
+      'placement groups, networks, firewalls and volumes are reused by name or created, in dependency order. ' +
+      'Fails without changes if validate_blueprint would report errors.',
+      {
+        blueprint: z.string().describe('Blueprint name (see list_blueprints)'),
+        name: z.string().describe('Name of the server, also substituted for {{name}} in the blueprint'),
+        location: z.string().optional().describe('Location overriding the blueprint\'s location or datacenter'),
+        labels: labelsInputSchema.optional().describe('Labels added to the blueprint\'s server labels (e.g. {"env":"staging"})'),
+      },
+      {
+        server: cloudServerSchema,
+        root_password: z.string().nullable(),
+        steps: z.array(blueprintStepSchema),
+      },
+      async (args) => {
+        const blueprint = findBlueprint(dir, args.blueprint as string);
+        const spec = instantiateBlueprint(blueprint, args.name as string, {
+          location: args.location as string | undefined,
+          labels: args.labels as Record<string, string> | undefined,
+        });
+        return provisionBlueprint(cloud, args.name as string, spec, guard);
+      },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Cache tools — inspect and drop cached Cloud catalog responses.
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+
+export function registerCacheTools(register: ToolRegistrar, cloud: CloudClient): void {
+  register(
+    'clear_cache',
+    'Clear cached Cloud catalog responses (server types, locations, datacenters, ISOs, load balancer types, pricing) so the next lookup fetches fresh data. Returns the number of entries removed and the cache hit/miss counters.',
+    {
+      path: z.string().optional().describe('Only clear entries for this endpoint, e.g. "/server_types" (default: everything)'),
+    },
+    { cleared: z.number(), entries: z.number(), hits: z.number(), misses: z.number() },
+    async (args) => {
+      const cleared = cloud.clearCache(args.path as string | undefined);
+      return { cleared, ...cloud.cacheStats() };
+    },
+  );
+}
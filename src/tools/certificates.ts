@@ -5,8 +5,16 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudCertificate, ActionResponse, ActionsResponse } from '../types/cloud.js';
+import {
+  actionSchema,
+  cloudCertificateSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type ActionsResponse,
+  type CloudCertificate,
+} from '../types/cloud.js';
 import type { HetznerAction } from '../clients/common.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerCertificateTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -20,6 +28,7 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
       type: z.string().optional().describe('Filter by type: uploaded or managed'),
       sort: z.string().optional().describe('Sort by field (id, name, created — add :asc or :desc)'),
     },
+    { certificates: z.array(cloudCertificateSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
@@ -28,25 +37,20 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
         sort: args.sort as string | undefined,
       };
       const certs = await cloud.requestAll<CloudCertificate>('/certificates', 'certificates', params);
-      let output = JSON.stringify(certs, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { certificates: certs };
     },
   );
 
   register(
     'get_certificate',
-    'Get detailed information about a specific certificate by ID.',
+    'Get detailed information about a specific certificate by ID or name.',
     {
-      id: z.number().describe('Certificate ID'),
+      id: resourceRef('certificate', 'Certificate'),
     },
+    cloudCertificateSchema.shape,
     async (args) => {
       const result = await cloud.request<{ certificate: CloudCertificate }>(`/certificates/${args.id}`);
-      let output = JSON.stringify(result.certificate, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.certificate;
     },
   );
 
@@ -54,14 +58,12 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
     'list_certificate_actions',
     'List all actions for a specific certificate.',
     {
-      id: z.number().describe('Certificate ID'),
+      id: resourceRef('certificate', 'Certificate'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
       const result = await cloud.request<ActionsResponse>(`/certificates/${args.id}/actions`);
-      let output = JSON.stringify(result.actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { actions: result.actions };
     },
   );
 
@@ -77,8 +79,9 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
         certificate: z.string().optional().describe('PEM-encoded certificate (required for uploaded type)'),
         private_key: z.string().optional().describe('PEM-encoded private key (required for uploaded type)'),
         domain_names: z.string().optional().describe('Comma-separated domain names (required for managed type)'),
-        labels: z.string().optional().describe('Labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional(),
       },
+      cloudCertificateSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
@@ -90,7 +93,7 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
           body.domain_names = (args.domain_names as string).split(',').map((s) => s.trim());
         }
         if (args.labels) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{
@@ -102,10 +105,7 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
           await cloud.pollAction(result.action.id);
         }
 
-        let output = JSON.stringify(result.certificate, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.certificate;
       },
     );
 
@@ -113,25 +113,23 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
       'update_certificate',
       'Update a certificate\'s name or labels.',
       {
-        id: z.number().describe('Certificate ID'),
+        id: resourceRef('certificate', 'Certificate'),
         name: z.string().optional().describe('New certificate name'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"staging"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudCertificateSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ certificate: CloudCertificate }>(`/certificates/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.certificate, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.certificate;
       },
     );
 
@@ -139,20 +137,16 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
       'delete_certificate',
       'Delete a certificate permanently. Requires confirm=true.',
       {
-        id: z.number().describe('Certificate ID'),
+        id: resourceRef('certificate', 'Certificate'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this certificate.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this certificate.');
         }
-        const result = await cloud.request<Record<string, unknown>>(`/certificates/${args.id}`, {
-          method: 'DELETE',
-        });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        await cloud.request(`/certificates/${args.id}`, { method: 'DELETE' });
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -160,8 +154,9 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
       'retry_certificate_issuance',
       'Retry issuance of a managed certificate that failed. Only applicable to managed certificates.',
       {
-        id: z.number().describe('Certificate ID (must be a managed certificate)'),
+        id: resourceRef('certificate', 'Certificate, must be a managed certificate'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/certificates/${args.id}/actions/retry`, {
           method: 'POST',
@@ -170,10 +165,7 @@ export function registerCertificateTools(register: ToolRegistrar, cloud: CloudCl
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
   }
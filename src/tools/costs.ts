@@ -0,0 +1,123 @@
+/**
+ * Cost estimation tools — read-only. Price the running project per resource
+ * and the effect of planned changes, with totals per type and per label
+ * (see costs.ts).
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+import {
+  costChangeSchema,
+  fetchPricing,
+  priceChange,
+  projectCostItems,
+  signedAmount,
+  summarizeCosts,
+  type CostChange,
+} from '../costs.js';
+
+const groupByParam = z.array(z.string()).default([])
+  .describe('Label keys to break the totals down by, e.g. ["env", "team"]');
+
+const summarySchema = {
+  monthly_gross: z.number(),
+  by_type: z.record(z.string(), z.number()),
+  by_label: z.record(z.string(), z.record(z.string(), z.number())),
+};
+
+export function registerCostTools(register: ToolRegistrar, cloud: CloudClient): void {
+  register(
+    'estimate_project_cost',
+    'Estimate the monthly gross cost of the project: servers, server backups, volumes, floating and primary IPs, ' +
+    'Load Balancers, snapshots and traffic beyond the included amount, each at the price of its location. ' +
+    'Returns one line item per billed resource and totals per type and per value of the group_by label keys.',
+    {
+      label_selector: z.string().optional().describe('Only price resources matching this label selector'),
+      group_by: groupByParam,
+    },
+    {
+      currency: z.string(),
+      ...summarySchema,
+      items: z.array(z.object({
+        type: z.string(),
+        id: z.number(),
+        name: z.string(),
+        location: z.string().nullable(),
+        detail: z.string(),
+        monthly_gross: z.number().nullable(),
+        labels: z.record(z.string(), z.string()),
+      })),
+      unpriced: z.array(z.string()).describe('Items without a price (unknown type or unavailable in location)'),
+    },
+    async (args) => {
+      const pricing = await fetchPricing(cloud);
+      const items = await projectCostItems(cloud, pricing, args.label_selector as string | undefined);
+      return {
+        currency: pricing.currency,
+        ...summarizeCosts(items, args.group_by as string[]),
+        items,
+        unpriced: items.filter((i) => i.monthly_gross === null).map((i) => `${i.type} ${i.name}: ${i.detail}`),
+      };
+    },
+  );
+
+  register(
+    'estimate_change_cost',
+    'Estimate how a list of planned changes (creating, resizing, retyping or deleting servers, volumes, IPs and ' +
+    'Load Balancers, or toggling server backups) would change the monthly gross cost of the project, at the prices ' +
+    'of the affected locations. Returns the price lines of each change, the total delta per type and per value of ' +
+    'the group_by label keys, and the current and projected project totals.',
+    {
+      changes: z.array(costChangeSchema).min(1).describe('Planned changes, each with a "change" kind'),
+      group_by: groupByParam,
+    },
+    {
+      currency: z.string(),
+      current_monthly_gross: z.number(),
+      projected_monthly_gross: z.number(),
+      delta: z.object(summarySchema),
+      changes: z.array(z.object({
+        change: z.string(),
+        lines: z.array(z.object({
+          detail: z.string(),
+          location: z.string().nullable(),
+          monthly_gross: z.number().nullable(),
+        })),
+      })),
+      unpriced: z.array(z.string()).describe('Price lines without a price (unknown type or unavailable in location)'),
+    },
+    async (args) => {
+      const pricing = await fetchPricing(cloud);
+      const current = summarizeCosts(await projectCostItems(cloud, pricing));
+
+      const changes = [];
+      const lines = [];
+      for (const change of args.changes as CostChange[]) {
+        const priced = await priceChange(cloud, pricing, change);
+        lines.push(...priced.map((line) => ({ line, type: change.change })));
+        changes.push({
+          change: change.change,
+          lines: priced.map((line) => ({
+            detail: line.detail,
+            location: line.price?.location ?? null,
+            monthly_gross: signedAmount(line),
+          })),
+        });
+      }
+
+      const delta = summarizeCosts(
+        lines.map(({ line, type }) => ({ type, monthly_gross: signedAmount(line), labels: line.labels })),
+        args.group_by as string[],
+      );
+      return {
+        currency: pricing.currency,
+        current_monthly_gross: current.monthly_gross,
+        projected_monthly_gross: Math.round((current.monthly_gross + delta.monthly_gross) * 100) / 100,
+        delta,
+        changes,
+        unpriced: lines.filter(({ line }) => !line.price).map(({ type, line }) => `${type}: ${line.detail}`),
+      };
+    },
+  );
+}
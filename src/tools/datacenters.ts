@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudDatacenter } from '../types/cloud.js';
+import { cloudDatacenterSchema, type CloudDatacenter } from '../types/cloud.js';
 
 export function registerDatacenterTools(register: ToolRegistrar, cloud: CloudClient): void {
   register(
@@ -15,16 +15,14 @@ export function registerDatacenterTools(register: ToolRegistrar, cloud: CloudCli
       name: z.string().optional().describe('Filter by datacenter name (e.g. fsn1-dc14)'),
       sort: z.string().optional().describe('Sort by field (id, name — add :asc or :desc)'),
     },
+    { datacenters: z.array(cloudDatacenterSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
         sort: args.sort as string | undefined,
       };
       const datacenters = await cloud.requestAll<CloudDatacenter>('/datacenters', 'datacenters', params);
-      let output = JSON.stringify(datacenters, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { datacenters };
     },
   );
 
@@ -34,12 +32,10 @@ export function registerDatacenterTools(register: ToolRegistrar, cloud: CloudCli
     {
       id: z.number().describe('Datacenter ID'),
     },
+    cloudDatacenterSchema.shape,
     async (args) => {
       const result = await cloud.request<{ datacenter: CloudDatacenter }>(`/datacenters/${args.id}`);
-      let output = JSON.stringify(result.datacenter, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.datacenter;
     },
   );
 }
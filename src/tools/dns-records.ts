@@ -5,7 +5,18 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { DnsRecordsResponse, DnsRecordResponse, DnsBulkCreateResponse } from '../types/dns.js';
+import {
+  dnsBulkCreateResponseSchema,
+  dnsBulkUpdateResponseSchema,
+  dnsRecordInputSchema,
+  dnsRecordSchema,
+  dnsRecordUpdateInputSchema,
+  dnsRecordsResponseSchema,
+  type DnsBulkCreateResponse,
+  type DnsBulkUpdateResponse,
+  type DnsRecordResponse,
+  type DnsRecordsResponse,
+} from '../types/dns.js';
 
 export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -18,6 +29,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
       page: z.number().optional().describe('Page number for pagination'),
       per_page: z.number().optional().describe('Number of results per page (max 100)'),
     },
+    dnsRecordsResponseSchema.shape,
     async (args) => {
       const params: Record<string, string | number | undefined> = {
         zone_id: args.zone_id as string,
@@ -25,10 +37,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
         per_page: args.per_page as number | undefined,
       };
       const result = await cloud.request<DnsRecordsResponse>('/dns/records', { params });
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result;
     },
   );
 
@@ -38,12 +47,10 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
     {
       id: z.string().describe('DNS record ID'),
     },
+    dnsRecordSchema.shape,
     async (args) => {
       const result = await cloud.request<DnsRecordResponse>(`/dns/records/${args.id}`);
-      let output = JSON.stringify(result.record, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.record;
     },
   );
 
@@ -60,6 +67,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
         value: z.string().describe('Record value (e.g. IP address, domain, text content)'),
         ttl: z.number().optional().describe('TTL in seconds (e.g. 300, 3600, 86400)'),
       },
+      dnsRecordSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           zone_id: args.zone_id,
@@ -73,10 +81,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
           method: 'POST',
           body,
         });
-        let output = JSON.stringify(result.record, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.record;
       },
     );
 
@@ -91,6 +96,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
         value: z.string().describe('Record value (e.g. IP address, domain, text content)'),
         ttl: z.number().optional().describe('TTL in seconds (e.g. 300, 3600, 86400)'),
       },
+      dnsRecordSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           zone_id: args.zone_id,
@@ -104,10 +110,7 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.record, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.record;
       },
     );
 
@@ -118,66 +121,45 @@ export function registerDnsRecordTools(register: ToolRegistrar, cloud: CloudClie
         id: z.string().describe('DNS record ID to delete'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { success: z.boolean(), deleted: z.string() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this DNS record.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this DNS record.');
         }
         await cloud.request(`/dns/records/${args.id}`, { method: 'DELETE' });
-        let output = JSON.stringify({ success: true, deleted: args.id }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { success: true, deleted: args.id as string };
       },
     );
 
     register(
       'bulk_create_dns_records',
-      'Create multiple DNS records at once. Accepts a JSON array of record objects.',
+      'Create multiple DNS records at once.',
       {
-        records: z.string().describe('JSON array of record objects, each with: zone_id (string), type (string), name (string), value (string), and optional ttl (number). Example: [{"zone_id":"abc","type":"A","name":"www","value":"1.2.3.4","ttl":300}]'),
+        records: z.array(dnsRecordInputSchema).describe('Records to create'),
       },
+      dnsBulkCreateResponseSchema.shape,
       async (args) => {
-        const records = JSON.parse(args.records as string) as Array<{
-          zone_id: string;
-          type: string;
-          name: string;
-          value: string;
-          ttl?: number;
-        }>;
         const result = await cloud.request<DnsBulkCreateResponse>('/dns/records/bulk', {
           method: 'POST',
-          body: { records },
+          body: { records: args.records },
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
     register(
       'bulk_update_dns_records',
-      'Update multiple DNS records at once. Accepts a JSON array of record objects with IDs.',
+      'Update multiple DNS records at once.',
       {
-        records: z.string().describe('JSON array of record objects, each with: id (string), zone_id (string), type (string), name (string), value (string), and optional ttl (number). Example: [{"id":"rec1","zone_id":"abc","type":"A","name":"www","value":"1.2.3.4","ttl":300}]'),
+        records: z.array(dnsRecordUpdateInputSchema).describe('Records to update, identified by id'),
       },
+      dnsBulkUpdateResponseSchema.shape,
       async (args) => {
-        const records = JSON.parse(args.records as string) as Array<{
-          id: string;
-          zone_id: string;
-          type: string;
-          name: string;
-          value: string;
-          ttl?: number;
-        }>;
-        const result = await cloud.request<{ records: unknown[] }>('/dns/records/bulk', {
+        const result = await cloud.request<DnsBulkUpdateResponse>('/dns/records/bulk', {
           method: 'PUT',
-          body: { records },
+          body: { records: args.records },
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
   }
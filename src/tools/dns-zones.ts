@@ -5,7 +5,15 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { DnsZone, DnsZonesResponse, DnsZoneResponse, DnsValidationResponse } from '../types/dns.js';
+import {
+  dnsValidationResponseSchema,
+  dnsZoneSchema,
+  dnsZonesResponseSchema,
+  type DnsValidationResponse,
+  type DnsZone,
+  type DnsZoneResponse,
+  type DnsZonesResponse,
+} from '../types/dns.js';
 
 export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,6 +27,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
       page: z.number().optional().describe('Page number for pagination'),
       per_page: z.number().optional().describe('Number of results per page (max 100)'),
     },
+    dnsZonesResponseSchema.shape,
     async (args) => {
       const params: Record<string, string | number | undefined> = {
         name: args.name as string | undefined,
@@ -27,10 +36,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
         per_page: args.per_page as number | undefined,
       };
       const result = await cloud.request<DnsZonesResponse>('/dns/zones', { params });
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result;
     },
   );
 
@@ -40,12 +46,10 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
     {
       id: z.string().describe('DNS zone ID'),
     },
+    dnsZoneSchema.shape,
     async (args) => {
       const result = await cloud.request<DnsZoneResponse>(`/dns/zones/${args.id}`);
-      let output = JSON.stringify(result.zone, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.zone;
     },
   );
 
@@ -55,12 +59,10 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
     {
       id: z.string().describe('DNS zone ID to export'),
     },
+    { zone_file: z.string() },
     async (args) => {
       const result = await cloud.request<{ zone_file: string }>(`/dns/zones/${args.id}/export`);
-      let output = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result;
     },
   );
 
@@ -74,6 +76,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
         name: z.string().describe('Domain name for the zone (e.g. example.com)'),
         ttl: z.number().optional().describe('Default TTL for the zone in seconds (e.g. 86400)'),
       },
+      dnsZoneSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
@@ -84,10 +87,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
           method: 'POST',
           body,
         });
-        let output = JSON.stringify(result.zone, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.zone;
       },
     );
 
@@ -99,6 +99,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
         name: z.string().optional().describe('New domain name for the zone'),
         ttl: z.number().optional().describe('New default TTL for the zone in seconds'),
       },
+      dnsZoneSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
@@ -108,10 +109,7 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.zone, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.zone;
       },
     );
 
@@ -122,15 +120,13 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
         id: z.string().describe('DNS zone ID to delete'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { success: z.boolean(), deleted: z.string() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this DNS zone and all its records.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this DNS zone and all its records.');
         }
         await cloud.request(`/dns/zones/${args.id}`, { method: 'DELETE' });
-        let output = JSON.stringify({ success: true, deleted: args.id }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { success: true, deleted: args.id as string };
       },
     );
 
@@ -140,15 +136,13 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
       {
         zone_file: z.string().describe('Zone file content as plain text to validate'),
       },
+      dnsValidationResponseSchema.shape,
       async (args) => {
         const result = await cloud.request<DnsValidationResponse>('/dns/zones/file/validate', {
           method: 'POST',
           body: { zone_file: args.zone_file },
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -159,15 +153,13 @@ export function registerDnsZoneTools(register: ToolRegistrar, cloud: CloudClient
         id: z.string().describe('DNS zone ID to import records into'),
         zone_file: z.string().describe('Zone file content as plain text to import'),
       },
+      { zone: dnsZoneSchema },
       async (args) => {
         const result = await cloud.request<{ zone: DnsZone }>(`/dns/zones/${args.id}/import`, {
           method: 'POST',
           body: { zone_file: args.zone_file },
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
   }
@@ -0,0 +1,39 @@
+/**
+ * Project export tool — snapshot every Cloud resource and DNS zone as an
+ * infrastructure document or as Terraform configuration (see export.ts).
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+import { fetchProjectSnapshot, snapshotCounts, snapshotToDocument } from '../export.js';
+import { infrastructureSchema } from '../infrastructure.js';
+import { snapshotToTerraform } from '../terraform.js';
+
+export function registerExportTools(register: ToolRegistrar, cloud: CloudClient): void {
+  register(
+    'export_project',
+    'Export every server, network, firewall, Load Balancer, volume, floating IP, primary IP, certificate, SSH key, ' +
+    'placement group and DNS zone of the project. format=json returns an infrastructure document that ' +
+    'plan_infrastructure accepts as is, plus the resources such documents do not manage; format=terraform returns ' +
+    'hcloud provider configuration with an import block for each resource.',
+    {
+      format: z.enum(['json', 'terraform']).default('json').describe('Output format (default: json)'),
+    },
+    {
+      format: z.enum(['json', 'terraform']),
+      document: infrastructureSchema.optional(),
+      other_resources: z.record(z.string(), z.array(z.record(z.string(), z.unknown()))).optional(),
+      terraform: z.string().optional(),
+      counts: z.record(z.string(), z.number()),
+    },
+    async (args) => {
+      const snapshot = await fetchProjectSnapshot(cloud);
+      const counts = snapshotCounts(snapshot);
+      if (args.format === 'terraform') {
+        return { format: 'terraform' as const, terraform: snapshotToTerraform(snapshot), counts };
+      }
+      return { format: 'json' as const, ...snapshotToDocument(snapshot), counts };
+    },
+  );
+}
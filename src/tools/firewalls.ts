@@ -5,7 +5,17 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { ActionsResponse } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudFirewallSchema,
+  firewallResourceInputSchema,
+  firewallRuleInputSchema,
+  labelsInputSchema,
+  type ActionsResponse,
+  type CloudFirewall,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -18,31 +28,27 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       label_selector: z.string().optional().describe('Filter by label selector (e.g. "env=prod")'),
       sort: z.string().optional().describe('Sort results (id, id:asc, id:desc, name, name:asc, name:desc, created, created:asc, created:desc)'),
     },
+    { firewalls: z.array(cloudFirewallSchema) },
     async (args) => {
-      const firewalls = await cloud.requestAll('/firewalls', 'firewalls', {
+      const firewalls = await cloud.requestAll<CloudFirewall>('/firewalls', 'firewalls', {
         name: args.name as string | undefined,
         label_selector: args.label_selector as string | undefined,
         sort: args.sort as string | undefined,
       });
-      let output = JSON.stringify(firewalls, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { firewalls };
     },
   );
 
   register(
     'get_firewall',
-    'Get details of a specific firewall by ID',
+    'Get details of a specific firewall by ID or name',
     {
-      id: z.number().describe('Firewall ID'),
+      id: resourceRef('firewall', 'Firewall'),
     },
+    { firewall: cloudFirewallSchema },
     async (args) => {
-      const result = await cloud.request(`/firewalls/${args.id}`);
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const result = await cloud.request<{ firewall: CloudFirewall }>(`/firewalls/${args.id}`);
+      return result;
     },
   );
 
@@ -50,14 +56,12 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
     'list_firewall_actions',
     'List all actions for a specific firewall',
     {
-      id: z.number().describe('Firewall ID'),
+      id: resourceRef('firewall', 'Firewall'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
-      const actions = await cloud.requestAll(`/firewalls/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const actions = await cloud.requestAll<HetznerAction>(`/firewalls/${args.id}/actions`, 'actions');
+      return { actions };
     },
   );
 
@@ -69,21 +73,19 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'Create a new firewall',
       {
         name: z.string().describe('Name of the firewall'),
-        rules: z.string().optional().describe('JSON array of firewall rules (e.g. \'[{"direction":"in","protocol":"tcp","port":"80","source_ips":["0.0.0.0/0","::/0"]}]\')'),
-        apply_to: z.string().optional().describe('JSON array of resources to apply to (e.g. \'[{"type":"server","server":{"id":123}}]\')'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        rules: z.array(firewallRuleInputSchema).optional().describe('Firewall rules'),
+        apply_to: z.array(firewallResourceInputSchema).optional().describe('Servers or label selectors to apply the firewall to'),
+        labels: labelsInputSchema.optional(),
       },
+      { firewall: cloudFirewallSchema, actions: z.array(actionSchema) },
       async (args) => {
         const body: Record<string, unknown> = { name: args.name };
-        if (args.rules) body.rules = JSON.parse(args.rules as string);
-        if (args.apply_to) body.apply_to = JSON.parse(args.apply_to as string);
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.rules) body.rules = args.rules;
+        if (args.apply_to) body.apply_to = args.apply_to;
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request('/firewalls', { method: 'POST', body });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        const result = await cloud.request<{ firewall: CloudFirewall; actions: HetznerAction[] }>('/firewalls', { method: 'POST', body });
+        return result;
       },
     );
 
@@ -91,23 +93,21 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'update_firewall',
       'Update a firewall (name and/or labels)',
       {
-        id: z.number().describe('Firewall ID'),
+        id: resourceRef('firewall', 'Firewall'),
         name: z.string().optional().describe('New firewall name'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { firewall: cloudFirewallSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name) body.name = args.name;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request(`/firewalls/${args.id}`, {
+        const result = await cloud.request<{ firewall: CloudFirewall }>(`/firewalls/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -115,18 +115,16 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'delete_firewall',
       'Delete a firewall permanently',
       {
-        id: z.number().describe('Firewall ID'),
+        id: resourceRef('firewall', 'Firewall'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return '⚠️ Please set confirm to true to delete this firewall. This action is irreversible.';
+          throw new Error('⚠️ Please set confirm to true to delete this firewall. This action is irreversible.');
         }
         await cloud.request(`/firewalls/${args.id}`, { method: 'DELETE' });
-        let output = `Firewall ${args.id} deleted successfully.`;
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -134,24 +132,21 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'set_firewall_rules',
       'Set all rules for a firewall (replaces existing rules)',
       {
-        id: z.number().describe('Firewall ID'),
-        rules: z.string().describe('JSON array of firewall rules. Each rule: {direction: "in"|"out", protocol: "tcp"|"udp"|"icmp"|"esp"|"gre", port?: "80" or "1024-5000" (required for tcp/udp), source_ips?: ["0.0.0.0/0","::/0"], destination_ips?: ["0.0.0.0/0","::/0"], description?: "string"}'),
+        id: resourceRef('firewall', 'Firewall'),
+        rules: z.array(firewallRuleInputSchema).describe('Firewall rules, replacing the existing ones'),
       },
+      { actions: z.array(actionSchema) },
       async (args) => {
-        const rules = JSON.parse(args.rules as string);
         const result = await cloud.request<ActionsResponse>(
           `/firewalls/${args.id}/actions/set_rules`,
-          { method: 'POST', body: { rules } },
+          { method: 'POST', body: { rules: args.rules } },
         );
         // set_rules returns multiple actions
         const polled = [];
         for (const a of result.actions) {
           polled.push(await cloud.pollAction(a.id));
         }
-        let output = JSON.stringify({ actions: polled }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { actions: polled };
       },
     );
 
@@ -159,23 +154,20 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'apply_firewall_to_resources',
       'Apply a firewall to resources (servers or label selectors)',
       {
-        id: z.number().describe('Firewall ID'),
-        apply_to: z.string().describe('JSON array of resources to apply to (e.g. \'[{"type":"server","server":{"id":123}}]\' or \'[{"type":"label_selector","label_selector":{"selector":"env=prod"}}]\')'),
+        id: resourceRef('firewall', 'Firewall'),
+        apply_to: z.array(firewallResourceInputSchema).describe('Servers or label selectors to apply the firewall to'),
       },
+      { actions: z.array(actionSchema) },
       async (args) => {
-        const apply_to = JSON.parse(args.apply_to as string);
         const result = await cloud.request<ActionsResponse>(
           `/firewalls/${args.id}/actions/apply_to_resources`,
-          { method: 'POST', body: { apply_to } },
+          { method: 'POST', body: { apply_to: args.apply_to } },
         );
         const polled = [];
         for (const a of result.actions) {
           polled.push(await cloud.pollAction(a.id));
         }
-        let output = JSON.stringify({ actions: polled }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { actions: polled };
       },
     );
 
@@ -183,23 +175,20 @@ export function registerFirewallTools(register: ToolRegistrar, cloud: CloudClien
       'remove_firewall_from_resources',
       'Remove a firewall from resources',
       {
-        id: z.number().describe('Firewall ID'),
-        remove_from: z.string().describe('JSON array of resources to remove from (e.g. \'[{"type":"server","server":{"id":123}}]\')'),
+        id: resourceRef('firewall', 'Firewall'),
+        remove_from: z.array(firewallResourceInputSchema).describe('Servers or label selectors to remove the firewall from'),
       },
+      { actions: z.array(actionSchema) },
       async (args) => {
-        const remove_from = JSON.parse(args.remove_from as string);
         const result = await cloud.request<ActionsResponse>(
           `/firewalls/${args.id}/actions/remove_from_resources`,
-          { method: 'POST', body: { remove_from } },
+          { method: 'POST', body: { remove_from: args.remove_from } },
         );
         const polled = [];
         for (const a of result.actions) {
           polled.push(await cloud.pollAction(a.id));
         }
-        let output = JSON.stringify({ actions: polled }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { actions: polled };
       },
     );
   }
@@ -5,7 +5,15 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { ActionResponse } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudFloatingIpSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type CloudFloatingIP,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -18,31 +26,27 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       label_selector: z.string().optional().describe('Filter by label selector (e.g. "env=prod")'),
       sort: z.string().optional().describe('Sort results (id, id:asc, id:desc, created, created:asc, created:desc)'),
     },
+    { floating_ips: z.array(cloudFloatingIpSchema) },
     async (args) => {
-      const floatingIps = await cloud.requestAll('/floating_ips', 'floating_ips', {
+      const floatingIps = await cloud.requestAll<CloudFloatingIP>('/floating_ips', 'floating_ips', {
         name: args.name as string | undefined,
         label_selector: args.label_selector as string | undefined,
         sort: args.sort as string | undefined,
       });
-      let output = JSON.stringify(floatingIps, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { floating_ips: floatingIps };
     },
   );
 
   register(
     'get_floating_ip',
-    'Get details of a specific floating IP by ID',
+    'Get details of a specific floating IP by ID or name',
     {
-      id: z.number().describe('Floating IP ID'),
+      id: resourceRef('floating_ip', 'Floating IP'),
     },
+    { floating_ip: cloudFloatingIpSchema },
     async (args) => {
-      const result = await cloud.request(`/floating_ips/${args.id}`);
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const result = await cloud.request<{ floating_ip: CloudFloatingIP }>(`/floating_ips/${args.id}`);
+      return result;
     },
   );
 
@@ -50,14 +54,12 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
     'list_floating_ip_actions',
     'List all actions for a specific floating IP',
     {
-      id: z.number().describe('Floating IP ID'),
+      id: resourceRef('floating_ip', 'Floating IP'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
-      const actions = await cloud.requestAll(`/floating_ips/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const actions = await cloud.requestAll<HetznerAction>(`/floating_ips/${args.id}/actions`, 'actions');
+      return { actions };
     },
   );
 
@@ -72,26 +74,24 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
         name: z.string().optional().describe('Name of the floating IP'),
         description: z.string().optional().describe('Description of the floating IP'),
         home_location: z.string().optional().describe('Home location name (e.g. "fsn1"). Required if server is not set'),
-        server: z.number().optional().describe('Server ID to assign the floating IP to'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        server: resourceRef('server', 'Server to assign the floating IP to').optional(),
+        labels: labelsInputSchema.optional(),
       },
+      { floating_ip: cloudFloatingIpSchema, action: actionSchema },
       async (args) => {
         const body: Record<string, unknown> = { type: args.type };
         if (args.name) body.name = args.name;
         if (args.description) body.description = args.description;
         if (args.home_location) body.home_location = args.home_location;
         if (args.server) body.server = args.server;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request<{ floating_ip: unknown; action: { id: number } }>(
+        const result = await cloud.request<{ floating_ip: CloudFloatingIP; action: HetznerAction }>(
           '/floating_ips',
           { method: 'POST', body },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ floating_ip: result.floating_ip, action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { floating_ip: result.floating_ip, action };
       },
     );
 
@@ -99,25 +99,23 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'update_floating_ip',
       'Update a floating IP (name, description, and/or labels)',
       {
-        id: z.number().describe('Floating IP ID'),
+        id: resourceRef('floating_ip', 'Floating IP'),
         name: z.string().optional().describe('New name'),
         description: z.string().optional().describe('New description'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { floating_ip: cloudFloatingIpSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name) body.name = args.name;
         if (args.description) body.description = args.description;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request(`/floating_ips/${args.id}`, {
+        const result = await cloud.request<{ floating_ip: CloudFloatingIP }>(`/floating_ips/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -125,18 +123,16 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'delete_floating_ip',
       'Delete a floating IP permanently',
       {
-        id: z.number().describe('Floating IP ID'),
+        id: resourceRef('floating_ip', 'Floating IP'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return '⚠️ Please set confirm to true to delete this floating IP. This action is irreversible.';
+          throw new Error('⚠️ Please set confirm to true to delete this floating IP. This action is irreversible.');
         }
         await cloud.request(`/floating_ips/${args.id}`, { method: 'DELETE' });
-        let output = `Floating IP ${args.id} deleted successfully.`;
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -144,19 +140,17 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'assign_floating_ip',
       'Assign a floating IP to a server',
       {
-        id: z.number().describe('Floating IP ID'),
-        server: z.number().describe('Server ID to assign the floating IP to'),
+        id: resourceRef('floating_ip', 'Floating IP'),
+        server: resourceRef('server', 'Server to assign the floating IP to'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/floating_ips/${args.id}/actions/assign`,
           { method: 'POST', body: { server: args.server } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -164,18 +158,16 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'unassign_floating_ip',
       'Unassign a floating IP from a server',
       {
-        id: z.number().describe('Floating IP ID'),
+        id: resourceRef('floating_ip', 'Floating IP'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/floating_ips/${args.id}/actions/unassign`,
           { method: 'POST' },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -183,20 +175,18 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'change_floating_ip_dns_ptr',
       'Change reverse DNS entry for a floating IP',
       {
-        id: z.number().describe('Floating IP ID'),
+        id: resourceRef('floating_ip', 'Floating IP'),
         ip: z.string().describe('IP address to set the reverse DNS entry for'),
         dns_ptr: z.string().describe('Hostname to set as reverse DNS PTR record (or empty string to reset)'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/floating_ips/${args.id}/actions/change_dns_ptr`,
           { method: 'POST', body: { ip: args.ip, dns_ptr: args.dns_ptr } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -204,19 +194,17 @@ export function registerFloatingIpTools(register: ToolRegistrar, cloud: CloudCli
       'change_floating_ip_protection',
       'Change delete protection for a floating IP',
       {
-        id: z.number().describe('Floating IP ID'),
+        id: resourceRef('floating_ip', 'Floating IP'),
         delete: z.boolean().describe('Enable or disable delete protection'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/floating_ips/${args.id}/actions/change_protection`,
           { method: 'POST', body: { delete: args.delete } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
   }
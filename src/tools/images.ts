@@ -5,9 +5,14 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudImage } from '../types/cloud.js';
 import type { HetznerAction } from '../clients/common.js';
-import type { ActionResponse } from '../types/cloud.js';
+import {
+  actionSchema,
+  cloudImageSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type CloudImage,
+} from '../types/cloud.js';
 
 export function registerImageTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -23,6 +28,7 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
       label_selector: z.string().optional().describe('Label selector to filter images (e.g. "env=prod")'),
       architecture: z.string().optional().describe('Filter by architecture: x86 or arm'),
     },
+    { images: z.array(cloudImageSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         type: args.type as string | undefined,
@@ -33,10 +39,7 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
         architecture: args.architecture as string | undefined,
       };
       const images = await cloud.requestAll<CloudImage>('/images', 'images', params);
-      let output = JSON.stringify(images, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { images };
     },
   );
 
@@ -46,12 +49,10 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
     {
       id: z.number().describe('Image ID'),
     },
+    cloudImageSchema.shape,
     async (args) => {
       const result = await cloud.request<{ image: CloudImage }>(`/images/${args.id}`);
-      let output = JSON.stringify(result.image, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.image;
     },
   );
 
@@ -61,12 +62,10 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
     {
       id: z.number().describe('Image ID'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
       const actions = await cloud.requestAll<HetznerAction>(`/images/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { actions };
     },
   );
 
@@ -80,24 +79,22 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
         id: z.number().describe('Image ID'),
         description: z.string().optional().describe('New description for the image'),
         type: z.string().optional().describe('New image type: snapshot'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudImageSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.description !== undefined) body.description = args.description;
         if (args.type !== undefined) body.type = args.type;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ image: CloudImage }>(`/images/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.image, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.image;
       },
     );
 
@@ -108,15 +105,13 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
         id: z.number().describe('Image ID'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this image.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this image.');
         }
         await cloud.request(`/images/${args.id}`, { method: 'DELETE' });
-        let output = JSON.stringify({ deleted: true, id: args.id }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -127,16 +122,14 @@ export function registerImageTools(register: ToolRegistrar, cloud: CloudClient,
         id: z.number().describe('Image ID'),
         delete_protection: z.boolean().describe('Enable or disable delete protection'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/images/${args.id}/actions/change_protection`, {
           method: 'POST',
           body: { delete: args.delete_protection },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
   }
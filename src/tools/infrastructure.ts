@@ -0,0 +1,82 @@
+/**
+ * Declarative infrastructure tools — plan and apply a desired-state document
+ * for the whole project (see infrastructure.ts).
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+import type { LabelGuardConfig } from '../guards.js';
+import {
+  applyInfrastructure,
+  infrastructureSchema,
+  planInfrastructure,
+  type InfrastructureDocument,
+} from '../infrastructure.js';
+
+const resourceTypeSchema = z.enum(['network', 'firewall', 'server', 'volume', 'floating_ip', 'load_balancer', 'dns_record']);
+const changeActionSchema = z.enum(['create', 'update', 'delete']);
+
+const documentParam = infrastructureSchema.describe(
+  'Desired state: networks, firewalls, servers, volumes, floating_ips, load_balancers and dns_records, ' +
+  'each matched to live resources by name. Optional fields left out are not managed.',
+);
+
+export function registerInfrastructureTools(
+  register: ToolRegistrar,
+  cloud: CloudClient,
+  guard: LabelGuardConfig | null,
+  readOnly: boolean,
+): void {
+  register(
+    'plan_infrastructure',
+    'Compare a desired-state document with the live project and list the changes apply_infrastructure would make, ' +
+    'in the order it would make them. Changes nothing. Properties that cannot change in place are reported as warnings.',
+    { document: documentParam },
+    {
+      changes: z.array(z.object({
+        address: z.string(),
+        type: resourceTypeSchema,
+        name: z.string(),
+        action: changeActionSchema,
+        id: z.union([z.number(), z.string()]).nullable(),
+        details: z.array(z.string()),
+      })),
+      unchanged: z.array(z.string()),
+      errors: z.array(z.string()),
+      warnings: z.array(z.string()),
+      summary: z.object({ create: z.number(), update: z.number(), delete: z.number(), unchanged: z.number() }),
+    },
+    async (args) => {
+      const plan = await planInfrastructure(cloud, args.document as InfrastructureDocument, guard);
+      const count = (action: string) => plan.changes.filter((c) => c.action === action).length;
+      return {
+        ...plan,
+        summary: { create: count('create'), update: count('update'), delete: count('delete'), unchanged: plan.unchanged.length },
+      };
+    },
+  );
+
+  if (!readOnly) {
+    register(
+      'apply_infrastructure',
+      'Converge the project to a desired-state document: plan, then create, update and (with prune_selector) delete ' +
+      'resources in dependency order, waiting for each action. Fails without changes if the plan has errors. Stops at ' +
+      'the first failure; nothing is rolled back, but rollback_notes describe how to undo each change made.',
+      { document: documentParam },
+      {
+        status: z.enum(['applied', 'failed', 'no_changes']),
+        applied: z.array(z.object({
+          address: z.string(),
+          action: changeActionSchema,
+          id: z.union([z.number(), z.string()]).nullable(),
+        })),
+        failed: z.object({ address: z.string(), error: z.string() }).nullable(),
+        not_attempted: z.array(z.string()),
+        rollback_notes: z.array(z.string()),
+        unapplied: z.array(z.string()),
+      },
+      async (args) => applyInfrastructure(cloud, args.document as InfrastructureDocument, guard),
+    );
+  }
+}
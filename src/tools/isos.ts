@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudISO } from '../types/cloud.js';
+import { cloudIsoSchema, type CloudISO } from '../types/cloud.js';
 
 export function registerIsoTools(register: ToolRegistrar, cloud: CloudClient): void {
   register(
@@ -15,16 +15,14 @@ export function registerIsoTools(register: ToolRegistrar, cloud: CloudClient): v
       name: z.string().optional().describe('Filter by ISO name'),
       architecture: z.string().optional().describe('Filter by architecture: x86 or arm'),
     },
+    { isos: z.array(cloudIsoSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
         architecture: args.architecture as string | undefined,
       };
       const isos = await cloud.requestAll<CloudISO>('/isos', 'isos', params);
-      let output = JSON.stringify(isos, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { isos };
     },
   );
 
@@ -34,12 +32,10 @@ export function registerIsoTools(register: ToolRegistrar, cloud: CloudClient): v
     {
       id: z.number().describe('ISO ID'),
     },
+    cloudIsoSchema.shape,
     async (args) => {
       const result = await cloud.request<{ iso: CloudISO }>(`/isos/${args.id}`);
-      let output = JSON.stringify(result.iso, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.iso;
     },
   );
 }
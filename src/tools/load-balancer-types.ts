@@ -5,33 +5,17 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-
-interface CloudLoadBalancerType {
-  id: number;
-  name: string;
-  description: string;
-  max_connections: number;
-  max_services: number;
-  max_targets: number;
-  max_assigned_certificates: number;
-  prices: Array<{
-    location: string;
-    price_hourly: { net: string; gross: string };
-    price_monthly: { net: string; gross: string };
-  }>;
-}
+import { cloudLoadBalancerTypeSchema, type CloudLoadBalancerType } from '../types/cloud.js';
 
 export function registerLoadBalancerTypeTools(register: ToolRegistrar, cloud: CloudClient): void {
   register(
     'list_load_balancer_types',
     'List all available load balancer types with specs and pricing.',
     {},
+    { load_balancer_types: z.array(cloudLoadBalancerTypeSchema) },
     async () => {
       const types = await cloud.requestAll<CloudLoadBalancerType>('/load_balancer_types', 'load_balancer_types');
-      let output = JSON.stringify(types, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { load_balancer_types: types };
     },
   );
 
@@ -41,12 +25,10 @@ export function registerLoadBalancerTypeTools(register: ToolRegistrar, cloud: Cl
     {
       id: z.number().describe('Load balancer type ID'),
     },
+    cloudLoadBalancerTypeSchema.shape,
     async (args) => {
       const result = await cloud.request<{ load_balancer_type: CloudLoadBalancerType }>(`/load_balancer_types/${args.id}`);
-      let output = JSON.stringify(result.load_balancer_type, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.load_balancer_type;
     },
   );
 }
@@ -5,8 +5,20 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudLoadBalancer, ActionResponse, ActionsResponse } from '../types/cloud.js';
+import {
+  actionSchema,
+  cloudLoadBalancerSchema,
+  labelsInputSchema,
+  loadBalancerServiceInputSchema,
+  loadBalancerServiceUpdateInputSchema,
+  loadBalancerTargetInputSchema,
+  type ActionResponse,
+  type ActionsResponse,
+  type CloudLoadBalancer,
+} from '../types/cloud.js';
 import type { HetznerAction } from '../clients/common.js';
+import { resourceRef } from '../resolver.js';
+import { fetchMetrics, metricsOptionsShape, metricsOutputShape, metricsRangeShape, type MetricsOptions } from '../metrics.js';
 
 export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,6 +31,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       label_selector: z.string().optional().describe('Label selector to filter (e.g. "env=prod")'),
       sort: z.string().optional().describe('Sort by field (id, name, created — add :asc or :desc)'),
     },
+    { load_balancers: z.array(cloudLoadBalancerSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
@@ -26,64 +39,48 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         sort: args.sort as string | undefined,
       };
       const lbs = await cloud.requestAll<CloudLoadBalancer>('/load_balancers', 'load_balancers', params);
-      let output = JSON.stringify(lbs, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { load_balancers: lbs };
     },
   );
 
   register(
     'get_load_balancer',
-    'Get detailed information about a specific load balancer by ID.',
+    'Get detailed information about a specific load balancer by ID or name.',
     {
-      id: z.number().describe('Load balancer ID'),
+      id: resourceRef('load_balancer', 'Load balancer'),
     },
+    cloudLoadBalancerSchema.shape,
     async (args) => {
       const result = await cloud.request<{ load_balancer: CloudLoadBalancer }>(`/load_balancers/${args.id}`);
-      let output = JSON.stringify(result.load_balancer, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.load_balancer;
     },
   );
 
   register(
     'get_load_balancer_metrics',
-    'Get metrics for a load balancer over a time range (open_connections, connections_per_second, requests_per_second, bandwidth).',
+    'Get metrics for a load balancer over a time range (open_connections, connections_per_second, requests_per_second, bandwidth). ' +
+    'The step is chosen to fit the range into max_points samples per series unless given; mode=summary returns ' +
+    'min/avg/p95/max, trend and anomaly windows per series instead of the samples.',
     {
-      id: z.number().describe('Load balancer ID'),
+      id: resourceRef('load_balancer', 'Load balancer'),
       type: z.string().describe('Metric type: open_connections, connections_per_second, requests_per_second, bandwidth'),
-      start: z.string().describe('Start of period in ISO 8601 format (e.g. 2024-01-01T00:00:00Z)'),
-      end: z.string().describe('End of period in ISO 8601 format (e.g. 2024-01-02T00:00:00Z)'),
-    },
-    async (args) => {
-      const result = await cloud.request<{ metrics: unknown }>(`/load_balancers/${args.id}/metrics`, {
-        params: {
-          type: args.type as string,
-          start: args.start as string,
-          end: args.end as string,
-        },
-      });
-      let output = JSON.stringify(result.metrics, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      ...metricsRangeShape,
+      ...metricsOptionsShape,
     },
+    metricsOutputShape,
+    async (args) => fetchMetrics(cloud, `/load_balancers/${args.id}`, args as unknown as MetricsOptions),
   );
 
   register(
     'list_load_balancer_actions',
     'List all actions for a specific load balancer.',
     {
-      id: z.number().describe('Load balancer ID'),
+      id: resourceRef('load_balancer', 'Load balancer'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
       const result = await cloud.request<ActionsResponse>(`/load_balancers/${args.id}/actions`);
-      let output = JSON.stringify(result.actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { actions: result.actions };
     },
   );
 
@@ -99,10 +96,11 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         algorithm_type: z.string().describe('Algorithm type: round_robin or least_connections'),
         network_zone: z.string().optional().describe('Network zone (e.g. eu-central)'),
         public_interface: z.boolean().optional().describe('Enable public interface (default: true)'),
-        labels: z.string().optional().describe('Labels as JSON object (e.g. {"env":"prod"})'),
-        targets: z.string().optional().describe('JSON array of target objects (e.g. [{"type":"server","server":{"id":1}}])'),
-        services: z.string().optional().describe('JSON array of service objects with protocol, listen_port, destination_port, etc.'),
+        labels: labelsInputSchema.optional(),
+        targets: z.array(loadBalancerTargetInputSchema).optional().describe('Servers, label selectors or IPs to balance across'),
+        services: z.array(loadBalancerServiceInputSchema).optional().describe('Services (listeners) to create'),
       },
+      cloudLoadBalancerSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
@@ -112,13 +110,13 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (args.network_zone) body.network_zone = args.network_zone;
         if (args.public_interface !== undefined) body.public_interface = args.public_interface;
         if (args.labels) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
         if (args.targets) {
-          body.targets = JSON.parse(args.targets as string) as unknown[];
+          body.targets = args.targets;
         }
         if (args.services) {
-          body.services = JSON.parse(args.services as string) as unknown[];
+          body.services = args.services;
         }
 
         const result = await cloud.request<{
@@ -130,10 +128,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
           await cloud.pollAction(result.action.id);
         }
 
-        let output = JSON.stringify(result.load_balancer, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.load_balancer;
       },
     );
 
@@ -141,25 +136,23 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'update_load_balancer',
       'Update a load balancer\'s name or labels.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         name: z.string().optional().describe('New load balancer name'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"staging"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudLoadBalancerSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ load_balancer: CloudLoadBalancer }>(`/load_balancers/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.load_balancer, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.load_balancer;
       },
     );
 
@@ -167,20 +160,16 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'delete_load_balancer',
       'Delete a load balancer permanently. Requires confirm=true.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this load balancer.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this load balancer.');
         }
-        const result = await cloud.request<Record<string, unknown>>(`/load_balancers/${args.id}`, {
-          method: 'DELETE',
-        });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        await cloud.request(`/load_balancers/${args.id}`, { method: 'DELETE' });
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -188,13 +177,14 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'add_load_balancer_target',
       'Add a target (server, label_selector, or IP) to a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         type: z.string().describe('Target type: server, label_selector, or ip'),
-        server_id: z.number().optional().describe('Server ID (required if type=server)'),
+        server_id: resourceRef('server', 'Server, required if type=server').optional(),
         label_selector: z.string().optional().describe('Label selector string (required if type=label_selector)'),
         ip: z.string().optional().describe('IP address (required if type=ip)'),
         use_private_ip: z.boolean().optional().describe('Use private IP for the target'),
       },
+      actionSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { type: args.type };
         if (args.server_id !== undefined) body.server = { id: args.server_id };
@@ -209,10 +199,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -220,12 +207,13 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'remove_load_balancer_target',
       'Remove a target from a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         type: z.string().describe('Target type: server, label_selector, or ip'),
-        server_id: z.number().optional().describe('Server ID (required if type=server)'),
+        server_id: resourceRef('server', 'Server, required if type=server').optional(),
         label_selector: z.string().optional().describe('Label selector string (required if type=label_selector)'),
         ip: z.string().optional().describe('IP address (required if type=ip)'),
       },
+      actionSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { type: args.type };
         if (args.server_id !== undefined) body.server = { id: args.server_id };
@@ -239,22 +227,20 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
     register(
       'add_load_balancer_service',
-      'Add a service to a load balancer. Accepts a JSON config string for the service.',
+      'Add a service to a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
-        service: z.string().describe('JSON service config: { "protocol": "http"|"https"|"tcp", "listen_port": 80, "destination_port": 80, "health_check": {...}, "http": {...} }'),
+        id: resourceRef('load_balancer', 'Load balancer'),
+        service: loadBalancerServiceInputSchema.describe('Service config: protocol, listen_port, destination_port, optional health_check and http settings'),
       },
+      actionSchema.shape,
       async (args) => {
-        const body = JSON.parse(args.service as string) as Record<string, unknown>;
+        const body = args.service as Record<string, unknown>;
 
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/add_service`, {
           method: 'POST',
@@ -263,22 +249,20 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
     register(
       'update_load_balancer_service',
-      'Update an existing service on a load balancer. Accepts a JSON config string.',
+      'Update an existing service on a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
-        service: z.string().describe('JSON service config with listen_port to identify the service, plus fields to update'),
+        id: resourceRef('load_balancer', 'Load balancer'),
+        service: loadBalancerServiceUpdateInputSchema.describe('listen_port identifies the service; other fields are updated when given'),
       },
+      actionSchema.shape,
       async (args) => {
-        const body = JSON.parse(args.service as string) as Record<string, unknown>;
+        const body = args.service as Record<string, unknown>;
 
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/update_service`, {
           method: 'POST',
@@ -287,10 +271,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -298,9 +279,10 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'delete_load_balancer_service',
       'Delete a service from a load balancer by listen port.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         listen_port: z.number().describe('Listen port of the service to delete'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/delete_service`, {
           method: 'POST',
@@ -309,10 +291,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -320,9 +299,10 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'change_load_balancer_algorithm',
       'Change the algorithm of a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         type: z.string().describe('Algorithm type: round_robin or least_connections'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/change_algorithm`, {
           method: 'POST',
@@ -331,10 +311,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -342,9 +319,10 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'change_load_balancer_type',
       'Change the type of a load balancer (e.g. upgrade from lb11 to lb21).',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         load_balancer_type: z.string().describe('New load balancer type name or ID'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/change_type`, {
           method: 'POST',
@@ -353,10 +331,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -364,9 +339,10 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'change_load_balancer_protection',
       'Change the delete protection for a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         delete_protection: z.boolean().describe('Enable or disable delete protection'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/change_protection`, {
           method: 'POST',
@@ -375,10 +351,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -386,10 +359,11 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'change_load_balancer_dns_ptr',
       'Change the reverse DNS entry for a load balancer IP.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
         ip: z.string().describe('IP address to set the reverse DNS for'),
         dns_ptr: z.string().describe('Hostname to set as reverse DNS PTR record (or empty string to reset)'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/change_dns_ptr`, {
           method: 'POST',
@@ -398,10 +372,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -409,10 +380,11 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'attach_load_balancer_to_network',
       'Attach a load balancer to a network.',
       {
-        id: z.number().describe('Load balancer ID'),
-        network: z.number().describe('Network ID to attach to'),
+        id: resourceRef('load_balancer', 'Load balancer'),
+        network: resourceRef('network', 'Network to attach to'),
         ip: z.string().optional().describe('IP address in the network subnet (auto-assigned if omitted)'),
       },
+      actionSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { network: args.network };
         if (args.ip !== undefined) body.ip = args.ip;
@@ -424,10 +396,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -435,9 +404,10 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'detach_load_balancer_from_network',
       'Detach a load balancer from a network.',
       {
-        id: z.number().describe('Load balancer ID'),
-        network: z.number().describe('Network ID to detach from'),
+        id: resourceRef('load_balancer', 'Load balancer'),
+        network: resourceRef('network', 'Network to detach from'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/detach_from_network`, {
           method: 'POST',
@@ -446,10 +416,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -457,8 +424,9 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'enable_load_balancer_public_interface',
       'Enable the public interface of a load balancer.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/enable_public_interface`, {
           method: 'POST',
@@ -467,10 +435,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -478,8 +443,9 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
       'disable_load_balancer_public_interface',
       'Disable the public interface of a load balancer. The load balancer must be attached to a network first.',
       {
-        id: z.number().describe('Load balancer ID'),
+        id: resourceRef('load_balancer', 'Load balancer'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/load_balancers/${args.id}/actions/disable_public_interface`, {
           method: 'POST',
@@ -488,10 +454,7 @@ export function registerLoadBalancerTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
   }
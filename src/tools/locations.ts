@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudLocation } from '../types/cloud.js';
+import { cloudLocationSchema, type CloudLocation } from '../types/cloud.js';
 
 export function registerLocationTools(register: ToolRegistrar, cloud: CloudClient): void {
   register(
@@ -15,16 +15,14 @@ export function registerLocationTools(register: ToolRegistrar, cloud: CloudClien
       name: z.string().optional().describe('Filter by location name (e.g. fsn1, nbg1, hel1, ash, hil)'),
       sort: z.string().optional().describe('Sort by field (id, name — add :asc or :desc)'),
     },
+    { locations: z.array(cloudLocationSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
         sort: args.sort as string | undefined,
       };
       const locations = await cloud.requestAll<CloudLocation>('/locations', 'locations', params);
-      let output = JSON.stringify(locations, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { locations };
     },
   );
 
@@ -34,12 +32,10 @@ export function registerLocationTools(register: ToolRegistrar, cloud: CloudClien
     {
       id: z.number().describe('Location ID'),
     },
+    cloudLocationSchema.shape,
     async (args) => {
       const result = await cloud.request<{ location: CloudLocation }>(`/locations/${args.id}`);
-      let output = JSON.stringify(result.location, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.location;
     },
   );
 }
@@ -5,7 +5,17 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { ActionResponse } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudNetworkSchema,
+  labelsInputSchema,
+  networkRouteInputSchema,
+  networkSubnetInputSchema,
+  type ActionResponse,
+  type CloudNetwork,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -17,30 +27,26 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       name: z.string().optional().describe('Filter by network name'),
       label_selector: z.string().optional().describe('Filter by label selector (e.g. "env=prod")'),
     },
+    { networks: z.array(cloudNetworkSchema) },
     async (args) => {
-      const networks = await cloud.requestAll('/networks', 'networks', {
+      const networks = await cloud.requestAll<CloudNetwork>('/networks', 'networks', {
         name: args.name as string | undefined,
         label_selector: args.label_selector as string | undefined,
       });
-      let output = JSON.stringify(networks, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { networks };
     },
   );
 
   register(
     'get_network',
-    'Get details of a specific network by ID',
+    'Get details of a specific network by ID or name',
     {
-      id: z.number().describe('Network ID'),
+      id: resourceRef('network', 'Network'),
     },
+    { network: cloudNetworkSchema },
     async (args) => {
-      const result = await cloud.request(`/networks/${args.id}`);
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const result = await cloud.request<{ network: CloudNetwork }>(`/networks/${args.id}`);
+      return result;
     },
   );
 
@@ -48,14 +54,12 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
     'list_network_actions',
     'List all actions for a specific network',
     {
-      id: z.number().describe('Network ID'),
+      id: resourceRef('network', 'Network'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
-      const actions = await cloud.requestAll(`/networks/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const actions = await cloud.requestAll<HetznerAction>(`/networks/${args.id}/actions`, 'actions');
+      return { actions };
     },
   );
 
@@ -68,24 +72,22 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       {
         name: z.string().describe('Name of the network'),
         ip_range: z.string().describe('IP range of the network (e.g. "10.0.0.0/8")'),
-        subnets: z.string().optional().describe('JSON array of subnets (e.g. \'[{"type":"cloud","ip_range":"10.0.1.0/24","network_zone":"eu-central"}]\')'),
-        routes: z.string().optional().describe('JSON array of routes (e.g. \'[{"destination":"10.100.1.0/24","gateway":"10.0.1.1"}]\')'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        subnets: z.array(networkSubnetInputSchema).optional().describe('Subnets to create with the network'),
+        routes: z.array(networkRouteInputSchema).optional().describe('Routes to create with the network'),
+        labels: labelsInputSchema.optional(),
       },
+      { network: cloudNetworkSchema },
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
           ip_range: args.ip_range,
         };
-        if (args.subnets) body.subnets = JSON.parse(args.subnets as string);
-        if (args.routes) body.routes = JSON.parse(args.routes as string);
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.subnets) body.subnets = args.subnets;
+        if (args.routes) body.routes = args.routes;
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request('/networks', { method: 'POST', body });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        const result = await cloud.request<{ network: CloudNetwork }>('/networks', { method: 'POST', body });
+        return result;
       },
     );
 
@@ -93,23 +95,21 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'update_network',
       'Update a network (name and/or labels)',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         name: z.string().optional().describe('New network name'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { network: cloudNetworkSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name) body.name = args.name;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request(`/networks/${args.id}`, {
+        const result = await cloud.request<{ network: CloudNetwork }>(`/networks/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -117,18 +117,16 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'delete_network',
       'Delete a network permanently',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return '⚠️ Please set confirm to true to delete this network. This action is irreversible.';
+          throw new Error('⚠️ Please set confirm to true to delete this network. This action is irreversible.');
         }
         await cloud.request(`/networks/${args.id}`, { method: 'DELETE' });
-        let output = `Network ${args.id} deleted successfully.`;
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -136,13 +134,14 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'add_subnet_to_network',
       'Add a subnet to a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         type: z.string().describe('Subnet type (cloud, server, vswitch)'),
         ip_range: z.string().describe('IP range of the subnet (e.g. "10.0.1.0/24")'),
         network_zone: z.string().describe('Network zone (e.g. "eu-central")'),
         vswitch_id: z.number().optional().describe('vSwitch ID (required for type=vswitch)'),
         gateway: z.string().optional().describe('Gateway IP of the subnet'),
       },
+      { action: actionSchema },
       async (args) => {
         const body: Record<string, unknown> = {
           type: args.type,
@@ -157,10 +156,7 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
           { method: 'POST', body },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -168,19 +164,17 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'delete_subnet_from_network',
       'Delete a subnet from a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         ip_range: z.string().describe('IP range of the subnet to delete (e.g. "10.0.1.0/24")'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/networks/${args.id}/actions/delete_subnet`,
           { method: 'POST', body: { ip_range: args.ip_range } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -188,20 +182,18 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'add_route_to_network',
       'Add a route to a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         destination: z.string().describe('Destination network of the route (e.g. "10.100.1.0/24")'),
         gateway: z.string().describe('Gateway of the route (e.g. "10.0.1.1")'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/networks/${args.id}/actions/add_route`,
           { method: 'POST', body: { destination: args.destination, gateway: args.gateway } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -209,20 +201,18 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'delete_route_from_network',
       'Delete a route from a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         destination: z.string().describe('Destination network of the route to delete'),
         gateway: z.string().describe('Gateway of the route to delete'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/networks/${args.id}/actions/delete_route`,
           { method: 'POST', body: { destination: args.destination, gateway: args.gateway } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -230,19 +220,17 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'change_network_ip_range',
       'Change the IP range of a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         ip_range: z.string().describe('New IP range of the network (e.g. "10.0.0.0/8")'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/networks/${args.id}/actions/change_ip_range`,
           { method: 'POST', body: { ip_range: args.ip_range } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -250,19 +238,17 @@ export function registerNetworkTools(register: ToolRegistrar, cloud: CloudClient
       'change_network_protection',
       'Change delete protection for a network',
       {
-        id: z.number().describe('Network ID'),
+        id: resourceRef('network', 'Network'),
         delete: z.boolean().describe('Enable or disable delete protection'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/networks/${args.id}/actions/change_protection`,
           { method: 'POST', body: { delete: args.delete } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
   }
@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudPlacementGroup } from '../types/cloud.js';
+import { cloudPlacementGroupSchema, labelsInputSchema, type CloudPlacementGroup } from '../types/cloud.js';
 
 export function registerPlacementGroupTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,6 +19,7 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
       type: z.string().optional().describe('Filter by placement group type (e.g. "spread")'),
       sort: z.string().optional().describe('Sort by field (id, name, created — add :asc or :desc)'),
     },
+    { placement_groups: z.array(cloudPlacementGroupSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
@@ -27,10 +28,7 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
         sort: args.sort as string | undefined,
       };
       const groups = await cloud.requestAll<CloudPlacementGroup>('/placement_groups', 'placement_groups', params);
-      let output = JSON.stringify(groups, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { placement_groups: groups };
     },
   );
 
@@ -40,12 +38,10 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
     {
       id: z.number().describe('Placement group ID'),
     },
+    cloudPlacementGroupSchema.shape,
     async (args) => {
       const result = await cloud.request<{ placement_group: CloudPlacementGroup }>(`/placement_groups/${args.id}`);
-      let output = JSON.stringify(result.placement_group, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.placement_group;
     },
   );
 
@@ -58,25 +54,23 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
       {
         name: z.string().describe('Name of the placement group'),
         type: z.string().describe('Placement group type (currently only "spread" is available)'),
-        labels: z.string().optional().describe('Labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional(),
       },
+      cloudPlacementGroupSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
           type: args.type,
         };
         if (args.labels) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ placement_group: CloudPlacementGroup }>('/placement_groups', {
           method: 'POST',
           body,
         });
-        let output = JSON.stringify(result.placement_group, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.placement_group;
       },
     );
 
@@ -86,23 +80,21 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
       {
         id: z.number().describe('Placement group ID'),
         name: z.string().optional().describe('New placement group name'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"staging"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudPlacementGroupSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ placement_group: CloudPlacementGroup }>(`/placement_groups/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.placement_group, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.placement_group;
       },
     );
 
@@ -113,17 +105,13 @@ export function registerPlacementGroupTools(register: ToolRegistrar, cloud: Clou
         id: z.number().describe('Placement group ID'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this placement group.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this placement group.');
         }
-        const result = await cloud.request<Record<string, unknown>>(`/placement_groups/${args.id}`, {
-          method: 'DELETE',
-        });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        await cloud.request(`/placement_groups/${args.id}`, { method: 'DELETE' });
+        return { deleted: true, id: args.id as number };
       },
     );
   }
@@ -5,7 +5,15 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { ActionResponse } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudPrimaryIpSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type CloudPrimaryIP,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,32 +27,28 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       ip: z.string().optional().describe('Filter by IP address'),
       sort: z.string().optional().describe('Sort results (id, id:asc, id:desc, created, created:asc, created:desc)'),
     },
+    { primary_ips: z.array(cloudPrimaryIpSchema) },
     async (args) => {
-      const primaryIps = await cloud.requestAll('/primary_ips', 'primary_ips', {
+      const primaryIps = await cloud.requestAll<CloudPrimaryIP>('/primary_ips', 'primary_ips', {
         name: args.name as string | undefined,
         label_selector: args.label_selector as string | undefined,
         ip: args.ip as string | undefined,
         sort: args.sort as string | undefined,
       });
-      let output = JSON.stringify(primaryIps, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { primary_ips: primaryIps };
     },
   );
 
   register(
     'get_primary_ip',
-    'Get details of a specific primary IP by ID',
+    'Get details of a specific primary IP by ID or name',
     {
-      id: z.number().describe('Primary IP ID'),
+      id: resourceRef('primary_ip', 'Primary IP'),
     },
+    { primary_ip: cloudPrimaryIpSchema },
     async (args) => {
-      const result = await cloud.request(`/primary_ips/${args.id}`);
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const result = await cloud.request<{ primary_ip: CloudPrimaryIP }>(`/primary_ips/${args.id}`);
+      return result;
     },
   );
 
@@ -58,11 +62,12 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
         name: z.string().describe('Name of the primary IP'),
         type: z.string().describe('IP type: "ipv4" or "ipv6"'),
         assignee_type: z.string().describe('Assignee type (currently only "server")'),
-        assignee_id: z.number().optional().describe('Server ID to assign the primary IP to'),
+        assignee_id: resourceRef('server', 'Server to assign the primary IP to').optional(),
         auto_delete: z.boolean().default(false).describe('Delete the primary IP when the assignee is deleted'),
         datacenter: z.string().optional().describe('Datacenter name (e.g. "fsn1-dc14"). Required if assignee_id is not set'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { primary_ip: cloudPrimaryIpSchema, action: actionSchema.nullable() },
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
@@ -72,13 +77,10 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
         };
         if (args.assignee_id) body.assignee_id = args.assignee_id;
         if (args.datacenter) body.datacenter = args.datacenter;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request('/primary_ips', { method: 'POST', body });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        const result = await cloud.request<{ primary_ip: CloudPrimaryIP; action: HetznerAction | null }>('/primary_ips', { method: 'POST', body });
+        return result;
       },
     );
 
@@ -86,25 +88,23 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'update_primary_ip',
       'Update a primary IP (name, auto_delete, and/or labels)',
       {
-        id: z.number().describe('Primary IP ID'),
+        id: resourceRef('primary_ip', 'Primary IP'),
         name: z.string().optional().describe('New name'),
         auto_delete: z.boolean().optional().describe('Delete the primary IP when the assignee is deleted'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { primary_ip: cloudPrimaryIpSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name) body.name = args.name;
         if (args.auto_delete !== undefined) body.auto_delete = args.auto_delete;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request(`/primary_ips/${args.id}`, {
+        const result = await cloud.request<{ primary_ip: CloudPrimaryIP }>(`/primary_ips/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -112,18 +112,16 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'delete_primary_ip',
       'Delete a primary IP permanently',
       {
-        id: z.number().describe('Primary IP ID'),
+        id: resourceRef('primary_ip', 'Primary IP'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return '⚠️ Please set confirm to true to delete this primary IP. This action is irreversible.';
+          throw new Error('⚠️ Please set confirm to true to delete this primary IP. This action is irreversible.');
         }
         await cloud.request(`/primary_ips/${args.id}`, { method: 'DELETE' });
-        let output = `Primary IP ${args.id} deleted successfully.`;
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -131,20 +129,18 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'assign_primary_ip',
       'Assign a primary IP to a server',
       {
-        id: z.number().describe('Primary IP ID'),
-        assignee_id: z.number().describe('Server ID to assign the primary IP to'),
+        id: resourceRef('primary_ip', 'Primary IP'),
+        assignee_id: resourceRef('server', 'Server to assign the primary IP to'),
         assignee_type: z.string().describe('Assignee type (currently only "server")'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/primary_ips/${args.id}/actions/assign`,
           { method: 'POST', body: { assignee_id: args.assignee_id, assignee_type: args.assignee_type } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -152,18 +148,16 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'unassign_primary_ip',
       'Unassign a primary IP from a server',
       {
-        id: z.number().describe('Primary IP ID'),
+        id: resourceRef('primary_ip', 'Primary IP'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/primary_ips/${args.id}/actions/unassign`,
           { method: 'POST' },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -171,20 +165,18 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'change_primary_ip_dns_ptr',
       'Change reverse DNS entry for a primary IP',
       {
-        id: z.number().describe('Primary IP ID'),
+        id: resourceRef('primary_ip', 'Primary IP'),
         ip: z.string().describe('IP address to set the reverse DNS entry for'),
         dns_ptr: z.string().describe('Hostname to set as reverse DNS PTR record (or empty string to reset)'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/primary_ips/${args.id}/actions/change_dns_ptr`,
           { method: 'POST', body: { ip: args.ip, dns_ptr: args.dns_ptr } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -192,19 +184,17 @@ export function registerPrimaryIpTools(register: ToolRegistrar, cloud: CloudClie
       'change_primary_ip_protection',
       'Change delete protection for a primary IP',
       {
-        id: z.number().describe('Primary IP ID'),
+        id: resourceRef('primary_ip', 'Primary IP'),
         delete: z.boolean().describe('Enable or disable delete protection'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/primary_ips/${args.id}/actions/change_protection`,
           { method: 'POST', body: { delete: args.delete } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
   }
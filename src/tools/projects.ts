@@ -0,0 +1,27 @@
+/**
+ * Project tools — discover the configured credential profiles.
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { ProjectRegistry } from '../projects.js';
+
+export function registerProjectTools(register: ToolRegistrar, projects: ProjectRegistry): void {
+  register(
+    'list_projects',
+    'List the configured Hetzner projects (credential profiles) and which APIs each one can access. Pass a project name as the `project` argument of any tool to target it.',
+    {},
+    {
+      projects: z.array(z.object({ name: z.string(), default: z.boolean(), cloud: z.boolean(), robot: z.boolean() })),
+    },
+    async () => {
+      const result = projects.list().map((p) => ({
+        name: p.name,
+        default: p.name === projects.defaultProject,
+        cloud: p.cloud !== null,
+        robot: p.robot !== null,
+      }));
+      return { projects: result };
+    },
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Hetzner Cloud rate limit tools — read-only.
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { CloudClient } from '../clients/cloud.js';
+
+export function registerRateLimitTools(register: ToolRegistrar, cloud: CloudClient): void {
+  register(
+    'get_rate_limit_status',
+    'Get the current Cloud API rate-limit budget (limit, estimated remaining requests, reset time) and the request scheduler state (active, queued, throttled and retried requests).',
+    {},
+    {
+      limit: z.number(),
+      remaining: z.number(),
+      reset: z.string().nullable(),
+      active_requests: z.number(),
+      queued_requests: z.number(),
+      max_concurrent: z.number(),
+      throttled_requests: z.number(),
+      retried_requests: z.number(),
+    },
+    async () => {
+      return cloud.rateLimitStatus();
+    },
+  );
+}
@@ -5,7 +5,16 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotBootConfig, RobotRescueConfig, RobotLinuxConfig, RobotVncConfig } from '../types/robot.js';
+import {
+  robotBootConfigSchema,
+  robotLinuxConfigSchema,
+  robotRescueConfigSchema,
+  robotVncConfigSchema,
+  type RobotBootConfig,
+  type RobotRescueConfig,
+  type RobotLinuxConfig,
+  type RobotVncConfig,
+} from '../types/robot.js';
 
 export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -16,9 +25,10 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotBootConfigSchema.shape,
     async (args) => {
       const result = await robot.request<RobotBootConfig>(`/boot/${args.server_number}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -28,9 +38,10 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotRescueConfigSchema.shape,
     async (args) => {
       const result = await robot.request<RobotRescueConfig>(`/boot/${args.server_number}/rescue`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -40,9 +51,10 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotLinuxConfigSchema.shape,
     async (args) => {
       const result = await robot.request<RobotLinuxConfig>(`/boot/${args.server_number}/linux`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -52,9 +64,10 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotVncConfigSchema.shape,
     async (args) => {
       const result = await robot.request<RobotVncConfig>(`/boot/${args.server_number}/vnc`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -70,6 +83,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
         arch: z.number().optional().describe('Architecture (e.g. 64 or 32)'),
         authorized_key: z.string().optional().describe('SSH key fingerprint to authorize'),
       },
+      robotRescueConfigSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { os: args.os };
         if (args.arch !== undefined) body.arch = args.arch;
@@ -79,7 +93,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -89,11 +103,12 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
       {
         server_number: z.number().describe('Unique server number'),
       },
+      robotRescueConfigSchema.shape,
       async (args) => {
-        const result = await robot.request<Record<string, never>>(`/boot/${args.server_number}/rescue`, {
+        const result = await robot.request<RobotRescueConfig>(`/boot/${args.server_number}/rescue`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -107,6 +122,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
         lang: z.string().optional().describe('Language (e.g. en)'),
         authorized_key: z.string().optional().describe('SSH key fingerprint to authorize'),
       },
+      robotLinuxConfigSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { dist: args.dist };
         if (args.arch !== undefined) body.arch = args.arch;
@@ -117,7 +133,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -127,11 +143,12 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
       {
         server_number: z.number().describe('Unique server number'),
       },
+      robotLinuxConfigSchema.shape,
       async (args) => {
-        const result = await robot.request<Record<string, never>>(`/boot/${args.server_number}/linux`, {
+        const result = await robot.request<RobotLinuxConfig>(`/boot/${args.server_number}/linux`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -144,6 +161,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
         arch: z.number().optional().describe('Architecture (e.g. 64 or 32)'),
         lang: z.string().optional().describe('Language (e.g. en)'),
       },
+      robotVncConfigSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { dist: args.dist };
         if (args.arch !== undefined) body.arch = args.arch;
@@ -153,7 +171,7 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -163,11 +181,12 @@ export function registerRobotBootTools(register: ToolRegistrar, robot: RobotClie
       {
         server_number: z.number().describe('Unique server number'),
       },
+      robotVncConfigSchema.shape,
       async (args) => {
-        const result = await robot.request<Record<string, never>>(`/boot/${args.server_number}/vnc`, {
+        const result = await robot.request<RobotVncConfig>(`/boot/${args.server_number}/vnc`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
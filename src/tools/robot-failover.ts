@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotFailover } from '../types/robot.js';
+import { robotFailoverSchema, type RobotFailover } from '../types/robot.js';
 
 export function registerRobotFailoverTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +14,10 @@ export function registerRobotFailoverTools(register: ToolRegistrar, robot: Robot
     'list_robot_failover_ips',
     'List all failover IPs in the Hetzner Robot account.',
     {},
+    { failover_ips: z.array(robotFailoverSchema) },
     async () => {
       const result = await robot.request<RobotFailover[]>('/failover');
-      return JSON.stringify(result, null, 2);
+      return { failover_ips: result };
     },
   );
 
@@ -26,9 +27,10 @@ export function registerRobotFailoverTools(register: ToolRegistrar, robot: Robot
     {
       ip: z.string().describe('Failover IP address'),
     },
+    robotFailoverSchema.shape,
     async (args) => {
       const result = await robot.request<RobotFailover>(`/failover/${args.ip}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -42,12 +44,13 @@ export function registerRobotFailoverTools(register: ToolRegistrar, robot: Robot
         ip: z.string().describe('Failover IP address to route'),
         active_server_ip: z.string().describe('Destination server IP to route the failover IP to'),
       },
+      robotFailoverSchema.shape,
       async (args) => {
         const result = await robot.request<RobotFailover>(`/failover/${args.ip}`, {
           method: 'POST',
           body: { active_server_ip: args.active_server_ip },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
@@ -5,7 +5,13 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotFirewall, RobotFirewallTemplate } from '../types/robot.js';
+import {
+  robotFirewallRulesInputSchema,
+  robotFirewallSchema,
+  robotFirewallTemplateSchema,
+  type RobotFirewall,
+  type RobotFirewallTemplate,
+} from '../types/robot.js';
 
 export function registerRobotFirewallTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -16,9 +22,10 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotFirewallSchema.shape,
     async (args) => {
       const result = await robot.request<RobotFirewall>(`/firewall/${args.server_number}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -26,9 +33,10 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
     'list_robot_firewall_templates',
     'List all firewall templates.',
     {},
+    { templates: z.array(robotFirewallTemplateSchema) },
     async () => {
       const result = await robot.request<RobotFirewallTemplate[]>('/firewall/template');
-      return JSON.stringify(result, null, 2);
+      return { templates: result };
     },
   );
 
@@ -38,9 +46,10 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
     {
       id: z.number().describe('Firewall template ID'),
     },
+    robotFirewallTemplateSchema.shape,
     async (args) => {
       const result = await robot.request<RobotFirewallTemplate>(`/firewall/template/${args.id}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -55,13 +64,13 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         status: z.enum(['active', 'disabled']).describe('Firewall status: active or disabled'),
         filter_ipv6: z.boolean().optional().describe('Whether to filter IPv6 traffic'),
         whitelist_hos: z.boolean().optional().describe('Whether to whitelist Hetzner services'),
-        rules: z.string().describe('JSON object with "input" and/or "output" arrays of firewall rules. Each rule has: ip_version, name, dst_ip, dst_port, src_ip, src_port, protocol, tcp_flags, action (accept/discard)'),
+        rules: robotFirewallRulesInputSchema,
       },
+      robotFirewallSchema.shape,
       async (args) => {
-        const parsedRules = JSON.parse(args.rules as string) as Record<string, unknown>;
         const body: Record<string, unknown> = {
           status: args.status,
-          rules: parsedRules,
+          rules: args.rules,
         };
         if (args.filter_ipv6 !== undefined) body.filter_ipv6 = args.filter_ipv6;
         if (args.whitelist_hos !== undefined) body.whitelist_hos = args.whitelist_hos;
@@ -70,7 +79,7 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -81,14 +90,15 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         server_number: z.number().describe('Unique server number'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      robotFirewallSchema.shape,
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with disabling the firewall.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with disabling the firewall.');
         }
-        const result = await robot.request<Record<string, never>>(`/firewall/${args.server_number}`, {
+        const result = await robot.request<RobotFirewall>(`/firewall/${args.server_number}`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -100,13 +110,13 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         filter_ipv6: z.boolean().optional().describe('Whether to filter IPv6 traffic'),
         whitelist_hos: z.boolean().optional().describe('Whether to whitelist Hetzner services'),
         is_default: z.boolean().optional().describe('Whether this is the default template'),
-        rules: z.string().describe('JSON object with "input" and/or "output" arrays of firewall rules. Each rule has: ip_version, name, dst_ip, dst_port, src_ip, src_port, protocol, tcp_flags, action (accept/discard)'),
+        rules: robotFirewallRulesInputSchema,
       },
+      robotFirewallTemplateSchema.shape,
       async (args) => {
-        const parsedRules = JSON.parse(args.rules as string) as Record<string, unknown>;
         const body: Record<string, unknown> = {
           name: args.name,
-          rules: parsedRules,
+          rules: args.rules,
         };
         if (args.filter_ipv6 !== undefined) body.filter_ipv6 = args.filter_ipv6;
         if (args.whitelist_hos !== undefined) body.whitelist_hos = args.whitelist_hos;
@@ -116,7 +126,7 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -129,8 +139,9 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         filter_ipv6: z.boolean().optional().describe('Whether to filter IPv6 traffic'),
         whitelist_hos: z.boolean().optional().describe('Whether to whitelist Hetzner services'),
         is_default: z.boolean().optional().describe('Whether this is the default template'),
-        rules: z.string().optional().describe('JSON object with "input" and/or "output" arrays of firewall rules. Each rule has: ip_version, name, dst_ip, dst_port, src_ip, src_port, protocol, tcp_flags, action (accept/discard)'),
+        rules: robotFirewallRulesInputSchema.optional(),
       },
+      robotFirewallTemplateSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
@@ -138,14 +149,14 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         if (args.whitelist_hos !== undefined) body.whitelist_hos = args.whitelist_hos;
         if (args.is_default !== undefined) body.is_default = args.is_default;
         if (args.rules !== undefined) {
-          body.rules = JSON.parse(args.rules as string) as Record<string, unknown>;
+          body.rules = args.rules;
         }
 
         const result = await robot.request<RobotFirewallTemplate>(`/firewall/template/${args.id}`, {
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -156,14 +167,15 @@ export function registerRobotFirewallTools(register: ToolRegistrar, robot: Robot
         id: z.number().describe('Firewall template ID'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting the template.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting the template.');
         }
-        const result = await robot.request<Record<string, never>>(`/firewall/template/${args.id}`, {
+        await robot.request(`/firewall/template/${args.id}`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return { deleted: true, id: args.id as number };
       },
     );
   }
@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotIP, RobotMAC } from '../types/robot.js';
+import { robotIpSchema, robotMacSchema, type RobotIP, type RobotMAC } from '../types/robot.js';
 
 export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +14,10 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
     'list_robot_ips',
     'List all single IP addresses in the Hetzner Robot account.',
     {},
+    { ips: z.array(robotIpSchema) },
     async () => {
       const result = await robot.request<RobotIP[]>('/ip');
-      return JSON.stringify(result, null, 2);
+      return { ips: result };
     },
   );
 
@@ -26,9 +27,10 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
     {
       ip: z.string().describe('IP address (e.g. "1.2.3.4")'),
     },
+    robotIpSchema.shape,
     async (args) => {
       const result = await robot.request<RobotIP>(`/ip/${args.ip}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -38,9 +40,10 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
     {
       ip: z.string().describe('IP address (e.g. "1.2.3.4")'),
     },
+    robotMacSchema.shape,
     async (args) => {
       const result = await robot.request<RobotMAC>(`/ip/${args.ip}/mac`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -57,6 +60,7 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
         traffic_daily: z.number().optional().describe('Daily traffic limit in MB'),
         traffic_monthly: z.number().optional().describe('Monthly traffic limit in MB'),
       },
+      robotIpSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.traffic_warnings !== undefined) body.traffic_warnings = args.traffic_warnings;
@@ -68,7 +72,7 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -78,11 +82,12 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
       {
         ip: z.string().describe('IP address (e.g. "1.2.3.4")'),
       },
+      robotMacSchema.shape,
       async (args) => {
         const result = await robot.request<RobotMAC>(`/ip/${args.ip}/mac`, {
           method: 'PUT',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -93,14 +98,15 @@ export function registerRobotIpTools(register: ToolRegistrar, robot: RobotClient
         ip: z.string().describe('IP address (e.g. "1.2.3.4")'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      robotMacSchema.shape,
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this MAC address.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this MAC address.');
         }
-        const result = await robot.request<Record<string, never>>(`/ip/${args.ip}/mac`, {
+        const result = await robot.request<RobotMAC>(`/ip/${args.ip}/mac`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
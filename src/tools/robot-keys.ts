@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotSSHKey } from '../types/robot.js';
+import { robotSshKeySchema, type RobotSSHKey } from '../types/robot.js';
 
 export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +14,10 @@ export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClien
     'list_robot_ssh_keys',
     'List all SSH keys stored in the Hetzner Robot account.',
     {},
+    { keys: z.array(robotSshKeySchema) },
     async () => {
       const result = await robot.request<RobotSSHKey[]>('/key');
-      return JSON.stringify(result, null, 2);
+      return { keys: result };
     },
   );
 
@@ -26,9 +27,10 @@ export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClien
     {
       fingerprint: z.string().describe('SSH key fingerprint (e.g. "xx:xx:xx:...")'),
     },
+    robotSshKeySchema.shape,
     async (args) => {
       const result = await robot.request<RobotSSHKey>(`/key/${args.fingerprint}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -42,12 +44,13 @@ export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClien
         name: z.string().describe('Display name for the SSH key'),
         data: z.string().describe('SSH public key data (e.g. "ssh-rsa AAAA...")'),
       },
+      robotSshKeySchema.shape,
       async (args) => {
         const result = await robot.request<RobotSSHKey>('/key', {
           method: 'POST',
           body: { name: args.name, data: args.data },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -58,12 +61,13 @@ export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClien
         fingerprint: z.string().describe('SSH key fingerprint (e.g. "xx:xx:xx:...")'),
         name: z.string().describe('New display name for the SSH key'),
       },
+      robotSshKeySchema.shape,
       async (args) => {
         const result = await robot.request<RobotSSHKey>(`/key/${args.fingerprint}`, {
           method: 'POST',
           body: { name: args.name },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -74,14 +78,15 @@ export function registerRobotKeyTools(register: ToolRegistrar, robot: RobotClien
         fingerprint: z.string().describe('SSH key fingerprint (e.g. "xx:xx:xx:...")'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), fingerprint: z.string() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this SSH key.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this SSH key.');
         }
-        const result = await robot.request<Record<string, never>>(`/key/${args.fingerprint}`, {
+        await robot.request(`/key/${args.fingerprint}`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return { deleted: true, fingerprint: args.fingerprint as string };
       },
     );
   }
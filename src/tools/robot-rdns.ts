@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotRdns } from '../types/robot.js';
+import { robotRdnsSchema, type RobotRdns } from '../types/robot.js';
 
 export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -16,13 +16,14 @@ export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClie
     {
       server_number: z.number().optional().describe('Filter by server number'),
     },
+    { rdns: z.array(robotRdnsSchema) },
     async (args) => {
       let path = '/rdns';
       if (args.server_number !== undefined) {
         path += `?server_number=${args.server_number}`;
       }
       const result = await robot.request<RobotRdns[]>(path);
-      return JSON.stringify(result, null, 2);
+      return { rdns: result };
     },
   );
 
@@ -32,9 +33,10 @@ export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClie
     {
       ip: z.string().describe('IP address to look up reverse DNS for'),
     },
+    robotRdnsSchema.shape,
     async (args) => {
       const result = await robot.request<RobotRdns>(`/rdns/${args.ip}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -48,12 +50,13 @@ export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClie
         ip: z.string().describe('IP address to set reverse DNS for'),
         ptr: z.string().describe('PTR record (hostname) for the IP address'),
       },
+      robotRdnsSchema.shape,
       async (args) => {
         const result = await robot.request<RobotRdns>(`/rdns/${args.ip}`, {
           method: 'PUT',
           body: { ptr: args.ptr },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -64,12 +67,13 @@ export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClie
         ip: z.string().describe('IP address to update reverse DNS for'),
         ptr: z.string().describe('New PTR record (hostname) for the IP address'),
       },
+      robotRdnsSchema.shape,
       async (args) => {
         const result = await robot.request<RobotRdns>(`/rdns/${args.ip}`, {
           method: 'POST',
           body: { ptr: args.ptr },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -80,14 +84,15 @@ export function registerRobotRdnsTools(register: ToolRegistrar, robot: RobotClie
         ip: z.string().describe('IP address to remove reverse DNS for'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), ip: z.string() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with removing the reverse DNS entry.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with removing the reverse DNS entry.');
         }
-        const result = await robot.request<Record<string, never>>(`/rdns/${args.ip}`, {
+        await robot.request(`/rdns/${args.ip}`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return { deleted: true, ip: args.ip as string };
       },
     );
   }
@@ -5,7 +5,12 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotResetOption, RobotResetResponse } from '../types/robot.js';
+import {
+  robotResetOptionSchema,
+  robotResetResponseSchema,
+  type RobotResetOption,
+  type RobotResetResponse,
+} from '../types/robot.js';
 
 export function registerRobotResetTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +19,10 @@ export function registerRobotResetTools(register: ToolRegistrar, robot: RobotCli
     'list_robot_reset_options',
     'List available reset options for all dedicated servers.',
     {},
+    { reset_options: z.array(robotResetOptionSchema) },
     async () => {
       const result = await robot.request<RobotResetOption[]>('/reset');
-      return JSON.stringify(result, null, 2);
+      return { reset_options: result };
     },
   );
 
@@ -26,9 +32,10 @@ export function registerRobotResetTools(register: ToolRegistrar, robot: RobotCli
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotResetOptionSchema.shape,
     async (args) => {
       const result = await robot.request<RobotResetOption>(`/reset/${args.server_number}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -42,12 +49,13 @@ export function registerRobotResetTools(register: ToolRegistrar, robot: RobotCli
         server_number: z.number().describe('Unique server number'),
         type: z.enum(['sw', 'hw', 'man']).describe('Reset type: sw (software), hw (hardware), man (manual/KVM)'),
       },
+      robotResetResponseSchema.shape,
       async (args) => {
         const result = await robot.request<RobotResetResponse>(`/reset/${args.server_number}`, {
           method: 'POST',
           body: { type: args.type },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
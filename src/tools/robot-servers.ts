@@ -5,7 +5,14 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotServer, RobotServerDetail, RobotCancellation } from '../types/robot.js';
+import {
+  robotCancellationSchema,
+  robotServerDetailSchema,
+  robotServerSchema,
+  type RobotServer,
+  type RobotServerDetail,
+  type RobotCancellation,
+} from '../types/robot.js';
 
 export function registerRobotServerTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +21,10 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
     'list_robot_servers',
     'List all dedicated servers in the Hetzner Robot account.',
     {},
+    { servers: z.array(robotServerSchema) },
     async () => {
       const result = await robot.request<RobotServer[]>('/server');
-      return JSON.stringify(result, null, 2);
+      return { servers: result };
     },
   );
 
@@ -26,9 +34,10 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotServerDetailSchema.shape,
     async (args) => {
       const result = await robot.request<RobotServerDetail>(`/server/${args.server_number}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -38,9 +47,10 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotCancellationSchema.shape,
     async (args) => {
       const result = await robot.request<RobotCancellation>(`/server/${args.server_number}/cancellation`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -54,12 +64,13 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
         server_number: z.number().describe('Unique server number'),
         server_name: z.string().describe('New server name'),
       },
+      robotServerSchema.shape,
       async (args) => {
-        const result = await robot.request<RobotServerDetail>(`/server/${args.server_number}`, {
+        const result = await robot.request<RobotServer>(`/server/${args.server_number}`, {
           method: 'POST',
           body: { server_name: args.server_name },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -72,9 +83,10 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
         cancellation_reason: z.string().optional().describe('Optional reason for cancellation'),
         confirm: z.boolean().default(false).describe('Must be true to confirm cancellation'),
       },
+      robotCancellationSchema.shape,
       async (args) => {
         if (!args.confirm) {
-          return 'Cancellation not confirmed. Set confirm=true to proceed with cancelling this server.';
+          throw new Error('Cancellation not confirmed. Set confirm=true to proceed with cancelling this server.');
         }
         const body: Record<string, unknown> = {
           cancellation_date: args.cancellation_date,
@@ -85,7 +97,7 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -96,14 +108,15 @@ export function registerRobotServerTools(register: ToolRegistrar, robot: RobotCl
         server_number: z.number().describe('Unique server number'),
         confirm: z.boolean().default(false).describe('Must be true to confirm withdrawal'),
       },
+      { withdrawn: z.boolean(), server_number: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Withdrawal not confirmed. Set confirm=true to proceed with withdrawing the cancellation.';
+          throw new Error('Withdrawal not confirmed. Set confirm=true to proceed with withdrawing the cancellation.');
         }
-        const result = await robot.request<Record<string, never>>(`/server/${args.server_number}/cancellation`, {
+        await robot.request(`/server/${args.server_number}/cancellation`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return { withdrawn: true, server_number: args.server_number as number };
       },
     );
   }
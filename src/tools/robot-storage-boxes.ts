@@ -0,0 +1,40 @@
+/**
+ * Hetzner Robot Storage Box tools — list and get storage boxes still managed
+ * in Robot (all read-only; Cloud projects manage theirs with the storage box tools).
+ */
+
+import { z } from 'zod';
+import type { ToolRegistrar } from '../server.js';
+import type { RobotClient } from '../clients/robot.js';
+import {
+  robotStorageBoxSchema,
+  robotStorageBoxSummarySchema,
+  type RobotStorageBox,
+  type RobotStorageBoxSummary,
+} from '../types/robot.js';
+
+export function registerRobotStorageBoxTools(register: ToolRegistrar, robot: RobotClient): void {
+  register(
+    'list_robot_storage_boxes',
+    'List all storage boxes in the Hetzner Robot account.',
+    {},
+    { storage_boxes: z.array(robotStorageBoxSummarySchema) },
+    async () => {
+      const result = await robot.request<RobotStorageBoxSummary[]>('/storagebox');
+      return { storage_boxes: result };
+    },
+  );
+
+  register(
+    'get_robot_storage_box',
+    'Get a Robot storage box with its disk usage and enabled services (WebDAV, Samba, SSH, ZFS, external reachability).',
+    {
+      id: z.number().describe('Storage box ID'),
+    },
+    robotStorageBoxSchema.shape,
+    async (args) => {
+      const result = await robot.request<RobotStorageBox>(`/storagebox/${args.id}`);
+      return result;
+    },
+  );
+}
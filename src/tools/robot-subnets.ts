@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotSubnet, RobotMAC } from '../types/robot.js';
+import { robotMacSchema, robotSubnetSchema, type RobotSubnet, type RobotMAC } from '../types/robot.js';
 
 export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +14,10 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
     'list_robot_subnets',
     'List all subnets in the Hetzner Robot account.',
     {},
+    { subnets: z.array(robotSubnetSchema) },
     async () => {
       const result = await robot.request<RobotSubnet[]>('/subnet');
-      return JSON.stringify(result, null, 2);
+      return { subnets: result };
     },
   );
 
@@ -26,9 +27,10 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
     {
       ip: z.string().describe('Subnet base IP address (e.g. "2a01:4f8:0:0::")'),
     },
+    robotSubnetSchema.shape,
     async (args) => {
       const result = await robot.request<RobotSubnet>(`/subnet/${args.ip}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -38,9 +40,10 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
     {
       ip: z.string().describe('Subnet base IP address'),
     },
+    robotMacSchema.shape,
     async (args) => {
       const result = await robot.request<RobotMAC>(`/subnet/${args.ip}/mac`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -57,6 +60,7 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
         traffic_daily: z.number().optional().describe('Daily traffic limit in MB'),
         traffic_monthly: z.number().optional().describe('Monthly traffic limit in MB'),
       },
+      robotSubnetSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.traffic_warnings !== undefined) body.traffic_warnings = args.traffic_warnings;
@@ -68,7 +72,7 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -78,11 +82,12 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
       {
         ip: z.string().describe('Subnet base IP address'),
       },
+      robotMacSchema.shape,
       async (args) => {
         const result = await robot.request<RobotMAC>(`/subnet/${args.ip}/mac`, {
           method: 'PUT',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -93,14 +98,15 @@ export function registerRobotSubnetTools(register: ToolRegistrar, robot: RobotCl
         ip: z.string().describe('Subnet base IP address'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      robotMacSchema.shape,
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with removing the MAC address.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with removing the MAC address.');
         }
-        const result = await robot.request<Record<string, never>>(`/subnet/${args.ip}/mac`, {
+        const result = await robot.request<RobotMAC>(`/subnet/${args.ip}/mac`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
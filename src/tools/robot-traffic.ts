@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotTraffic } from '../types/robot.js';
+import { robotTrafficSchema, type RobotTraffic } from '../types/robot.js';
 import { cleanParams } from '../clients/common.js';
 
 export function registerRobotTrafficTools(register: ToolRegistrar, robot: RobotClient): void {
@@ -19,6 +19,7 @@ export function registerRobotTrafficTools(register: ToolRegistrar, robot: RobotC
       to: z.string().describe('End date in YYYY-MM-DD format'),
       type: z.enum(['month', 'day', 'year']).describe('Aggregation type: month, day, or year'),
     },
+    robotTrafficSchema.shape,
     async (args) => {
       const params = cleanParams({
         ip: args.ip as string | undefined,
@@ -29,7 +30,7 @@ export function registerRobotTrafficTools(register: ToolRegistrar, robot: RobotC
       });
 
       const result = await robot.request<RobotTraffic>('/traffic', { params });
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 }
@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotVSwitch } from '../types/robot.js';
+import { robotVswitchSchema, type RobotVSwitch } from '../types/robot.js';
 
 export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -14,9 +14,10 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
     'list_robot_vswitches',
     'List all vSwitches in the Hetzner Robot account.',
     {},
+    { vswitches: z.array(robotVswitchSchema) },
     async () => {
       const result = await robot.request<RobotVSwitch[]>('/vswitch');
-      return JSON.stringify(result, null, 2);
+      return { vswitches: result };
     },
   );
 
@@ -26,9 +27,10 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
     {
       id: z.number().describe('vSwitch ID'),
     },
+    robotVswitchSchema.shape,
     async (args) => {
       const result = await robot.request<RobotVSwitch>(`/vswitch/${args.id}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -42,12 +44,13 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
         name: z.string().describe('Name for the vSwitch'),
         vlan: z.number().describe('VLAN ID (4000-4091)'),
       },
+      robotVswitchSchema.shape,
       async (args) => {
         const result = await robot.request<RobotVSwitch>('/vswitch', {
           method: 'POST',
           body: { name: args.name, vlan: args.vlan },
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -59,6 +62,7 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
         name: z.string().optional().describe('New name for the vSwitch'),
         vlan: z.number().optional().describe('New VLAN ID (4000-4091)'),
       },
+      robotVswitchSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
@@ -68,7 +72,7 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
           method: 'POST',
           body,
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
 
@@ -79,14 +83,15 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
         id: z.number().describe('vSwitch ID'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting the vSwitch.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting the vSwitch.');
         }
-        const result = await robot.request<Record<string, never>>(`/vswitch/${args.id}`, {
+        await robot.request(`/vswitch/${args.id}`, {
           method: 'DELETE',
         });
-        return JSON.stringify(result, null, 2);
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -97,12 +102,13 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
         id: z.number().describe('vSwitch ID'),
         server: z.number().describe('Server number to add to the vSwitch'),
       },
+      { id: z.number(), server: z.number() },
       async (args) => {
-        const result = await robot.request<Record<string, never>>(`/vswitch/${args.id}/server`, {
+        await robot.request(`/vswitch/${args.id}/server`, {
           method: 'POST',
           body: { server: args.server },
         });
-        return JSON.stringify(result, null, 2);
+        return { id: args.id as number, server: args.server as number };
       },
     );
 
@@ -114,15 +120,16 @@ export function registerRobotVswitchTools(register: ToolRegistrar, robot: RobotC
         server: z.number().describe('Server number to remove from the vSwitch'),
         confirm: z.boolean().default(false).describe('Must be true to confirm removal'),
       },
+      { id: z.number(), server: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Removal not confirmed. Set confirm=true to proceed with removing the server from the vSwitch.';
+          throw new Error('Removal not confirmed. Set confirm=true to proceed with removing the server from the vSwitch.');
         }
-        const result = await robot.request<Record<string, never>>(`/vswitch/${args.id}/server`, {
+        await robot.request(`/vswitch/${args.id}/server`, {
           method: 'DELETE',
           body: { server: args.server },
         });
-        return JSON.stringify(result, null, 2);
+        return { id: args.id as number, server: args.server as number };
       },
     );
   }
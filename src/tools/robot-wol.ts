@@ -5,7 +5,7 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { RobotClient } from '../clients/robot.js';
-import type { RobotWolResponse } from '../types/robot.js';
+import { robotWolResponseSchema, type RobotWolResponse } from '../types/robot.js';
 
 export function registerRobotWolTools(register: ToolRegistrar, robot: RobotClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -16,9 +16,10 @@ export function registerRobotWolTools(register: ToolRegistrar, robot: RobotClien
     {
       server_number: z.number().describe('Unique server number'),
     },
+    robotWolResponseSchema.shape,
     async (args) => {
       const result = await robot.request<RobotWolResponse>(`/wol/${args.server_number}`);
-      return JSON.stringify(result, null, 2);
+      return result;
     },
   );
 
@@ -31,11 +32,12 @@ export function registerRobotWolTools(register: ToolRegistrar, robot: RobotClien
       {
         server_number: z.number().describe('Unique server number'),
       },
+      robotWolResponseSchema.shape,
       async (args) => {
         const result = await robot.request<RobotWolResponse>(`/wol/${args.server_number}`, {
           method: 'POST',
         });
-        return JSON.stringify(result, null, 2);
+        return result;
       },
     );
   }
@@ -6,7 +6,14 @@ import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
 import type { HetznerAction } from '../clients/common.js';
-import type { ActionResponse } from '../types/cloud.js';
+import {
+  actionSchema,
+  cloudImageSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type CloudImage,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerServerActionTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only action tools ──────────────────────────────────────────────
@@ -15,14 +22,12 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
     'list_server_actions',
     'List all actions for a specific server.',
     {
-      id: z.number().describe('Server ID'),
+      id: resourceRef('server', 'Server'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
       const actions = await cloud.requestAll<HetznerAction>(`/servers/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { actions };
     },
   );
 
@@ -30,15 +35,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
     'get_server_action',
     'Get details of a specific action for a server.',
     {
-      id: z.number().describe('Server ID'),
+      id: resourceRef('server', 'Server'),
       action_id: z.number().describe('Action ID'),
     },
+    actionSchema.shape,
     async (args) => {
       const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/${args.action_id}`);
-      let output = JSON.stringify(result.action, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.action;
     },
   );
 
@@ -49,15 +52,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'power_on_server',
       'Power on a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/poweron`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -65,15 +66,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'power_off_server',
       'Power off a server immediately (hard power off). Use shutdown_server for graceful shutdown.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/poweroff`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -81,15 +80,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'reboot_server',
       'Soft reboot a server (sends ACPI signal).',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/reboot`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -97,15 +94,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'reset_server',
       'Hard reset a server (like pressing the reset button).',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/reset`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -113,15 +108,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'shutdown_server',
       'Gracefully shut down a server (sends ACPI shutdown signal to OS).',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/shutdown`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -129,13 +122,14 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'rebuild_server',
       'Rebuild a server from an image. DESTRUCTIVE — all data on the server will be lost. Requires confirm=true.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         image: z.string().describe('Image name or ID to rebuild from'),
         confirm: z.boolean().default(false).describe('Must be true to confirm rebuild'),
       },
+      { action: actionSchema, root_password: z.string().nullable() },
       async (args) => {
         if (!args.confirm) {
-          return 'Rebuild not confirmed. Set confirm=true to proceed. WARNING: All data on the server will be lost.';
+          throw new Error('Rebuild not confirmed. Set confirm=true to proceed. WARNING: All data on the server will be lost.');
         }
         const result = await cloud.request<{ action: HetznerAction; root_password: string | null }>(
           `/servers/${args.id}/actions/rebuild`,
@@ -144,10 +138,7 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -155,20 +146,18 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'change_server_type',
       'Change the server type (resize). Server must be stopped first.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         server_type: z.string().describe('Target server type name (e.g. cx22, cpx31)'),
         upgrade_disk: z.boolean().default(false).describe('Whether to upgrade the disk size (irreversible if true)'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/change_type`, {
           method: 'POST',
           body: { server_type: args.server_type, upgrade_disk: args.upgrade_disk },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -176,10 +165,11 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'enable_server_rescue',
       'Enable rescue mode for a server. Returns a root password for the rescue system.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         type: z.string().optional().describe('Rescue system type (linux64 or linux32). Default: linux64'),
         ssh_keys: z.string().optional().describe('Comma-separated SSH key IDs to inject into rescue system'),
       },
+      { root_password: z.string(), action: actionSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.type) body.type = args.type;
@@ -191,10 +181,7 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
           { method: 'POST', body },
         );
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ root_password: result.root_password, action: result.action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { root_password: result.root_password, action: result.action };
       },
     );
 
@@ -202,15 +189,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'disable_server_rescue',
       'Disable rescue mode for a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/disable_rescue`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -218,27 +203,25 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'create_server_image',
       'Create an image (snapshot) from a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         type: z.string().optional().describe('Image type: snapshot or backup. Default: snapshot'),
         description: z.string().optional().describe('Description for the image'),
-        labels: z.string().optional().describe('Labels as JSON object'),
+        labels: labelsInputSchema.optional(),
       },
+      { action: actionSchema, image: cloudImageSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.type) body.type = args.type;
         if (args.description) body.description = args.description;
-        if (args.labels) body.labels = JSON.parse(args.labels as string) as Record<string, string>;
-        const result = await cloud.request<{ action: HetznerAction; image: unknown }>(
+        if (args.labels) body.labels = args.labels;
+        const result = await cloud.request<{ action: HetznerAction; image: CloudImage }>(
           `/servers/${args.id}/actions/create_image`,
           { method: 'POST', body },
         );
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -246,15 +229,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'enable_server_backup',
       'Enable automatic backups for a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/enable_backup`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -262,15 +243,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'disable_server_backup',
       'Disable automatic backups for a server. Existing backups will be kept.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/disable_backup`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -278,19 +257,17 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'attach_iso_to_server',
       'Attach an ISO image to a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         iso: z.string().describe('ISO name or ID to attach'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/attach_iso`, {
           method: 'POST',
           body: { iso: args.iso },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -298,15 +275,13 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'detach_iso_from_server',
       'Detach the currently attached ISO from a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/detach_iso`, { method: 'POST' });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -314,20 +289,18 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'change_server_dns_ptr',
       'Change the reverse DNS pointer for a server IP address.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         ip: z.string().describe('IP address to set the reverse DNS pointer for'),
         dns_ptr: z.string().describe('Hostname to set as reverse DNS PTR record (or empty string to reset)'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/change_dns_ptr`, {
           method: 'POST',
           body: { ip: args.ip, dns_ptr: args.dns_ptr || null },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -335,10 +308,11 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'change_server_protection',
       'Change delete and rebuild protection for a server.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         delete_protection: z.boolean().optional().describe('Enable or disable delete protection'),
         rebuild_protection: z.boolean().optional().describe('Enable or disable rebuild protection'),
       },
+      actionSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.delete_protection !== undefined) body.delete = args.delete_protection;
@@ -348,10 +322,7 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
           body,
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -359,18 +330,16 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'request_server_console',
       'Request a WebSocket console URL for a server. Returns wss_url and password.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      { wss_url: z.string(), password: z.string() },
       async (args) => {
         const result = await cloud.request<{ action: HetznerAction; wss_url: string; password: string }>(
           `/servers/${args.id}/actions/request_console`,
           { method: 'POST' },
         );
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ wss_url: result.wss_url, password: result.password }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { wss_url: result.wss_url, password: result.password };
       },
     );
 
@@ -378,11 +347,12 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'attach_server_to_network',
       'Attach a server to a network.',
       {
-        id: z.number().describe('Server ID'),
-        network: z.number().describe('Network ID to attach to'),
+        id: resourceRef('server', 'Server'),
+        network: resourceRef('network', 'Network to attach to'),
         ip: z.string().optional().describe('IP address to assign in the network'),
         alias_ips: z.string().optional().describe('Comma-separated alias IPs to assign'),
       },
+      actionSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = { network: args.network };
         if (args.ip) body.ip = args.ip;
@@ -392,10 +362,7 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
           body,
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -403,19 +370,17 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'detach_server_from_network',
       'Detach a server from a network.',
       {
-        id: z.number().describe('Server ID'),
-        network: z.number().describe('Network ID to detach from'),
+        id: resourceRef('server', 'Server'),
+        network: resourceRef('network', 'Network to detach from'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/detach_from_network`, {
           method: 'POST',
           body: { network: args.network },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -423,10 +388,11 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'change_server_alias_ips',
       'Change the alias IPs of a server on a network.',
       {
-        id: z.number().describe('Server ID'),
-        network: z.number().describe('Network ID'),
+        id: resourceRef('server', 'Server'),
+        network: resourceRef('network', 'Network'),
         alias_ips: z.string().describe('Comma-separated list of alias IPs to set'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/change_alias_ips`, {
           method: 'POST',
@@ -436,10 +402,7 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
           },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -447,19 +410,17 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'add_server_to_placement_group',
       'Add a server to a placement group. Server must be stopped.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         placement_group: z.number().describe('Placement group ID'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(`/servers/${args.id}/actions/add_to_placement_group`, {
           method: 'POST',
           body: { placement_group: args.placement_group },
         });
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
 
@@ -467,18 +428,16 @@ export function registerServerActionTools(register: ToolRegistrar, cloud: CloudC
       'remove_server_from_placement_group',
       'Remove a server from its placement group.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
       },
+      actionSchema.shape,
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/servers/${args.id}/actions/remove_from_placement_group`,
           { method: 'POST' },
         );
         await cloud.pollAction(result.action.id);
-        let output = JSON.stringify(result.action, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.action;
       },
     );
   }
@@ -5,19 +5,18 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudServerType } from '../types/cloud.js';
+import { cloudServerTypeSchema, type CloudServerType } from '../types/cloud.js';
+import { fetchServerTypeCatalog, recommendServerTypes } from '../capacity.js';
 
 export function registerServerTypeTools(register: ToolRegistrar, cloud: CloudClient): void {
   register(
     'list_server_types',
     'List all available server types with pricing, CPU, memory, and disk information.',
     {},
+    { server_types: z.array(cloudServerTypeSchema) },
     async () => {
       const serverTypes = await cloud.requestAll<CloudServerType>('/server_types', 'server_types');
-      let output = JSON.stringify(serverTypes, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { server_types: serverTypes };
     },
   );
 
@@ -27,12 +26,56 @@ export function registerServerTypeTools(register: ToolRegistrar, cloud: CloudCli
     {
       id: z.number().describe('Server type ID'),
     },
+    cloudServerTypeSchema.shape,
     async (args) => {
       const result = await cloud.request<{ server_type: CloudServerType }>(`/server_types/${args.id}`);
-      let output = JSON.stringify(result.server_type, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.server_type;
+    },
+  );
+
+  register(
+    'recommend_server_type',
+    'Recommend server types for a workload: filter the server types by minimum vCPUs, memory and disk, ' +
+    'architecture and shared or dedicated vCPUs, keep those that are not deprecated and are available in one of ' +
+    'the preferred locations, and rank them by monthly price. Each option names its cheapest location.',
+    {
+      cores: z.number().int().positive().optional().describe('Minimum number of vCPUs'),
+      memory: z.number().positive().optional().describe('Minimum memory in GB'),
+      disk: z.number().positive().optional().describe('Minimum local disk in GB'),
+      architecture: z.enum(['x86', 'arm']).optional().describe('CPU architecture (default: any)'),
+      cpu_type: z.enum(['shared', 'dedicated']).optional().describe('Shared or dedicated vCPUs (default: any)'),
+      locations: z.array(z.string()).optional()
+        .describe('Location names to consider, in order of preference, e.g. ["fsn1", "nbg1"] (default: all)'),
+      limit: z.number().int().positive().default(5).describe('Maximum number of options (default: 5)'),
+    },
+    {
+      options: z.array(z.object({
+        server_type: z.string(),
+        id: z.number(),
+        description: z.string(),
+        cores: z.number(),
+        memory: z.number(),
+        disk: z.number(),
+        architecture: z.string(),
+        cpu_type: z.string(),
+        location: z.string(),
+        monthly_gross: z.number(),
+        hourly_gross: z.number(),
+        locations: z.array(z.string()),
+      })),
+      excluded: z.array(z.object({ server_type: z.string(), reason: z.string() })),
+    },
+    async (args) => {
+      const catalog = await fetchServerTypeCatalog(cloud);
+      const { options, excluded } = recommendServerTypes(catalog, {
+        cores: args.cores as number | undefined,
+        memory: args.memory as number | undefined,
+        disk: args.disk as number | undefined,
+        architecture: args.architecture as 'x86' | 'arm' | undefined,
+        cpu_type: args.cpu_type as 'shared' | 'dedicated' | undefined,
+        locations: args.locations as string[] | undefined,
+      });
+      return { options: options.slice(0, args.limit as number), excluded };
     },
   );
 }
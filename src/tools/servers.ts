@@ -5,8 +5,38 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudServer, CloudServerType } from '../types/cloud.js';
+import {
+  actionSchema,
+  cloudServerSchema,
+  labelsInputSchema,
+  type CloudServer,
+  type CloudServerType,
+} from '../types/cloud.js';
 import type { HetznerAction } from '../clients/common.js';
+import { resourceRef } from '../resolver.js';
+import {
+  checkRange,
+  fetchMetrics,
+  metricsOptionsShape,
+  metricsOutputShape,
+  metricsRangeShape,
+  seriesSummarySchema,
+  type MetricsOptions,
+  type SeriesSummary,
+} from '../metrics.js';
+import { AvailabilityError, checkAvailability, describeUnavailability, type AvailabilityRequest } from '../capacity.js';
+
+function availabilityRequest(args: Record<string, unknown>): AvailabilityRequest {
+  return {
+    server_type: args.server_type as string,
+    location: args.location as string | undefined,
+    datacenter: args.datacenter as string | undefined,
+    ssh_keys: args.ssh_keys as number[] | undefined,
+    volumes: args.volumes as number[] | undefined,
+    firewalls: args.firewalls as number[] | undefined,
+    networks: args.networks as number[] | undefined,
+  };
+}
 
 export function registerServerTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -20,6 +50,7 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
       label_selector: z.string().optional().describe('Label selector to filter servers (e.g. "env=prod")'),
       sort: z.string().optional().describe('Sort by field (id, name, created — add :asc or :desc)'),
     },
+    { servers: z.array(cloudServerSchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
@@ -28,83 +59,141 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
         sort: args.sort as string | undefined,
       };
       const servers = await cloud.requestAll<CloudServer>('/servers', 'servers', params);
-      let output = JSON.stringify(servers, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { servers };
     },
   );
 
   register(
     'get_server',
-    'Get detailed information about a specific server by ID.',
+    'Get detailed information about a specific server by ID or name.',
     {
-      id: z.number().describe('Server ID'),
+      id: resourceRef('server', 'Server'),
     },
+    cloudServerSchema.shape,
     async (args) => {
       const result = await cloud.request<{ server: CloudServer }>(`/servers/${args.id}`);
-      let output = JSON.stringify(result.server, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.server;
     },
   );
 
   register(
     'get_server_metrics',
-    'Get metrics (CPU, disk, or network) for a server over a time range.',
+    'Get metrics (CPU, disk, or network) for a server over a time range. The step is chosen to fit the range ' +
+    'into max_points samples per series unless given; mode=summary returns min/avg/p95/max, trend and anomaly ' +
+    'windows per series instead of the samples.',
+    {
+      id: resourceRef('server', 'Server'),
+      type: z.string().describe('Metric type: cpu, disk, or network'),
+      ...metricsRangeShape,
+      ...metricsOptionsShape,
+    },
+    metricsOutputShape,
+    async (args) => fetchMetrics(cloud, `/servers/${args.id}`, args as unknown as MetricsOptions),
+  );
+
+  register(
+    'compare_server_metrics',
+    'Compare a metric across several servers over the same time range. Summarizes each series of each server ' +
+    '(min/avg/p95/max, trend, anomaly windows) and ranks the servers per series by average, highest first.',
     {
-      id: z.number().describe('Server ID'),
+      servers: z.array(resourceRef('server', 'Server')).optional().describe('Servers to compare'),
+      label_selector: z.string().optional().describe('Compare every server matching this label selector (e.g. "role=web")'),
       type: z.string().describe('Metric type: cpu, disk, or network'),
-      start: z.string().describe('Start of period in ISO 8601 format (e.g. 2024-01-01T00:00:00Z)'),
-      end: z.string().describe('End of period in ISO 8601 format (e.g. 2024-01-02T00:00:00Z)'),
+      ...metricsRangeShape,
+      step: metricsOptionsShape.step,
+    },
+    {
+      start: z.string(),
+      end: z.string(),
+      step: z.number(),
+      comparison: z.record(z.array(seriesSummarySchema.extend({ server: z.string(), id: z.number() }))),
     },
     async (args) => {
-      const result = await cloud.request<{ metrics: unknown }>(`/servers/${args.id}/metrics`, {
-        params: {
-          type: args.type as string,
-          start: args.start as string,
-          end: args.end as string,
-        },
-      });
-      let output = JSON.stringify(result.metrics, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      checkRange(args.start as string, args.end as string);
+      const ids = new Set((args.servers as number[] | undefined) ?? []);
+      if (args.label_selector) {
+        const matching = await cloud.requestAll<CloudServer>('/servers', 'servers', { label_selector: args.label_selector as string });
+        for (const server of matching) ids.add(server.id);
+      }
+      if (ids.size === 0) throw new Error('No servers to compare; pass servers or a label_selector that matches some');
+
+      const options: MetricsOptions = { ...(args as unknown as MetricsOptions), mode: 'summary' };
+      const comparison: Record<string, Array<SeriesSummary & { server: string; id: number }>> = {};
+      const results = [];
+      for (const id of ids) {
+        const { server } = await cloud.request<{ server: CloudServer }>(`/servers/${id}`);
+        const result = await fetchMetrics(cloud, `/servers/${id}`, options);
+        results.push(result);
+        for (const [name, series] of Object.entries(result.summary ?? {})) {
+          (comparison[name] ??= []).push({ server: server.name, id, ...series });
+        }
+      }
+      for (const entries of Object.values(comparison)) entries.sort((a, b) => (b.avg ?? -Infinity) - (a.avg ?? -Infinity));
+      const { start, end, step } = results[0];
+      return { start, end, step, comparison };
     },
   );
 
+  register(
+    'check_availability',
+    'Check before creating a server that its type can be ordered in the location or datacenter (per the ' +
+    'datacenters\' available and supported server types) and that the SSH keys, networks, firewalls and volumes ' +
+    'exist and fit: networks need a subnet in the location\'s network zone, volumes must be detached and in the ' +
+    'same location. When the type is unavailable, suggests other datacenters and comparable server types.',
+    {
+      server_type: z.string().describe('Server type name or ID (e.g. cx22)'),
+      location: z.string().optional().describe('Location name (e.g. fsn1)'),
+      datacenter: z.string().optional().describe('Datacenter name (e.g. fsn1-dc14). Mutually exclusive with location'),
+      ssh_keys: z.array(resourceRef('ssh_key', 'SSH key')).optional().describe('SSH keys to install'),
+      volumes: z.array(resourceRef('volume', 'Volume')).optional().describe('Volumes to attach'),
+      firewalls: z.array(resourceRef('firewall', 'Firewall')).optional().describe('Firewalls to apply'),
+      networks: z.array(resourceRef('network', 'Network')).optional().describe('Networks to attach'),
+    },
+    {
+      available: z.boolean(),
+      datacenters: z.array(z.string()),
+      errors: z.array(z.string()),
+      warnings: z.array(z.string()),
+      alternatives: z.object({
+        datacenters: z.array(z.object({ datacenter: z.string(), location: z.string() })),
+        server_types: z.array(z.object({ server_type: z.string(), location: z.string(), monthly_gross: z.number() })),
+      }),
+    },
+    async (args) => checkAvailability(cloud, availabilityRequest(args)),
+  );
+
   // ── Mutating tools ────────────────────────────────────────────────────
 
   if (!readOnly) {
     register(
       'create_server',
-      'Create a new server. Echoes estimated hourly cost before proceeding. Returns the created server and root password (if any).',
+      'Create a new server. Availability of the server type and the referenced resources is checked first ' +
+      '(see check_availability). Returns the created server, root password (if any) and estimated hourly and monthly cost.',
       {
         name: z.string().describe('Name of the server'),
         server_type: z.string().describe('Server type name (e.g. cx22, cpx11, cax11)'),
         image: z.string().describe('Image name or ID to use (e.g. ubuntu-22.04, debian-12)'),
         location: z.string().optional().describe('Location name (e.g. fsn1, nbg1, hel1, ash, hil)'),
         datacenter: z.string().optional().describe('Datacenter name (e.g. fsn1-dc14). Mutually exclusive with location'),
-        ssh_keys: z.string().optional().describe('Comma-separated SSH key names or IDs'),
-        volumes: z.string().optional().describe('Comma-separated volume IDs to attach'),
-        firewalls: z.string().optional().describe('Comma-separated firewall IDs to apply'),
-        networks: z.string().optional().describe('Comma-separated network IDs to attach'),
+        ssh_keys: z.array(resourceRef('ssh_key', 'SSH key')).optional().describe('SSH keys to install'),
+        volumes: z.array(resourceRef('volume', 'Volume')).optional().describe('Volumes to attach'),
+        firewalls: z.array(resourceRef('firewall', 'Firewall')).optional().describe('Firewalls to apply'),
+        networks: z.array(resourceRef('network', 'Network')).optional().describe('Networks to attach'),
         user_data: z.string().optional().describe('Cloud-init user data'),
-        labels: z.string().optional().describe('Labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional(),
         automount: z.boolean().default(false).describe('Auto-mount volumes after attach'),
         start_after_create: z.boolean().default(true).describe('Start server after creation'),
       },
+      {
+        server: cloudServerSchema,
+        root_password: z.string().nullable(),
+        estimated_cost: z.object({ hourly_gross: z.string(), monthly_gross: z.string(), location: z.string() }).nullable(),
+      },
       async (args) => {
-        // Look up server type pricing
-        const serverTypes = await cloud.requestAll<CloudServerType>('/server_types', 'server_types');
-        const st = serverTypes.find(
-          (t) => t.name === args.server_type || String(t.id) === String(args.server_type),
-        );
-        let costInfo = '';
-        if (st && st.prices.length > 0) {
-          const price = st.prices[0];
-          costInfo = `Estimated cost: €${price.price_hourly.gross}/hour, €${price.price_monthly.gross}/month (${price.location}).\n`;
+        // Pre-flight: fail before the API call with alternatives instead of late with a bare error
+        const check = await checkAvailability(cloud, availabilityRequest(args));
+        if (!check.available) {
+          throw new AvailabilityError(`Cannot create server "${args.name}":\n${describeUnavailability(check)}`);
         }
 
         // Build request body
@@ -120,19 +209,19 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
         if (args.user_data) body.user_data = args.user_data;
 
         if (args.ssh_keys) {
-          body.ssh_keys = (args.ssh_keys as string).split(',').map((s) => s.trim());
+          body.ssh_keys = args.ssh_keys;
         }
         if (args.volumes) {
-          body.volumes = (args.volumes as string).split(',').map((s) => Number(s.trim()));
+          body.volumes = args.volumes;
         }
         if (args.firewalls) {
-          body.firewalls = (args.firewalls as string).split(',').map((s) => ({ firewall: Number(s.trim()) }));
+          body.firewalls = (args.firewalls as number[]).map((id) => ({ firewall: id }));
         }
         if (args.networks) {
-          body.networks = (args.networks as string).split(',').map((s) => Number(s.trim()));
+          body.networks = args.networks;
         }
         if (args.labels) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{
@@ -147,13 +236,22 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
           await cloud.pollAction(result.action.id);
         }
 
-        let output = costInfo + JSON.stringify({
+        // Price the server type in the location the server was placed in
+        const location = result.server.datacenter.location.name;
+        const serverTypes = await cloud.requestAll<CloudServerType>('/server_types', 'server_types');
+        const st = serverTypes.find(
+          (t) => t.name === args.server_type || String(t.id) === String(args.server_type),
+        );
+        const price = st?.prices.find((p) => p.location === location);
+        const estimatedCost = price
+          ? { hourly_gross: price.price_hourly.gross, monthly_gross: price.price_monthly.gross, location: price.location }
+          : null;
+
+        return {
           server: result.server,
           root_password: result.root_password,
-        }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+          estimated_cost: estimatedCost,
+        };
       },
     );
 
@@ -161,25 +259,23 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
       'update_server',
       'Update a server\'s name or labels.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         name: z.string().optional().describe('New server name'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"staging"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudServerSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ server: CloudServer }>(`/servers/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.server, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.server;
       },
     );
 
@@ -187,12 +283,13 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
       'delete_server',
       'Delete a server permanently. Requires confirm=true.',
       {
-        id: z.number().describe('Server ID'),
+        id: resourceRef('server', 'Server'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { action: actionSchema },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this server.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this server.');
         }
         const result = await cloud.request<{ action: HetznerAction }>(`/servers/${args.id}`, {
           method: 'DELETE',
@@ -200,10 +297,7 @@ export function registerServerTools(register: ToolRegistrar, cloud: CloudClient,
         if (result.action) {
           await cloud.pollAction(result.action.id);
         }
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
   }
@@ -5,7 +5,8 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudSSHKey } from '../types/cloud.js';
+import { cloudSshKeySchema, labelsInputSchema, type CloudSSHKey } from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,6 +20,7 @@ export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient,
       fingerprint: z.string().optional().describe('Filter by SSH key fingerprint'),
       sort: z.string().optional().describe('Sort by field (id, name — add :asc or :desc)'),
     },
+    { ssh_keys: z.array(cloudSshKeySchema) },
     async (args) => {
       const params: Record<string, string | undefined> = {
         name: args.name as string | undefined,
@@ -27,25 +29,20 @@ export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient,
         sort: args.sort as string | undefined,
       };
       const keys = await cloud.requestAll<CloudSSHKey>('/ssh_keys', 'ssh_keys', params);
-      let output = JSON.stringify(keys, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { ssh_keys: keys };
     },
   );
 
   register(
     'get_ssh_key',
-    'Get detailed information about a specific SSH key by ID.',
+    'Get detailed information about a specific SSH key by ID or name.',
     {
-      id: z.number().describe('SSH key ID'),
+      id: resourceRef('ssh_key', 'SSH key'),
     },
+    cloudSshKeySchema.shape,
     async (args) => {
       const result = await cloud.request<{ ssh_key: CloudSSHKey }>(`/ssh_keys/${args.id}`);
-      let output = JSON.stringify(result.ssh_key, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.ssh_key;
     },
   );
 
@@ -58,25 +55,23 @@ export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient,
       {
         name: z.string().describe('Name of the SSH key'),
         public_key: z.string().describe('Public key content (e.g. "ssh-ed25519 AAAA..." or "ssh-rsa AAAA...")'),
-        labels: z.string().optional().describe('Labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional(),
       },
+      cloudSshKeySchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
           public_key: args.public_key,
         };
         if (args.labels) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ ssh_key: CloudSSHKey }>('/ssh_keys', {
           method: 'POST',
           body,
         });
-        let output = JSON.stringify(result.ssh_key, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.ssh_key;
       },
     );
 
@@ -84,25 +79,23 @@ export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient,
       'update_ssh_key',
       'Update an SSH key\'s name or labels.',
       {
-        id: z.number().describe('SSH key ID'),
+        id: resourceRef('ssh_key', 'SSH key'),
         name: z.string().optional().describe('New SSH key name'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"staging"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudSshKeySchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ ssh_key: CloudSSHKey }>(`/ssh_keys/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.ssh_key, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.ssh_key;
       },
     );
 
@@ -110,20 +103,16 @@ export function registerSshKeyTools(register: ToolRegistrar, cloud: CloudClient,
       'delete_ssh_key',
       'Delete an SSH key permanently. Requires confirm=true.',
       {
-        id: z.number().describe('SSH key ID'),
+        id: resourceRef('ssh_key', 'SSH key'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return 'Deletion not confirmed. Set confirm=true to proceed with deleting this SSH key.';
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this SSH key.');
         }
-        const result = await cloud.request<Record<string, unknown>>(`/ssh_keys/${args.id}`, {
-          method: 'DELETE',
-        });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        await cloud.request(`/ssh_keys/${args.id}`, { method: 'DELETE' });
+        return { deleted: true, id: args.id as number };
       },
     );
   }
@@ -1,40 +1,98 @@
 /**
- * Hetzner Cloud Storage Box tools — list, get, update.
+ * Hetzner Storage Box tools — list, get, update, protection, rescale, password
+ * reset, access settings, snapshots and snapshot plans, subaccounts.
  */
 
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { CloudStorageBox } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudStorageBoxSchema,
+  cloudStorageBoxSnapshotSchema,
+  cloudStorageBoxSubaccountSchema,
+  labelsInputSchema,
+  storageBoxAccessSettingsInputSchema,
+  storageBoxSubaccountAccessSettingsInputSchema,
+  type ActionResponse,
+  type CloudStorageBox,
+  type CloudStorageBoxSnapshot,
+  type CloudStorageBoxSubaccount,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerStorageBoxTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
+  const storageBox = () => resourceRef('storage_box', 'Storage box');
+
+  /** POST a storage box action and wait for it. */
+  const storageBoxAction = async (path: string, body?: Record<string, unknown>) => {
+    const result = await cloud.request<ActionResponse>(path, { method: 'POST', body });
+    const action = await cloud.pollAction(result.action.id);
+    return { action };
+  };
+
   // ── Read-only tools ─────────────────────────────────────────────────────
 
   register(
     'list_storage_boxes',
     'List all storage boxes in the Hetzner Cloud project.',
-    {},
-    async () => {
-      const storageBoxes = await cloud.requestAll<CloudStorageBox>('/storage_boxes', 'storage_boxes');
-      let output = JSON.stringify(storageBoxes, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+    {
+      name: z.string().optional().describe('Filter by storage box name'),
+      label_selector: z.string().optional().describe('Filter by label selector (e.g. "env=prod")'),
+    },
+    { storage_boxes: z.array(cloudStorageBoxSchema) },
+    async (args) => {
+      const storageBoxes = await cloud.requestAll<CloudStorageBox>('/storage_boxes', 'storage_boxes', {
+        name: args.name as string | undefined,
+        label_selector: args.label_selector as string | undefined,
+      });
+      return { storage_boxes: storageBoxes };
     },
   );
 
   register(
     'get_storage_box',
-    'Get detailed information about a specific storage box by ID.',
+    'Get detailed information about a specific storage box by ID or name, including access settings, snapshot plan and disk usage.',
     {
-      id: z.number().describe('Storage box ID'),
+      id: storageBox(),
     },
+    cloudStorageBoxSchema.shape,
     async (args) => {
       const result = await cloud.request<{ storage_box: CloudStorageBox }>(`/storage_boxes/${args.id}`);
-      let output = JSON.stringify(result.storage_box, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return result.storage_box;
+    },
+  );
+
+  register(
+    'list_storage_box_snapshots',
+    'List the snapshots of a storage box, manual and automatic.',
+    {
+      id: storageBox(),
+      is_automatic: z.boolean().optional().describe('Only automatic (true) or only manual (false) snapshots'),
+    },
+    { snapshots: z.array(cloudStorageBoxSnapshotSchema) },
+    async (args) => {
+      const snapshots = await cloud.requestAll<CloudStorageBoxSnapshot>(`/storage_boxes/${args.id}/snapshots`, 'snapshots', {
+        is_automatic: args.is_automatic === undefined ? undefined : String(args.is_automatic),
+      });
+      return { snapshots };
+    },
+  );
+
+  register(
+    'list_storage_box_subaccounts',
+    'List the subaccounts of a storage box with their home directories and access settings.',
+    {
+      id: storageBox(),
+    },
+    { subaccounts: z.array(cloudStorageBoxSubaccountSchema) },
+    async (args) => {
+      const subaccounts = await cloud.requestAll<CloudStorageBoxSubaccount>(
+        `/storage_boxes/${args.id}/subaccounts`,
+        'subaccounts',
+      );
+      return { subaccounts };
     },
   );
 
@@ -45,25 +103,314 @@ export function registerStorageBoxTools(register: ToolRegistrar, cloud: CloudCli
       'update_storage_box',
       'Update a storage box\'s name or labels.',
       {
-        id: z.number().describe('Storage box ID'),
+        id: storageBox(),
         name: z.string().optional().describe('New name for the storage box'),
-        labels: z.string().optional().describe('New labels as JSON object (e.g. {"env":"prod"})'),
+        labels: labelsInputSchema.optional().describe('New labels, replacing the existing ones (e.g. {"env":"staging"})'),
       },
+      cloudStorageBoxSchema.shape,
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name !== undefined) body.name = args.name;
         if (args.labels !== undefined) {
-          body.labels = JSON.parse(args.labels as string) as Record<string, string>;
+          body.labels = args.labels;
         }
 
         const result = await cloud.request<{ storage_box: CloudStorageBox }>(`/storage_boxes/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result.storage_box, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result.storage_box;
+      },
+    );
+
+    register(
+      'change_storage_box_protection',
+      'Change delete protection for a storage box',
+      {
+        id: storageBox(),
+        delete: z.boolean().describe('Enable or disable delete protection'),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(`/storage_boxes/${args.id}/actions/change_protection`, { delete: args.delete }),
+    );
+
+    register(
+      'change_storage_box_type',
+      'Rescale a storage box to another storage box type (e.g. "bx21"). Downgrading fails if the data does not fit.',
+      {
+        id: storageBox(),
+        storage_box_type: z.string().describe('Name of the new storage box type'),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(`/storage_boxes/${args.id}/actions/change_type`, {
+        storage_box_type: args.storage_box_type,
+      }),
+    );
+
+    register(
+      'reset_storage_box_password',
+      'Set a new password for the main account of a storage box.',
+      {
+        id: storageBox(),
+        password: z.string().min(1).describe('New password'),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(`/storage_boxes/${args.id}/actions/reset_password`, { password: args.password }),
+    );
+
+    register(
+      'update_storage_box_access_settings',
+      'Turn SSH/SFTP, Samba, WebDAV, the .zfs snapshot directory and external reachability on or off for the main ' +
+      'account of a storage box. Settings left out are unchanged.',
+      {
+        id: storageBox(),
+        ...storageBoxAccessSettingsInputSchema.shape,
+      },
+      { action: actionSchema },
+      async (args) => {
+        const { id, ...settings } = args;
+        return storageBoxAction(`/storage_boxes/${id}/actions/update_access_settings`, settings);
+      },
+    );
+
+    // ── Snapshots ─────────────────────────────────────────────────────────
+
+    register(
+      'create_storage_box_snapshot',
+      'Take a manual snapshot of a storage box',
+      {
+        id: storageBox(),
+        description: z.string().optional().describe('Description of the snapshot'),
+        labels: labelsInputSchema.optional(),
+      },
+      { snapshot: cloudStorageBoxSnapshotSchema, action: actionSchema },
+      async (args) => {
+        const body: Record<string, unknown> = {};
+        if (args.description) body.description = args.description;
+        if (args.labels) body.labels = args.labels;
+
+        const result = await cloud.request<{ snapshot: CloudStorageBoxSnapshot; action: HetznerAction }>(
+          `/storage_boxes/${args.id}/snapshots`,
+          { method: 'POST', body },
+        );
+        const action = await cloud.pollAction(result.action.id);
+        return { snapshot: result.snapshot, action };
+      },
+    );
+
+    register(
+      'update_storage_box_snapshot',
+      'Update a storage box snapshot\'s description or labels',
+      {
+        id: storageBox(),
+        snapshot_id: z.number().describe('Snapshot ID (see list_storage_box_snapshots)'),
+        description: z.string().optional().describe('New description'),
+        labels: labelsInputSchema.optional(),
+      },
+      { snapshot: cloudStorageBoxSnapshotSchema },
+      async (args) => {
+        const body: Record<string, unknown> = {};
+        if (args.description !== undefined) body.description = args.description;
+        if (args.labels) body.labels = args.labels;
+
+        return cloud.request<{ snapshot: CloudStorageBoxSnapshot }>(
+          `/storage_boxes/${args.id}/snapshots/${args.snapshot_id}`,
+          { method: 'PUT', body },
+        );
+      },
+    );
+
+    register(
+      'delete_storage_box_snapshot',
+      'Delete a storage box snapshot permanently. Requires confirm=true.',
+      {
+        id: storageBox(),
+        snapshot_id: z.number().describe('Snapshot ID (see list_storage_box_snapshots)'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
+      },
+      { action: actionSchema },
+      async (args) => {
+        if (!args.confirm) {
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this snapshot.');
+        }
+        const result = await cloud.request<ActionResponse>(
+          `/storage_boxes/${args.id}/snapshots/${args.snapshot_id}`,
+          { method: 'DELETE' },
+        );
+        const action = await cloud.pollAction(result.action.id);
+        return { action };
+      },
+    );
+
+    register(
+      'rollback_storage_box_snapshot',
+      'Roll a storage box back to a snapshot. Data written after the snapshot is lost. Requires confirm=true.',
+      {
+        id: storageBox(),
+        snapshot: z.union([z.number(), z.string()]).describe('Snapshot ID or name'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm the rollback'),
+      },
+      { action: actionSchema },
+      async (args) => {
+        if (!args.confirm) {
+          throw new Error('Rollback not confirmed. Set confirm=true to overwrite the storage box with the snapshot.');
+        }
+        return storageBoxAction(`/storage_boxes/${args.id}/actions/rollback_snapshot`, { snapshot: args.snapshot });
+      },
+    );
+
+    register(
+      'enable_storage_box_snapshot_plan',
+      'Take automatic snapshots of a storage box on a schedule (UTC), keeping the newest max_snapshots. ' +
+      'Without day_of_week or day_of_month, a snapshot is taken every day.',
+      {
+        id: storageBox(),
+        max_snapshots: z.number().int().positive().describe('Number of automatic snapshots to keep'),
+        minute: z.number().int().min(0).max(59).describe('Minute of the hour'),
+        hour: z.number().int().min(0).max(23).describe('Hour of the day (UTC)'),
+        day_of_week: z.number().int().min(1).max(7).optional().describe('Day of the week, 1 (Monday) to 7 (Sunday)'),
+        day_of_month: z.number().int().min(1).max(31).optional().describe('Day of the month'),
+      },
+      { action: actionSchema },
+      async (args) => {
+        const { id, ...plan } = args;
+        return storageBoxAction(`/storage_boxes/${id}/actions/enable_snapshot_plan`, {
+          ...plan,
+          day_of_week: plan.day_of_week ?? null,
+          day_of_month: plan.day_of_month ?? null,
+        });
+      },
+    );
+
+    register(
+      'disable_storage_box_snapshot_plan',
+      'Stop taking automatic snapshots of a storage box. Existing snapshots are kept.',
+      {
+        id: storageBox(),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(`/storage_boxes/${args.id}/actions/disable_snapshot_plan`),
+    );
+
+    // ── Subaccounts ───────────────────────────────────────────────────────
+
+    register(
+      'create_storage_box_subaccount',
+      'Create a subaccount of a storage box, restricted to a home directory inside the box',
+      {
+        id: storageBox(),
+        password: z.string().min(1).describe('Password of the subaccount'),
+        home_directory: z.string().describe('Directory the subaccount is restricted to (created if missing)'),
+        access_settings: storageBoxSubaccountAccessSettingsInputSchema.optional(),
+        description: z.string().optional().describe('Description of the subaccount'),
+        labels: labelsInputSchema.optional(),
+      },
+      { subaccount: cloudStorageBoxSubaccountSchema, action: actionSchema },
+      async (args) => {
+        const body: Record<string, unknown> = {
+          password: args.password,
+          home_directory: args.home_directory,
+        };
+        if (args.access_settings) body.access_settings = args.access_settings;
+        if (args.description) body.description = args.description;
+        if (args.labels) body.labels = args.labels;
+
+        const result = await cloud.request<{ subaccount: CloudStorageBoxSubaccount; action: HetznerAction }>(
+          `/storage_boxes/${args.id}/subaccounts`,
+          { method: 'POST', body },
+        );
+        const action = await cloud.pollAction(result.action.id);
+        return { subaccount: result.subaccount, action };
+      },
+    );
+
+    register(
+      'update_storage_box_subaccount',
+      'Update a storage box subaccount\'s description or labels',
+      {
+        id: storageBox(),
+        subaccount_id: z.number().describe('Subaccount ID (see list_storage_box_subaccounts)'),
+        description: z.string().optional().describe('New description'),
+        labels: labelsInputSchema.optional(),
+      },
+      { subaccount: cloudStorageBoxSubaccountSchema },
+      async (args) => {
+        const body: Record<string, unknown> = {};
+        if (args.description !== undefined) body.description = args.description;
+        if (args.labels) body.labels = args.labels;
+
+        return cloud.request<{ subaccount: CloudStorageBoxSubaccount }>(
+          `/storage_boxes/${args.id}/subaccounts/${args.subaccount_id}`,
+          { method: 'PUT', body },
+        );
+      },
+    );
+
+    register(
+      'delete_storage_box_subaccount',
+      'Delete a storage box subaccount. Its files stay in the storage box. Requires confirm=true.',
+      {
+        id: storageBox(),
+        subaccount_id: z.number().describe('Subaccount ID (see list_storage_box_subaccounts)'),
+        confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
+      },
+      { action: actionSchema },
+      async (args) => {
+        if (!args.confirm) {
+          throw new Error('Deletion not confirmed. Set confirm=true to proceed with deleting this subaccount.');
+        }
+        const result = await cloud.request<ActionResponse>(
+          `/storage_boxes/${args.id}/subaccounts/${args.subaccount_id}`,
+          { method: 'DELETE' },
+        );
+        const action = await cloud.pollAction(result.action.id);
+        return { action };
+      },
+    );
+
+    register(
+      'change_storage_box_subaccount_home_directory',
+      'Move a storage box subaccount to another home directory',
+      {
+        id: storageBox(),
+        subaccount_id: z.number().describe('Subaccount ID (see list_storage_box_subaccounts)'),
+        home_directory: z.string().describe('New home directory (created if missing)'),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(
+        `/storage_boxes/${args.id}/subaccounts/${args.subaccount_id}/actions/change_home_directory`,
+        { home_directory: args.home_directory },
+      ),
+    );
+
+    register(
+      'reset_storage_box_subaccount_password',
+      'Set a new password for a storage box subaccount',
+      {
+        id: storageBox(),
+        subaccount_id: z.number().describe('Subaccount ID (see list_storage_box_subaccounts)'),
+        password: z.string().min(1).describe('New password'),
+      },
+      { action: actionSchema },
+      async (args) => storageBoxAction(
+        `/storage_boxes/${args.id}/subaccounts/${args.subaccount_id}/actions/reset_subaccount_password`,
+        { password: args.password },
+      ),
+    );
+
+    register(
+      'update_storage_box_subaccount_access_settings',
+      'Turn SSH/SFTP, Samba, WebDAV, external reachability and read-only access on or off for a storage box ' +
+      'subaccount. Settings left out are unchanged.',
+      {
+        id: storageBox(),
+        subaccount_id: z.number().describe('Subaccount ID (see list_storage_box_subaccounts)'),
+        ...storageBoxSubaccountAccessSettingsInputSchema.shape,
+      },
+      { action: actionSchema },
+      async (args) => {
+        const { id, subaccount_id: subaccountId, ...settings } = args;
+        return storageBoxAction(`/storage_boxes/${id}/subaccounts/${subaccountId}/actions/update_access_settings`, settings);
       },
     );
   }
@@ -5,7 +5,15 @@
 import { z } from 'zod';
 import type { ToolRegistrar } from '../server.js';
 import type { CloudClient } from '../clients/cloud.js';
-import type { ActionResponse } from '../types/cloud.js';
+import type { HetznerAction } from '../clients/common.js';
+import {
+  actionSchema,
+  cloudVolumeSchema,
+  labelsInputSchema,
+  type ActionResponse,
+  type CloudVolume,
+} from '../types/cloud.js';
+import { resourceRef } from '../resolver.js';
 
 export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient, readOnly: boolean): void {
   // ── Read-only tools ─────────────────────────────────────────────────────
@@ -19,32 +27,28 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       status: z.string().optional().describe('Filter by status (available, creating)'),
       sort: z.string().optional().describe('Sort results (id, id:asc, id:desc, name, name:asc, name:desc, created, created:asc, created:desc)'),
     },
+    { volumes: z.array(cloudVolumeSchema) },
     async (args) => {
-      const volumes = await cloud.requestAll('/volumes', 'volumes', {
+      const volumes = await cloud.requestAll<CloudVolume>('/volumes', 'volumes', {
         name: args.name as string | undefined,
         label_selector: args.label_selector as string | undefined,
         status: args.status as string | undefined,
         sort: args.sort as string | undefined,
       });
-      let output = JSON.stringify(volumes, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      return { volumes };
     },
   );
 
   register(
     'get_volume',
-    'Get details of a specific volume by ID',
+    'Get details of a specific volume by ID or name',
     {
-      id: z.number().describe('Volume ID'),
+      id: resourceRef('volume', 'Volume'),
     },
+    { volume: cloudVolumeSchema },
     async (args) => {
-      const result = await cloud.request(`/volumes/${args.id}`);
-      let output = JSON.stringify(result, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const result = await cloud.request<{ volume: CloudVolume }>(`/volumes/${args.id}`);
+      return result;
     },
   );
 
@@ -52,14 +56,12 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
     'list_volume_actions',
     'List all actions for a specific volume',
     {
-      id: z.number().describe('Volume ID'),
+      id: resourceRef('volume', 'Volume'),
     },
+    { actions: z.array(actionSchema) },
     async (args) => {
-      const actions = await cloud.requestAll(`/volumes/${args.id}/actions`, 'actions');
-      let output = JSON.stringify(actions, null, 2);
-      const warning = cloud.rateLimitWarning();
-      if (warning) output += '\n' + warning;
-      return output;
+      const actions = await cloud.requestAll<HetznerAction>(`/volumes/${args.id}/actions`, 'actions');
+      return { actions };
     },
   );
 
@@ -73,11 +75,12 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
         name: z.string().describe('Name of the volume'),
         size: z.number().describe('Size in GB (minimum 10)'),
         location: z.string().optional().describe('Location name (e.g. "fsn1"). Required if server is not set'),
-        server: z.number().optional().describe('Server ID to attach the volume to'),
+        server: resourceRef('server', 'Server to attach the volume to').optional(),
         automount: z.boolean().default(false).describe('Auto-mount the volume after attaching'),
         format: z.string().optional().describe('Filesystem format (ext4, xfs). Optional'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { volume: cloudVolumeSchema, action: actionSchema },
       async (args) => {
         const body: Record<string, unknown> = {
           name: args.name,
@@ -87,17 +90,14 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
         if (args.server) body.server = args.server;
         if (args.automount) body.automount = args.automount;
         if (args.format) body.format = args.format;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request<{ volume: unknown; action: { id: number } }>(
+        const result = await cloud.request<{ volume: CloudVolume; action: HetznerAction }>(
           '/volumes',
           { method: 'POST', body },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ volume: result.volume, action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { volume: result.volume, action };
       },
     );
 
@@ -105,23 +105,21 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'update_volume',
       'Update a volume (name and/or labels)',
       {
-        id: z.number().describe('Volume ID'),
+        id: resourceRef('volume', 'Volume'),
         name: z.string().optional().describe('New volume name'),
-        labels: z.string().optional().describe('JSON object of labels (e.g. \'{"env":"prod"}\')'),
+        labels: labelsInputSchema.optional(),
       },
+      { volume: cloudVolumeSchema },
       async (args) => {
         const body: Record<string, unknown> = {};
         if (args.name) body.name = args.name;
-        if (args.labels) body.labels = JSON.parse(args.labels as string);
+        if (args.labels) body.labels = args.labels;
 
-        const result = await cloud.request(`/volumes/${args.id}`, {
+        const result = await cloud.request<{ volume: CloudVolume }>(`/volumes/${args.id}`, {
           method: 'PUT',
           body,
         });
-        let output = JSON.stringify(result, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return result;
       },
     );
 
@@ -129,18 +127,16 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'delete_volume',
       'Delete a volume permanently',
       {
-        id: z.number().describe('Volume ID'),
+        id: resourceRef('volume', 'Volume'),
         confirm: z.boolean().default(false).describe('Must be true to confirm deletion'),
       },
+      { deleted: z.boolean(), id: z.number() },
       async (args) => {
         if (!args.confirm) {
-          return '⚠️ Please set confirm to true to delete this volume. This action is irreversible.';
+          throw new Error('⚠️ Please set confirm to true to delete this volume. This action is irreversible.');
         }
         await cloud.request(`/volumes/${args.id}`, { method: 'DELETE' });
-        let output = `Volume ${args.id} deleted successfully.`;
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { deleted: true, id: args.id as number };
       },
     );
 
@@ -148,20 +144,18 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'attach_volume',
       'Attach a volume to a server',
       {
-        id: z.number().describe('Volume ID'),
-        server: z.number().describe('Server ID to attach the volume to'),
+        id: resourceRef('volume', 'Volume'),
+        server: resourceRef('server', 'Server to attach the volume to'),
         automount: z.boolean().default(false).describe('Auto-mount the volume after attaching'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/volumes/${args.id}/actions/attach`,
           { method: 'POST', body: { server: args.server, automount: args.automount } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -169,18 +163,16 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'detach_volume',
       'Detach a volume from a server',
       {
-        id: z.number().describe('Volume ID'),
+        id: resourceRef('volume', 'Volume'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/volumes/${args.id}/actions/detach`,
           { method: 'POST' },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -188,19 +180,17 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'resize_volume',
       'Resize a volume (can only increase size)',
       {
-        id: z.number().describe('Volume ID'),
+        id: resourceRef('volume', 'Volume'),
         size: z.number().describe('New size in GB (must be larger than current size)'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/volumes/${args.id}/actions/resize`,
           { method: 'POST', body: { size: args.size } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
 
@@ -208,19 +198,17 @@ export function registerVolumeTools(register: ToolRegistrar, cloud: CloudClient,
       'change_volume_protection',
       'Change delete protection for a volume',
       {
-        id: z.number().describe('Volume ID'),
+        id: resourceRef('volume', 'Volume'),
         delete: z.boolean().describe('Enable or disable delete protection'),
       },
+      { action: actionSchema },
       async (args) => {
         const result = await cloud.request<ActionResponse>(
           `/volumes/${args.id}/actions/change_protection`,
           { method: 'POST', body: { delete: args.delete } },
         );
         const action = await cloud.pollAction(result.action.id);
-        let output = JSON.stringify({ action }, null, 2);
-        const warning = cloud.rateLimitWarning();
-        if (warning) output += '\n' + warning;
-        return output;
+        return { action };
       },
     );
   }
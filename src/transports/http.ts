@@ -0,0 +1,238 @@
+/**
+ * HTTP transport — serves the MCP server over Streamable HTTP (`/mcp`) with
+ * a legacy SSE fallback (`/sse` + `/messages`), so several agents can share
+ * one hetzner-mcp instance. All MCP routes require a bearer token, and
+ * sessions that stay idle past the configured timeout are closed.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { HttpConfig } from '../config.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface Session<T> {
+  transport: T;
+  server: McpServer;
+  /** Closes the session once it has been idle for the configured timeout. */
+  idleTimer?: NodeJS.Timeout;
+}
+
+export interface HttpServerHandle {
+  /** Port the server listens on (the assigned one when configured with port 0). */
+  port: number;
+  /** Stop accepting connections and close all open MCP sessions. */
+  close(): Promise<void>;
+}
+
+/**
+ * Start the HTTP server. `createServer` is called once per MCP session so that
+ * every client gets its own protocol state while sharing the API clients.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  config: HttpConfig,
+): Promise<HttpServerHandle> {
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const expectedAuth = Buffer.from(`Bearer ${config.authToken}`);
+  const idleTimeoutMs = config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  /** Restart the idle timer of a session that just saw a request. */
+  function touch(session: Session<unknown>): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      session.server.close().catch((error) => {
+        console.error('[HTTP] Closing an idle session failed:', error);
+      });
+    }, idleTimeoutMs);
+    session.idleTimer.unref();
+  }
+
+  function forget<T>(sessions: Map<string, Session<T>>, id: string): void {
+    clearTimeout(sessions.get(id)?.idleTimer);
+    sessions.delete(id);
+  }
+
+  function isAuthorized(req: IncomingMessage): boolean {
+    const provided = Buffer.from(req.headers.authorization ?? '');
+    return provided.length === expectedAuth.length && timingSafeEqual(provided, expectedAuth);
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (existing) {
+        touch(existing);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, sessionId ? 'Unknown session ID' : 'No valid session ID provided');
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          const session = { transport, server };
+          streamableSessions.set(id, session);
+          touch(session);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) forget(streamableSessions, transport.sessionId);
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Invalid or missing session ID');
+        return;
+      }
+      touch(existing);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendJson(res, 405, { error: `Method ${req.method} not allowed on ${url.pathname}` });
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    const session = { transport, server };
+    sseSessions.set(transport.sessionId, session);
+    touch(session);
+    res.on('close', () => {
+      forget(sseSessions, transport.sessionId);
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sseSessions.get(sessionId);
+    if (!session) {
+      sendJson(res, 404, { error: 'Unknown SSE session ID' });
+      return;
+    }
+    touch(session);
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const route = async (): Promise<void> => {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableSessions.size + sseSessions.size,
+        });
+        return;
+      }
+
+      if (!isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { error: 'Unauthorized' });
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res, url);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    };
+
+    route().catch((error) => {
+      console.error(`[HTTP] ${req.method} ${url.pathname} failed:`, error);
+      if (!res.headersSent) {
+        const status = error instanceof BodyError ? error.status : 500;
+        sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    async close() {
+      const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+      for (const session of sessions) clearTimeout(session.idleTimer);
+      streamableSessions.clear();
+      sseSessions.clear();
+      await Promise.allSettled(sessions.map((s) => s.server.close()));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+class BodyError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'BodyError';
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new BodyError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
@@ -1,10 +1,13 @@
 /**
- * Hetzner Cloud API response types.
- * These are used for type safety in tool handlers.
+ * Hetzner Cloud API response types and request body schemas.
+ * Each shape is a Zod schema, used as the structured output schema of the
+ * tools returning it; the TypeScript types are inferred from the schemas.
  * The Cloud API returns JSON; we type the most commonly-used response shapes.
  */
 
+import { z } from 'zod';
 import type { HetznerAction, PaginationMeta } from '../clients/common.js';
+import { resourceRef } from '../resolver.js';
 
 // ── Generic Response Wrappers ───────────────────────────────────────────────
 
@@ -21,244 +24,531 @@ export interface ActionsResponse {
   actions: HetznerAction[];
 }
 
-// ── Servers ─────────────────────────────────────────────────────────────────
+const labelsSchema = z.record(z.string());
 
-export interface CloudServer {
-  id: number;
-  name: string;
-  status: string;
-  public_net: {
-    ipv4?: { ip: string; blocked: boolean; dns_ptr: string };
-    ipv6?: { ip: string; blocked: boolean };
-    floating_ips: number[];
-    firewalls: Array<{ id: number; status: string }>;
-  };
-  private_net: Array<{ network: number; ip: string; alias_ips: string[] }>;
-  server_type: { id: number; name: string; description: string; cores: number; memory: number; disk: number };
-  datacenter: { id: number; name: string; description: string; location: CloudLocation };
-  image: { id: number; name: string; os_flavor: string; os_version: string } | null;
-  iso: { id: number; name: string } | null;
-  rescue_enabled: boolean;
-  locked: boolean;
-  protection: { delete: boolean; rebuild: boolean };
-  labels: Record<string, string>;
-  volumes: number[];
-  load_balancers: number[];
-  created: string;
-}
+// ── Actions ─────────────────────────────────────────────────────────────────
+
+export const actionSchema = z.object({
+  id: z.number(),
+  command: z.string(),
+  status: z.string(),
+  progress: z.number(),
+  started: z.string(),
+  finished: z.string().nullable(),
+  resources: z.array(z.object({ id: z.number(), type: z.string() }).passthrough()),
+  error: z.object({ code: z.string(), message: z.string() }).passthrough().nullable().optional(),
+}).passthrough();
 
 // ── Locations & Datacenters ─────────────────────────────────────────────────
 
-export interface CloudLocation {
-  id: number;
-  name: string;
-  description: string;
-  country: string;
-  city: string;
-  latitude: number;
-  longitude: number;
-  network_zone: string;
-}
+export const cloudLocationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  country: z.string(),
+  city: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  network_zone: z.string(),
+}).passthrough();
+export type CloudLocation = z.infer<typeof cloudLocationSchema>;
+
+export const cloudDatacenterSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  location: cloudLocationSchema,
+  server_types: z.object({
+    supported: z.array(z.number()),
+    available: z.array(z.number()),
+    available_for_migration: z.array(z.number()),
+  }).passthrough().optional(),
+}).passthrough();
+export type CloudDatacenter = z.infer<typeof cloudDatacenterSchema>;
 
-export interface CloudDatacenter {
-  id: number;
-  name: string;
-  description: string;
-  location: CloudLocation;
-}
+// ── Servers ─────────────────────────────────────────────────────────────────
+
+export const cloudServerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.string(),
+  public_net: z.object({
+    ipv4: z.object({ ip: z.string(), blocked: z.boolean(), dns_ptr: z.string() }).passthrough().nullable().optional(),
+    ipv6: z.object({ ip: z.string(), blocked: z.boolean() }).passthrough().nullable().optional(),
+    floating_ips: z.array(z.number()),
+    firewalls: z.array(z.object({ id: z.number(), status: z.string() }).passthrough()),
+  }).passthrough(),
+  private_net: z.array(z.object({ network: z.number(), ip: z.string(), alias_ips: z.array(z.string()) }).passthrough()),
+  server_type: z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string(),
+    cores: z.number(),
+    memory: z.number(),
+    disk: z.number(),
+  }).passthrough(),
+  datacenter: z.object({ id: z.number(), name: z.string(), description: z.string(), location: cloudLocationSchema }).passthrough(),
+  image: z.object({ id: z.number(), name: z.string().nullable(), os_flavor: z.string(), os_version: z.string().nullable() }).passthrough().nullable(),
+  iso: z.object({ id: z.number(), name: z.string().nullable() }).passthrough().nullable(),
+  rescue_enabled: z.boolean(),
+  locked: z.boolean(),
+  protection: z.object({ delete: z.boolean(), rebuild: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  volumes: z.array(z.number()),
+  load_balancers: z.array(z.number()),
+  created: z.string(),
+}).passthrough();
+export type CloudServer = z.infer<typeof cloudServerSchema>;
 
 // ── Volumes ─────────────────────────────────────────────────────────────────
 
-export interface CloudVolume {
-  id: number;
-  name: string;
-  size: number;
-  server: number | null;
-  location: CloudLocation;
-  status: string;
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  linux_device: string;
-  created: string;
-  format: string | null;
-}
+export const cloudVolumeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size: z.number(),
+  server: z.number().nullable(),
+  location: cloudLocationSchema,
+  status: z.string(),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  linux_device: z.string(),
+  created: z.string(),
+  format: z.string().nullable(),
+}).passthrough();
+export type CloudVolume = z.infer<typeof cloudVolumeSchema>;
 
 // ── Networks ────────────────────────────────────────────────────────────────
 
-export interface CloudNetwork {
-  id: number;
-  name: string;
-  ip_range: string;
-  subnets: Array<{ type: string; ip_range: string; network_zone: string; gateway: string }>;
-  routes: Array<{ destination: string; gateway: string }>;
-  servers: number[];
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudNetworkSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  ip_range: z.string(),
+  subnets: z.array(z.object({
+    type: z.string(),
+    ip_range: z.string(),
+    network_zone: z.string(),
+    gateway: z.string(),
+  }).passthrough()),
+  routes: z.array(z.object({ destination: z.string(), gateway: z.string() }).passthrough()),
+  servers: z.array(z.number()),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudNetwork = z.infer<typeof cloudNetworkSchema>;
 
 // ── Firewalls ───────────────────────────────────────────────────────────────
 
-export interface CloudFirewall {
-  id: number;
-  name: string;
-  rules: Array<{
-    direction: 'in' | 'out';
-    protocol: string;
-    port: string | null;
-    source_ips: string[];
-    destination_ips: string[];
-    description: string | null;
-  }>;
-  applied_to: Array<{ type: string; server?: { id: number } }>;
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudFirewallSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rules: z.array(z.object({
+    direction: z.string(),
+    protocol: z.string(),
+    port: z.string().nullable().optional(),
+    source_ips: z.array(z.string()).optional(),
+    destination_ips: z.array(z.string()).optional(),
+    description: z.string().nullable().optional(),
+  }).passthrough()),
+  applied_to: z.array(z.object({
+    type: z.string(),
+    server: z.object({ id: z.number() }).passthrough().optional(),
+    label_selector: z.object({ selector: z.string() }).passthrough().optional(),
+  }).passthrough()),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudFirewall = z.infer<typeof cloudFirewallSchema>;
 
 // ── Floating IPs ────────────────────────────────────────────────────────────
 
-export interface CloudFloatingIP {
-  id: number;
-  name: string;
-  ip: string;
-  type: 'ipv4' | 'ipv6';
-  server: number | null;
-  dns_ptr: Array<{ ip: string; dns_ptr: string }>;
-  home_location: CloudLocation;
-  blocked: boolean;
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  created: string;
-}
+const dnsPtrSchema = z.array(z.object({ ip: z.string(), dns_ptr: z.string() }).passthrough());
+
+export const cloudFloatingIpSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  ip: z.string(),
+  type: z.string(),
+  server: z.number().nullable(),
+  dns_ptr: dnsPtrSchema,
+  home_location: cloudLocationSchema,
+  blocked: z.boolean(),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudFloatingIP = z.infer<typeof cloudFloatingIpSchema>;
 
 // ── Primary IPs ─────────────────────────────────────────────────────────────
 
-export interface CloudPrimaryIP {
-  id: number;
-  name: string;
-  ip: string;
-  type: 'ipv4' | 'ipv6';
-  assignee_id: number | null;
-  assignee_type: string;
-  auto_delete: boolean;
-  blocked: boolean;
-  datacenter: CloudDatacenter;
-  dns_ptr: Array<{ ip: string; dns_ptr: string }>;
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudPrimaryIpSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  ip: z.string(),
+  type: z.string(),
+  assignee_id: z.number().nullable(),
+  assignee_type: z.string(),
+  auto_delete: z.boolean(),
+  blocked: z.boolean(),
+  datacenter: cloudDatacenterSchema,
+  dns_ptr: dnsPtrSchema,
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudPrimaryIP = z.infer<typeof cloudPrimaryIpSchema>;
 
 // ── Load Balancers ──────────────────────────────────────────────────────────
 
-export interface CloudLoadBalancer {
-  id: number;
-  name: string;
-  public_net: { enabled: boolean; ipv4: { ip: string }; ipv6: { ip: string } };
-  private_net: Array<{ network: number; ip: string }>;
-  location: CloudLocation;
-  load_balancer_type: { id: number; name: string; description: string };
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  targets: unknown[];
-  services: unknown[];
-  algorithm: { type: string };
-  created: string;
-}
+export const cloudLoadBalancerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  public_net: z.object({
+    enabled: z.boolean(),
+    ipv4: z.object({ ip: z.string().nullable() }).passthrough(),
+    ipv6: z.object({ ip: z.string().nullable() }).passthrough(),
+  }).passthrough(),
+  private_net: z.array(z.object({ network: z.number(), ip: z.string() }).passthrough()),
+  location: cloudLocationSchema,
+  load_balancer_type: z.object({ id: z.number(), name: z.string(), description: z.string() }).passthrough(),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  targets: z.array(z.unknown()),
+  services: z.array(z.unknown()),
+  algorithm: z.object({ type: z.string() }).passthrough(),
+  created: z.string(),
+}).passthrough();
+export type CloudLoadBalancer = z.infer<typeof cloudLoadBalancerSchema>;
 
 // ── Certificates ────────────────────────────────────────────────────────────
 
-export interface CloudCertificate {
-  id: number;
-  name: string;
-  type: 'uploaded' | 'managed';
-  certificate: string | null;
-  domain_names: string[];
-  not_valid_before: string;
-  not_valid_after: string;
-  status: { issuance: string; renewal: string; error?: { code: string; message: string } } | null;
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudCertificateSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string(),
+  certificate: z.string().nullable(),
+  domain_names: z.array(z.string()),
+  not_valid_before: z.string().nullable(),
+  not_valid_after: z.string().nullable(),
+  status: z.object({
+    issuance: z.string(),
+    renewal: z.string(),
+    error: z.object({ code: z.string(), message: z.string() }).passthrough().nullable().optional(),
+  }).passthrough().nullable(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudCertificate = z.infer<typeof cloudCertificateSchema>;
 
 // ── SSH Keys ────────────────────────────────────────────────────────────────
 
-export interface CloudSSHKey {
-  id: number;
-  name: string;
-  fingerprint: string;
-  public_key: string;
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudSshKeySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  fingerprint: z.string(),
+  public_key: z.string(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudSSHKey = z.infer<typeof cloudSshKeySchema>;
 
 // ── Placement Groups ────────────────────────────────────────────────────────
 
-export interface CloudPlacementGroup {
-  id: number;
-  name: string;
-  type: string;
-  servers: number[];
-  labels: Record<string, string>;
-  created: string;
-}
+export const cloudPlacementGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string(),
+  servers: z.array(z.number()),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudPlacementGroup = z.infer<typeof cloudPlacementGroupSchema>;
 
 // ── Images ──────────────────────────────────────────────────────────────────
 
-export interface CloudImage {
-  id: number;
-  name: string | null;
-  description: string;
-  type: 'system' | 'snapshot' | 'backup' | 'app';
-  status: string;
-  os_flavor: string;
-  os_version: string | null;
-  disk_size: number;
-  protection: { delete: boolean };
-  labels: Record<string, string>;
-  created: string;
-  image_size: number | null;
-  created_from?: { id: number; name: string };
-  rapid_deploy: boolean;
-  architecture: string;
-}
+export const cloudImageSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  description: z.string(),
+  type: z.string(),
+  status: z.string(),
+  os_flavor: z.string(),
+  os_version: z.string().nullable(),
+  disk_size: z.number(),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  created: z.string(),
+  image_size: z.number().nullable(),
+  created_from: z.object({ id: z.number(), name: z.string() }).passthrough().nullable().optional(),
+  rapid_deploy: z.boolean(),
+  architecture: z.string(),
+}).passthrough();
+export type CloudImage = z.infer<typeof cloudImageSchema>;
 
 // ── ISOs ────────────────────────────────────────────────────────────────────
 
-export interface CloudISO {
-  id: number;
-  name: string;
-  description: string;
-  type: 'public' | 'private';
-  architecture: string | null;
-}
+export const cloudIsoSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  type: z.string(),
+  architecture: z.string().nullable(),
+}).passthrough();
+export type CloudISO = z.infer<typeof cloudIsoSchema>;
+
+// ── Pricing ─────────────────────────────────────────────────────────────────
+
+const priceSchema = z.object({ net: z.string(), gross: z.string() }).passthrough();
+export type CloudPrice = z.infer<typeof priceSchema>;
+
+const locationPriceSchema = z.object({
+  location: z.string(),
+  price_hourly: priceSchema,
+  price_monthly: priceSchema,
+  included_traffic: z.number().optional(),
+  price_per_tb_traffic: priceSchema.optional(),
+}).passthrough();
+export type CloudLocationPrice = z.infer<typeof locationPriceSchema>;
+
+export const cloudPricingSchema = z.object({
+  currency: z.string(),
+  vat_rate: z.string(),
+  image: z.object({ price_per_gb_month: priceSchema }).passthrough(),
+  volume: z.object({ price_per_gb_month: priceSchema }).passthrough(),
+  server_backup: z.object({ percentage: z.string() }).passthrough(),
+  server_types: z.array(z.object({ id: z.number(), name: z.string(), prices: z.array(locationPriceSchema) }).passthrough()),
+  load_balancer_types: z.array(z.object({ id: z.number(), name: z.string(), prices: z.array(locationPriceSchema) }).passthrough()),
+  floating_ips: z.array(z.object({
+    type: z.string(),
+    prices: z.array(z.object({ location: z.string(), price_monthly: priceSchema }).passthrough()),
+  }).passthrough()),
+  primary_ips: z.array(z.object({ type: z.string(), prices: z.array(locationPriceSchema) }).passthrough()),
+}).passthrough();
+export type CloudPricing = z.infer<typeof cloudPricingSchema>;
 
 // ── Server Types ────────────────────────────────────────────────────────────
 
-export interface CloudServerType {
-  id: number;
-  name: string;
-  description: string;
-  cores: number;
-  memory: number;
-  disk: number;
-  storage_type: string;
-  cpu_type: string;
-  architecture: string;
-  prices: Array<{
-    location: string;
-    price_hourly: { net: string; gross: string };
-    price_monthly: { net: string; gross: string };
-  }>;
-}
+export const cloudServerTypeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  cores: z.number(),
+  memory: z.number(),
+  disk: z.number(),
+  storage_type: z.string(),
+  cpu_type: z.string(),
+  architecture: z.string(),
+  deprecation: z.object({ announced: z.string(), unavailable_after: z.string() }).passthrough().nullable().optional(),
+  prices: z.array(z.object({
+    location: z.string(),
+    price_hourly: priceSchema,
+    price_monthly: priceSchema,
+  }).passthrough()),
+}).passthrough();
+export type CloudServerType = z.infer<typeof cloudServerTypeSchema>;
+
+export const cloudLoadBalancerTypeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  max_connections: z.number(),
+  max_services: z.number(),
+  max_targets: z.number(),
+  max_assigned_certificates: z.number(),
+  prices: z.array(locationPriceSchema),
+}).passthrough();
+export type CloudLoadBalancerType = z.infer<typeof cloudLoadBalancerTypeSchema>;
 
 // ── Storage Boxes ───────────────────────────────────────────────────────────
 
-export interface CloudStorageBox {
-  id: number;
-  name: string;
-  disk_size: number;
-  labels: Record<string, string>;
-  location: CloudLocation;
-  status: string;
-}
+const storageBoxAccessSettingsSchema = z.object({
+  reachable_externally: z.boolean(),
+  samba_enabled: z.boolean(),
+  ssh_enabled: z.boolean(),
+  webdav_enabled: z.boolean(),
+  zfs_enabled: z.boolean(),
+}).passthrough();
+
+export const storageBoxSnapshotPlanSchema = z.object({
+  max_snapshots: z.number(),
+  minute: z.number(),
+  hour: z.number(),
+  day_of_week: z.number().nullable(),
+  day_of_month: z.number().nullable(),
+}).passthrough();
+
+export const cloudStorageBoxSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  name: z.string(),
+  status: z.string(),
+  storage_box_type: z.object({
+    name: z.string(),
+    description: z.string(),
+    size: z.number(),
+    snapshot_limit: z.number().nullable(),
+    automatic_snapshot_limit: z.number().nullable(),
+    subaccounts_limit: z.number(),
+  }).passthrough(),
+  location: cloudLocationSchema,
+  access_settings: storageBoxAccessSettingsSchema,
+  server: z.string().nullable(),
+  system: z.string().nullable(),
+  stats: z.object({ size: z.number(), size_data: z.number(), size_snapshots: z.number() }).passthrough(),
+  snapshot_plan: storageBoxSnapshotPlanSchema.nullable(),
+  protection: z.object({ delete: z.boolean() }).passthrough(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudStorageBox = z.infer<typeof cloudStorageBoxSchema>;
+
+export const cloudStorageBoxSnapshotSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  is_automatic: z.boolean(),
+  stats: z.object({ size: z.number(), size_filesystem: z.number() }).passthrough(),
+  storage_box: z.number(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudStorageBoxSnapshot = z.infer<typeof cloudStorageBoxSnapshotSchema>;
+
+export const cloudStorageBoxSubaccountSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  home_directory: z.string(),
+  server: z.string(),
+  access_settings: storageBoxAccessSettingsSchema.omit({ zfs_enabled: true }).extend({ readonly: z.boolean() }),
+  description: z.string(),
+  storage_box: z.number(),
+  labels: labelsSchema,
+  created: z.string(),
+}).passthrough();
+export type CloudStorageBoxSubaccount = z.infer<typeof cloudStorageBoxSubaccountSchema>;
+
+// ── Metrics ─────────────────────────────────────────────────────────────────
+
+export const cloudMetricsSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  step: z.number(),
+  time_series: z.record(z.object({ values: z.array(z.tuple([z.number(), z.string()])) }).passthrough()),
+}).passthrough();
+export type CloudMetrics = z.infer<typeof cloudMetricsSchema>;
+
+// ── Request Bodies ──────────────────────────────────────────────────────────
+// Tool parameters for nested request fields, validated before the request is
+// sent so errors name the failing field.
+
+export const labelsInputSchema = labelsSchema.describe('Labels as key/value pairs (e.g. {"env":"prod"})');
+
+export const firewallRuleInputSchema = z.object({
+  direction: z.enum(['in', 'out']),
+  protocol: z.enum(['tcp', 'udp', 'icmp', 'esp', 'gre']),
+  port: z.string().optional().describe('Port or range, e.g. "80" or "1024-5000" (tcp and udp only)'),
+  source_ips: z.array(z.string()).optional().describe('CIDRs allowed in (direction "in")'),
+  destination_ips: z.array(z.string()).optional().describe('CIDRs allowed out (direction "out")'),
+  description: z.string().optional(),
+}).superRefine((rule, ctx) => {
+  if ((rule.protocol === 'tcp' || rule.protocol === 'udp') && !rule.port) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['port'], message: `port is required for ${rule.protocol} rules` });
+  }
+  if (rule.direction === 'in' && !rule.source_ips?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['source_ips'], message: 'source_ips is required for inbound rules' });
+  }
+  if (rule.direction === 'out' && !rule.destination_ips?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['destination_ips'], message: 'destination_ips is required for outbound rules' });
+  }
+});
+export type FirewallRuleInput = z.infer<typeof firewallRuleInputSchema>;
+
+export const firewallResourceInputSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('server'), server: z.object({ id: resourceRef('server', 'Server') }) }),
+  z.object({ type: z.literal('label_selector'), label_selector: z.object({ selector: z.string() }) }),
+]);
+export type FirewallResourceInput = z.infer<typeof firewallResourceInputSchema>;
+
+export const networkSubnetInputSchema = z.object({
+  type: z.enum(['cloud', 'server', 'vswitch']),
+  network_zone: z.string().describe('Network zone, e.g. "eu-central"'),
+  ip_range: z.string().optional().describe('Subnet CIDR within the network range; chosen automatically if omitted'),
+  vswitch_id: z.number().optional().describe('Robot vSwitch ID (type "vswitch" only)'),
+});
+export type NetworkSubnetInput = z.infer<typeof networkSubnetInputSchema>;
+
+export const networkRouteInputSchema = z.object({
+  destination: z.string().describe('Destination CIDR'),
+  gateway: z.string().describe('Gateway IP inside the network'),
+});
+export type NetworkRouteInput = z.infer<typeof networkRouteInputSchema>;
+
+export const loadBalancerTargetInputSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('server'),
+    server: z.object({ id: resourceRef('server', 'Server') }),
+    use_private_ip: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('label_selector'),
+    label_selector: z.object({ selector: z.string() }),
+    use_private_ip: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('ip'), ip: z.object({ ip: z.string() }) }),
+]);
+export type LoadBalancerTargetInput = z.infer<typeof loadBalancerTargetInputSchema>;
+
+const loadBalancerHealthCheckInputSchema = z.object({
+  protocol: z.enum(['tcp', 'http', 'https']),
+  port: z.number(),
+  interval: z.number().describe('Seconds between checks'),
+  timeout: z.number().describe('Seconds before a check fails'),
+  retries: z.number(),
+  http: z.object({
+    domain: z.string().nullable().optional(),
+    path: z.string(),
+    response: z.string().optional(),
+    status_codes: z.array(z.string()).optional(),
+    tls: z.boolean().optional(),
+  }).optional(),
+});
+
+const loadBalancerHttpInputSchema = z.object({
+  cookie_name: z.string().optional(),
+  cookie_lifetime: z.number().optional(),
+  certificates: z.array(z.number()).optional().describe('Certificate IDs (https only)'),
+  redirect_http: z.boolean().optional(),
+  sticky_sessions: z.boolean().optional(),
+});
+
+export const loadBalancerServiceInputSchema = z.object({
+  protocol: z.enum(['tcp', 'http', 'https']),
+  listen_port: z.number(),
+  destination_port: z.number(),
+  proxyprotocol: z.boolean().optional(),
+  health_check: loadBalancerHealthCheckInputSchema.optional(),
+  http: loadBalancerHttpInputSchema.optional(),
+});
+export type LoadBalancerServiceInput = z.infer<typeof loadBalancerServiceInputSchema>;
+
+/** Service update: `listen_port` identifies the service, everything else is optional. */
+export const loadBalancerServiceUpdateInputSchema = loadBalancerServiceInputSchema.partial().extend({
+  listen_port: z.number(),
+  health_check: loadBalancerHealthCheckInputSchema.partial().optional(),
+});
+export type LoadBalancerServiceUpdateInput = z.infer<typeof loadBalancerServiceUpdateInputSchema>;
+
+export const storageBoxAccessSettingsInputSchema = z.object({
+  ssh_enabled: z.boolean().optional(),
+  samba_enabled: z.boolean().optional(),
+  webdav_enabled: z.boolean().optional(),
+  zfs_enabled: z.boolean().optional().describe('Expose snapshots in a .zfs directory (main account only)'),
+  reachable_externally: z.boolean().optional().describe('Allow access from outside the Hetzner network'),
+});
+export type StorageBoxAccessSettingsInput = z.infer<typeof storageBoxAccessSettingsInputSchema>;
+
+export const storageBoxSubaccountAccessSettingsInputSchema = storageBoxAccessSettingsInputSchema
+  .omit({ zfs_enabled: true })
+  .extend({ readonly: z.boolean().optional().describe('Allow reading only') });
+export type StorageBoxSubaccountAccessSettingsInput = z.infer<typeof storageBoxSubaccountAccessSettingsInputSchema>;
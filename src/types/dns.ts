@@ -1,121 +1,149 @@
 /**
- * Hetzner DNS API response types.
+ * Hetzner DNS API response types and request body schemas.
  * DNS is integrated into the Cloud API under /dns/zones and /dns/records.
+ * Shapes returned by tools are Zod schemas with inferred TypeScript types.
  */
 
+import { z } from 'zod';
+
 // ── Zones ───────────────────────────────────────────────────────────────────
 
-export interface DnsZone {
-  id: string;
-  name: string;
-  ttl: number;
-  registrar: string;
-  legacy_dns_host: string;
-  legacy_ns: string[];
-  ns: string[];
-  created: string;
-  verified: string;
-  modified: string;
-  project: string;
-  owner: string;
-  permission: string;
-  zone_type: {
-    id: string;
-    name: string;
-    description: string;
-    prices: unknown;
-  };
-  status: 'verified' | 'failed' | 'pending';
-  paused: boolean;
-  is_secondary_dns: boolean;
-  txt_verification: {
-    name: string;
-    token: string;
-  };
-  records_count: number;
-}
+export const dnsZoneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  ttl: z.number(),
+  registrar: z.string(),
+  legacy_dns_host: z.string(),
+  legacy_ns: z.array(z.string()),
+  ns: z.array(z.string()),
+  created: z.string(),
+  verified: z.string(),
+  modified: z.string(),
+  project: z.string(),
+  owner: z.string(),
+  permission: z.string(),
+  zone_type: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    prices: z.unknown(),
+  }).passthrough(),
+  status: z.string(),
+  paused: z.boolean(),
+  is_secondary_dns: z.boolean(),
+  txt_verification: z.object({
+    name: z.string(),
+    token: z.string(),
+  }).passthrough(),
+  records_count: z.number(),
+}).passthrough();
+export type DnsZone = z.infer<typeof dnsZoneSchema>;
 
 // ── Records ─────────────────────────────────────────────────────────────────
 
-export type DnsRecordType =
-  | 'A'
-  | 'AAAA'
-  | 'NS'
-  | 'MX'
-  | 'CNAME'
-  | 'RP'
-  | 'TXT'
-  | 'SOA'
-  | 'HINFO'
-  | 'SRV'
-  | 'DANE'
-  | 'TLSA'
-  | 'DS'
-  | 'CAA';
-
-export interface DnsRecord {
-  id: string;
-  type: DnsRecordType;
-  name: string;
-  value: string;
-  zone_id: string;
-  created: string;
-  modified: string;
-  ttl?: number;
-}
+export const dnsRecordTypeSchema = z.enum([
+  'A',
+  'AAAA',
+  'NS',
+  'MX',
+  'CNAME',
+  'RP',
+  'TXT',
+  'SOA',
+  'HINFO',
+  'SRV',
+  'DANE',
+  'TLSA',
+  'DS',
+  'CAA',
+]);
+export type DnsRecordType = z.infer<typeof dnsRecordTypeSchema>;
+
+export const dnsRecordSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  name: z.string(),
+  value: z.string(),
+  zone_id: z.string(),
+  created: z.string(),
+  modified: z.string(),
+  ttl: z.number().optional(),
+}).passthrough();
+export type DnsRecord = z.infer<typeof dnsRecordSchema>;
 
 // ── Response Wrappers ───────────────────────────────────────────────────────
 
-export interface DnsZonesResponse {
-  zones: DnsZone[];
-  meta: {
-    pagination: {
-      page: number;
-      per_page: number;
-      last_page: number;
-      total_entries: number;
-    };
-  };
-}
+const dnsPaginationSchema = z.object({
+  pagination: z.object({
+    page: z.number(),
+    per_page: z.number(),
+    last_page: z.number(),
+    total_entries: z.number(),
+  }).passthrough(),
+}).passthrough();
+
+export const dnsZonesResponseSchema = z.object({
+  zones: z.array(dnsZoneSchema),
+  meta: dnsPaginationSchema,
+}).passthrough();
+export type DnsZonesResponse = z.infer<typeof dnsZonesResponseSchema>;
 
 export interface DnsZoneResponse {
   zone: DnsZone;
 }
 
-export interface DnsRecordsResponse {
-  records: DnsRecord[];
-  meta?: {
-    pagination: {
-      page: number;
-      per_page: number;
-      last_page: number;
-      total_entries: number;
-    };
-  };
-}
+export const dnsRecordsResponseSchema = z.object({
+  records: z.array(dnsRecordSchema),
+  meta: dnsPaginationSchema.optional(),
+}).passthrough();
+export type DnsRecordsResponse = z.infer<typeof dnsRecordsResponseSchema>;
 
 export interface DnsRecordResponse {
   record: DnsRecord;
 }
 
-export interface DnsBulkCreateResponse {
-  records: DnsRecord[];
-  valid_records: DnsRecord[];
-  invalid_records: Array<{
-    record: Partial<DnsRecord>;
-    message: string;
-  }>;
-}
+export const dnsBulkCreateResponseSchema = z.object({
+  records: z.array(dnsRecordSchema),
+  valid_records: z.array(dnsRecordSchema),
+  invalid_records: z.array(z.object({
+    record: dnsRecordSchema.partial(),
+    message: z.string(),
+  }).passthrough()),
+}).passthrough();
+export type DnsBulkCreateResponse = z.infer<typeof dnsBulkCreateResponseSchema>;
 
-export interface DnsValidationResponse {
-  parsed_records: number;
-  valid_records: Array<{
-    name: string;
-    type: string;
-    value: string;
-    ttl: number;
-  }>;
-}
+export const dnsBulkUpdateResponseSchema = z.object({
+  records: z.array(dnsRecordSchema),
+  failed_records: z.array(dnsRecordSchema.partial()),
+}).passthrough();
+export type DnsBulkUpdateResponse = z.infer<typeof dnsBulkUpdateResponseSchema>;
+
+export const dnsValidationResponseSchema = z.object({
+  parsed_records: z.number(),
+  valid_records: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    value: z.string(),
+    ttl: z.number().optional(),
+  }).passthrough()),
+}).passthrough();
+export type DnsValidationResponse = z.infer<typeof dnsValidationResponseSchema>;
+
+// ── Request Bodies ──────────────────────────────────────────────────────────
+
+export const dnsRecordInputSchema = z.object({
+  zone_id: z.string(),
+  type: dnsRecordTypeSchema,
+  name: z.string().describe('Record name, "@" for the zone apex'),
+  value: z.string(),
+  ttl: z.number().optional().describe('TTL in seconds'),
+});
+export type DnsRecordInput = z.infer<typeof dnsRecordInputSchema>;
+
+export const dnsRecordUpdateInputSchema = dnsRecordInputSchema.extend({
+  id: z.string(),
+});
+export type DnsRecordUpdateInput = z.infer<typeof dnsRecordUpdateInputSchema>;
 
 export interface DnsError {
   error: {
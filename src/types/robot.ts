@@ -1,314 +1,374 @@
 /**
- * Hetzner Robot API response types.
+ * Hetzner Robot API response types and request body schemas.
+ * Shapes returned by tools are Zod schemas with inferred TypeScript types.
  */
 
-// ── Servers ─────────────────────────────────────────────────────────────────
+import { z } from 'zod';
 
-export interface RobotServer {
-  server: {
-    server_ip: string;
-    server_ipv6_net: string;
-    server_number: number;
-    server_name: string;
-    product: string;
-    dc: string;
-    traffic: string;
-    status: 'ready' | 'in process';
-    cancelled: boolean;
-    paid_until: string;
-    ip: string[];
-    subnet: Array<{ ip: string; mask: string }> | null;
-  };
-}
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) => z.union([schema, z.array(schema)]);
 
-export interface RobotServerDetail {
-  server: RobotServer['server'] & {
-    reset: boolean;
-    rescue: boolean;
-    vnc: boolean;
-    windows: boolean;
-    plesk: boolean;
-    cpanel: boolean;
-    wol: boolean;
-    hot_swap: boolean;
-    linked_storagebox: number | null;
-  };
-}
+// ── Servers ─────────────────────────────────────────────────────────────────
+
+const robotServerFields = z.object({
+  server_ip: z.string().nullable(),
+  server_ipv6_net: z.string(),
+  server_number: z.number(),
+  server_name: z.string(),
+  product: z.string(),
+  dc: z.string(),
+  traffic: z.string(),
+  status: z.string(),
+  cancelled: z.boolean(),
+  paid_until: z.string(),
+  ip: z.array(z.string()),
+  subnet: z.array(z.object({ ip: z.string(), mask: z.string() }).passthrough()).nullable(),
+}).passthrough();
+
+export const robotServerSchema = z.object({ server: robotServerFields }).passthrough();
+export type RobotServer = z.infer<typeof robotServerSchema>;
+
+export const robotServerDetailSchema = z.object({
+  server: robotServerFields.extend({
+    reset: z.boolean(),
+    rescue: z.boolean(),
+    vnc: z.boolean(),
+    windows: z.boolean(),
+    plesk: z.boolean(),
+    cpanel: z.boolean(),
+    wol: z.boolean(),
+    hot_swap: z.boolean(),
+    linked_storagebox: z.number().nullable(),
+  }),
+}).passthrough();
+export type RobotServerDetail = z.infer<typeof robotServerDetailSchema>;
 
 // ── Cancellation ────────────────────────────────────────────────────────────
 
-export interface RobotCancellation {
-  cancellation: {
-    server_ip: string;
-    server_ipv6_net: string;
-    server_number: number;
-    server_name: string;
-    earliest_cancellation_date: string;
-    cancelled: boolean;
-    reservation_possible: boolean;
-    reserved: boolean;
-    cancellation_date: string | null;
-    cancellation_reason: string[] | string | null;
-  };
-}
+export const robotCancellationSchema = z.object({
+  cancellation: z.object({
+    server_ip: z.string().nullable(),
+    server_ipv6_net: z.string(),
+    server_number: z.number(),
+    server_name: z.string(),
+    earliest_cancellation_date: z.string(),
+    cancelled: z.boolean(),
+    reservation_possible: z.boolean(),
+    reserved: z.boolean(),
+    cancellation_date: z.string().nullable(),
+    cancellation_reason: z.union([z.array(z.string()), z.string()]).nullable(),
+  }).passthrough(),
+}).passthrough();
+export type RobotCancellation = z.infer<typeof robotCancellationSchema>;
 
 // ── Reset ───────────────────────────────────────────────────────────────────
 
-export interface RobotResetOption {
-  reset: {
-    server_ip: string;
-    server_number: number;
-    type: string[];
-  };
-}
-
-export interface RobotResetResponse {
-  reset: {
-    server_ip: string;
-    server_number: number;
-    type: string;
-  };
-}
+export const robotResetOptionSchema = z.object({
+  reset: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    type: z.array(z.string()),
+  }).passthrough(),
+}).passthrough();
+export type RobotResetOption = z.infer<typeof robotResetOptionSchema>;
+
+export const robotResetResponseSchema = z.object({
+  reset: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    type: z.string(),
+  }).passthrough(),
+}).passthrough();
+export type RobotResetResponse = z.infer<typeof robotResetResponseSchema>;
 
 // ── Wake on LAN ─────────────────────────────────────────────────────────────
 
-export interface RobotWolResponse {
-  wol: {
-    server_ip: string;
-    server_number: number;
-  };
-}
+export const robotWolResponseSchema = z.object({
+  wol: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+  }).passthrough(),
+}).passthrough();
+export type RobotWolResponse = z.infer<typeof robotWolResponseSchema>;
 
 // ── Boot Configuration ──────────────────────────────────────────────────────
 
-export interface RobotBootConfig {
-  rescue?: RobotRescueConfig;
-  linux?: RobotLinuxConfig;
-  vnc?: RobotVncConfig;
-}
-
-export interface RobotRescueConfig {
-  rescue: {
-    server_ip: string;
-    server_number: number;
-    os: string | string[];
-    arch: number | number[];
-    active: boolean;
-    password: string | null;
-    authorized_key: string[];
-    host_key: string[];
-  };
-}
-
-export interface RobotLinuxConfig {
-  linux: {
-    server_ip: string;
-    server_number: number;
-    dist: string | string[];
-    arch: number | number[];
-    lang: string | string[];
-    active: boolean;
-    password: string | null;
-    authorized_key: string[];
-    host_key: string[];
-  };
-}
-
-export interface RobotVncConfig {
-  vnc: {
-    server_ip: string;
-    server_number: number;
-    dist: string | string[];
-    arch: number | number[];
-    lang: string | string[];
-    active: boolean;
-    password: string | null;
-  };
-}
+export const robotRescueConfigSchema = z.object({
+  rescue: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    os: oneOrMany(z.string()),
+    arch: oneOrMany(z.number()).optional(),
+    active: z.boolean(),
+    password: z.string().nullable(),
+    authorized_key: z.array(z.unknown()),
+    host_key: z.array(z.unknown()),
+  }).passthrough(),
+}).passthrough();
+export type RobotRescueConfig = z.infer<typeof robotRescueConfigSchema>;
+
+export const robotLinuxConfigSchema = z.object({
+  linux: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    dist: oneOrMany(z.string()),
+    arch: oneOrMany(z.number()).optional(),
+    lang: oneOrMany(z.string()),
+    active: z.boolean(),
+    password: z.string().nullable(),
+    authorized_key: z.array(z.unknown()),
+    host_key: z.array(z.unknown()),
+  }).passthrough(),
+}).passthrough();
+export type RobotLinuxConfig = z.infer<typeof robotLinuxConfigSchema>;
+
+export const robotVncConfigSchema = z.object({
+  vnc: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    dist: oneOrMany(z.string()),
+    arch: oneOrMany(z.number()).optional(),
+    lang: oneOrMany(z.string()),
+    active: z.boolean(),
+    password: z.string().nullable(),
+  }).passthrough(),
+}).passthrough();
+export type RobotVncConfig = z.infer<typeof robotVncConfigSchema>;
+
+export const robotBootConfigSchema = z.object({
+  boot: z.object({
+    rescue: robotRescueConfigSchema.shape.rescue.nullable().optional(),
+    linux: robotLinuxConfigSchema.shape.linux.nullable().optional(),
+    vnc: robotVncConfigSchema.shape.vnc.nullable().optional(),
+  }).passthrough(),
+}).passthrough();
+export type RobotBootConfig = z.infer<typeof robotBootConfigSchema>;
 
 // ── SSH Keys ────────────────────────────────────────────────────────────────
 
-export interface RobotSSHKey {
-  key: {
-    name: string;
-    fingerprint: string;
-    type: string;
-    size: number;
-    data: string;
-  };
-}
+export const robotSshKeySchema = z.object({
+  key: z.object({
+    name: z.string(),
+    fingerprint: z.string(),
+    type: z.string(),
+    size: z.number(),
+    data: z.string(),
+  }).passthrough(),
+}).passthrough();
+export type RobotSSHKey = z.infer<typeof robotSshKeySchema>;
 
 // ── IPs ─────────────────────────────────────────────────────────────────────
 
-export interface RobotIP {
-  ip: {
-    ip: string;
-    gateway?: string;
-    mask?: number;
-    broadcast?: string;
-    server_ip: string;
-    server_number: number;
-    locked: boolean;
-    separate_mac: string | null;
-    traffic_warnings: boolean;
-    traffic_hourly: number;
-    traffic_daily: number;
-    traffic_monthly: number;
-  };
-}
-
-export interface RobotMAC {
-  mac: {
-    ip: string;
-    mac: string | null;
-  };
-}
+export const robotIpSchema = z.object({
+  ip: z.object({
+    ip: z.string(),
+    gateway: z.string().optional(),
+    mask: z.number().optional(),
+    broadcast: z.string().optional(),
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    locked: z.boolean(),
+    separate_mac: z.string().nullable(),
+    traffic_warnings: z.boolean(),
+    traffic_hourly: z.number(),
+    traffic_daily: z.number(),
+    traffic_monthly: z.number(),
+  }).passthrough(),
+}).passthrough();
+export type RobotIP = z.infer<typeof robotIpSchema>;
+
+export const robotMacSchema = z.object({
+  mac: z.object({
+    ip: z.string(),
+    mac: z.string().nullable(),
+  }).passthrough(),
+}).passthrough();
+export type RobotMAC = z.infer<typeof robotMacSchema>;
 
 // ── Subnets ─────────────────────────────────────────────────────────────────
 
-export interface RobotSubnet {
-  subnet: {
-    ip: string;
-    mask: number;
-    gateway: string;
-    server_ip: string | null;
-    server_number: number;
-    failover: boolean;
-    locked: boolean;
-    traffic_warnings: boolean;
-    traffic_hourly: number;
-    traffic_daily: number;
-    traffic_monthly: number;
-  };
-}
+export const robotSubnetSchema = z.object({
+  subnet: z.object({
+    ip: z.string(),
+    mask: z.number(),
+    gateway: z.string(),
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    failover: z.boolean(),
+    locked: z.boolean(),
+    traffic_warnings: z.boolean(),
+    traffic_hourly: z.number(),
+    traffic_daily: z.number(),
+    traffic_monthly: z.number(),
+  }).passthrough(),
+}).passthrough();
+export type RobotSubnet = z.infer<typeof robotSubnetSchema>;
 
 // ── Failover ────────────────────────────────────────────────────────────────
 
-export interface RobotFailover {
-  failover: {
-    ip: string;
-    netmask: string;
-    server_ip: string;
-    server_number: number;
-    active_server_ip: string;
-  };
-}
+export const robotFailoverSchema = z.object({
+  failover: z.object({
+    ip: z.string(),
+    netmask: z.string(),
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    active_server_ip: z.string().nullable(),
+  }).passthrough(),
+}).passthrough();
+export type RobotFailover = z.infer<typeof robotFailoverSchema>;
 
 // ── Firewall ────────────────────────────────────────────────────────────────
 
-export interface RobotFirewallRule {
-  ip_version: 'ipv4' | 'ipv6';
-  name: string;
-  dst_ip: string | null;
-  dst_port: string | null;
-  src_ip: string | null;
-  src_port: string | null;
-  protocol: string | null;
-  tcp_flags: string | null;
-  action: 'accept' | 'discard';
-}
-
-export interface RobotFirewall {
-  firewall: {
-    server_ip: string;
-    server_number: number;
-    status: 'active' | 'disabled' | 'in process';
-    filter_ipv6: boolean;
-    whitelist_hos: boolean;
-    port: 'main' | 'kvm';
-    rules: {
-      input: RobotFirewallRule[];
-      output: RobotFirewallRule[];
-    };
-  };
-}
-
-export interface RobotFirewallTemplate {
-  id: number;
-  name: string;
-  is_default: boolean;
-  filter_ipv6: boolean;
-  whitelist_hos: boolean;
-  rules: {
-    input: RobotFirewallRule[];
-    output: RobotFirewallRule[];
-  };
-}
+export const robotFirewallRuleSchema = z.object({
+  ip_version: z.string().nullable().optional(),
+  name: z.string(),
+  dst_ip: z.string().nullable().optional(),
+  dst_port: z.string().nullable().optional(),
+  src_ip: z.string().nullable().optional(),
+  src_port: z.string().nullable().optional(),
+  protocol: z.string().nullable().optional(),
+  tcp_flags: z.string().nullable().optional(),
+  action: z.string(),
+}).passthrough();
+export type RobotFirewallRule = z.infer<typeof robotFirewallRuleSchema>;
+
+const robotFirewallRulesSchema = z.object({
+  input: z.array(robotFirewallRuleSchema),
+  output: z.array(robotFirewallRuleSchema).optional(),
+}).passthrough();
+
+export const robotFirewallSchema = z.object({
+  firewall: z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    status: z.string(),
+    filter_ipv6: z.boolean(),
+    whitelist_hos: z.boolean(),
+    port: z.string(),
+    rules: robotFirewallRulesSchema,
+  }).passthrough(),
+}).passthrough();
+export type RobotFirewall = z.infer<typeof robotFirewallSchema>;
+
+export const robotFirewallTemplateSchema = z.object({
+  firewall_template: z.object({
+    id: z.number(),
+    name: z.string(),
+    is_default: z.boolean(),
+    filter_ipv6: z.boolean(),
+    whitelist_hos: z.boolean(),
+    rules: robotFirewallRulesSchema.optional(),
+  }).passthrough(),
+}).passthrough();
+export type RobotFirewallTemplate = z.infer<typeof robotFirewallTemplateSchema>;
 
 // ── vSwitch ─────────────────────────────────────────────────────────────────
 
-export interface RobotVSwitch {
-  id: number;
-  name: string;
-  vlan: number;
-  cancelled: boolean;
-  server: Array<{
-    server_ip: string;
-    server_number: number;
-    status: 'ready' | 'in process';
-  }>;
-  subnet: Array<{
-    ip: string;
-    mask: number;
-    gateway: string;
-  }>;
-  cloud_network: Array<{
-    id: number;
-    ip: string;
-    mask: number;
-    gateway: string;
-  }>;
-}
+export const robotVswitchSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  vlan: z.number(),
+  cancelled: z.boolean(),
+  server: z.array(z.object({
+    server_ip: z.string().nullable(),
+    server_number: z.number(),
+    status: z.string(),
+  }).passthrough()).optional(),
+  subnet: z.array(z.object({
+    ip: z.string(),
+    mask: z.number(),
+    gateway: z.string(),
+  }).passthrough()).optional(),
+  cloud_network: z.array(z.object({
+    id: z.number(),
+    ip: z.string(),
+    mask: z.number(),
+    gateway: z.string(),
+  }).passthrough()).optional(),
+}).passthrough();
+export type RobotVSwitch = z.infer<typeof robotVswitchSchema>;
 
 // ── RDNS ────────────────────────────────────────────────────────────────────
 
-export interface RobotRdns {
-  rdns: {
-    ip: string;
-    ptr: string;
-  };
-}
+export const robotRdnsSchema = z.object({
+  rdns: z.object({
+    ip: z.string(),
+    ptr: z.string(),
+  }).passthrough(),
+}).passthrough();
+export type RobotRdns = z.infer<typeof robotRdnsSchema>;
 
 // ── Traffic ─────────────────────────────────────────────────────────────────
 
-export interface RobotTraffic {
-  traffic: {
-    type: string;
-    from: string;
-    to: string;
-    data: Record<string, {
-      in: number;
-      out: number;
-      sum: number;
-    }>;
-  };
-}
+const trafficValuesSchema = z.object({
+  in: z.number(),
+  out: z.number(),
+  sum: z.number(),
+}).passthrough();
+
+export const robotTrafficSchema = z.object({
+  traffic: z.object({
+    type: z.string(),
+    from: z.string(),
+    to: z.string(),
+    data: z.record(z.union([trafficValuesSchema, z.record(trafficValuesSchema)])),
+  }).passthrough(),
+}).passthrough();
+export type RobotTraffic = z.infer<typeof robotTrafficSchema>;
 
 // ── Storage Box ─────────────────────────────────────────────────────────────
 
-export interface RobotStorageBox {
-  storagebox: {
-    id: number;
-    login: string;
-    name: string;
-    product: string;
-    cancelled: boolean;
-    locked: boolean;
-    location: string;
-    linked_server: number | null;
-    paid_until: string;
-    disk_quota: number;
-    disk_usage: number;
-    disk_usage_data: number;
-    disk_usage_snapshots: number;
-    webdav: boolean;
-    samba: boolean;
-    ssh: boolean;
-    external_reachability: boolean;
-    zfs: boolean;
-    server: string;
-  };
-}
+const robotStorageBoxFields = z.object({
+  id: z.number(),
+  login: z.string(),
+  name: z.string(),
+  product: z.string(),
+  cancelled: z.boolean(),
+  locked: z.boolean(),
+  location: z.string(),
+  linked_server: z.number().nullable(),
+  paid_until: z.string(),
+}).passthrough();
+
+/** Storage box as listed by GET /storagebox. */
+export const robotStorageBoxSummarySchema = z.object({ storagebox: robotStorageBoxFields }).passthrough();
+export type RobotStorageBoxSummary = z.infer<typeof robotStorageBoxSummarySchema>;
+
+export const robotStorageBoxSchema = z.object({
+  storagebox: robotStorageBoxFields.extend({
+    disk_quota: z.number(),
+    disk_usage: z.number(),
+    disk_usage_data: z.number(),
+    disk_usage_snapshots: z.number(),
+    webdav: z.boolean(),
+    samba: z.boolean(),
+    ssh: z.boolean(),
+    external_reachability: z.boolean(),
+    zfs: z.boolean(),
+    server: z.string(),
+  }),
+}).passthrough();
+export type RobotStorageBox = z.infer<typeof robotStorageBoxSchema>;
+
+// ── Request Bodies ──────────────────────────────────────────────────────────
+
+export const robotFirewallRuleInputSchema = z.object({
+  name: z.string(),
+  ip_version: z.enum(['ipv4', 'ipv6']).optional(),
+  dst_ip: z.string().optional().describe('Destination CIDR'),
+  dst_port: z.string().optional().describe('Port or range, e.g. "443" or "32768-65535"'),
+  src_ip: z.string().optional().describe('Source CIDR'),
+  src_port: z.string().optional(),
+  protocol: z.enum(['tcp', 'udp', 'gre', 'icmp', 'ipip', 'ah', 'esp']).optional(),
+  tcp_flags: z.string().optional(),
+  action: z.enum(['accept', 'discard']),
+});
+export type RobotFirewallRuleInput = z.infer<typeof robotFirewallRuleInputSchema>;
+
+export const robotFirewallRulesInputSchema = z.object({
+  input: z.array(robotFirewallRuleInputSchema).optional(),
+  output: z.array(robotFirewallRuleInputSchema).optional(),
+}).describe('Rules by direction; each list is evaluated in order');
+export type RobotFirewallRulesInput = z.infer<typeof robotFirewallRulesInputSchema>;
 
 // ── Errors ──────────────────────────────────────────────────────────────────
 
@@ -0,0 +1,215 @@
+/**
+ * API client behaviour against the mock Hetzner API: pagination, retries,
+ * action polling, caching, Robot form encoding and fixture record/replay.
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { CloudClient } from '../src/clients/cloud.js';
+import { parseRateLimitHeaders } from '../src/clients/common.js';
+import { RobotClient } from '../src/clients/robot.js';
+import { MAX_RETRY_DELAY_MS, RateLimitScheduler } from '../src/clients/scheduler.js';
+import { runWithContext } from '../src/context.js';
+import { startMockServer, type MockServer } from '../src/mock/server.js';
+import { startHarness } from './harness.js';
+
+let mock: MockServer | null = null;
+
+afterEach(async () => {
+  await mock?.close();
+  mock = null;
+});
+
+async function cloudClient(options?: Parameters<typeof startMockServer>[0]): Promise<CloudClient> {
+  mock = await startMockServer(options);
+  return new CloudClient({ token: 'mock-token', baseUrl: mock.cloudUrl });
+}
+
+describe('CloudClient', () => {
+  it('follows pagination meta across pages', async () => {
+    const cloud = await cloudClient();
+    for (let i = 0; i < 60; i++) {
+      await cloud.request('/ssh_keys', { method: 'POST', body: { name: `key-${i}`, public_key: `ssh-ed25519 KEY${i}` } });
+    }
+    const keys = await cloud.requestAll<{ name: string }>('/ssh_keys', 'ssh_keys');
+    expect(keys).toHaveLength(61);
+    expect(mock!.cloud.requests.filter((r) => r.startsWith('GET /ssh_keys'))).toHaveLength(2);
+  });
+
+  it('tracks rate-limit headers', async () => {
+    const cloud = await cloudClient({ cloud: { rateLimit: 500 } });
+    await cloud.request('/servers');
+    expect(cloud.lastRateLimit).toMatchObject({ limit: 500, remaining: 499 });
+    expect(cloud.rateLimitStatus().limit).toBe(500);
+  });
+
+  it('retries 503 responses honoring Retry-After', async () => {
+    const cloud = await cloudClient();
+    mock!.cloud.injectError(503, 1, 0);
+    const result = await cloud.request<{ servers: unknown[] }>('/servers');
+    expect(result.servers).toHaveLength(2);
+    expect(cloud.rateLimitStatus().retried_requests).toBe(1);
+  });
+
+  it('stops waiting to retry when the call is cancelled', async () => {
+    const cloud = await cloudClient();
+    mock!.cloud.injectError(429, 1, 30);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    await expect(runWithContext({ tool: 'list_servers', signal: controller.signal }, () => cloud.request('/servers')))
+      .rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it('surfaces API errors with their code', async () => {
+    const cloud = await cloudClient();
+    await expect(cloud.request('/servers/999999')).rejects.toMatchObject({ status: 404, code: 'not_found' });
+  });
+
+  it('polls actions until they finish', async () => {
+    const cloud = await cloudClient({ cloud: { actionProgressStep: 50 } });
+    const { action } = await cloud.request<{ action: { id: number } }>(`/servers/${mock!.cloud.list('servers')[0].id}/actions/poweroff`, { method: 'POST' });
+    const finished = await cloud.pollAction(action.id);
+    expect(finished).toMatchObject({ status: 'success', progress: 100 });
+  });
+
+  it('serves catalog lookups from the cache', async () => {
+    const cloud = await cloudClient();
+    await cloud.requestAll('/server_types', 'server_types');
+    await cloud.requestAll('/server_types', 'server_types');
+    await cloud.request('/servers');
+    await cloud.request('/servers');
+    const requests = mock!.cloud.requests;
+    expect(requests.filter((r) => r.startsWith('GET /server_types'))).toHaveLength(1);
+    expect(requests.filter((r) => r.startsWith('GET /servers'))).toHaveLength(2);
+    expect(cloud.clearCache()).toBe(1);
+  });
+});
+
+describe('RateLimitScheduler', () => {
+  it('waits for one token, not the far-off reset, after a 429 without Retry-After', () => {
+    const scheduler = new RateLimitScheduler();
+    const headers = new Headers({
+      'RateLimit-Limit': '3600',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 3600),
+    });
+    scheduler.update(parseRateLimitHeaders(headers)!);
+    const delay = scheduler.retryDelay(429, headers, 0);
+    expect(delay).toBeGreaterThanOrEqual(1000);
+    expect(delay).toBeLessThan(1250);
+  });
+
+  it('caps a long Retry-After', () => {
+    const delay = new RateLimitScheduler().retryDelay(429, new Headers({ 'Retry-After': '7200' }), 0);
+    expect(delay).toBeGreaterThanOrEqual(MAX_RETRY_DELAY_MS);
+    expect(delay).toBeLessThan(MAX_RETRY_DELAY_MS + 250);
+  });
+
+  it('waits for one token to refill when the reset has passed', () => {
+    const scheduler = new RateLimitScheduler();
+    scheduler.update({ limit: 3600, remaining: 0, reset: Math.floor(Date.now() / 1000) - 5 });
+    const delay = scheduler.retryDelay(429, new Headers(), 0);
+    expect(delay).toBeGreaterThanOrEqual(1000);
+    expect(delay).toBeLessThan(1250);
+  });
+});
+
+describe('RobotClient', () => {
+  it('sends nested bodies form-encoded', async () => {
+    mock = await startMockServer();
+    const robot = new RobotClient({ user: 'mock-user', password: 'mock-password', baseUrl: mock.robotUrl });
+    const result = await robot.request<{ firewall: { rules: { input: Array<Record<string, unknown>> } } }>('/firewall/321', {
+      method: 'POST',
+      body: { status: 'active', rules: { input: [{ name: 'web', dst_port: '80', action: 'accept' }] } },
+    });
+    expect(result.firewall.rules.input).toEqual([expect.objectContaining({ name: 'web', dst_port: '80', action: 'accept' })]);
+  });
+});
+
+describe('fixtures', () => {
+  it('records scrubbed interactions and replays them offline', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'hetzner-fixtures-'));
+    const session = async (mode: 'record' | 'replay') => {
+      const h = await startHarness({ env: { HETZNER_FIXTURES: mode, HETZNER_FIXTURES_DIR: dir } });
+      try {
+        const id = h.mock.cloud.list('servers')[0].id;
+        const outputs = [
+          await h.call('list_servers'),
+          await h.call('enable_server_rescue', { id, type: 'linux64' }),
+          await h.call('list_robot_servers'),
+          await h.call('rename_robot_server', { server_number: 321, server_name: 'db-primary' }),
+        ];
+        return { outputs, requests: h.mock.cloud.requests.length + h.mock.robot.requests.length };
+      } finally {
+        await h.close();
+      }
+    };
+
+    try {
+      const recorded = await session('record');
+      expect(recorded.outputs.every((o) => !o.isError)).toBe(true);
+      const cloudFixture = readFileSync(join(dir, 'default-cloud.jsonl'), 'utf8');
+      const robotFixture = readFileSync(join(dir, 'default-robot.jsonl'), 'utf8');
+      expect(cloudFixture).toContain('/servers');
+      expect(robotFixture).toContain('server_name=db-primary');
+      for (const fixture of [cloudFixture, robotFixture]) {
+        expect(fixture).not.toContain('mock-token');
+        expect(fixture).not.toContain('mock-password');
+        expect(fixture).not.toMatch(/"root_password\\?":\\?"mock-/);
+      }
+
+      const replayed = await session('replay');
+      expect(replayed.requests).toBe(0);
+      expect(replayed.outputs[0].text).toBe(recorded.outputs[0].text);
+      expect(replayed.outputs[1].text).toContain('[REDACTED]');
+      expect(replayed.outputs[2].text).toBe(recorded.outputs[2].text);
+      expect(replayed.outputs[3].text).toBe(recorded.outputs[3].text);
+
+      const h = await startHarness({ env: { HETZNER_FIXTURES: 'replay', HETZNER_FIXTURES_DIR: dir } });
+      try {
+        const miss = await h.call('get_server', { id: 999 });
+        expect(miss.isError).toBe(true);
+        expect(miss.text).toContain('No recorded response for GET /servers/999');
+      } finally {
+        await h.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('replays without a recorded file and fails only the requests sent', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'hetzner-fixtures-'));
+    try {
+      const h = await startHarness({ env: { HETZNER_FIXTURES: 'replay', HETZNER_FIXTURES_DIR: dir } });
+      try {
+        const miss = await h.call('list_servers');
+        expect(miss.isError).toBe(true);
+        expect(miss.text).toContain('No recorded response for GET /servers');
+        expect(miss.text).toContain('default-cloud.jsonl (the file does not exist)');
+      } finally {
+        await h.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('read-only mode', () => {
+  it('registers only read tools', async () => {
+    const h = await startHarness({ env: { HETZNER_MODE: 'read_only' } });
+    try {
+      const names = (await h.client.listTools()).tools.map((t) => t.name);
+      expect(names).toContain('list_servers');
+      expect(names).not.toContain('create_server');
+      expect(names).not.toContain('reset_robot_server');
+    } finally {
+      await h.close();
+    }
+  });
+});
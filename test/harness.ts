@@ -0,0 +1,132 @@
+/**
+ * Test harness — an MCP client connected in-process to hetzner-mcp, whose
+ * API clients point at the mock Hetzner API server.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuditLog } from '../src/audit.js';
+import { loadConfig } from '../src/config.js';
+import { ProjectRegistry } from '../src/projects.js';
+import { registerAllTools, type ToolOptions } from '../src/server.js';
+import { registerAllResources } from '../src/resources.js';
+import { registerAllPrompts } from '../src/prompts.js';
+import { startMockServer, type MockServer, type MockServerOptions } from '../src/mock/server.js';
+
+export interface ToolResult<T = Record<string, unknown>> {
+  text: string;
+  isError: boolean;
+  /** Structured content; empty for errors, which carry none. */
+  structured: T;
+  meta?: Record<string, unknown>;
+}
+
+export interface Harness {
+  mock: MockServer;
+  client: Client;
+  projects: ProjectRegistry;
+  /** Audit log file, in a temporary directory removed by `close()`. */
+  auditPath: string;
+  /** Another MCP server with the same configuration, e.g. to serve over HTTP. */
+  createServer(): McpServer;
+  call<T = Record<string, unknown>>(name: string, args?: Record<string, unknown>, request?: RequestOptions): Promise<ToolResult<T>>;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  mock?: MockServerOptions;
+  tools?: Partial<ToolOptions>;
+  /** Extra environment variables applied while loading the config. */
+  env?: Record<string, string>;
+}
+
+/**
+ * Start a mock API server and an MCP server configured against it through
+ * `HETZNER_CLOUD_URL` / `HETZNER_ROBOT_URL`, as a user would.
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const mock = await startMockServer(options.mock);
+  const auditDir = mkdtempSync(join(tmpdir(), 'hetzner-mcp-audit-'));
+
+  const env: Record<string, string> = {
+    HETZNER_CLOUD_TOKEN: 'mock-token',
+    HETZNER_CLOUD_URL: mock.cloudUrl,
+    HETZNER_ROBOT_USER: 'mock-user',
+    HETZNER_ROBOT_PASSWORD: 'mock-password',
+    HETZNER_ROBOT_URL: mock.robotUrl,
+    HETZNER_MODE: 'read_write',
+    HETZNER_AUDIT_LOG: join(auditDir, 'audit.jsonl'),
+    ...options.env,
+  };
+  const saved = Object.fromEntries(Object.keys(env).map((k) => [k, process.env[k]]));
+  Object.assign(process.env, env);
+  let config;
+  try {
+    config = loadConfig([]);
+  } finally {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+
+  const projects = new ProjectRegistry(config.profiles, config.defaultProfile, config.fixtures);
+  const toolOptions: ToolOptions = {
+    readOnly: config.mode === 'read_only',
+    policy: config.policy,
+    guard: config.guard,
+    dryRunDefault: config.dryRun,
+    audit: config.auditLogPath ? new AuditLog(config.auditLogPath) : null,
+    blueprintsDir: config.blueprintsDir,
+    ...options.tools,
+  };
+  const createServer = (): McpServer => {
+    const created = new McpServer({ name: 'hetzner-mcp', version: '0.1.0' });
+    registerAllTools(created, projects, toolOptions);
+    registerAllResources(created, projects);
+    registerAllPrompts(created, projects);
+    return created;
+  };
+  const server = createServer();
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'hetzner-mcp-tests', version: '0.1.0' });
+  await client.connect(clientTransport);
+
+  return {
+    mock,
+    client,
+    projects,
+    auditPath: env.HETZNER_AUDIT_LOG,
+    createServer,
+    async call<T>(name: string, args: Record<string, unknown> = {}, request?: RequestOptions) {
+      const result = await client.callTool({ name, arguments: args }, undefined, request);
+      const content = result.content as Array<{ type: string; text: string }>;
+      return {
+        text: content.map((c) => c.text).join('\n'),
+        isError: result.isError === true,
+        structured: (result.structuredContent ?? {}) as T,
+        meta: result._meta,
+      };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await mock.close();
+      rmSync(auditDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Parse the JSON document in a tool result's text content.
+ */
+export function parseJson<T>(text: string): T {
+  return JSON.parse(text) as T;
+}
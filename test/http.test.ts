@@ -0,0 +1,85 @@
+/**
+ * HTTP transport: bearer-token auth, the health check, an MCP session over
+ * Streamable HTTP and idle-session expiry, served on an ephemeral port.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerHandle } from '../src/transports/http.js';
+import { startHarness, type Harness } from './harness.js';
+
+const TOKEN = 'test-token';
+
+let h: Harness;
+let http: HttpServerHandle;
+let baseUrl: string;
+
+beforeAll(async () => {
+  h = await startHarness();
+  http = await startHttpServer(h.createServer, { host: '127.0.0.1', port: 0, authToken: TOKEN });
+  baseUrl = `http://127.0.0.1:${http.port}`;
+});
+
+afterAll(async () => {
+  await http.close();
+  await h.close();
+});
+
+describe('HTTP transport', () => {
+  it('serves /health without a token', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('rejects MCP requests without the bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}', headers: { Authorization: 'Bearer nope' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('initializes a Streamable HTTP session and lists tools', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    });
+    const client = new Client({ name: 'hetzner-mcp-tests', version: '0.1.0' });
+    try {
+      await client.connect(transport);
+      expect(transport.sessionId).toBeTruthy();
+      expect(client.getServerVersion()).toMatchObject({ name: 'hetzner-mcp' });
+
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toEqual(expect.arrayContaining(['list_servers', 'create_server', 'list_dns_zones']));
+
+      const health = await fetch(`${baseUrl}/health`);
+      expect(await health.json()).toEqual({ status: 'ok', sessions: 1 });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    const idle = await startHttpServer(h.createServer, { host: '127.0.0.1', port: 0, authToken: TOKEN, sessionIdleTimeoutMs: 200 });
+    const idleUrl = `http://127.0.0.1:${idle.port}`;
+    const transport = new StreamableHTTPClientTransport(new URL(`${idleUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    });
+    const client = new Client({ name: 'hetzner-mcp-tests', version: '0.1.0' });
+    try {
+      await client.connect(transport);
+      const health = async () => (await (await fetch(`${idleUrl}/health`)).json()) as { sessions: number };
+      expect(await health()).toMatchObject({ sessions: 1 });
+
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect(await health()).toMatchObject({ sessions: 0 });
+      await expect(client.listTools()).rejects.toThrow(/Unknown session ID/);
+    } finally {
+      await client.close();
+      await idle.close();
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * MCP prompts: runbooks pre-filled with the current state of the mock
+ * Hetzner API.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { CloudCollections } from '../src/mock/cloud.js';
+import { startHarness, type Harness } from './harness.js';
+
+let h: Harness;
+
+beforeAll(async () => {
+  h = await startHarness();
+});
+
+afterAll(async () => {
+  await h.close();
+});
+
+const prompt = async (name: string, args: Record<string, string>) => {
+  const result = await h.client.getPrompt({ name, arguments: args });
+  expect(result.messages).toHaveLength(1);
+  return (result.messages[0].content as { text: string }).text;
+};
+
+const seeded = <K extends keyof CloudCollections>(collection: K, name: string) =>
+  h.mock.cloud.list(collection).find((r) => r.name === name)!;
+
+describe('prompts', () => {
+  it('lists the runbooks', async () => {
+    const { prompts } = await h.client.listPrompts();
+    expect(prompts.map((p) => p.name).sort()).toEqual([
+      'migrate_dns_zone',
+      'replace_load_balancer_target',
+      'rescue_dedicated_server',
+      'rotate_ssh_key',
+    ]);
+  });
+
+  it('pre-fills rotate_ssh_key with the key and the servers in scope', async () => {
+    const key = seeded('ssh_keys', 'admin');
+    const web = seeded('servers', 'web-1');
+    const text = await prompt('rotate_ssh_key', { old_key: 'admin', label_selector: 'role=web' });
+    expect(text).toContain(`Old key: admin (ID ${key.id}, fingerprint ${key.fingerprint})`);
+    expect(text).toContain(`Servers in scope (label selector "role=web"):\n- web-1 (ID ${web.id}, running, ${web.public_net.ipv4!.ip})\nSSH keys`);
+    expect(text).toContain(`call \`create_ssh_key\` with name "admin-rotated"`);
+    expect(text).toContain(`Call \`delete_ssh_key\` for the old key (ID ${key.id})`);
+  });
+
+  it('flags references that match nothing', async () => {
+    const text = await prompt('rotate_ssh_key', { old_key: 'missing' });
+    expect(text).toContain('Old key: NOT FOUND — confirm the name/ID before continuing');
+  });
+
+  it('pre-fills replace_load_balancer_target with the targets and servers', async () => {
+    const lb = seeded('load_balancers', 'web-lb');
+    const web = seeded('servers', 'web-1');
+    const staging = seeded('servers', 'staging-1');
+    const text = await prompt('replace_load_balancer_target', { load_balancer: 'web-lb', old_server: 'web-1', new_server: String(staging.id) });
+    expect(text).toContain(`Load balancer: web-lb (ID ${lb.id}, lb11, algorithm round_robin)`);
+    expect(text).toContain(`"id": ${web.id}`);
+    expect(text).toContain(`Old server: web-1 (ID ${web.id}, running)`);
+    expect(text).toContain(`Replacement server: staging-1 (ID ${staging.id}, running)`);
+    expect(text).toContain(`Call \`remove_load_balancer_target\` for the old server (ID ${web.id})`);
+  });
+
+  it('pre-fills migrate_dns_zone with the existing zone and its records', async () => {
+    const web = seeded('servers', 'web-1');
+    const text = await prompt('migrate_dns_zone', { zone: 'example.com', source: 'route53' });
+    expect(text).toMatch(/^# Runbook: migrate DNS zone "example.com" from route53\n/);
+    expect(text).toMatch(/Zone exists in this project: ID \w+, status verified, 2 records/);
+    expect(text).toContain(`Records:\n- @ A ${web.public_net.ipv4!.ip} (ttl 300)\n- www CNAME example.com.`);
+
+    const fresh = await prompt('migrate_dns_zone', { zone: 'example.org' });
+    expect(fresh).toContain('Zone does not exist in this project yet.');
+    expect(fresh).toContain('Call `create_dns_zone` with name "example.org".');
+  });
+
+  it('pre-fills rescue_dedicated_server with the server, rescue and reset state', async () => {
+    const text = await prompt('rescue_dedicated_server', { server_number: '321', problem: 'no SSH' });
+    expect(text).toMatch(/^# Runbook: rescue dedicated server 321 — no SSH\n/);
+    expect(text).toContain('Server: db-1 — AX41-NVMe in FSN1-DC1, IP 198.51.100.10, status ready');
+    expect(text).toContain('Rescue: inactive; available OS: linux, vkvm');
+    expect(text).toContain('Reset types: sw, hw, man');
+    expect(text).toContain('SSH as root to 198.51.100.10');
+  });
+});
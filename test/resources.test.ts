@@ -0,0 +1,61 @@
+/**
+ * MCP resources: listing and reading Cloud, DNS and Robot state through the
+ * resource templates, against the mock Hetzner API.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startHarness, type Harness } from './harness.js';
+
+let h: Harness;
+
+beforeAll(async () => {
+  h = await startHarness();
+});
+
+afterAll(async () => {
+  await h.close();
+});
+
+const read = async (uri: string) => {
+  const { contents } = await h.client.readResource({ uri });
+  expect(contents).toHaveLength(1);
+  return contents[0] as { uri: string; mimeType: string; text: string };
+};
+
+describe('resources', () => {
+  it('lists Cloud, DNS and Robot resources by URI', async () => {
+    const web = h.mock.cloud.list('servers').find((s) => s.name === 'web-1')!;
+    const { resources } = await h.client.listResources();
+    expect(resources).toEqual(expect.arrayContaining([
+      { uri: `hetzner://cloud/servers/${web.id}`, name: 'web-1', description: `Server ${web.id}`, mimeType: 'application/json' },
+      expect.objectContaining({ uri: expect.stringMatching(/^hetzner:\/\/dns\/zones\/\w+\/zonefile$/), name: 'example.com zone file', mimeType: 'text/plain' }),
+      expect.objectContaining({ uri: 'hetzner://robot/servers/321', name: 'db-1' }),
+    ]));
+  });
+
+  it('reads a Cloud resource as JSON', async () => {
+    const web = h.mock.cloud.list('servers').find((s) => s.name === 'web-1')!;
+    const content = await read(`hetzner://cloud/servers/${web.id}`);
+    expect(content.mimeType).toBe('application/json');
+    expect(JSON.parse(content.text)).toMatchObject({ id: web.id, name: 'web-1', labels: { env: 'prod', role: 'web' } });
+  });
+
+  it('reads a DNS zone as a BIND zone file', async () => {
+    const web = h.mock.cloud.list('servers').find((s) => s.name === 'web-1')!;
+    const zones = await h.call<{ zones: Array<{ id: string }> }>('list_dns_zones', { name: 'example.com' });
+    const content = await read(`hetzner://dns/zones/${zones.structured.zones[0].id}/zonefile`);
+    expect(content.mimeType).toBe('text/plain');
+    expect(content.text).toBe(
+      `$ORIGIN example.com.\n$TTL 86400\n@\t300\tIN\tA\t${web.public_net.ipv4!.ip}\nwww\tIN\tCNAME\texample.com.\n`,
+    );
+  });
+
+  it('reads a Robot server', async () => {
+    const content = await read('hetzner://robot/servers/321');
+    expect(JSON.parse(content.text).server).toMatchObject({ server_number: 321, server_name: 'db-1' });
+  });
+
+  it('fails reads of missing resources', async () => {
+    await expect(h.client.readResource({ uri: 'hetzner://cloud/servers/999999' })).rejects.toThrow(/not found/i);
+  });
+});